@@ -0,0 +1,38 @@
+import Link from 'next/link';
+import type { Metadata } from 'next';
+import { AlertSettings } from '@/app/components/AlertSettings';
+import { getTranslator } from '@/app/locales';
+import { getRequestLocale, LocalePageProps } from '@/app/utils/requestLocale';
+
+export async function generateMetadata({ params }: LocalePageProps): Promise<Metadata> {
+    const t = getTranslator(await getRequestLocale(params));
+    return {
+        title: `${t('alerts.title')} | ${t('app.name')}`,
+        description: t('alerts.description'),
+    };
+}
+
+export default async function AlertsPage({ params }: LocalePageProps) {
+    const t = getTranslator(await getRequestLocale(params));
+
+    return (
+        <div className="min-h-screen bg-gray-50">
+            <div className="max-w-3xl mx-auto px-4 py-12">
+                <Link href="/" className="inline-flex items-center gap-2 text-blue-600 hover:text-blue-800 mb-8">
+                    <svg xmlns="http://www.w3.org/2000/svg" height="20px" viewBox="0 -960 960 960" width="20px" fill="currentColor">
+                        <path d="M400-80 0-480l400-400 71 71-329 329 329 329-71 71Z" />
+                    </svg>
+                    {t('common.backHome')}
+                </Link>
+
+                <h1 className="text-3xl font-bold text-gray-900 mb-8">{t('alerts.title')}</h1>
+
+                <AlertSettings />
+
+                <p className="text-xs text-gray-400 text-center">
+                    {t('alerts.footnote')}
+                </p>
+            </div>
+        </div>
+    );
+}
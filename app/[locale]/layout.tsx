@@ -0,0 +1,91 @@
+import type { Metadata, Viewport } from 'next';
+import Script from "next/script";
+import { Inter } from 'next/font/google';
+import '../globals.css';
+import { InstallPrompt } from '../components/InstallPrompt';
+import { I18nProvider } from '../providers/I18nProvider';
+import { notFound } from 'next/navigation';
+import { getTranslator } from '../locales';
+import { isLocale, LOCALES } from '../utils/locale';
+import { getRequestLocale } from '../utils/requestLocale';
+
+const inter = Inter({
+  variable: '--font-inter',
+  subsets: ['latin'],
+  weight: ['400', '500', '600', '700', '800'],
+});
+
+interface RootLayoutProps {
+  children: React.ReactNode;
+  params: Promise<{ locale: string }>;
+}
+
+// 언어별로 미리 생성 (proxy.ts가 요청 언어 경로로 재작성)
+export function generateStaticParams() {
+  return LOCALES.map((locale) => ({ locale }));
+}
+
+export async function generateMetadata({ params }: Omit<RootLayoutProps, 'children'>): Promise<Metadata> {
+  const t = getTranslator(await getRequestLocale(params));
+
+  return {
+    title: t('app.name'),
+    description: t('app.tagline'),
+    manifest: '/manifest.json',
+    appleWebApp: {
+      capable: true,
+      statusBarStyle: 'default',
+      title: t('app.name'),
+    },
+    formatDetection: {
+      telephone: false,
+    },
+    icons: {
+      icon: '/icons/icon.svg',
+      apple: '/icons/icon.svg',
+    },
+  };
+}
+
+export const viewport: Viewport = {
+  width: 'device-width',
+  initialScale: 1,
+  maximumScale: 1,
+  userScalable: false,
+  themeColor: '#ffffff',
+};
+
+export default async function RootLayout({ children, params }: Readonly<RootLayoutProps>) {
+  const { locale } = await params;
+  if (!isLocale(locale)) notFound();
+
+  return (
+    <html lang={locale}>
+      <head>
+        {/* iOS 스플래시 스크린 */}
+        <link
+          rel="apple-touch-startup-image"
+          href="/icons/icon-512x512.png"
+        />
+        {/* iOS 상태바 스타일 - 흰색 배경 */}
+        <meta name="apple-mobile-web-app-status-bar-style" content="default" />
+        {/* 추가 theme-color for iOS Safari */}
+        <meta name="theme-color" content="#ffffff" media="(prefers-color-scheme: light)" />
+        <meta name="theme-color" content="#ffffff" media="(prefers-color-scheme: dark)" />
+        <Script
+          async
+          src="https://pagead2.googlesyndication.com/pagead/js/adsbygoogle.js?client=ca-pub-9760563871632268"
+          crossOrigin="anonymous"
+        />
+      </head>
+      <body
+        className={`${inter.variable} antialiased`}
+      >
+        <I18nProvider initialLocale={locale}>
+          {children}
+          <InstallPrompt />
+        </I18nProvider>
+      </body>
+    </html>
+  );
+}
@@ -0,0 +1,172 @@
+'use client';
+
+import { NaverMapProvider } from '../providers/NaverMapProvider';
+import { MapContainer } from '../components/MapContainer';
+import { BottomSheet } from '../components/BottomSheet';
+import { usePlaces } from '../hooks/usePlaces';
+import { useFavorites } from '../hooks/useFavorites';
+import { usePlaceAlerts } from '../hooks/usePlaceAlerts';
+import { Header } from '../components/Header';
+import { PlaceListPanel } from '../components/PlaceListPanel';
+import { Suspense, useEffect, useState } from 'react';
+
+export default function HomePage() {
+    // 주소 쿼리(지도 상태)를 읽으므로 Suspense 경계 필요
+    return (
+        <Suspense>
+            <MapPage />
+        </Suspense>
+    );
+}
+
+function MapPage() {
+    const {
+        userLocation,
+        places,
+        filteredPlaces,
+        selectedPlace,
+        setSelectedPlace,
+        activePlaceId,
+        selectedNeighbors,
+        filter,
+        setFilter,
+        departments,
+        setDepartments,
+        categories,
+        setCategories,
+        conditions,
+        toggleCondition,
+        clearConditions,
+        searchMode,
+        setSearchMode,
+        visitTime,
+        setVisitTime,
+        openNowOnly,
+        setOpenNowOnly,
+        sortKey,
+        setSortKey,
+        isLoading,
+        isDetailLoading,
+        lastSearchCount,
+        offlineDataAt,
+        isTruncated,
+        handleMapIdle,
+        handleRefreshLocation,
+        handleRefreshSearch,
+        handlePlaceClick,
+        focusLocation,
+        initialCenter,
+        initialZoom,
+        followUserLocation,
+        handleSearchSelect,
+        handleLocationSelect
+    } = usePlaces();
+    const { favorites, isFavorite, toggleFavorite, refreshFavorites } = useFavorites(visitTime);
+    const { hasAlert, toggleAlert } = usePlaceAlerts();
+    const [isListOpen, setIsListOpen] = useState(false);
+
+    // 새로 조회한 장소 정보로 즐겨찾기 영업시간 갱신
+    useEffect(() => {
+        refreshFavorites(places);
+    }, [places, refreshFavorites]);
+
+    useEffect(() => {
+        // 지도 페이지 스크롤 방지
+        document.body.classList.add('map-page');
+        return () => {
+            document.body.classList.remove('map-page');
+        };
+    }, []);
+
+    useEffect(() => {
+        if ('serviceWorker' in navigator) {
+            navigator.serviceWorker
+                .register(`/sw.js?v=${process.env.NEXT_PUBLIC_BUILD_ID}`) // 빌드마다 캐시 버전 변경
+                .then((registration) => console.log('Scope: ', registration.scope))
+                .catch((err) => console.log('SW registration failed: ', err));
+        }
+    }, []);
+
+    return (
+        <NaverMapProvider>
+            <div className="relative w-full h-screen flex flex-col">
+                <Header
+                    filter={filter}
+                    setFilter={setFilter}
+                    departments={departments}
+                    setDepartments={setDepartments}
+                    categories={categories}
+                    setCategories={setCategories}
+                    conditions={conditions}
+                    toggleCondition={toggleCondition}
+                    clearConditions={clearConditions}
+                    visitTime={visitTime}
+                    setVisitTime={setVisitTime}
+                    openNowOnly={openNowOnly}
+                    setOpenNowOnly={setOpenNowOnly}
+                    sortKey={sortKey}
+                    setSortKey={setSortKey}
+                    searchOrigin={userLocation}
+                    onSearchSelect={handleSearchSelect}
+                    onLocationSelect={handleLocationSelect}
+                />
+
+                {/* 지도 */}
+                <div className="flex-1 relative">
+                    <MapContainer
+                        userLocation={userLocation}
+                        places={filteredPlaces}
+                        onPlaceClick={handlePlaceClick}
+                        onRefreshLocation={handleRefreshLocation}
+                        onRefreshSearch={handleRefreshSearch}
+                        onMapIdle={handleMapIdle}
+                        isLoading={isLoading}
+                        lastSearchCount={lastSearchCount}
+                        offlineDataAt={offlineDataAt}
+                        isTruncated={isTruncated}
+                        filter={filter}
+                        searchMode={searchMode}
+                        onSearchModeChange={setSearchMode}
+                        focusLocation={focusLocation}
+                        initialCenter={initialCenter}
+                        initialZoom={initialZoom}
+                        followUserLocation={followUserLocation}
+                        visitTime={visitTime}
+                        activePlaceId={activePlaceId}
+                        favorites={favorites}
+                        isListOpen={isListOpen}
+                        onToggleList={() => setIsListOpen(!isListOpen)}
+                    />
+
+                    {/* 목록 (지도 위 패널, 선택 시 지도 이동) */}
+                    {isListOpen && (
+                        <PlaceListPanel
+                            places={filteredPlaces}
+                            favorites={favorites}
+                            activePlaceId={activePlaceId}
+                            onPlaceSelect={handleSearchSelect}
+                            sortKey={sortKey}
+                            setSortKey={setSortKey}
+                            visitTime={visitTime}
+                            onClose={() => setIsListOpen(false)}
+                        />
+                    )}
+                </div>
+
+                {/* 바텀시트 */}
+                <BottomSheet
+                    place={selectedPlace}
+                    onClose={() => setSelectedPlace(null)}
+                    isLoading={isDetailLoading}
+                    visitTime={visitTime}
+                    neighbors={selectedNeighbors}
+                    onNavigate={handleSearchSelect}
+                    isFavorite={selectedPlace ? isFavorite(selectedPlace.id) : false}
+                    onToggleFavorite={toggleFavorite}
+                    hasAlert={hasAlert}
+                    onToggleAlert={toggleAlert}
+                />
+            </div>
+        </NaverMapProvider>
+    );
+}
@@ -0,0 +1,200 @@
+import Link from 'next/link';
+import Image from 'next/image';
+import type { Metadata } from 'next';
+import { cache } from 'react';
+import { notFound } from 'next/navigation';
+import { Locale, Place } from '@/app/types';
+import { findPlaceById } from '@/app/utils/placeLookup';
+import { buildMapUrlQuery } from '@/app/utils/urlState';
+import { formatTodayHours, getScheduleDayIndex } from '@/app/utils/businessHours';
+import { calculateOpenStatus } from '@/app/utils/realtimeStatus';
+import { getLocaleTag } from '@/app/utils/locale';
+import { getRequestLocale } from '@/app/utils/requestLocale';
+import { getDepartmentLabel, getPlaceCategoryLabel } from '@/app/utils/placeLabels';
+import { getTranslator } from '@/app/locales';
+import { WeeklySchedule } from '@/app/components/WeeklySchedule';
+import { LiveStatusBadge } from '@/app/components/StatusBadge';
+import { ShareButton } from '@/app/components/ShareButton';
+import { RomanizedHint } from '@/app/components/RomanizedHint';
+
+interface PlacePageProps {
+    params: Promise<{ locale: string; id: string }>;
+}
+
+// 서비스 주소 (링크 미리보기는 절대 경로여야 하며, 위조 가능한 Host 헤더 대신 설정값 사용)
+const SITE_URL = (process.env.SITE_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+// 링크 미리보기 지도 크기 (카카오톡 권장 2:1, /api/static-map 이미지 크기)
+const OG_IMAGE_WIDTH = 800;
+const OG_IMAGE_HEIGHT = 400;
+
+// 메타데이터와 본문이 한 번만 조회
+const getPlace = cache(findPlaceById);
+
+function getStaticMapPath(place: Place): string {
+    return `/api/static-map?id=${encodeURIComponent(place.id)}`;
+}
+
+/**
+ * 지도에서 이 장소를 연 화면 (주소 쿼리)
+ */
+function getMapQuery(place: Place): string {
+    return buildMapUrlQuery({
+        center: { lat: place.lat, lng: place.lng },
+        zoom: 16,
+        filter: 'all',
+        departments: [],
+        categories: [],
+        placeId: place.id,
+    });
+}
+
+/**
+ * 미리보기 설명 (공유 후에도 유효하도록 실시간 상태 대신 오늘 운영시간)
+ */
+function getDescription(place: Place, locale: Locale): string {
+    const todayHours = formatTodayHours(place, locale);
+    const hours = todayHours ? getTranslator(locale)('place.todayHoursShort', { ...todayHours }) : null;
+    return [getPlaceCategoryLabel(place, locale), place.address, hours].filter(Boolean).join(' · ');
+}
+
+export async function generateMetadata({ params }: PlacePageProps): Promise<Metadata> {
+    const { id } = await params;
+    const place = await getPlace(id);
+    const locale = await getRequestLocale(params);
+    const t = getTranslator(locale);
+
+    if (!place) {
+        return { title: `${t('place.notFound')} | ${t('app.name')}` };
+    }
+
+    const description = getDescription(place, locale);
+
+    return {
+        title: `${place.name} | ${t('app.name')}`,
+        description,
+        openGraph: {
+            type: 'website',
+            siteName: t('app.name'),
+            locale: getLocaleTag(locale).replace('-', '_'),
+            url: `${SITE_URL}/place/${id}`,
+            title: place.name,
+            description,
+            images: [{
+                url: `${SITE_URL}${getStaticMapPath(place)}`,
+                width: OG_IMAGE_WIDTH,
+                height: OG_IMAGE_HEIGHT,
+                alt: t('place.mapAlt', { name: place.name }),
+            }],
+        },
+    };
+}
+
+export default async function PlacePage({ params }: PlacePageProps) {
+    const { id } = await params;
+    const place = await getPlace(id);
+
+    if (!place) {
+        notFound();
+    }
+
+    const locale = await getRequestLocale(params);
+    const t = getTranslator(locale);
+    const todayHours = formatTodayHours(place, locale);
+    const detail = place.detail;
+    const weeklySchedule = place.weeklySchedule ?? detail?.weeklySchedule;
+
+    return (
+        <div className="min-h-screen bg-gray-50">
+            <div className="max-w-3xl mx-auto px-4 py-12">
+                <Link href={`/${getMapQuery(place)}`} className="inline-flex items-center gap-2 text-blue-600 hover:text-blue-800 mb-8">
+                    <svg xmlns="http://www.w3.org/2000/svg" height="20px" viewBox="0 -960 960 960" width="20px" fill="currentColor">
+                        <path d="M400-80 0-480l400-400 71 71-329 329 329 329-71 71Z" />
+                    </svg>
+                    {t('place.viewOnMap')}
+                </Link>
+
+                <section className="bg-white rounded-2xl p-6 shadow-sm mb-6">
+                    <div className="flex flex-wrap items-center gap-2.5 mb-2">
+                        <h1 className="text-2xl font-bold text-gray-900">{place.name}</h1>
+                        <LiveStatusBadge timeRaw={place.todayTimeRaw} initialInfo={calculateOpenStatus(place.todayTimeRaw)} />
+                    </div>
+                    <RomanizedHint text={place.name} className="text-sm text-gray-400 -mt-1 mb-2" />
+                    {place.category && (
+                        <span className="inline-block px-2.5 py-1 bg-blue-50 text-blue-700 text-xs font-semibold rounded-lg">
+                            {getPlaceCategoryLabel(place, locale)}
+                        </span>
+                    )}
+
+                    <Image
+                        src={getStaticMapPath(place)}
+                        alt={t('place.mapAlt', { name: place.name })}
+                        width={OG_IMAGE_WIDTH}
+                        height={OG_IMAGE_HEIGHT}
+                        unoptimized
+                        className="w-full h-auto mt-5 rounded-xl border border-gray-200 bg-gray-100"
+                    />
+
+                    <dl className="mt-5 space-y-3 text-sm">
+                        {place.address && (
+                            <div>
+                                <dt className="text-xs font-semibold text-gray-500 mb-1">{t('sheet.address')}</dt>
+                                <dd className="text-gray-900 font-medium">
+                                    {place.address}
+                                    <RomanizedHint text={place.address} className="text-xs text-gray-400 font-normal mt-0.5" />
+                                </dd>
+                            </div>
+                        )}
+                        <div>
+                            <dt className="text-xs font-semibold text-gray-500 mb-1">{t('sheet.todayHours')}</dt>
+                            <dd className="text-gray-900 font-medium">
+                                {todayHours ? t('common.hoursRange', { ...todayHours }) : t('place.todayClosed')}
+                            </dd>
+                        </div>
+                        {place.phone && (
+                            <div>
+                                <dt className="text-xs font-semibold text-gray-500 mb-1">{t('common.call')}</dt>
+                                <dd><a href={`tel:${place.phone}`} className="text-blue-600 hover:text-blue-800 font-bold">{place.phone}</a></dd>
+                            </div>
+                        )}
+                    </dl>
+
+                    <div className="flex gap-3 mt-6">
+                        {place.phone && (
+                            <a
+                                href={`tel:${place.phone}`}
+                                className="flex-1 bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 text-white font-bold py-4 rounded-2xl transition-all duration-300 active:scale-95 shadow-lg shadow-blue-500/30 flex items-center justify-center gap-2"
+                            >
+                                {t('common.call')}
+                            </a>
+                        )}
+                        <ShareButton title={place.name} text={getDescription(place, locale)} path={`/place/${id}`} />
+                    </div>
+                </section>
+
+                {weeklySchedule && weeklySchedule.some((d) => d.interval) && (
+                    <section className="bg-white rounded-2xl p-6 shadow-sm mb-6">
+                        <WeeklySchedule schedule={weeklySchedule} today={getScheduleDayIndex()} />
+                    </section>
+                )}
+
+                {detail && detail.departments.length > 0 && (
+                    <section className="bg-white rounded-2xl p-6 shadow-sm mb-6">
+                        <h2 className="text-xs font-semibold text-gray-500 mb-2">{t('sheet.departments')}</h2>
+                        <div className="flex flex-wrap gap-1.5">
+                            {detail.departments.map((name) => (
+                                <span key={name} className="px-2.5 py-1 bg-gray-50 text-gray-700 text-xs font-medium rounded-lg border border-gray-200">
+                                    {getDepartmentLabel(name, locale)}
+                                </span>
+                            ))}
+                        </div>
+                    </section>
+                )}
+
+                <p className="text-xs text-gray-400 text-center">
+                    {t('place.disclaimer')}
+                </p>
+            </div>
+        </div>
+    );
+}
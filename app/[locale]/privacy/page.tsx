@@ -0,0 +1,113 @@
+import Link from 'next/link';
+import type { Metadata } from 'next';
+import { getTranslator } from '../../locales';
+import { getRequestLocale, LocalePageProps } from '../../utils/requestLocale';
+
+export async function generateMetadata({ params }: LocalePageProps): Promise<Metadata> {
+    const t = getTranslator(await getRequestLocale(params));
+    return {
+        title: `${t('menu.privacy')} | ${t('app.name')}`,
+        description: t('privacy.description'),
+    };
+}
+
+export default async function PrivacyPage({ params }: LocalePageProps) {
+    const locale = await getRequestLocale(params);
+    const t = getTranslator(locale);
+
+    return (
+        <div className="min-h-screen bg-gray-50">
+            <div className="max-w-3xl mx-auto px-4 py-12">
+                <Link href="/" className="inline-flex items-center gap-2 text-blue-600 hover:text-blue-800 mb-8">
+                    <svg xmlns="http://www.w3.org/2000/svg" height="20px" viewBox="0 -960 960 960" width="20px" fill="currentColor">
+                        <path d="M400-80 0-480l400-400 71 71-329 329 329 329-71 71Z" />
+                    </svg>
+                    {t('common.backHome')}
+                </Link>
+
+                <h1 className="text-3xl font-bold text-gray-900 mb-2">{t('menu.privacy')}</h1>
+                <p className="text-gray-500 mb-8">{t('legal.lastUpdated')}</p>
+
+                {/* 번역본은 한국어 원문이 우선 */}
+                {locale !== 'ko' && (
+                    <p className="bg-amber-50 text-amber-800 text-sm rounded-xl px-4 py-3 mb-6">{t('legal.translationNotice')}</p>
+                )}
+
+                <div className="bg-white rounded-2xl p-6 shadow-sm space-y-8">
+                    <section>
+                        <h2 className="text-lg font-semibold text-gray-800 mb-3">{t('privacy.section1Title')}</h2>
+                        <p className="text-gray-600 leading-relaxed">
+                            {t('privacy.section1Body')}
+                        </p>
+                        <ul className="list-disc list-inside text-gray-600 mt-3 space-y-1">
+                            <li>{t('privacy.section1Item1')}</li>
+                            <li>{t('privacy.section1Item2')}</li>
+                            <li>{t('privacy.section1Item3')}</li>
+                        </ul>
+                    </section>
+
+                    <section>
+                        <h2 className="text-lg font-semibold text-gray-800 mb-3">{t('privacy.section2Title')}</h2>
+                        <p className="text-gray-600 leading-relaxed">
+                            {t('privacy.section2Body')}
+                        </p>
+                        <ul className="list-disc list-inside text-gray-600 mt-3 space-y-1">
+                            <li><strong>{t('privacy.section2Item1Label')}</strong>: {t('privacy.section2Item1Body')}</li>
+                            <li><strong>{t('privacy.section2Item2Label')}</strong>: {t('privacy.section2Item2Body')}</li>
+                        </ul>
+                    </section>
+
+                    <section>
+                        <h2 className="text-lg font-semibold text-gray-800 mb-3">{t('privacy.section3Title')}</h2>
+                        <p className="text-gray-600 leading-relaxed">
+                            {t('privacy.section3Body')}
+                        </p>
+                    </section>
+
+                    <section>
+                        <h2 className="text-lg font-semibold text-gray-800 mb-3">{t('privacy.section4Title')}</h2>
+                        <p className="text-gray-600 leading-relaxed">
+                            {t('privacy.section4Body')}
+                        </p>
+                        <ul className="list-disc list-inside text-gray-600 mt-3 space-y-1">
+                            <li>{t('privacy.section4Item1')}</li>
+                            <li>{t('privacy.section4Item2')}</li>
+                        </ul>
+                    </section>
+
+                    <section>
+                        <h2 className="text-lg font-semibold text-gray-800 mb-3">{t('privacy.section5Title')}</h2>
+                        <p className="text-gray-600 leading-relaxed">
+                            {t('privacy.section5Body')}
+                        </p>
+                    </section>
+
+                    <section>
+                        <h2 className="text-lg font-semibold text-gray-800 mb-3">{t('privacy.section6Title')}</h2>
+                        <p className="text-gray-600 leading-relaxed">
+                            {t('privacy.section6Body')}
+                        </p>
+                        <div className="mt-3 p-4 bg-gray-50 rounded-lg text-gray-600">
+                            <p><strong>{t('privacy.section6Officer')}</strong></p>
+                            <p>{t('privacy.section6Email', { email: 'ms0kim@naver.com' })}</p>
+                        </div>
+                    </section>
+
+                    <section>
+                        <h2 className="text-lg font-semibold text-gray-800 mb-3">{t('privacy.section7Title')}</h2>
+                        <p className="text-gray-600 leading-relaxed">
+                            {t('privacy.section7Body')}
+                        </p>
+                    </section>
+                </div>
+
+                <footer className="mt-12 pt-6 border-t border-gray-200 text-center text-sm text-gray-500">
+                    <div className="flex justify-center gap-6">
+                        <Link href="/about" className="hover:text-gray-700">{t('menu.about')}</Link>
+                        <Link href="/terms" className="hover:text-gray-700">{t('menu.terms')}</Link>
+                    </div>
+                </footer>
+            </div>
+        </div>
+    );
+}
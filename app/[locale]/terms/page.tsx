@@ -0,0 +1,136 @@
+import Link from 'next/link';
+import type { Metadata } from 'next';
+import { getTranslator } from '../../locales';
+import { getRequestLocale, LocalePageProps } from '../../utils/requestLocale';
+
+export async function generateMetadata({ params }: LocalePageProps): Promise<Metadata> {
+    const t = getTranslator(await getRequestLocale(params));
+    return {
+        title: `${t('menu.terms')} | ${t('app.name')}`,
+        description: t('terms.description'),
+    };
+}
+
+export default async function TermsPage({ params }: LocalePageProps) {
+    const locale = await getRequestLocale(params);
+    const t = getTranslator(locale);
+
+    return (
+        <div className="min-h-screen bg-gray-50">
+            <div className="max-w-3xl mx-auto px-4 py-12">
+                <Link href="/" className="inline-flex items-center gap-2 text-blue-600 hover:text-blue-800 mb-8">
+                    <svg xmlns="http://www.w3.org/2000/svg" height="20px" viewBox="0 -960 960 960" width="20px" fill="currentColor">
+                        <path d="M400-80 0-480l400-400 71 71-329 329 329 329-71 71Z" />
+                    </svg>
+                    {t('common.backHome')}
+                </Link>
+
+                <h1 className="text-3xl font-bold text-gray-900 mb-2">{t('menu.terms')}</h1>
+                <p className="text-gray-500 mb-8">{t('legal.lastUpdated')}</p>
+
+                {/* 번역본은 한국어 원문이 우선 */}
+                {locale !== 'ko' && (
+                    <p className="bg-amber-50 text-amber-800 text-sm rounded-xl px-4 py-3 mb-6">{t('legal.translationNotice')}</p>
+                )}
+
+                <div className="bg-white rounded-2xl p-6 shadow-sm space-y-8">
+                    <section>
+                        <h2 className="text-lg font-semibold text-gray-800 mb-3">{t('terms.article1Title')}</h2>
+                        <p className="text-gray-600 leading-relaxed">
+                            {t('terms.article1Body')}
+                        </p>
+                    </section>
+
+                    <section>
+                        <h2 className="text-lg font-semibold text-gray-800 mb-3">{t('terms.article2Title')}</h2>
+                        <ul className="list-disc list-inside text-gray-600 space-y-2">
+                            <li><strong>{t('terms.article2Item1Term')}</strong>{t('terms.article2Item1Body')}</li>
+                            <li><strong>{t('terms.article2Item2Term')}</strong>{t('terms.article2Item2Body')}</li>
+                        </ul>
+                    </section>
+
+                    <section>
+                        <h2 className="text-lg font-semibold text-gray-800 mb-3">{t('terms.article3Title')}</h2>
+                        <ul className="list-decimal list-inside text-gray-600 space-y-2">
+                            <li>{t('terms.article3Item1')}</li>
+                            <li>{t('terms.article3Item2')}</li>
+                            <li>{t('terms.article3Item3')}</li>
+                        </ul>
+                    </section>
+
+                    <section>
+                        <h2 className="text-lg font-semibold text-gray-800 mb-3">{t('terms.article4Title')}</h2>
+                        <p className="text-gray-600 leading-relaxed mb-3">{t('terms.article4Intro')}</p>
+                        <ul className="list-disc list-inside text-gray-600 space-y-1">
+                            <li>{t('terms.article4Item1')}</li>
+                            <li>{t('terms.article4Item2')}</li>
+                            <li>{t('terms.article4Item3')}</li>
+                            <li>{t('terms.article4Item4')}</li>
+                            <li>{t('terms.article4Item5')}</li>
+                        </ul>
+                    </section>
+
+                    <section>
+                        <h2 className="text-lg font-semibold text-gray-800 mb-3">{t('terms.article5Title')}</h2>
+                        <ul className="list-decimal list-inside text-gray-600 space-y-2">
+                            <li>{t('terms.article5Item1')}</li>
+                            <li>{t('terms.article5Item2')}</li>
+                            <li>{t('terms.article5Item3')}</li>
+                        </ul>
+                    </section>
+
+                    <section>
+                        <h2 className="text-lg font-semibold text-gray-800 mb-3">{t('terms.article6Title')}</h2>
+                        <ul className="list-decimal list-inside text-gray-600 space-y-2">
+                            <li>{t('terms.article6Item1')}</li>
+                            <li>{t('terms.article6Item2')}
+                                <ul className="list-disc list-inside ml-6 mt-2 space-y-1">
+                                    <li>{t('terms.article6Case1')}</li>
+                                    <li>{t('terms.article6Case2')}</li>
+                                    <li>{t('terms.article6Case3')}</li>
+                                </ul>
+                            </li>
+                        </ul>
+                    </section>
+
+                    <section>
+                        <h2 className="text-lg font-semibold text-gray-800 mb-3">{t('terms.article7Title')}</h2>
+                        <ul className="list-decimal list-inside text-gray-600 space-y-2">
+                            <li>{t('terms.article7Item1')}</li>
+                            <li>{t('terms.article7Item2')}</li>
+                            <li>{t('terms.article7Item3')}</li>
+                            <li>{t('terms.article7Item4')}</li>
+                        </ul>
+                    </section>
+
+                    <section>
+                        <h2 className="text-lg font-semibold text-gray-800 mb-3">{t('terms.article8Title')}</h2>
+                        <p className="text-gray-600 leading-relaxed">
+                            {t('terms.article8Body')}
+                        </p>
+                    </section>
+
+                    <section>
+                        <h2 className="text-lg font-semibold text-gray-800 mb-3">{t('terms.article9Title')}</h2>
+                        <p className="text-gray-600 leading-relaxed">
+                            {t('terms.article9Body')}
+                        </p>
+                    </section>
+
+                    <section className="pt-4 border-t border-gray-200">
+                        <p className="text-gray-500 text-sm">
+                            {t('terms.effective')}
+                        </p>
+                    </section>
+                </div>
+
+                <footer className="mt-12 pt-6 border-t border-gray-200 text-center text-sm text-gray-500">
+                    <div className="flex justify-center gap-6">
+                        <Link href="/about" className="hover:text-gray-700">{t('menu.about')}</Link>
+                        <Link href="/privacy" className="hover:text-gray-700">{t('menu.privacy')}</Link>
+                    </div>
+                </footer>
+            </div>
+        </div>
+    );
+}
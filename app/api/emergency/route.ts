@@ -0,0 +1,297 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchWithPagination, removeDuplicatesById, mapWithConcurrency } from '@/app/utils/apiUtils';
+import { BusinessTimeRaw, EmergencyBeds, OpenStatus, EmergencyInfo } from '@/app/types';
+import { emergencyListCache } from '@/app/utils/cache';
+import { parseSevereConditions, SevereConditionFields } from '@/app/utils/emergency';
+import { resolveDistricts, calculateDistance, parseBoundsParams, District } from '@/app/utils/location';
+
+const SERVICE_KEY = process.env.DATA_GO_KR_SERVICE_KEY || '';
+
+// 응급의료기관 목록정보 조회 API (주소 기반, 좌표/응급실 전화 포함)
+const EMERGENCY_LIST_API = 'http://apis.data.go.kr/B552657/ErmctInfoInqireService/getEgytListInfoInqire';
+
+// 응급실 실시간 가용병상정보 조회 API (시도/시군구 기반)
+const EMERGENCY_BEDS_API = 'http://apis.data.go.kr/B552657/ErmctInfoInqireService/getEmrrmRltmUsefulSckbdInfoInqire';
+
+// 중증질환자 수용가능정보 조회 API (시도/시군구 기반, MKioskTy 플래그)
+const SEVERE_ACCEPTANCE_API = 'http://apis.data.go.kr/B552657/ErmctInfoInqireService/getSrsillDissAceptncPosblInfoInqire';
+
+// 응급실은 24시간 운영 (종료 <= 시작이면 24시간으로 계산됨)
+const EMERGENCY_TIME_RAW: BusinessTimeRaw = { openMinutes: 0, closeMinutes: 0, isHoliday: false };
+
+// 여러 시/군/구 동시 조회 수 (지역당 API 3개 호출)
+const DISTRICT_CONCURRENCY = 2;
+
+// API 응답 타입 (응급의료기관 목록정보 조회)
+interface EmergencyListApiItem {
+    hpid?: string;
+    dutyName?: string;
+    dutyAddr?: string;
+    dutyTel1?: string;
+    dutyTel3?: string;        // 응급실 전화
+    dutyEmclsName?: string;   // 응급의료기관 분류명
+    wgs84Lat?: number | string;
+    wgs84Lon?: number | string;
+}
+
+// API 응답 타입 (실시간 가용병상정보 조회)
+interface EmergencyBedsApiItem {
+    hpid?: string;
+    hvidate?: string | number;  // 입력일시
+    hvec?: string | number;     // 응급실 일반
+    hv28?: string | number;     // 응급실 소아
+    hv29?: string | number;     // 응급실 음압 격리
+    hv30?: string | number;     // 응급실 일반 격리
+    dutyTel3?: string;
+}
+
+// API 응답 타입 (중증질환자 수용가능정보 조회)
+interface SevereAcceptanceApiItem extends SevereConditionFields {
+    hpid?: string;
+}
+
+interface PlaceResponse {
+    id: string;
+    type: 'emergency';
+    name: string;
+    lat: number;
+    lng: number;
+    isOpen: boolean;
+    openStatus: OpenStatus;
+    address?: string;
+    phone?: string;
+    distance?: number;
+    category?: string;
+    todayHours?: { open: string; close: string } | null;
+    todayTimeRaw?: BusinessTimeRaw;
+    emergency: EmergencyInfo;
+}
+
+/**
+ * 병상 수 파싱 (값이 없으면 null)
+ */
+function parseBedCount(value: string | number | undefined): number | null {
+    if (value === undefined || value === null || value === '') return null;
+
+    const count = typeof value === 'number' ? value : parseInt(value, 10);
+    return isNaN(count) ? null : count;
+}
+
+/**
+ * 음압/일반 격리 병상 합산 (둘 다 없으면 null)
+ */
+function sumIsolationBeds(negative: number | null, general: number | null): number | null {
+    if (negative === null && general === null) return null;
+    return Math.max(negative ?? 0, 0) + Math.max(general ?? 0, 0);
+}
+
+function mapBeds(item: EmergencyBedsApiItem | undefined): EmergencyBeds {
+    if (!item) {
+        return { general: null, pediatric: null, isolation: null };
+    }
+
+    return {
+        general: parseBedCount(item.hvec),
+        pediatric: parseBedCount(item.hv28),
+        isolation: sumIsolationBeds(parseBedCount(item.hv29), parseBedCount(item.hv30)),
+    };
+}
+
+interface EmergencyApiResult {
+    rooms: EmergencyListApiItem[];
+    beds: EmergencyBedsApiItem[];
+    acceptance: SevereAcceptanceApiItem[];
+}
+
+/**
+ * 주소 기반 응급실 목록 + 실시간 가용병상 + 중증질환 수용가능정보 조회
+ */
+async function fetchEmergencyRoomsByAddress(sido: string, sigungu: string): Promise<EmergencyApiResult> {
+    if (!SERVICE_KEY) {
+        console.error('공공데이터 API 서비스 키가 설정되지 않았습니다.');
+        return { rooms: [], beds: [], acceptance: [] };
+    }
+
+    const listUrl = new URL(EMERGENCY_LIST_API);
+    listUrl.searchParams.set('Q0', sido);
+    listUrl.searchParams.set('Q1', sigungu);
+    listUrl.searchParams.set('numOfRows', '100');
+    listUrl.searchParams.set('pageNo', '1');
+
+    const bedsUrl = new URL(EMERGENCY_BEDS_API);
+    bedsUrl.searchParams.set('STAGE1', sido);
+    bedsUrl.searchParams.set('STAGE2', sigungu);
+    bedsUrl.searchParams.set('numOfRows', '100');
+    bedsUrl.searchParams.set('pageNo', '1');
+
+    const acceptanceUrl = new URL(SEVERE_ACCEPTANCE_API);
+    acceptanceUrl.searchParams.set('STAGE1', sido);
+    acceptanceUrl.searchParams.set('STAGE2', sigungu);
+    acceptanceUrl.searchParams.set('numOfRows', '100');
+    acceptanceUrl.searchParams.set('pageNo', '1');
+
+    console.log(`Fetching emergency rooms: ${sido} ${sigungu}`);
+
+    try {
+        // 서비스 키는 이미 인코딩되어 있으므로 수동으로 붙임
+        const [rooms, beds, acceptance] = await Promise.all([
+            fetchWithPagination<EmergencyListApiItem>(`${listUrl.toString()}&ServiceKey=${SERVICE_KEY}`, 100, 300),
+            fetchWithPagination<EmergencyBedsApiItem>(`${bedsUrl.toString()}&ServiceKey=${SERVICE_KEY}`, 100, 300),
+            fetchWithPagination<SevereAcceptanceApiItem>(`${acceptanceUrl.toString()}&ServiceKey=${SERVICE_KEY}`, 100, 300),
+        ]);
+        return { rooms, beds, acceptance };
+    } catch (error) {
+        console.error('응급실 API 호출 실패:', error);
+        return { rooms: [], beds: [], acceptance: [] };
+    }
+}
+
+/**
+ * 기관ID 기준으로 응답 아이템 색인
+ */
+function indexByHpid<T extends { hpid?: string }>(items: T[]): Map<string, T> {
+    return new Map(items.filter((item) => item.hpid).map((item) => [item.hpid as string, item]));
+}
+
+function mapItemToPlace(
+    item: EmergencyListApiItem,
+    bedsItem: EmergencyBedsApiItem | undefined,
+    acceptanceItem: SevereAcceptanceApiItem | undefined,
+    userLat: number,
+    userLng: number
+): PlaceResponse | null {
+    if (!item.wgs84Lat || !item.wgs84Lon) {
+        return null;
+    }
+
+    const lat = typeof item.wgs84Lat === 'string' ? parseFloat(item.wgs84Lat) : item.wgs84Lat;
+    const lng = typeof item.wgs84Lon === 'string' ? parseFloat(item.wgs84Lon) : item.wgs84Lon;
+
+    if (isNaN(lat) || isNaN(lng)) {
+        return null;
+    }
+
+    return {
+        id: item.hpid || `emergency_${lat}_${lng}`,
+        type: 'emergency',
+        name: item.dutyName || '이름 없음',
+        lat,
+        lng,
+        isOpen: true,
+        openStatus: 'open24h',
+        address: item.dutyAddr,
+        phone: item.dutyTel1,
+        distance: calculateDistance(userLat, userLng, lat, lng),
+        category: item.dutyEmclsName || '응급실',
+        todayHours: null,
+        todayTimeRaw: EMERGENCY_TIME_RAW,
+        emergency: {
+            erPhone: item.dutyTel3 || bedsItem?.dutyTel3,
+            level: item.dutyEmclsName,
+            beds: mapBeds(bedsItem),
+            capabilities: acceptanceItem ? parseSevereConditions(acceptanceItem) : [],
+            updatedAt: bedsItem?.hvidate !== undefined ? String(bedsItem.hvidate) : undefined,
+        },
+    };
+}
+
+/**
+ * 시/군/구 단위 응급실 목록 (지역별 캐시 사용)
+ */
+async function loadDistrictEmergencyRooms(
+    district: District,
+    lat: number,
+    lng: number
+): Promise<{ places: PlaceResponse[]; cached: boolean }> {
+    // 캐시 키 생성 (시/군구 기반, 가용병상이 자주 바뀌므로 짧은 TTL)
+    const cacheKey = `${district.sido}_${district.sigungu}`;
+    const cachedData = emergencyListCache.get(cacheKey) as PlaceResponse[] | null;
+
+    if (cachedData) {
+        console.log(`[CACHE HIT] Emergency rooms at ${cacheKey}, ${cachedData.length} items`);
+        return { places: cachedData, cached: true };
+    }
+
+    console.log(`[CACHE MISS] Fetching emergency rooms: ${district.sido} ${district.sigungu}`);
+
+    const { rooms, beds, acceptance } = await fetchEmergencyRoomsByAddress(district.sido, district.sigungu);
+    console.log(`API returned ${rooms.length} emergency rooms, ${beds.length} bed records, ${acceptance.length} acceptance records`);
+
+    const bedsByHpid = indexByHpid(beds);
+    const acceptanceByHpid = indexByHpid(acceptance);
+
+    const places = rooms
+        .map((item) => mapItemToPlace(
+            item,
+            item.hpid ? bedsByHpid.get(item.hpid) : undefined,
+            item.hpid ? acceptanceByHpid.get(item.hpid) : undefined,
+            lat,
+            lng
+        ))
+        .filter((place): place is PlaceResponse => place !== null);
+
+    // 거리순 정렬 및 중복 제거
+    places.sort((a, b) => (a.distance || Infinity) - (b.distance || Infinity));
+    const uniquePlaces = removeDuplicatesById(places);
+
+    console.log(`Found ${uniquePlaces.length} emergency rooms in ${cacheKey}`);
+
+    // 캐시에 저장
+    emergencyListCache.set(cacheKey, uniquePlaces);
+
+    return { places: uniquePlaces, cached: false };
+}
+
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const lat = parseFloat(searchParams.get('lat') || '');
+        const lng = parseFloat(searchParams.get('lng') || '');
+
+        if (isNaN(lat) || isNaN(lng)) {
+            return NextResponse.json(
+                { success: false, error: '유효한 lat, lng 파라미터가 필요합니다.', data: [] },
+                { status: 400 }
+            );
+        }
+
+        // 조회할 시/군/구 결정 (지도 범위가 있으면 범위와 겹치는 모든 지역)
+        const { districts, truncated } = await resolveDistricts({ lat, lng }, parseBoundsParams(searchParams));
+
+        if (districts.length === 0) {
+            return NextResponse.json({
+                success: false,
+                error: '주소를 찾을 수 없습니다.',
+                data: [],
+            });
+        }
+
+        const results = await mapWithConcurrency(districts, DISTRICT_CONCURRENCY, (district) =>
+            loadDistrictEmergencyRooms(district, lat, lng)
+        );
+
+        // 지역별 결과 병합 후 현재 위치 기준 거리 재계산, 정렬 및 중복 제거
+        const places = results
+            .flatMap((result) => result.places)
+            .map(place => ({
+                ...place,
+                distance: calculateDistance(lat, lng, place.lat, place.lng)
+            }));
+        places.sort((a, b) => (a.distance || Infinity) - (b.distance || Infinity));
+        const uniquePlaces = districts.length > 1 ? removeDuplicatesById(places) : places;
+
+        return NextResponse.json({
+            success: true,
+            count: uniquePlaces.length,
+            cached: results.every((result) => result.cached),
+            truncated,
+            data: uniquePlaces,
+        });
+    } catch (error) {
+        console.error('API Error:', error);
+        return NextResponse.json(
+            { success: false, error: '서버 오류가 발생했습니다.', data: [] },
+            { status: 500 }
+        );
+    }
+}
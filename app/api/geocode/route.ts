@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { geocode } from '@/app/utils/location';
+
+// 최소 검색어 길이
+const MIN_QUERY_LENGTH = 2;
+
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const query = (searchParams.get('query') || '').trim();
+
+        if (query.length < MIN_QUERY_LENGTH) {
+            return NextResponse.json(
+                { success: false, error: `검색어를 ${MIN_QUERY_LENGTH}자 이상 입력해주세요.`, data: [] },
+                { status: 400 }
+            );
+        }
+
+        const results = await geocode(query);
+
+        return NextResponse.json({
+            success: true,
+            count: results.length,
+            data: results,
+        });
+    } catch (error) {
+        console.error('API Error:', error);
+        return NextResponse.json(
+            { success: false, error: '서버 오류가 발생했습니다.', data: [] },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { HospitalDetail } from '@/app/types';
+import { hospitalDetailCache } from '@/app/utils/cache';
+import { fetchHospitalDetail, mapItemToDetail } from '@/app/utils/hospitalDetail';
+
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const hpid = searchParams.get('hpid')?.trim();
+
+        if (!hpid) {
+            return NextResponse.json(
+                { success: false, error: 'hpid 파라미터가 필요합니다.', data: null },
+                { status: 400 }
+            );
+        }
+
+        const cachedData = hospitalDetailCache.get(hpid) as HospitalDetail | null;
+
+        if (cachedData) {
+            console.log(`[CACHE HIT] Hospital detail ${hpid}`);
+            return NextResponse.json({
+                success: true,
+                cached: true,
+                data: cachedData,
+            });
+        }
+
+        console.log(`[CACHE MISS] Fetching hospital detail: ${hpid}`);
+
+        const item = await fetchHospitalDetail(hpid);
+
+        if (!item) {
+            return NextResponse.json(
+                { success: false, error: '병원 정보를 찾을 수 없습니다.', data: null },
+                { status: 404 }
+            );
+        }
+
+        const detail = mapItemToDetail(item, hpid);
+
+        // 캐시에 저장
+        hospitalDetailCache.set(hpid, detail);
+
+        return NextResponse.json({
+            success: true,
+            cached: false,
+            data: detail,
+        });
+    } catch (error) {
+        console.error('API Error:', error);
+        return NextResponse.json(
+            { success: false, error: '서버 오류가 발생했습니다.', data: null },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findPlaceById } from '@/app/utils/placeLookup';
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    try {
+        const { id } = await params;
+        const place = await findPlaceById(id);
+
+        if (!place) {
+            return NextResponse.json(
+                { success: false, error: '장소 정보를 찾을 수 없습니다.', data: null },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: place,
+        });
+    } catch (error) {
+        console.error('API Error:', error);
+        return NextResponse.json(
+            { success: false, error: '서버 오류가 발생했습니다.', data: null },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,199 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Place, PlaceSearchResult, HospitalCategory } from '@/app/types';
+import { searchHospitalsByRadius, searchHospitalsInDistricts } from '@/app/utils/hospitalSource';
+import { searchPharmaciesByRadius, searchPharmaciesInDistricts } from '@/app/utils/pharmacySource';
+import { resolveDistricts, parseBoundsParams, parseRadiusParam, District } from '@/app/utils/location';
+import { sortPlaces, isPlaceSortKey, countByStatus } from '@/app/utils/placeSort';
+import { isMedicalDepartment } from '@/app/utils/departments';
+import { isHospitalCategory } from '@/app/utils/hospitalCategories';
+
+// 조회 가능한 장소 타입 (응급실은 /api/emergency에서 별도 조회)
+type SearchablePlaceType = 'hospital' | 'pharmacy';
+const SEARCHABLE_TYPES: SearchablePlaceType[] = ['hospital', 'pharmacy'];
+
+// 페이지 크기
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+// 검색 영역 (반경 또는 시/군/구 목록)
+type SearchArea = { radius: number } | { districts: District[] };
+
+/**
+ * 쉼표로 구분된 목록 파라미터 파싱
+ */
+function parseListParam(value: string | null): string[] {
+    return value ? value.split(',').map((v) => v.trim()).filter(Boolean) : [];
+}
+
+/**
+ * 커서 인코딩 (다음 페이지 시작 위치)
+ */
+function encodeCursor(offset: number): string {
+    return Buffer.from(String(offset)).toString('base64url');
+}
+
+/**
+ * 커서 디코딩 (잘못된 커서는 null)
+ */
+function decodeCursor(cursor: string): number | null {
+    const offset = parseInt(Buffer.from(cursor, 'base64url').toString(), 10);
+    return isNaN(offset) || offset < 0 ? null : offset;
+}
+
+/**
+ * 병원 조회 (진료과목/병원 종류별 조회 계획은 데이터 소스에서 처리)
+ */
+async function loadHospitals(
+    area: SearchArea,
+    departments: string[],
+    categories: HospitalCategory[],
+    numOfRows: number,
+    lat: number,
+    lng: number
+): Promise<PlaceSearchResult> {
+    return 'radius' in area
+        ? searchHospitalsByRadius(lat, lng, area.radius, numOfRows, categories)
+        : searchHospitalsInDistricts(area.districts, numOfRows, departments, categories, lat, lng);
+}
+
+/**
+ * 약국 조회
+ */
+async function loadPharmacies(area: SearchArea, numOfRows: number, lat: number, lng: number): Promise<PlaceSearchResult> {
+    return 'radius' in area
+        ? searchPharmaciesByRadius(lat, lng, area.radius, numOfRows)
+        : searchPharmaciesInDistricts(area.districts, numOfRows, lat, lng);
+}
+
+/**
+ * 병원/약국 통합 조회
+ * - types: hospital,pharmacy (기본 모두)
+ * - departments: 진료과목 코드 목록 (병원만, 반경 검색 미지원)
+ * - openNow: true면 영업중인 곳만
+ * - category: 병원 종류 코드 목록 (A:종합병원, B:병원, C:의원, D:요양병원, M:치과병원, N:치과의원, 약국에는 적용하지 않음)
+ * - bbox(서경,남위,동경,북위) 또는 swLat/swLng/neLat/neLng: 범위와 겹치는 시/군/구 조회
+ * - radius: 지도 중심 반경 검색 (미터)
+ * - sort: distance | closes-latest | name
+ * - cursor, limit: 페이지 조회
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const lat = parseFloat(searchParams.get('lat') || '');
+        const lng = parseFloat(searchParams.get('lng') || '');
+        // 거리순 정렬되므로 가까운 곳 위주로 가져옴 (API 호출 최소화)
+        const numOfRows = parseInt(searchParams.get('numOfRows') || '150', 10);
+        const typesParam = parseListParam(searchParams.get('types'));
+        const departments = parseListParam(searchParams.get('departments'));
+        const categories = parseListParam(searchParams.get('category'));
+        const openNow = ['true', '1'].includes(searchParams.get('openNow') || '');
+        const sort = searchParams.get('sort') || 'distance';
+        const cursor = searchParams.get('cursor');
+        const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '', 10) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+        const radiusParam = searchParams.get('radius'); // 반경 검색 (미터)
+
+        if (isNaN(lat) || isNaN(lng)) {
+            return NextResponse.json(
+                { success: false, error: '유효한 lat, lng 파라미터가 필요합니다.', data: [] },
+                { status: 400 }
+            );
+        }
+
+        const types = typesParam.length > 0 ? typesParam : SEARCHABLE_TYPES;
+        if (!types.every((type): type is SearchablePlaceType => (SEARCHABLE_TYPES as string[]).includes(type))) {
+            return NextResponse.json(
+                { success: false, error: 'types는 hospital, pharmacy만 지원합니다.', data: [] },
+                { status: 400 }
+            );
+        }
+
+        if (!departments.every(isMedicalDepartment)) {
+            return NextResponse.json(
+                { success: false, error: '알 수 없는 진료과목 코드가 포함되어 있습니다.', data: [] },
+                { status: 400 }
+            );
+        }
+
+        if (!categories.every(isHospitalCategory)) {
+            return NextResponse.json(
+                { success: false, error: 'category는 A, B, C, D, M, N 중에서 선택해야 합니다.', data: [] },
+                { status: 400 }
+            );
+        }
+
+        if (!isPlaceSortKey(sort)) {
+            return NextResponse.json(
+                { success: false, error: 'sort는 distance, closes-latest, name 중 하나여야 합니다.', data: [] },
+                { status: 400 }
+            );
+        }
+
+        const offset = cursor ? decodeCursor(cursor) : 0;
+        if (offset === null) {
+            return NextResponse.json(
+                { success: false, error: '유효하지 않은 cursor입니다.', data: [] },
+                { status: 400 }
+            );
+        }
+
+        // 반경 검색은 위치정보 조회 API 사용 (진료과목 필터는 지원하지 않음)
+        if (radiusParam !== null && departments.length > 0) {
+            return NextResponse.json(
+                { success: false, error: '반경 검색은 진료과목 필터를 지원하지 않습니다.', data: [] },
+                { status: 400 }
+            );
+        }
+
+        let area: SearchArea;
+        let truncated = false; // 범위 안 시/군/구가 많아 일부만 조회했는지
+        if (radiusParam !== null) {
+            area = { radius: parseRadiusParam(radiusParam) };
+        } else {
+            // 조회할 시/군/구 결정 (지도 범위가 있으면 범위와 겹치는 모든 지역)
+            const lookup = await resolveDistricts({ lat, lng }, parseBoundsParams(searchParams));
+
+            if (lookup.districts.length === 0) {
+                return NextResponse.json({
+                    success: false,
+                    error: '주소를 찾을 수 없습니다.',
+                    data: [],
+                });
+            }
+            area = { districts: lookup.districts };
+            truncated = lookup.truncated;
+        }
+
+        const [hospitals, pharmacies] = await Promise.all([
+            types.includes('hospital') ? loadHospitals(area, departments, categories, numOfRows, lat, lng) : null,
+            types.includes('pharmacy') ? loadPharmacies(area, numOfRows, lat, lng) : null,
+        ]);
+
+        const places: Place[] = [
+            ...(hospitals?.places ?? []),
+            ...(pharmacies?.places ?? []),
+        ];
+
+        // 영업 상태별 개수는 영업중 필터/페이지와 무관하게 전체 결과 기준
+        const counts = countByStatus(places);
+        const sorted = sortPlaces(openNow ? places.filter((place) => place.isOpen) : places, sort);
+        const page = sorted.slice(offset, offset + limit);
+        const nextOffset = offset + page.length;
+
+        return NextResponse.json({
+            success: true,
+            count: page.length,
+            total: sorted.length,
+            counts,
+            nextCursor: nextOffset < sorted.length ? encodeCursor(nextOffset) : null,
+            cached: [hospitals, pharmacies].every((result) => !result || result.cached),
+            truncated,
+            data: page,
+        });
+    } catch (error) {
+        console.error('API Error:', error);
+        return NextResponse.json(
+            { success: false, error: '서버 오류가 발생했습니다.', data: [] },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { searchHospitalsByName } from '@/app/utils/hospitalSource';
+import { searchPharmaciesByName } from '@/app/utils/pharmacySource';
+
+// 최소 검색어 길이 (API 할당량 보호)
+const MIN_QUERY_LENGTH = 2;
+
+// 결과 개수
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const query = (searchParams.get('q') || '').trim();
+        const lat = parseFloat(searchParams.get('lat') || '');
+        const lng = parseFloat(searchParams.get('lng') || '');
+        const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '', 10) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+        if (query.length < MIN_QUERY_LENGTH) {
+            return NextResponse.json(
+                { success: false, error: `검색어를 ${MIN_QUERY_LENGTH}자 이상 입력해주세요.`, data: [] },
+                { status: 400 }
+            );
+        }
+
+        if (isNaN(lat) || isNaN(lng)) {
+            return NextResponse.json(
+                { success: false, error: '유효한 lat, lng 파라미터가 필요합니다.', data: [] },
+                { status: 400 }
+            );
+        }
+
+        // 병원과 약국을 기관명으로 동시에 검색
+        const [hospitals, pharmacies] = await Promise.all([
+            searchHospitalsByName(query, 100, lat, lng),
+            searchPharmaciesByName(query, 100, lat, lng),
+        ]);
+
+        // 사용자 위치에서 가까운 순
+        const places = [...hospitals.places, ...pharmacies.places]
+            .sort((a, b) => (a.distance ?? Infinity) - (b.distance ?? Infinity))
+            .slice(0, limit);
+
+        return NextResponse.json({
+            success: true,
+            count: places.length,
+            cached: hospitals.cached && pharmacies.cached,
+            data: places,
+        });
+    } catch (error) {
+        console.error('API Error:', error);
+        return NextResponse.json(
+            { success: false, error: '서버 오류가 발생했습니다.', data: [] },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchStaticMap } from '@/app/utils/location';
+import { findPlaceById } from '@/app/utils/placeLookup';
+import { staticMapCache } from '@/app/utils/cache';
+
+// 이미지 크기 (카카오톡 링크 미리보기 권장 비율 2:1, 공유 페이지와 같은 크기만 제공)
+const MAP_WIDTH = 800;
+const MAP_HEIGHT = 400;
+
+/**
+ * 공유 페이지 장소 위치 지도 이미지
+ * - id: 기관ID (좌표는 서버에서 조회, 임의 좌표로 유료 지도 API를 호출할 수 없도록)
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const id = searchParams.get('id')?.trim();
+
+        if (!id) {
+            return NextResponse.json(
+                { success: false, error: '기관ID(id)가 필요합니다.', data: null },
+                { status: 400 }
+            );
+        }
+
+        let image = staticMapCache.get(id);
+        if (!image) {
+            const place = await findPlaceById(id);
+            if (!place) {
+                return NextResponse.json(
+                    { success: false, error: '장소를 찾을 수 없습니다.', data: null },
+                    { status: 404 }
+                );
+            }
+
+            image = await fetchStaticMap(place.lat, place.lng, MAP_WIDTH, MAP_HEIGHT);
+            if (!image) {
+                return NextResponse.json(
+                    { success: false, error: '지도 이미지를 불러오지 못했습니다.', data: null },
+                    { status: 502 }
+                );
+            }
+            staticMapCache.set(id, image);
+        }
+
+        // 같은 장소의 지도는 바뀌지 않으므로 하루 동안 캐시
+        return new NextResponse(image, {
+            headers: {
+                'Content-Type': image.type || 'image/png',
+                'Cache-Control': 'public, max-age=86400',
+            },
+        });
+    } catch (error) {
+        console.error('API Error:', error);
+        return NextResponse.json(
+            { success: false, error: '서버 오류가 발생했습니다.', data: null },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import Link from 'next/link';
+import { Locale } from '../types';
+import { MessageKey, translate } from '../locales';
+import { toKoreaTime, getMinutesOfDay } from '../utils/clock';
+import { formatClockMinutes, getLocaleTag } from '../utils/locale';
+import { usePlaceAlerts } from '../hooks/usePlaceAlerts';
+import { useI18n } from '../providers/I18nProvider';
+import { RomanizedHint } from './RomanizedHint';
+
+const WEEKDAY_LABELS: MessageKey[] = ['weekday.0', 'weekday.1', 'weekday.2', 'weekday.3', 'weekday.4', 'weekday.5', 'weekday.6'];
+
+/**
+ * 다음 알림 시각 표시 (한국 시각, 예: 10월 20일(월) 오전 9:00 / Mon, Oct 20, 9:00 AM)
+ */
+function formatTrigger(time: number, locale: Locale): string {
+    if (locale !== 'ko') {
+        return new Intl.DateTimeFormat(getLocaleTag(locale), {
+            weekday: 'short',
+            month: 'short',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: '2-digit',
+            timeZone: 'Asia/Seoul',
+        }).format(new Date(time));
+    }
+
+    const date = toKoreaTime(new Date(time));
+    return `${date.getMonth() + 1}월 ${date.getDate()}일(${translate(locale, WEEKDAY_LABELS[date.getDay()])}) ${formatClockMinutes(getMinutesOfDay(date), locale)}`;
+}
+
+/**
+ * 영업 알림 목록 (다음 알림 시각, 삭제)
+ */
+export function AlertSettings() {
+    const { locale, t } = useI18n();
+    const { alerts, permission, deleteAlert } = usePlaceAlerts();
+
+    return (
+        <>
+            <section className="bg-white rounded-2xl p-6 shadow-sm mb-6">
+                <h2 className="text-xl font-semibold text-gray-800 mb-2">{t('alerts.permissionTitle')}</h2>
+                <p className={`text-sm ${permission === 'granted' ? 'text-emerald-600' : 'text-gray-600'}`}>
+                    {t(`alerts.permission.${permission}`)}
+                </p>
+                {/* 알림은 서비스 워커가 깨어날 때만 확인 (앱이 열려 있을 때 1분마다, 닫혀 있으면 크롬 계열의 주기 동기화뿐) */}
+                <p className="mt-2 text-xs text-amber-700">
+                    {t('alerts.delivery')}
+                </p>
+            </section>
+
+            <section className="bg-white rounded-2xl p-6 shadow-sm mb-6">
+                <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('alerts.listTitle')}</h2>
+                {alerts.length === 0 ? (
+                    <p className="text-sm text-gray-500">
+                        {t('alerts.empty')}
+                    </p>
+                ) : (
+                    <ul className="divide-y divide-gray-100">
+                        {alerts.map((alert) => (
+                            <li key={alert.id} className="flex items-center justify-between gap-3 py-3">
+                                <div className="min-w-0">
+                                    <Link
+                                        href={`/?place=${encodeURIComponent(alert.placeId)}`}
+                                        className="block text-sm font-semibold text-gray-900 truncate hover:text-blue-600"
+                                    >
+                                        {alert.placeName}
+                                    </Link>
+                                    <RomanizedHint text={alert.placeName} className="text-[11px] text-gray-400 truncate" />
+                                    <p className="text-xs text-gray-500">
+                                        {t(`alert.${alert.kind}`)}
+                                        {' · '}
+                                        {alert.triggers.length > 0 ? t('alerts.next', { time: formatTrigger(alert.triggers[0], locale) }) : t('alerts.none')}
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={() => deleteAlert(alert.id)}
+                                    className="flex-shrink-0 px-3 py-1.5 rounded-lg text-xs font-semibold bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors"
+                                >
+                                    {t('common.delete')}
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </section>
+        </>
+    );
+}
@@ -1,81 +1,136 @@
 'use client';
 
-import { useEffect, useCallback } from 'react';
-import { Place, OpenStatus } from '../types';
-import { calculateOpenStatus } from '../utils/realtimeStatus';
+import { useEffect } from 'react';
+import { Place, PlaceNeighbors, BedCounts, BedAvailability, PlaceAlertKind } from '../types';
+import { MessageKey } from '../locales';
+import { calculateOpenStatus, getAppliedHolidayName, getStatusMinutes } from '../utils/realtimeStatus';
+import { getCountAvailability, formatBedCount, formatBedUpdatedAt } from '../utils/emergency';
+import { formatTodayHours, getScheduleDayIndex } from '../utils/businessHours';
+import { getAlertSchedule } from '../utils/placeAlerts';
+import { getDepartmentLabel, getPlaceCategoryLabel } from '../utils/placeLabels';
+import { WeeklySchedule } from './WeeklySchedule';
+import { StatusBadge } from './StatusBadge';
+import { ShareButton } from './ShareButton';
+import { RomanizedHint } from './RomanizedHint';
+import { useSheetGesture } from '../hooks/useSheetGesture';
+import { useI18n } from '../providers/I18nProvider';
 
 interface BottomSheetProps {
     place: Place | null;
     onClose: () => void;
     isLoading?: boolean;
+    visitTime?: Date | null; // 방문 예정 시각 (한국 시각, 있으면 이 시각 기준으로 보기)
+    neighbors?: PlaceNeighbors;
+    onNavigate?: (place: Place) => void;
+    isFavorite?: boolean;
+    onToggleFavorite?: (place: Place) => void;
+    hasAlert?: (placeId: string, kind: PlaceAlertKind) => boolean;
+    onToggleAlert?: (place: Place, kind: PlaceAlertKind) => void;
 }
 
+// 바텀시트에서 켤 수 있는 영업 알림
+const ALERT_KINDS: PlaceAlertKind[] = ['opening', 'closing'];
+
+// 병상 정보 라벨
+const BED_LABELS: { key: keyof BedCounts; label: MessageKey }[] = [
+    { key: 'total', label: 'beds.total' },
+    { key: 'emergency', label: 'beds.emergency' },
+    { key: 'inpatient', label: 'beds.inpatient' },
+    { key: 'icu', label: 'beds.icu' },
+    { key: 'neonatalIcu', label: 'beds.neonatalIcu' },
+    { key: 'operatingRoom', label: 'beds.operatingRoom' },
+];
+
+// 응급실 병상 가용 수준별 스타일
+const BED_AVAILABILITY_STYLES: Record<BedAvailability, string> = {
+    available: 'text-green-600',
+    limited: 'text-amber-600',
+    full: 'text-red-600',
+    unknown: 'text-gray-500',
+};
+
 /**
- * 영업 상태에 따른 텍스트 및 스타일
+ * 거리 표시 (1km 미만은 m)
  */
-function getStatusDisplay(openStatus: OpenStatus): { text: string; bgClass: string; textClass: string } {
-    switch (openStatus) {
-        case 'open':
-            return {
-                text: '영업중',
-                bgClass: 'bg-gradient-to-r from-emerald-500 to-teal-500',
-                textClass: 'text-white'
-            };
-        case 'holiday':
-            return {
-                text: '휴일',
-                bgClass: 'bg-amber-100',
-                textClass: 'text-amber-700'
-            };
-        case 'closed':
-        default:
-            return {
-                text: '영업종료',
-                bgClass: 'bg-gray-100',
-                textClass: 'text-gray-600'
-            };
-    }
+function formatDistance(distance: number): string {
+    return distance < 1000 ? `${distance}m` : `${(distance / 1000).toFixed(1)}km`;
 }
 
-export function BottomSheet({ place, onClose, isLoading = false }: BottomSheetProps) {
-    // 바텀시트가 열릴 때 배경 터치/스크롤 방지
+export function BottomSheet(props: BottomSheetProps) {
+    // 닫으면 시트를 언마운트해 다음에 열 때 요약 카드부터 시작
+    if (!props.place) return null;
+    return <SheetPanel {...props} place={props.place} />;
+}
+
+function SheetPanel({ place, onClose, isLoading = false, visitTime = null, neighbors, onNavigate, isFavorite = false, onToggleFavorite, hasAlert, onToggleAlert }: BottomSheetProps & { place: Place }) {
+    const { locale, t } = useI18n();
+    const canSwipe = onNavigate && (neighbors?.prev || neighbors?.next);
+    const handleSwipe = (direction: 1 | -1) => {
+        const target = direction > 0 ? neighbors?.next : neighbors?.prev;
+        if (target) onNavigate?.(target);
+    };
+    const { snap, setSnap, height, isDragging, offsetX, handlers } = useSheetGesture(onClose, canSwipe ? handleSwipe : undefined);
+    const isFull = snap === 'full';
+
+    // 전체 화면일 때만 배경 터치/스크롤 방지 (요약/절반 상태에서는 지도 조작 가능)
     useEffect(() => {
-        if (place) {
-            document.body.classList.add('bottomsheet-open');
-            // 배경 터치 이벤트 방지
-            const preventTouch = (e: TouchEvent) => {
-                const target = e.target as HTMLElement;
-                // 바텀시트 내부는 스크롤 허용
-                if (!target.closest('.bottomsheet-content')) {
-                    e.preventDefault();
-                }
-            };
-            document.addEventListener('touchmove', preventTouch, { passive: false });
-
-            return () => {
-                document.body.classList.remove('bottomsheet-open');
-                document.removeEventListener('touchmove', preventTouch);
-            };
-        }
-    }, [place]);
+        if (!isFull) return;
+
+        document.body.classList.add('bottomsheet-open');
+        // 배경 터치 이벤트 방지
+        const preventTouch = (e: TouchEvent) => {
+            const target = e.target as HTMLElement;
+            // 바텀시트 내부는 스크롤 허용
+            if (!target.closest('.bottomsheet-content')) {
+                e.preventDefault();
+            }
+        };
+        document.addEventListener('touchmove', preventTouch, { passive: false });
 
-    if (!place) return null;
+        return () => {
+            document.body.classList.remove('bottomsheet-open');
+            document.removeEventListener('touchmove', preventTouch);
+        };
+    }, [isFull]);
 
-    // 실시간 영업 상태 계산
-    const { openStatus: realtimeOpenStatus } = calculateOpenStatus(place.todayTimeRaw);
+    // 실시간 영업 상태 계산 (방문 계획 모드는 방문 시각 기준)
+    const isPlanning = visitTime !== null;
+    const statusMinutes = getStatusMinutes(visitTime);
+    const realtimeStatus = calculateOpenStatus(place.todayTimeRaw, statusMinutes);
+    // 좌표로 만든 임시 ID는 공유 페이지에서 다시 조회할 수 없음
+    const sharePath = place.id.includes('_') ? null : `/place/${encodeURIComponent(place.id)}`;
+    const realtimeOpenStatus = realtimeStatus.openStatus;
+    const holidayName = getAppliedHolidayName(place.todayTimeRaw);
+    const todayHours = formatTodayHours(place, locale);
+    const bedUpdatedAt = formatBedUpdatedAt(place.emergency?.updatedAt, locale);
 
+    // 배경을 누르면 요약 카드로 접기
     const handleBackdropClick = (e: React.MouseEvent) => {
         if (e.target === e.currentTarget) {
-            onClose();
+            setSnap('peek');
         }
     };
 
+    const callNumber = (phone: string) => {
+        window.location.href = `tel:${phone}`;
+    };
+
     const handleCallClick = () => {
         if (place.phone) {
-            window.location.href = `tel:${place.phone}`;
+            callNumber(place.phone);
         }
     };
 
+    const detail = place.detail;
+    const emergency = place.emergency;
+    const capabilities = emergency?.capabilities.length ? emergency.capabilities : detail?.capabilities ?? [];
+    const today = getScheduleDayIndex(visitTime ?? undefined); // 공휴일이면 공휴일 행 강조
+    const weeklySchedule = place.weeklySchedule ?? detail?.weeklySchedule;
+    const canAlert = getAlertSchedule(place) !== null;
+    const bedItems = detail
+        ? BED_LABELS.filter(({ key }) => detail.beds[key] !== null && detail.beds[key]! > 0)
+        : [];
+
     const handleDetailClick = () => {
         // 정확도를 높이기 위해 이름과 주소(앞부분)를 함께 검색
         const query = place.address
@@ -93,74 +148,176 @@ export function BottomSheet({ place, onClose, isLoading = false }: BottomSheetPr
 
     return (
         <>
-            {/* 배경 오버레이 */}
+            {/* 배경 오버레이 (전체 화면일 때만) */}
+            {isFull && (
+                <div
+                    className="fixed inset-0 bg-gradient-to-b from-black/40 to-black/60 z-[1000] animate-fadeIn backdrop-blur-sm"
+                    onClick={handleBackdropClick}
+                />
+            )}
+
+            {/* 바텀시트 (위아래로 끌어 요약/절반/전체 전환, 좌우로 밀어 이전/다음 장소) */}
             <div
-                className="fixed inset-0 bg-gradient-to-b from-black/40 to-black/60 z-[1000] animate-fadeIn backdrop-blur-sm"
-                onClick={handleBackdropClick}
-            />
-
-            {/* 바텀시트 */}
-            <div className="bottomsheet-content fixed bottom-0 left-0 right-0 bg-white rounded-t-3xl shadow-2xl z-[1001] animate-slideUp max-h-[90vh] overflow-y-auto pb-safe">
-                {/* 핸들 */}
-                <div className="flex justify-center pt-4 pb-2">
-                    <div className="w-12 h-1.5 bg-gray-300 rounded-full" />
-                </div>
+                className="bottomsheet-content fixed bottom-0 left-0 right-0 flex flex-col bg-white rounded-t-3xl shadow-2xl z-[1001] animate-slideUp pb-safe"
+                style={{
+                    height,
+                    transition: isDragging ? 'none' : 'height 0.25s cubic-bezier(0.4, 0, 0.2, 1)',
+                }}
+            >
+                {/* 드래그 영역: 핸들 + 요약 카드 */}
+                <div
+                    {...handlers}
+                    className="flex-shrink-0 touch-none select-none cursor-grab active:cursor-grabbing"
+                    style={{
+                        transform: `translateX(${offsetX}px)`,
+                        transition: offsetX === 0 ? 'transform 0.2s ease-out' : 'none',
+                    }}
+                >
+                    {/* 핸들 */}
+                    <div className="flex justify-center pt-4 pb-2">
+                        <div className="w-12 h-1.5 bg-gray-300 rounded-full" />
+                    </div>
 
-                {/* 컨텐츠 */}
-                <div className="px-6 pb-8">
-                    {/* 헤더 */}
-                    <div className="flex items-start justify-between mb-5">
-                        <div className="flex-1 min-w-0">
-                            <div className="flex items-center gap-2.5 mb-2">
-                                <h2 className="text-2xl font-bold text-gray-900 truncate">
-                                    {place.name}
-                                </h2>
-                                {(() => {
-                                    const status = getStatusDisplay(realtimeOpenStatus);
-                                    return (
-                                        <span className={`px-3 py-1.5 ${status.bgClass} ${status.textClass} text-xs font-bold rounded-full shadow-md flex-shrink-0 whitespace-nowrap`}>
-                                            {status.text}
+                    <div className="px-6">
+                        {/* 헤더 */}
+                        <div className="flex items-start justify-between mb-4">
+                            <div className="flex-1 min-w-0">
+                                <div className="flex items-center gap-2.5 mb-2">
+                                    <h2 className="text-2xl font-bold text-gray-900 truncate">
+                                        {place.name}
+                                    </h2>
+                                    <StatusBadge info={realtimeStatus} />
+                                    {holidayName && realtimeOpenStatus !== 'holiday' && (
+                                        <span className="px-2.5 py-1 bg-amber-50 text-amber-700 text-xs font-semibold rounded-full border border-amber-200 flex-shrink-0 whitespace-nowrap">
+                                            {t('sheet.holidayHours')}
                                         </span>
-                                    );
-                                })()}
-                            </div>
-                            {place.category && (
+                                    )}
+                                </div>
+                                <RomanizedHint text={place.name} className="text-xs text-gray-400 truncate -mt-1 mb-2" />
                                 <div className="flex items-center gap-2">
-                                    <span className="inline-block px-2.5 py-1 bg-blue-50 text-blue-700 text-xs font-semibold rounded-lg">
-                                        {place.category}
-                                    </span>
+                                    {place.category && (
+                                        <span className="inline-block px-2.5 py-1 bg-blue-50 text-blue-700 text-xs font-semibold rounded-lg">
+                                            {getPlaceCategoryLabel(place, locale)}
+                                        </span>
+                                    )}
+                                    {place.distance !== undefined && (
+                                        <span className="text-xs font-semibold text-gray-500">{formatDistance(place.distance)}</span>
+                                    )}
                                 </div>
+                            </div>
+                            {sharePath && (
+                                <ShareButton compact title={place.name} text={place.address} path={sharePath} />
                             )}
-                        </div>
-                        <button
-                            onClick={onClose}
-                            className="p-2.5 hover:bg-gray-100 rounded-full transition-all duration-200 hover:scale-110 active:scale-95"
-                        >
-                            <svg
-                                className="w-6 h-6 text-gray-400 hover:text-gray-600"
-                                fill="none"
-                                stroke="currentColor"
-                                viewBox="0 0 24 24"
+                            {onToggleFavorite && (
+                                <button
+                                    onClick={() => onToggleFavorite(place)}
+                                    className="p-2.5 hover:bg-gray-100 rounded-full transition-all duration-200 hover:scale-110 active:scale-95"
+                                    aria-label={isFavorite ? t('sheet.favoriteRemove') : t('sheet.favoriteAdd')}
+                                    aria-pressed={isFavorite}
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 -960 960 960" width="24px" fill={isFavorite ? '#f59e0b' : '#9ca3af'}>
+                                        {isFavorite ? (
+                                            <path d="m233-80 65-281L80-550l288-25 112-265 112 265 288 25-218 189 65 281-247-149L233-80Z" />
+                                        ) : (
+                                            <path d="m354-287 126-76 126 77-33-144 111-96-146-13-58-136-58 135-146 13 111 97-33 143ZM233-80l65-281L80-550l288-25 112-265 112 265 288 25-218 189 65 281-247-149L233-80Zm247-350Z" />
+                                        )}
+                                    </svg>
+                                </button>
+                            )}
+                            <button
+                                onClick={onClose}
+                                className="p-2.5 hover:bg-gray-100 rounded-full transition-all duration-200 hover:scale-110 active:scale-95"
                             >
-                                <path
-                                    strokeLinecap="round"
-                                    strokeLinejoin="round"
-                                    strokeWidth={2.5}
-                                    d="M6 18L18 6M6 6l12 12"
-                                />
-                            </svg>
-                        </button>
+                                <svg
+                                    className="w-6 h-6 text-gray-400 hover:text-gray-600"
+                                    fill="none"
+                                    stroke="currentColor"
+                                    viewBox="0 0 24 24"
+                                >
+                                    <path
+                                        strokeLinecap="round"
+                                        strokeLinejoin="round"
+                                        strokeWidth={2.5}
+                                        d="M6 18L18 6M6 6l12 12"
+                                    />
+                                </svg>
+                            </button>
+                        </div>
+
+                        {/* 이전/다음 장소 (거리순) */}
+                        {onNavigate && (neighbors?.prev || neighbors?.next) && (
+                            <div className="flex items-center justify-between gap-2 pb-3 text-xs text-gray-500">
+                                <button
+                                    onClick={() => neighbors?.prev && onNavigate(neighbors.prev)}
+                                    disabled={!neighbors?.prev}
+                                    className="min-w-0 truncate hover:text-gray-700 disabled:invisible"
+                                >
+                                    ‹ {neighbors?.prev?.name}
+                                </button>
+                                <button
+                                    onClick={() => neighbors?.next && onNavigate(neighbors.next)}
+                                    disabled={!neighbors?.next}
+                                    className="min-w-0 truncate hover:text-gray-700 disabled:invisible"
+                                >
+                                    {t('sheet.nextNearest', { name: neighbors?.next?.name ?? '' })} ›
+                                </button>
+                            </div>
+                        )}
                     </div>
+                </div>
 
+                {/* 상세 (절반/전체 상태에서 스크롤) */}
+                <div className={`flex-1 px-6 pb-8 overscroll-contain ${snap === 'peek' ? 'overflow-hidden' : 'overflow-y-auto'}`}>
                     {/* 정보 섹션 */}
                     <div className="space-y-4">
+                        {/* 응급실 가용병상 */}
+                        {emergency && (
+                            <div className="p-4 bg-gradient-to-r from-red-50 to-orange-50/50 rounded-xl border border-red-200/50">
+                                <div className="flex items-center justify-between mb-2">
+                                    <p className="text-xs font-semibold text-gray-500">{t('sheet.erBeds')}</p>
+                                    {bedUpdatedAt && (
+                                        <p className="text-[11px] text-gray-400">{bedUpdatedAt}</p>
+                                    )}
+                                </div>
+                                <div className="grid grid-cols-3 gap-2">
+                                    {([
+                                        { label: t('beds.general'), count: emergency.beds.general },
+                                        { label: t('beds.pediatric'), count: emergency.beds.pediatric },
+                                        { label: t('beds.isolation'), count: emergency.beds.isolation },
+                                    ]).map(({ label, count }) => (
+                                        <div key={label} className="text-center py-2 bg-white rounded-lg border border-red-100">
+                                            <p className={`text-lg font-bold ${BED_AVAILABILITY_STYLES[getCountAvailability(count)]}`}>
+                                                {formatBedCount(count)}
+                                            </p>
+                                            <p className="text-[11px] text-gray-500">{label}</p>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        {/* 중증질환 수용 가능 */}
+                        {capabilities.length > 0 && (
+                            <div className="p-4 bg-gradient-to-r from-gray-50 to-gray-100/50 rounded-xl border border-gray-200/50">
+                                <p className="text-xs font-semibold text-gray-500 mb-2">{t('sheet.capabilities')}</p>
+                                <div className="flex flex-wrap gap-1.5">
+                                    {capabilities.map((condition) => (
+                                        <span key={condition} className="px-2.5 py-1 bg-red-50 text-red-700 text-xs font-semibold rounded-lg border border-red-100">
+                                            {t(`condition.${condition}`)}
+                                        </span>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
                         {/* 주소 */}
                         {place.address && (
                             <div className="flex gap-3 p-4 bg-gradient-to-r from-gray-50 to-gray-100/50 rounded-xl border border-gray-200/50">
                                 <svg xmlns="http://www.w3.org/2000/svg" height="19px" viewBox="0 -960 960 960" width="19px" fill="#3b82f6"><path d="M536.5-503.5Q560-527 560-560t-23.5-56.5Q513-640 480-640t-56.5 23.5Q400-593 400-560t23.5 56.5Q447-480 480-480t56.5-23.5ZM480-186q122-112 181-203.5T720-552q0-109-69.5-178.5T480-800q-101 0-170.5 69.5T240-552q0 71 59 162.5T480-186Zm0 106Q319-217 239.5-334.5T160-552q0-150 96.5-239T480-880q127 0 223.5 89T800-552q0 100-79.5 217.5T480-80Zm0-480Z" /></svg>
                                 <div className="flex-1">
-                                    <p className="text-xs font-semibold text-gray-500 mb-1">주소</p>
+                                    <p className="text-xs font-semibold text-gray-500 mb-1">{t('sheet.address')}</p>
                                     <p className="text-sm text-gray-900 font-medium">{place.address}</p>
+                                    <RomanizedHint text={place.address} className="text-xs text-gray-400 mt-0.5" />
                                 </div>
                             </div>
                         )}
@@ -170,7 +327,7 @@ export function BottomSheet({ place, onClose, isLoading = false }: BottomSheetPr
                             <div className="flex gap-3 p-4 bg-gradient-to-r from-blue-50 to-indigo-50/50 rounded-xl border border-blue-200/50">
                                 <svg xmlns="http://www.w3.org/2000/svg" height="19px" viewBox="0 -960 960 960" width="19px" fill="#3b82f6"><path d="M763-145q-121-9-229.5-59.5T339-341q-86-86-135.5-194T144-764q-2-21 12.29-36.5Q170.57-816 192-816h136q17 0 29.5 10.5T374-779l24 106q2 13-1.5 25T385-628l-97 98q20 38 46 73t57.97 65.98Q422-361 456-335.5q34 25.5 72 45.5l99-96q8-8 20-11.5t25-1.5l107 23q17 5 27 17.5t10 29.5v136q0 21.43-16 35.71Q784-143 763-145ZM255-600l70-70-17.16-74H218q5 38 14 73.5t23 70.5Zm344 344q35.1 14.24 71.55 22.62Q707-225 744-220v-90l-75-16-70 70ZM255-600Zm344 344Z" /></svg>
                                 <div className="flex-1">
-                                    <p className="text-xs font-semibold text-gray-500 mb-1">전화번호</p>
+                                    <p className="text-xs font-semibold text-gray-500 mb-1">{t('sheet.phone')}</p>
                                     <button
                                         onClick={handleCallClick}
                                         className="text-sm text-blue-600 hover:text-blue-700 font-bold"
@@ -189,20 +346,22 @@ export function BottomSheet({ place, onClose, isLoading = false }: BottomSheetPr
                                 }`}>
                                 <svg className={`w-5 h-5 flex-shrink-0 mt-0.5 ${realtimeOpenStatus === 'holiday' ? 'text-amber-500' : 'text-emerald-500'}`} xmlns="http://www.w3.org/2000/svg" height="19px" viewBox="0 -960 960 960" width="19px" fill="currentColor"><path d="m614-310 51-51-149-149v-210h-72v240l170 170ZM480-96q-79.38 0-149.19-30T208.5-208.5Q156-261 126-330.96t-30-149.5Q96-560 126-630q30-70 82.5-122t122.46-82q69.96-30 149.5-30t149.55 30.24q70 30.24 121.79 82.08 51.78 51.84 81.99 121.92Q864-559.68 864-480q0 79.38-30 149.19T752-208.5Q700-156 629.87-126T480-96Zm0-384Zm.48 312q129.47 0 220.5-91.5Q792-351 792-480.48q0-129.47-91.02-220.5Q609.95-792 480.48-792 351-792 259.5-700.98 168-609.95 168-480.48 168-351 259.5-259.5T480.48-168Z" /></svg>
                                 <div className="flex-1">
-                                    <p className="text-xs font-semibold text-gray-500 mb-1">오늘 운영시간</p>
+                                    <p className="text-xs font-semibold text-gray-500 mb-1">
+                                        {isPlanning ? t('sheet.visitDayHours') : t('sheet.todayHours')}{holidayName && t('sheet.holidayApplied', { name: holidayName })}
+                                    </p>
                                     {isLoading && !place.todayHours ? (
                                         <div className="flex items-center gap-2">
                                             <div className="w-4 h-4 border-2 border-emerald-500 border-t-transparent rounded-full animate-spin"></div>
-                                            <p className="text-sm text-gray-500">불러오는 중...</p>
+                                            <p className="text-sm text-gray-500">{t('common.loading')}</p>
                                         </div>
                                     ) : realtimeOpenStatus === 'holiday' ? (
-                                        <p className="text-sm text-amber-700 font-bold">오늘은 휴일입니다</p>
-                                    ) : place.todayHours ? (
+                                        <p className="text-sm text-amber-700 font-bold">{holidayName ? t('sheet.holidayClosed', { name: holidayName }) : t('sheet.todayHoliday')}</p>
+                                    ) : todayHours ? (
                                         <p className="text-sm text-gray-900 font-bold">
-                                            {place.todayHours.open} - {place.todayHours.close}
+                                            {t('common.hoursRange', { ...todayHours })}
                                         </p>
                                     ) : (
-                                        <p className="text-sm text-gray-500">정보 없음</p>
+                                        <p className="text-sm text-gray-500">{t('common.noInfo')}</p>
                                     )}
                                 </div>
                             </div>
@@ -213,7 +372,7 @@ export function BottomSheet({ place, onClose, isLoading = false }: BottomSheetPr
                             <div className="flex gap-3 p-4 bg-gradient-to-r from-blue-50 to-sky-50/50 rounded-xl border border-blue-200/50">
                                 <svg xmlns="http://www.w3.org/2000/svg" height="19px" viewBox="0 -960 960 960" width="19px" fill="#3b82f6"><path d="m147-257-51-51 196-196q35-35 85-35t85 35l34 34q14 14 34 14t34-14l177-178H624v-72h240v240h-72v-117L614-420q-35 35-85 35t-85-35l-33-33q-14-14-34-14t-34 14L147-257Z" /></svg>
                                 <div className="flex-1">
-                                    <p className="text-xs font-semibold text-gray-500 mb-1">거리</p>
+                                    <p className="text-xs font-semibold text-gray-500 mb-1">{t('sheet.distance')}</p>
                                     <p className="text-sm text-gray-900 font-bold">
                                         {place.distance < 1000
                                             ? `${place.distance}m`
@@ -222,10 +381,119 @@ export function BottomSheet({ place, onClose, isLoading = false }: BottomSheetPr
                                 </div>
                             </div>
                         )}
+
+                        {/* 상세 정보 로딩 */}
+                        {isLoading && !detail && (
+                            <div className="flex items-center gap-2 px-4 py-3 bg-gray-50 rounded-xl border border-gray-200/50">
+                                <div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+                                <p className="text-sm text-gray-500">{t('sheet.detailLoading')}</p>
+                            </div>
+                        )}
+
+                        {/* 응급실 전화 */}
+                        {detail?.emergencyPhone && (
+                            <div className="flex gap-3 p-4 bg-gradient-to-r from-rose-50 to-pink-50/50 rounded-xl border border-rose-200/50">
+                                <svg xmlns="http://www.w3.org/2000/svg" height="19px" viewBox="0 -960 960 960" width="19px" fill="#f43f5e"><path d="M763-145q-121-9-229.5-59.5T339-341q-86-86-135.5-194T144-764q-2-21 12.29-36.5Q170.57-816 192-816h136q17 0 29.5 10.5T374-779l24 106q2 13-1.5 25T385-628l-97 98q20 38 46 73t57.97 65.98Q422-361 456-335.5q34 25.5 72 45.5l99-96q8-8 20-11.5t25-1.5l107 23q17 5 27 17.5t10 29.5v136q0 21.43-16 35.71Q784-143 763-145Z" /></svg>
+                                <div className="flex-1">
+                                    <p className="text-xs font-semibold text-gray-500 mb-1">{t('sheet.erPhone')}</p>
+                                    <button
+                                        onClick={() => callNumber(detail.emergencyPhone!)}
+                                        className="text-sm text-rose-600 hover:text-rose-700 font-bold"
+                                    >
+                                        {detail.emergencyPhone}
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+
+                        {/* 주간 운영시간 */}
+                        {weeklySchedule && weeklySchedule.some((d) => d.interval) && (
+                            <WeeklySchedule schedule={weeklySchedule} today={today} currentMinutes={statusMinutes} />
+                        )}
+
+                        {/* 영업 알림 (응급실은 24시간 운영이라 제외) */}
+                        {onToggleAlert && place.type !== 'emergency' && (
+                            <div className="p-4 bg-gradient-to-r from-gray-50 to-gray-100/50 rounded-xl border border-gray-200/50">
+                                <p className="text-xs font-semibold text-gray-500 mb-2">{t('sheet.alerts')}</p>
+                                <div className="flex flex-wrap gap-1.5">
+                                    {ALERT_KINDS.map((kind) => {
+                                        const isOn = hasAlert?.(place.id, kind) ?? false;
+                                        return (
+                                            <button
+                                                key={kind}
+                                                onClick={() => onToggleAlert(place, kind)}
+                                                disabled={!isOn && !canAlert}
+                                                aria-pressed={isOn}
+                                                className={`px-3 py-1.5 rounded-lg text-xs font-semibold border transition-colors disabled:opacity-40 ${isOn
+                                                    ? 'bg-blue-500 text-white border-blue-500'
+                                                    : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-50'
+                                                    }`}
+                                            >
+                                                {t(`alert.${kind}`)}
+                                            </button>
+                                        );
+                                    })}
+                                </div>
+                                {!canAlert && (
+                                    <p className="mt-2 text-[11px] text-gray-400">
+                                        {isLoading ? t('sheet.alertsLoading') : t('sheet.alertsUnavailable')}
+                                    </p>
+                                )}
+                            </div>
+                        )}
+
+                        {/* 진료과목 */}
+                        {detail && detail.departments.length > 0 && (
+                            <div className="p-4 bg-gradient-to-r from-gray-50 to-gray-100/50 rounded-xl border border-gray-200/50">
+                                <p className="text-xs font-semibold text-gray-500 mb-2">{t('sheet.departments')}</p>
+                                <div className="flex flex-wrap gap-1.5">
+                                    {detail.departments.map((name) => (
+                                        <span key={name} className="px-2.5 py-1 bg-white text-gray-700 text-xs font-medium rounded-lg border border-gray-200">
+                                            {getDepartmentLabel(name, locale)}
+                                        </span>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        {/* 병상 정보 */}
+                        {bedItems.length > 0 && (
+                            <div className="p-4 bg-gradient-to-r from-gray-50 to-gray-100/50 rounded-xl border border-gray-200/50">
+                                <p className="text-xs font-semibold text-gray-500 mb-2">{t('sheet.beds')}</p>
+                                <div className="grid grid-cols-3 gap-2">
+                                    {bedItems.map(({ key, label }) => (
+                                        <div key={key} className="text-center py-2 bg-white rounded-lg border border-gray-200">
+                                            <p className="text-sm font-bold text-gray-900">{detail!.beds[key]}</p>
+                                            <p className="text-[11px] text-gray-500">{t(label)}</p>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        {/* 기관 소개 */}
+                        {detail?.description && (
+                            <div className="p-4 bg-gradient-to-r from-gray-50 to-gray-100/50 rounded-xl border border-gray-200/50">
+                                <p className="text-xs font-semibold text-gray-500 mb-1">{t('sheet.intro')}</p>
+                                <p className="text-sm text-gray-700 whitespace-pre-line">{detail.description}</p>
+                            </div>
+                        )}
+
                     </div>
 
+                    {/* 응급실 전화 버튼 (한 번에 연결) */}
+                    {emergency?.erPhone && (
+                        <button
+                            onClick={() => callNumber(emergency.erPhone!)}
+                            className="w-full mt-6 bg-gradient-to-r from-red-600 to-orange-500 hover:from-red-700 hover:to-orange-600 text-white font-bold py-4 rounded-2xl transition-all duration-300 transform hover:scale-[1.02] active:scale-95 shadow-lg shadow-red-500/30 flex items-center justify-center gap-2"
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" height="19px" viewBox="0 -960 960 960" width="19px" fill="white"><path d="M763-145q-121-9-229.5-59.5T339-341q-86-86-136-194.5T144-765q-2-21 12.5-36.5T192-817h136q17 0 29.5 10.5T374-780l24 107q2 13-1.5 25T385-628l-97 98q20 38 46 73t58 66q30 30 64 55.5t72 45.5l99-96q8-8 20-11.5t25-1.5l107 23q17 5 27 17.5t10 29.5v136q0 21-16 35.5T763-145Z" /></svg>
+                            {t('sheet.erCall', { phone: emergency.erPhone })}
+                        </button>
+                    )}
+
                     {/* 버튼 영역 */}
-                    <div className="flex gap-3 mt-6">
+                    <div className={`flex gap-3 ${emergency?.erPhone ? 'mt-3' : 'mt-6'}`}>
                         {/* 전화 걸기 버튼 */}
                         {place.phone && (
                             <button
@@ -233,7 +501,7 @@ export function BottomSheet({ place, onClose, isLoading = false }: BottomSheetPr
                                 className="flex-1 bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 text-white font-bold py-4 rounded-2xl transition-all duration-300 transform hover:scale-[1.02] active:scale-95 shadow-lg shadow-blue-500/30 flex items-center justify-center gap-2"
                             >
                                 <svg xmlns="http://www.w3.org/2000/svg" height="19px" viewBox="0 -960 960 960" width="19px" fill="white"><path d="M763-145q-121-9-229.5-59.5T339-341q-86-86-136-194.5T144-765q-2-21 12.5-36.5T192-817h136q17 0 29.5 10.5T374-780l24 107q2 13-1.5 25T385-628l-97 98q20 38 46 73t58 66q30 30 64 55.5t72 45.5l99-96q8-8 20-11.5t25-1.5l107 23q17 5 27 17.5t10 29.5v136q0 21-16 35.5T763-145Z" /></svg>
-                                전화
+                                {t('common.call')}
                             </button>
                         )}
 
@@ -243,7 +511,7 @@ export function BottomSheet({ place, onClose, isLoading = false }: BottomSheetPr
                             className="flex-1 bg-gradient-to-r from-emerald-500 to-teal-500 hover:from-emerald-600 hover:to-teal-600 text-white font-bold py-4 rounded-2xl transition-all duration-300 transform hover:scale-[1.02] active:scale-95 shadow-lg shadow-emerald-500/30 flex items-center justify-center gap-2"
                         >
                             <svg xmlns="http://www.w3.org/2000/svg" height="19px" viewBox="0 -960 960 960" width="19px" fill="white"><path d="M599-361q49-49 49-119t-49-119q-49-49-119-49t-119 49q-49 49-49 119t49 119q49 49 119 49t119-49Zm-187-51q-28-28-28-68t28-68q28-28 68-28t68 28q28 28 28 68t-28 68q-28 28-68 28t-68-28ZM220-270.5Q103-349 48-480q55-131 172-209.5T480-768q143 0 260 78.5T912-480q-55 131-172 209.5T480-192q-143 0-260-78.5Z" /></svg>
-                            상세보기
+                            {t('sheet.viewDetail')}
                         </button>
                     </div>
                 </div>
@@ -0,0 +1,110 @@
+'use client';
+
+import { useState } from 'react';
+import { MedicalDepartment } from '../types';
+import { filterDepartments } from '../utils/departments';
+import { useI18n } from '../providers/I18nProvider';
+
+interface DepartmentSheetProps {
+    selected: MedicalDepartment[];
+    onApply: (departments: MedicalDepartment[]) => void;
+    onClose: () => void;
+}
+
+/**
+ * 전체 진료과목 선택 시트 (이름 검색, 여러 개 선택)
+ */
+export function DepartmentSheet({ selected, onApply, onClose }: DepartmentSheetProps) {
+    const { locale, t } = useI18n();
+    const [query, setQuery] = useState('');
+    // 적용 전까지는 임시 선택 상태로 관리
+    const [draft, setDraft] = useState<MedicalDepartment[]>(selected);
+
+    const departments = filterDepartments(query, locale);
+
+    const toggle = (dept: MedicalDepartment) => {
+        setDraft((prev) => (prev.includes(dept) ? prev.filter((d) => d !== dept) : [...prev, dept]));
+    };
+
+    const handleApply = () => {
+        onApply(draft);
+        onClose();
+    };
+
+    return (
+        <>
+            <div className="fixed inset-0 bg-black/30 z-40" onClick={onClose} />
+            <div
+                className="fixed left-0 right-0 bottom-0 max-h-[75vh] flex flex-col bg-white rounded-t-3xl shadow-2xl z-50"
+                role="dialog"
+                aria-label={t('departments.title')}
+            >
+                <div className="flex items-center justify-between px-5 pt-5 pb-3">
+                    <h2 className="text-lg font-bold text-gray-900">{t('departments.title')}</h2>
+                    <button
+                        onClick={onClose}
+                        className="p-1.5 rounded-lg hover:bg-gray-100 transition-colors"
+                        aria-label={t('common.close')}
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" height="22px" viewBox="0 -960 960 960" width="22px" fill="#6b7280"><path d="m256-200-56-56 224-224-224-224 56-56 224 224 224-224 56 56-224 224 224 224-56 56-224-224-224 224Z" /></svg>
+                    </button>
+                </div>
+
+                {/* 과목 이름 검색 */}
+                <div className="px-5 pb-3">
+                    <input
+                        type="search"
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        placeholder={t('departments.placeholder')}
+                        className="w-full px-3 py-2 bg-gray-100 rounded-xl text-sm text-gray-900 placeholder-gray-500 outline-none focus:ring-2 focus:ring-rose-300"
+                        aria-label={t('departments.search')}
+                    />
+                </div>
+
+                <div className="flex-1 overflow-y-auto px-5">
+                    {departments.length === 0 && (
+                        <p className="py-6 text-center text-sm text-gray-500">{t('departments.empty')}</p>
+                    )}
+                    <div className="grid grid-cols-2 gap-2 pb-3">
+                        {departments.map((dept) => {
+                            const isChecked = draft.includes(dept);
+                            return (
+                                <label
+                                    key={dept}
+                                    className={`flex items-center gap-2 px-3 py-2.5 rounded-xl border text-sm cursor-pointer transition-colors ${isChecked
+                                        ? 'bg-rose-50 border-rose-200 text-rose-600 font-semibold'
+                                        : 'bg-white border-gray-200 text-gray-700 hover:bg-gray-50'
+                                        }`}
+                                >
+                                    <input
+                                        type="checkbox"
+                                        checked={isChecked}
+                                        onChange={() => toggle(dept)}
+                                        className="accent-rose-500"
+                                    />
+                                    {t(`department.${dept}`)}
+                                </label>
+                            );
+                        })}
+                    </div>
+                </div>
+
+                <div className="flex gap-2 px-5 pt-3 pb-5 border-t border-gray-100">
+                    <button
+                        onClick={() => setDraft([])}
+                        className="px-4 py-3 rounded-xl text-sm font-semibold bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors"
+                    >
+                        {t('departments.reset')}
+                    </button>
+                    <button
+                        onClick={handleApply}
+                        className="flex-1 py-3 rounded-xl text-sm font-semibold bg-gradient-to-r from-rose-500 to-pink-500 text-white shadow-lg shadow-rose-500/30"
+                    >
+                        {draft.length > 0 ? t('departments.apply', { count: draft.length }) : t('departments.showAll')}
+                    </button>
+                </div>
+            </div>
+        </>
+    );
+}
@@ -2,21 +2,58 @@
 
 import { useState } from 'react';
 import Link from 'next/link';
-import { FilterType, MedicalDepartment, DEPARTMENT_NAMES } from '../types';
+import { FilterType, PlaceSortKey, Place, Location, GeocodeResult, MedicalDepartment, HospitalCategory, SevereCondition, LOCALE_NAMES } from '../types';
+import { SEVERE_CONDITIONS } from '../utils/emergency';
+import { HOSPITAL_CATEGORY_CODES } from '../utils/hospitalCategories';
+import { LOCALES } from '../utils/locale';
+import { useI18n } from '../providers/I18nProvider';
+import { VisitTimePicker } from './VisitTimePicker';
+import { PlaceSearchBox } from './PlaceSearchBox';
+import { DepartmentSheet } from './DepartmentSheet';
+import { ResultOptions } from './ResultOptions';
 
 interface HeaderProps {
     filter: FilterType;
     setFilter: (filter: FilterType) => void;
-    department: MedicalDepartment;
-    setDepartment: (dept: MedicalDepartment) => void;
+    departments: MedicalDepartment[]; // 비어 있으면 전체 과목
+    setDepartments: (departments: MedicalDepartment[]) => void;
+    categories: HospitalCategory[]; // 비어 있으면 전체 병원 종류
+    setCategories: (categories: HospitalCategory[]) => void;
+    conditions: SevereCondition[];
+    toggleCondition: (condition: SevereCondition) => void;
+    clearConditions: () => void;
+    visitTime: Date | null;
+    setVisitTime: (time: Date | null) => void;
+    openNowOnly: boolean;
+    setOpenNowOnly: (value: boolean) => void;
+    sortKey: PlaceSortKey;
+    setSortKey: (key: PlaceSortKey) => void;
+    searchOrigin: Location | null; // 이름 검색 거리 기준
+    onSearchSelect: (place: Place) => void;
+    onLocationSelect: (result: GeocodeResult) => void;
 }
 
 const POPULAR_DEPARTMENTS: MedicalDepartment[] = [
-    'all', 'D001', 'D008', 'D013', 'D012', 'D005', 'D002', 'D026', 'D011', 'D014'
+    'D001', 'D008', 'D013', 'D012', 'D005', 'D002', 'D026', 'D011', 'D014'
 ];
 
-export function Header({ filter, setFilter, department, setDepartment }: HeaderProps) {
+export function Header({ filter, setFilter, departments, setDepartments, categories, setCategories, conditions, toggleCondition, clearConditions, visitTime, setVisitTime, openNowOnly, setOpenNowOnly, sortKey, setSortKey, searchOrigin, onSearchSelect, onLocationSelect }: HeaderProps) {
+    const { locale, t, setLocale } = useI18n();
     const [isMenuOpen, setIsMenuOpen] = useState(false);
+    const [isDepartmentSheetOpen, setIsDepartmentSheetOpen] = useState(false);
+
+    // 인기 과목 칩 선택/해제
+    const toggleDepartment = (dept: MedicalDepartment) => {
+        setDepartments(departments.includes(dept) ? departments.filter((d) => d !== dept) : [...departments, dept]);
+    };
+
+    // 병원 종류 칩 선택/해제
+    const toggleCategory = (category: HospitalCategory) => {
+        setCategories(categories.includes(category) ? categories.filter((c) => c !== category) : [...categories, category]);
+    };
+
+    // 인기 과목 외에 선택된 과목 수 (더보기 버튼에 표시)
+    const extraCount = departments.filter((dept) => !POPULAR_DEPARTMENTS.includes(dept)).length;
 
     return (
         <header className="relative bg-white shadow-md z-20">
@@ -25,16 +62,16 @@ export function Header({ filter, setFilter, department, setDepartment }: HeaderP
                     <div>
                         <h1 className="text-2xl font-extrabold text-gray-900 mb-1 tracking-tight flex items-center gap-1.5">
                             <svg xmlns="http://www.w3.org/2000/svg" height="30px" viewBox="0 -960 960 960" width="30px" fill="#3b82f6"><path d="M444-408h72v-108h108v-72H516v-108h-72v108H336v72h108v108Zm36 312Q323.03-227.11 245.51-339.55 168-452 168-549q0-134 89-224.5T479.5-864q133.5 0 223 90.5T792-549q0 97-77 209T480-96Z" /></svg>
-                            아프면 바로가
+                            {t('app.name')}
                         </h1>
-                        <p className="text-sm text-gray-600">지금 바로 갈 수 있는 병원과 약국이에요</p>
+                        <p className="text-sm text-gray-600">{t('app.tagline')}</p>
                     </div>
 
                     {/* 햄버거 메뉴 버튼 */}
                     <button
                         onClick={() => setIsMenuOpen(!isMenuOpen)}
                         className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
-                        aria-label="메뉴"
+                        aria-label={t('menu.open')}
                     >
                         <svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 -960 960 960" width="24px" fill="#374151">
                             <path d="M120-240v-80h720v80H120Zm0-200v-80h720v80H120Zm0-200v-80h720v80H120Z" />
@@ -50,6 +87,16 @@ export function Header({ filter, setFilter, department, setDepartment }: HeaderP
                             onClick={() => setIsMenuOpen(false)}
                         />
                         <div className="absolute right-4 top-14 bg-white rounded-xl shadow-xl border border-gray-100 py-2 z-40 min-w-[160px]">
+                            <Link
+                                href="/alerts"
+                                className="flex items-center gap-3 px-4 py-3 text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+                                onClick={() => setIsMenuOpen(false)}
+                            >
+                                <svg xmlns="http://www.w3.org/2000/svg" height="20px" viewBox="0 -960 960 960" width="20px" fill="#6b7280">
+                                    <path d="M160-200v-80h80v-280q0-83 50-147.5T420-792v-28q0-25 17.5-42.5T480-880q25 0 42.5 17.5T540-820v28q80 20 130 84.5T720-560v280h80v80H160Zm320-300Zm0 420q-33 0-56.5-23.5T400-160h160q0 33-23.5 56.5T480-80ZM320-280h320v-280q0-66-47-113t-113-47q-66 0-113 47t-47 113v280Z" />
+                                </svg>
+                                {t('menu.alerts')}
+                            </Link>
                             <Link
                                 href="/about"
                                 className="flex items-center gap-3 px-4 py-3 text-sm text-gray-700 hover:bg-gray-50 transition-colors"
@@ -58,7 +105,7 @@ export function Header({ filter, setFilter, department, setDepartment }: HeaderP
                                 <svg xmlns="http://www.w3.org/2000/svg" height="20px" viewBox="0 -960 960 960" width="20px" fill="#6b7280">
                                     <path d="M440-280h80v-240h-80v240Zm40-320q17 0 28.5-11.5T520-640q0-17-11.5-28.5T480-680q-17 0-28.5 11.5T440-640q0 17 11.5 28.5T480-600Zm0 520q-83 0-156-31.5T197-197q-54-54-85.5-127T80-480q0-83 31.5-156T197-763q54-54 127-85.5T480-880q83 0 156 31.5T763-763q54 54 85.5 127T880-480q0 83-31.5 156T763-197q-54 54-127 85.5T480-80Z" />
                                 </svg>
-                                서비스 소개
+                                {t('menu.about')}
                             </Link>
                             <Link
                                 href="/privacy"
@@ -68,7 +115,7 @@ export function Header({ filter, setFilter, department, setDepartment }: HeaderP
                                 <svg xmlns="http://www.w3.org/2000/svg" height="20px" viewBox="0 -960 960 960" width="20px" fill="#6b7280">
                                     <path d="M480-80q-139-35-229.5-159.5T160-516v-244l320-120 320 120v244q0 152-90.5 276.5T480-80Zm0-84q104-33 172-132t68-220v-189l-240-90-240 90v189q0 121 68 220t172 132Z" />
                                 </svg>
-                                개인정보처리방침
+                                {t('menu.privacy')}
                             </Link>
                             <Link
                                 href="/terms"
@@ -78,74 +125,208 @@ export function Header({ filter, setFilter, department, setDepartment }: HeaderP
                                 <svg xmlns="http://www.w3.org/2000/svg" height="20px" viewBox="0 -960 960 960" width="20px" fill="#6b7280">
                                     <path d="M320-240h320v-80H320v80Zm0-160h320v-80H320v80ZM240-80q-33 0-56.5-23.5T160-160v-640q0-33 23.5-56.5T240-880h320l240 240v480q0 33-23.5 56.5T720-80H240Zm280-520v-200H240v640h480v-440H520Z" />
                                 </svg>
-                                이용약관
+                                {t('menu.terms')}
                             </Link>
+
+                            {/* 언어 선택 */}
+                            <div className="border-t border-gray-100 mt-2 pt-2 px-4 pb-1">
+                                <p className="py-1 text-xs font-semibold text-gray-400">{t('language.label')}</p>
+                                <div className="flex flex-wrap gap-1.5 pt-1">
+                                    {LOCALES.map((code) => (
+                                        <button
+                                            key={code}
+                                            lang={code}
+                                            onClick={() => { setLocale(code); setIsMenuOpen(false); }}
+                                            aria-pressed={locale === code}
+                                            className={`px-2.5 py-1 rounded-lg text-xs font-medium transition-colors ${locale === code
+                                                ? 'bg-blue-500 text-white'
+                                                : 'bg-gray-50 text-gray-600 border border-gray-200 hover:bg-gray-100'
+                                                }`}
+                                        >
+                                            {LOCALE_NAMES[code]}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
                         </div>
                     </>
                 )}
             </div>
 
+            {/* 이름 검색 */}
+            <PlaceSearchBox origin={searchOrigin} onSelect={onSearchSelect} onLocationSelect={onLocationSelect} />
+
             {/* 필터 버튼 */}
-            <div className="relative px-4 pb-3 flex gap-2">
+            <div className="relative px-4 pb-3 flex gap-2 overflow-x-auto scrollbar-hide" style={{ scrollbarWidth: 'none', msOverflowStyle: 'none' }}>
                 <button
                     onClick={() => setFilter('all')}
-                    className={`px-5 py-2.5 rounded-xl text-sm font-semibold transition-all duration-300 transform hover:scale-105 active:scale-95 ${filter === 'all'
+                    className={`flex-shrink-0 px-5 py-2.5 rounded-xl text-sm font-semibold transition-all duration-300 transform hover:scale-105 active:scale-95 ${filter === 'all'
                         ? 'bg-blue-500 text-white shadow-lg shadow-blue-500/30'
                         : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
                         }`}
                 >
                     <span className="flex items-center gap-1.5">
-                        전체
+                        {t('common.all')}
                     </span>
                 </button>
                 <button
                     onClick={() => setFilter('hospital')}
-                    className={`px-5 py-2.5 rounded-xl text-sm font-semibold transition-all duration-300 transform hover:scale-105 active:scale-95 ${filter === 'hospital'
+                    className={`flex-shrink-0 px-5 py-2.5 rounded-xl text-sm font-semibold transition-all duration-300 transform hover:scale-105 active:scale-95 ${filter === 'hospital'
                         ? 'bg-gradient-to-r from-rose-500 to-pink-500 text-white shadow-lg shadow-rose-500/30'
                         : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
                         }`}
                 >
                     <span className="flex items-center gap-1.5">
                         <svg xmlns="http://www.w3.org/2000/svg" height="20px" viewBox="0 -960 960 960" width="20px" fill="currentColor"><path d="M336-144v-192H144v-288h192v-192h288v192h192v288H624v192H336Zm72-72h144v-192h192v-144H552v-192H408v192H216v144h192v192Zm72-264Z" /></svg>
-                        병원
+                        {t('placeType.hospital')}
                     </span>
                 </button>
                 <button
-                    onClick={() => { setFilter('pharmacy'); setDepartment('all'); }}
-                    className={`px-5 py-2.5 rounded-xl text-sm font-semibold transition-all duration-300 transform hover:scale-105 active:scale-95 ${filter === 'pharmacy'
+                    onClick={() => setFilter('pharmacy')}
+                    className={`flex-shrink-0 px-5 py-2.5 rounded-xl text-sm font-semibold transition-all duration-300 transform hover:scale-105 active:scale-95 ${filter === 'pharmacy'
                         ? 'bg-gradient-to-r from-emerald-500 to-teal-500 text-white shadow-lg shadow-emerald-500/30'
                         : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
                         }`}
                 >
                     <span className="flex items-center gap-1.5">
                         <svg xmlns="http://www.w3.org/2000/svg" height="20px" viewBox="0 -960 960 960" width="20px" fill="currentColor"><path d="M354-144q-87.73 0-148.87-61.13Q144-266.27 144-354q0-42 16-81t45-68l252-252q29-29 68-45t81-16q87.73 0 148.87 61.13Q816-693.73 816-606q0 42-16 81t-45 68L503-205q-29 29-68 45t-81 16Zm249-264 101-100q20-20 30-45t10-52.67q0-57.24-40.55-97.78Q662.91-744 605.67-744 578-744 553-734t-45 30L408-603l195 195ZM354.33-216Q382-216 407-226t45-30l100-101-195-195-100 100q-20 20-30.5 45T216-354.33q0 57.24 40.55 97.78Q297.09-216 354.33-216Z" /></svg>
-                        약국
+                        {t('placeType.pharmacy')}
+                    </span>
+                </button>
+                <button
+                    onClick={() => setFilter('emergency')}
+                    className={`flex-shrink-0 px-5 py-2.5 rounded-xl text-sm font-semibold transition-all duration-300 transform hover:scale-105 active:scale-95 ${filter === 'emergency'
+                        ? 'bg-gradient-to-r from-red-600 to-orange-500 text-white shadow-lg shadow-red-500/30'
+                        : 'bg-red-50 text-red-600 hover:bg-red-100'
+                        }`}
+                >
+                    <span className="flex items-center gap-1.5">
+                        <svg xmlns="http://www.w3.org/2000/svg" height="20px" viewBox="0 -960 960 960" width="20px" fill="currentColor"><path d="M444-288h72v-120h120v-72H516v-120h-72v120H324v72h120v120ZM240-144q-29.7 0-50.85-21.15Q168-186.3 168-216v-456q0-29.7 21.15-50.85Q210.3-744 240-744h120v-72q0-29.7 21.15-50.85Q402.3-888 432-888h96q29.7 0 50.85 21.15Q600-845.7 600-816v72h120q29.7 0 50.85 21.15Q792-701.7 792-672v456q0 29.7-21.15 50.85Q749.7-144 720-144H240Zm192-600h96v-72h-96v72Z" /></svg>
+                        {t('placeType.emergency')}
                     </span>
                 </button>
             </div>
 
-            {/* 진료과목 필터 (병원 선택 시 슬라이드, 레이아웃 시프트 방지) */}
+            {/* 방문 시간 선택, 영업중만 보기/정렬 (응급실은 24시간 운영이므로 제외) */}
+            {filter !== 'emergency' && (
+                <>
+                    <VisitTimePicker visitTime={visitTime} setVisitTime={setVisitTime} />
+                    <ResultOptions
+                        openNowOnly={openNowOnly}
+                        setOpenNowOnly={setOpenNowOnly}
+                        sortKey={sortKey}
+                        setSortKey={setSortKey}
+                        isPlanning={visitTime !== null}
+                    />
+                </>
+            )}
+
+            {/* 병원 종류/진료과목 필터 (병원 선택 시 슬라이드, 레이아웃 시프트 방지) */}
             <div
-                className={`overflow-hidden transition-all duration-200 ease-in-out ${filter === 'hospital' ? 'max-h-12 opacity-100' : 'max-h-0 opacity-0'
+                className={`overflow-hidden transition-all duration-200 ease-in-out ${filter === 'hospital' ? 'max-h-24 opacity-100' : 'max-h-0 opacity-0'
                     }`}
             >
+                <div className="relative px-4 pb-2">
+                    <div className="flex gap-2 overflow-x-auto scrollbar-hide pb-1" style={{ scrollbarWidth: 'none', msOverflowStyle: 'none' }}>
+                        <button
+                            onClick={() => setCategories([])}
+                            className={`flex-shrink-0 px-3 py-1.5 rounded-full text-xs font-semibold transition-all duration-200 ${categories.length === 0
+                                ? 'bg-rose-500 text-white'
+                                : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-50'
+                                }`}
+                        >
+                            {t('header.allCategories')}
+                        </button>
+                        {HOSPITAL_CATEGORY_CODES.map((category) => (
+                            <button
+                                key={category}
+                                onClick={() => toggleCategory(category)}
+                                className={`flex-shrink-0 px-3 py-1.5 rounded-full text-xs font-semibold transition-all duration-200 ${categories.includes(category)
+                                    ? 'bg-rose-500 text-white'
+                                    : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-50'
+                                    }`}
+                            >
+                                {t(`category.${category}`)}
+                            </button>
+                        ))}
+                    </div>
+                </div>
                 <div className="relative px-4 pb-3">
                     <div className="flex gap-2 overflow-x-auto scrollbar-hide pb-1" style={{ scrollbarWidth: 'none', msOverflowStyle: 'none' }}>
+                        <button
+                            onClick={() => setDepartments([])}
+                            className={`flex-shrink-0 px-3 py-1.5 rounded-lg text-xs font-medium transition-all duration-200 ${departments.length === 0
+                                ? 'bg-rose-100 text-rose-600 border border-rose-200'
+                                : 'bg-gray-50 text-gray-600 border border-gray-200 hover:bg-gray-100'
+                                }`}
+                        >
+                            {t('common.all')}
+                        </button>
                         {POPULAR_DEPARTMENTS.map((dept) => (
                             <button
                                 key={dept}
-                                onClick={() => setDepartment(dept)}
-                                className={`flex-shrink-0 px-3 py-1.5 rounded-lg text-xs font-medium transition-all duration-200 ${department === dept
+                                onClick={() => toggleDepartment(dept)}
+                                className={`flex-shrink-0 px-3 py-1.5 rounded-lg text-xs font-medium transition-all duration-200 ${departments.includes(dept)
                                     ? 'bg-rose-100 text-rose-600 border border-rose-200'
                                     : 'bg-gray-50 text-gray-600 border border-gray-200 hover:bg-gray-100'
                                     }`}
                             >
-                                {DEPARTMENT_NAMES[dept]}
+                                {t(`department.${dept}`)}
                             </button>
                         ))}
+                        <button
+                            onClick={() => setIsDepartmentSheetOpen(true)}
+                            className={`flex-shrink-0 px-3 py-1.5 rounded-lg text-xs font-medium transition-all duration-200 ${extraCount > 0
+                                ? 'bg-rose-100 text-rose-600 border border-rose-200'
+                                : 'bg-gray-50 text-gray-600 border border-gray-200 hover:bg-gray-100'
+                                }`}
+                        >
+                            {extraCount > 0 ? t('header.moreCount', { count: extraCount }) : t('header.more')}
+                        </button>
                     </div>
                 </div>
             </div>
+
+            {/* 중증질환 필터 (응급실 선택 시, 여러 개 선택 가능) */}
+            <div
+                className={`overflow-hidden transition-all duration-200 ease-in-out ${filter === 'emergency' ? 'max-h-12 opacity-100' : 'max-h-0 opacity-0'
+                    }`}
+            >
+                <div className="relative px-4 pb-3">
+                    <div className="flex gap-2 overflow-x-auto scrollbar-hide pb-1" style={{ scrollbarWidth: 'none', msOverflowStyle: 'none' }}>
+                        <button
+                            onClick={clearConditions}
+                            className={`flex-shrink-0 px-3 py-1.5 rounded-lg text-xs font-medium transition-all duration-200 ${conditions.length === 0
+                                ? 'bg-red-100 text-red-600 border border-red-200'
+                                : 'bg-gray-50 text-gray-600 border border-gray-200 hover:bg-gray-100'
+                                }`}
+                        >
+                            {t('common.all')}
+                        </button>
+                        {SEVERE_CONDITIONS.map((condition) => (
+                            <button
+                                key={condition}
+                                onClick={() => toggleCondition(condition)}
+                                className={`flex-shrink-0 px-3 py-1.5 rounded-lg text-xs font-medium transition-all duration-200 ${conditions.includes(condition)
+                                    ? 'bg-red-100 text-red-600 border border-red-200'
+                                    : 'bg-gray-50 text-gray-600 border border-gray-200 hover:bg-gray-100'
+                                    }`}
+                            >
+                                {t(`condition.${condition}`)}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            {/* 전체 진료과목 선택 시트 */}
+            {isDepartmentSheetOpen && (
+                <DepartmentSheet
+                    selected={departments}
+                    onApply={setDepartments}
+                    onClose={() => setIsDepartmentSheetOpen(false)}
+                />
+            )}
         </header>
     );
 }
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { useI18n } from '../providers/I18nProvider';
 
 interface BeforeInstallPromptEvent extends Event {
   prompt: () => Promise<void>;
@@ -8,6 +9,7 @@ interface BeforeInstallPromptEvent extends Event {
 }
 
 export function InstallPrompt() {
+  const { t } = useI18n();
   const [deferredPrompt, setDeferredPrompt] =
     useState<BeforeInstallPromptEvent | null>(null);
   const [showPrompt, setShowPrompt] = useState(false);
@@ -94,18 +96,16 @@ export function InstallPrompt() {
           </div>
 
           <div className="flex-1 min-w-0">
-            <h3 className="font-bold text-gray-900">앱으로 설치하기</h3>
+            <h3 className="font-bold text-gray-900">{t('install.title')}</h3>
             <p className="text-sm text-gray-600 mt-1">
-              {isIOS
-                ? '홈 화면에 추가하여 앱처럼 사용하세요'
-                : '홈 화면에서 바로 접근할 수 있어요'}
+              {isIOS ? t('install.iosHint') : t('install.hint')}
             </p>
 
             {isIOS ? (
               // iOS 설치 가이드
               <div className="mt-3 text-xs text-gray-500 bg-gray-50 rounded-lg p-3">
                 <p className="flex items-center gap-2">
-                  <span>1. 하단의</span>
+                  <span>{t('install.iosStep1')}</span>
                   <svg
                     className="w-5 h-5"
                     fill="none"
@@ -119,9 +119,9 @@ export function InstallPrompt() {
                       d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z"
                     />
                   </svg>
-                  <span>공유 버튼 탭</span>
+                  <span>{t('install.iosStep1Share')}</span>
                 </p>
-                <p className="mt-1">2. &quot;홈 화면에 추가&quot; 선택</p>
+                <p className="mt-1">{t('install.iosStep2')}</p>
               </div>
             ) : (
               // Android/Desktop 설치 버튼
@@ -129,7 +129,7 @@ export function InstallPrompt() {
                 onClick={handleInstall}
                 className="mt-3 w-full text-white py-2.5 rounded-xl font-medium transition-colors bg-blue-500 text-white shadow-lg shadow-blue-500/30"
               >
-                설치하기
+                {t('install.button')}
               </button>
             )}
           </div>
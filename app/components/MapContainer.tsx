@@ -1,10 +1,15 @@
 'use client';
 
-import { useEffect, useRef, useState, useCallback } from 'react';
+import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import { useNaverMap } from '../providers/NaverMapProvider';
-import { Place, Location, MapBounds } from '../types';
+import { useI18n } from '../providers/I18nProvider';
+import { Place, Location, MapBounds, FilterType, BedAvailability, SearchMode, OpenStatus, HospitalCategory } from '../types';
+import { MessageKey } from '../locales';
 import { MarkerClusterPopup } from './MarkerClusterPopup';
-import { calculateOpenStatus } from '../utils/realtimeStatus';
+import { calculateOpenStatus, getStatusMinutes } from '../utils/realtimeStatus';
+import { isPlaceOpenNow } from '../utils/placeSort';
+import { getBedAvailability, formatBedCount } from '../utils/emergency';
+import { toKoreaTime } from '../utils/clock';
 
 interface MapContainerProps {
     userLocation: Location | null;
@@ -15,6 +20,20 @@ interface MapContainerProps {
     onMapIdle?: (center: Location, bounds: MapBounds, zoom: number) => void;
     isLoading?: boolean;
     lastSearchCount?: number | null; // API에서 반환된 실제 검색 결과 개수
+    offlineDataAt?: number | null; // 오프라인 저장 결과의 저장 시각 (ms)
+    isTruncated?: boolean; // 지도 범위가 넓어 일부 지역만 조회했는지 (확대 안내)
+    filter?: FilterType; // 범례/상태 메시지 구분용 (응급실 모드)
+    searchMode?: SearchMode;
+    onSearchModeChange?: (mode: SearchMode) => void;
+    focusLocation?: Location | null; // 지도 중심 이동 요청 (검색 결과 선택 등)
+    initialCenter?: Location | null; // 처음 표시할 중심 (주소로 공유된 화면)
+    initialZoom?: number | null;
+    followUserLocation?: boolean; // 내 위치가 바뀌면 지도 이동 (기본 true)
+    visitTime?: Date | null; // 방문 예정 시각 (한국 시각, 있으면 마커/영업 개수를 이 시각 기준으로 표시)
+    activePlaceId?: string | null; // 강조할 장소 (목록/마커에서 마지막으로 선택)
+    favorites?: Place[]; // 즐겨찾기 (조회 범위 밖이어도 항상 표시)
+    isListOpen?: boolean;
+    onToggleList?: () => void;
 }
 
 // 기본 위치 (서울 시청)
@@ -23,6 +42,8 @@ const DEFAULT_LOCATION = { lat: 37.5665, lng: 126.978 };
 // 마커 아이콘 SVG
 const HOSPITAL_ICON = `<svg xmlns="http://www.w3.org/2000/svg" height="22px" viewBox="0 -960 960 960" width="22px" fill="white"><path d="M371-196v-175H196v-217h175v-176h217v176h176v217H588v175H371Z"/></svg>`;
 const PHARMACY_ICON = `<svg xmlns="http://www.w3.org/2000/svg" height="19px" viewBox="0 -960 960 960" width="19px" fill="white"><path d="m654-357 101-100q29-29 45-68t16-81q0-87.73-61.13-148.87Q693.73-816 606-816q-42 0-81 16t-68 45L357-654l297 297ZM354-144q42 0 81-16t68-45l100-101-297-297-101 100q-29 29-45 68t-16 81q0 87.73 61.13 148.87Q266.27-144 354-144Z"/></svg>`;
+const FAVORITE_BADGE = `<div style="position:absolute;z-index:3;top:-6px;left:-8px;width:20px;height:20px;background:#f59e0b;border:2px solid #fff;border-radius:50%;display:flex;align-items:center;justify-content:center"><svg xmlns="http://www.w3.org/2000/svg" height="12px" viewBox="0 -960 960 960" width="12px" fill="white"><path d="m233-80 65-281L80-550l288-25 112-265 112 265 288 25-218 189 65 281-247-149L233-80Z"/></svg></div>`;
+const EMERGENCY_ICON = `<svg xmlns="http://www.w3.org/2000/svg" height="20px" viewBox="0 -960 960 960" width="20px" fill="white"><path d="M444-288h72v-120h120v-72H516v-120h-72v120H324v72h120v120ZM240-144q-29.7 0-50.85-21.15Q168-186.3 168-216v-456q0-29.7 21.15-50.85Q210.3-744 240-744h120v-72q0-29.7 21.15-50.85Q402.3-888 432-888h96q29.7 0 50.85 21.15Q600-845.7 600-816v72h120q29.7 0 50.85 21.15Q792-701.7 792-672v456q0 29.7-21.15 50.85Q749.7-144 720-144H240Zm192-600h96v-72h-96v72Z"/></svg>`;
 
 // 마커 색상
 const MARKER_COLORS = {
@@ -31,10 +52,85 @@ const MARKER_COLORS = {
     closed: { bg: '#9ca3af', arrow: '#9ca3af' },
 };
 
-export function MapContainer({ userLocation, places, onPlaceClick, onRefreshLocation, onRefreshSearch, onMapIdle, isLoading, lastSearchCount }: MapContainerProps) {
+// 영업중이 아닌 상태별 마커 색상 (영업중/24시간은 장소 종류 색상)
+const STATUS_MARKER_COLORS: Partial<Record<OpenStatus, { bg: string; arrow: string }>> = {
+    closingSoon: { bg: 'linear-gradient(to right, #f59e0b, #f97316)', arrow: '#f59e0b' },
+    opensLater: { bg: '#818cf8', arrow: '#818cf8' },
+    closed: MARKER_COLORS.closed,
+    holiday: MARKER_COLORS.closed,
+    unknown: { bg: '#cbd5e1', arrow: '#cbd5e1' },
+};
+
+// 병원 종류별 마커 모양 (규모가 클수록 크고 각진 모양, 약국 등은 기본 원형)
+interface MarkerShape {
+    size: number;   // 마커 크기 (px)
+    radius: string; // 모서리 둥글기
+}
+
+const DEFAULT_MARKER_SHAPE: MarkerShape = { size: 36, radius: '50%' };
+
+const CATEGORY_MARKER_SHAPES: Record<HospitalCategory, MarkerShape> = {
+    A: { size: 44, radius: '12px' }, // 종합병원
+    B: { size: 38, radius: '10px' }, // 병원
+    D: { size: 38, radius: '10px' }, // 요양병원
+    M: { size: 38, radius: '10px' }, // 치과병원
+    C: { size: 32, radius: '50%' },  // 의원
+    N: { size: 32, radius: '50%' },  // 치과의원
+};
+
+// 병원 종류 범례 (모양)
+const CATEGORY_LEGEND: { key: string; shape: MarkerShape; label: MessageKey }[] = [
+    { key: 'A', shape: CATEGORY_MARKER_SHAPES.A, label: 'legend.categoryA' },
+    { key: 'B', shape: CATEGORY_MARKER_SHAPES.B, label: 'legend.categoryB' },
+    { key: 'C', shape: CATEGORY_MARKER_SHAPES.C, label: 'legend.categoryC' },
+];
+
+function getMarkerShape(place: Place): MarkerShape {
+    return place.categoryCode ? CATEGORY_MARKER_SHAPES[place.categoryCode] : DEFAULT_MARKER_SHAPE;
+}
+
+/**
+ * 저장 시각을 한국 시각 HH:mm으로 표시
+ */
+function formatClockTime(timestamp: number): string {
+    const time = toKoreaTime(new Date(timestamp));
+    return `${String(time.getHours()).padStart(2, '0')}:${String(time.getMinutes()).padStart(2, '0')}`;
+}
+
+// 영업 상태 범례
+const STATUS_LEGEND: { key: string; background: string; label: MessageKey; badge?: string }[] = [
+    { key: 'hospital', background: MARKER_COLORS.hospital.bg, label: 'legend.hospitalOpen' },
+    { key: 'pharmacy', background: MARKER_COLORS.pharmacy.bg, label: 'legend.pharmacyOpen' },
+    { key: 'open24h', background: MARKER_COLORS.hospital.bg, label: 'legend.open24h', badge: '24' },
+    { key: 'closingSoon', background: STATUS_MARKER_COLORS.closingSoon!.bg, label: 'legend.closingSoon' },
+    { key: 'opensLater', background: STATUS_MARKER_COLORS.opensLater!.bg, label: 'legend.opensLater' },
+    { key: 'closed', background: MARKER_COLORS.closed.bg, label: 'legend.closed' },
+    { key: 'unknown', background: STATUS_MARKER_COLORS.unknown!.bg, label: 'legend.unknown' },
+];
+
+// 응급실 마커 색상 (가용병상 수준별)
+const EMERGENCY_MARKER_COLORS: Record<BedAvailability, { bg: string; arrow: string }> = {
+    available: { bg: '#16a34a', arrow: '#16a34a' },
+    limited: { bg: '#f59e0b', arrow: '#f59e0b' },
+    full: { bg: '#dc2626', arrow: '#dc2626' },
+    unknown: { bg: '#6b7280', arrow: '#6b7280' },
+};
+
+// 응급실 범례
+const EMERGENCY_LEGEND: { availability: BedAvailability; label: MessageKey }[] = [
+    { availability: 'available', label: 'legend.bedsAvailable' },
+    { availability: 'limited', label: 'legend.bedsLimited' },
+    { availability: 'full', label: 'legend.bedsFull' },
+    { availability: 'unknown', label: 'legend.bedsUnknown' },
+];
+
+export function MapContainer({ userLocation, places, onPlaceClick, onRefreshLocation, onRefreshSearch, onMapIdle, isLoading, lastSearchCount, offlineDataAt, isTruncated = false, filter, searchMode, onSearchModeChange, focusLocation, initialCenter, initialZoom, followUserLocation = true, visitTime = null, activePlaceId, favorites, isListOpen, onToggleList }: MapContainerProps) {
     const mapRef = useRef<HTMLDivElement>(null);
     const mapInstanceRef = useRef<naver.maps.Map | null>(null);
     const markersRef = useRef<naver.maps.Marker[]>([]);
+    const placeMarkersRef = useRef<Map<string, { marker: naver.maps.Marker; place: Place; isFavorite: boolean }>>(new Map()); // 단일 장소 마커 (강조 전환용)
+    const favoriteIdsRef = useRef<Set<string>>(new Set());
+    const activePlaceIdRef = useRef(activePlaceId);
     const userMarkerRef = useRef<naver.maps.Marker | null>(null);
     const idleListenerRef = useRef<naver.maps.MapEventListener | null>(null);
 
@@ -45,18 +141,26 @@ export function MapContainer({ userLocation, places, onPlaceClick, onRefreshLoca
     }, [onMapIdle]);
 
     const { isLoaded } = useNaverMap();
+    const { t } = useI18n();
     const [isMapReady, setIsMapReady] = useState(false);
     const [selectedCluster, setSelectedCluster] = useState<{ places: Place[]; position: { x: number; y: number } } | null>(null);
 
-    // 검색 상태 UI 관리
-    const [statusMessage, setStatusMessage] = useState<{ text: string; type: 'loading' | 'success' | 'error' } | null>(null);
+    // 검색 상태 UI 관리 (표시 중 언어를 바꿔도 반영되도록 문구 키로 저장)
+    const [statusMessage, setStatusMessage] = useState<{ text: MessageKey; type: 'loading' | 'success' | 'error' } | null>(null);
     const [isStatusVisible, setIsStatusVisible] = useState(false);
     const statusTimeoutRef = useRef<NodeJS.Timeout | null>(null);
     const fadeTimeoutRef = useRef<NodeJS.Timeout | null>(null);
     const prevLoadingRef = useRef(isLoading);
 
+    // 현재 화면에 표시 중인 장소 중 영업중인 곳 수 (이동/필터/방문 시각이 바뀌면 바로 반영)
+    const isPlanning = visitTime !== null;
+    const openCount = useMemo(() => {
+        const currentMinutes = getStatusMinutes(visitTime);
+        return places.filter((place) => isPlaceOpenNow(place, currentMinutes)).length;
+    }, [places, visitTime]);
+
     // 메시지 표시 (fade in)
-    const showStatus = useCallback((text: string, type: 'loading' | 'success' | 'error') => {
+    const showStatus = useCallback((text: MessageKey, type: 'loading' | 'success' | 'error') => {
         if (statusTimeoutRef.current) clearTimeout(statusTimeoutRef.current);
         if (fadeTimeoutRef.current) clearTimeout(fadeTimeoutRef.current);
         setStatusMessage({ text, type });
@@ -79,21 +183,21 @@ export function MapContainer({ userLocation, places, onPlaceClick, onRefreshLoca
 
         // 로딩 시작 (false → true)
         if (isLoading && !prevLoadingRef.current) {
-            showStatus('검색하고 있어요', 'loading');
+            showStatus('map.searching', 'loading');
         }
         // 로딩 완료 (true → false)
         else if (!isLoading && prevLoadingRef.current) {
             if (typeof lastSearchCount === 'number' && lastSearchCount > 0) {
-                showStatus('병원·약국을 찾았어요', 'success');
+                showStatus(filter === 'emergency' ? 'map.foundEmergency' : 'map.foundPlaces', 'success');
             } else {
-                showStatus('검색된 장소가 없어요', 'error');
+                showStatus('map.noResults', 'error');
             }
             // 2초 후 fade out
             statusTimeoutRef.current = setTimeout(hideStatus, 2000);
         }
 
         prevLoadingRef.current = isLoading;
-    }, [isLoading, lastSearchCount, showStatus, hideStatus]);
+    }, [isLoading, lastSearchCount, filter, showStatus, hideStatus]);
 
     // cleanup
     useEffect(() => {
@@ -135,12 +239,12 @@ export function MapContainer({ userLocation, places, onPlaceClick, onRefreshLoca
             return;
         }
 
-        const center = userLocation || DEFAULT_LOCATION;
+        const center = initialCenter || userLocation || DEFAULT_LOCATION;
 
         try {
             const map = new window.naver.maps.Map(mapRef.current, {
                 center: new window.naver.maps.LatLng(center.lat, center.lng),
-                zoom: 16,
+                zoom: initialZoom ?? 16,
                 minZoom: 10,
                 maxZoom: 19,
                 zoomControl: true,
@@ -205,9 +309,22 @@ export function MapContainer({ userLocation, places, onPlaceClick, onRefreshLoca
             zIndex: 1000,
         });
 
+        // 공유된 화면으로 시작했으면 내 위치 버튼을 누르기 전까지 화면 유지
+        if (!followUserLocation) return;
+
         mapInstanceRef.current.setCenter(new window.naver.maps.LatLng(userLocation.lat, userLocation.lng));
         // setCenter 호출 시 자동으로 idle 이벤트가 발생하므로 별도 호출 불필요
-    }, [isMapReady, userLocation]);
+    }, [isMapReady, userLocation, followUserLocation]);
+
+    // 요청된 위치로 지도 이동 (검색 결과 선택 등, idle 이벤트로 재검색)
+    useEffect(() => {
+        if (!isMapReady || !mapInstanceRef.current || !focusLocation) return;
+
+        mapInstanceRef.current.setCenter(new window.naver.maps.LatLng(focusLocation.lat, focusLocation.lng));
+        if (mapInstanceRef.current.getZoom() < 16) {
+            mapInstanceRef.current.setZoom(16);
+        }
+    }, [isMapReady, focusLocation]);
 
     // 장소 클러스터링
     const clusterPlaces = useCallback((places: Place[]) => {
@@ -239,39 +356,71 @@ export function MapContainer({ userLocation, places, onPlaceClick, onRefreshLoca
         return clusters;
     }, []);
 
-    // 마커 콘텐츠 생성
-    const createMarkerContent = useCallback((place: Place) => {
+    // 마커 콘텐츠 생성 (강조 마커는 크게, 즐겨찾기는 별 배지)
+    const createMarkerContent = useCallback((place: Place, isActive: boolean, isFavorite: boolean) => {
+        const activeStyle = isActive ? 'transform:scale(1.25);transform-origin:bottom center;' : '';
+        const favoriteBadge = isFavorite ? FAVORITE_BADGE : '';
+
+        // 응급실: 가용병상 수준별 색상 + 일반 병상 수 배지
+        if (place.type === 'emergency') {
+            const colors = EMERGENCY_MARKER_COLORS[getBedAvailability(place.emergency?.beds)];
+            const bedCount = formatBedCount(place.emergency?.beds.general ?? null);
+
+            return `
+                <div style="position:relative;display:flex;flex-direction:column;align-items:center;cursor:pointer;${activeStyle}filter:drop-shadow(0 3px 6px rgba(0,0,0,0.3))">
+                    <div style="position:relative;z-index:2;width:36px;height:36px;background:${colors.bg};border-radius:50%;display:flex;align-items:center;justify-content:center">${EMERGENCY_ICON}</div>${favoriteBadge}
+                    <div style="position:absolute;z-index:3;top:-6px;right:-10px;min-width:20px;height:20px;padding:0 5px;background:#fff;border:2px solid ${colors.bg};border-radius:10px;display:flex;align-items:center;justify-content:center;color:${colors.bg};font-size:11px;font-weight:bold;font-family:-apple-system,sans-serif">${bedCount}</div>
+                    <div style="position:relative;z-index:1;width:0;height:0;border-left:8px solid transparent;border-right:8px solid transparent;border-top:10px solid ${colors.arrow};margin-top:-4px"></div>
+                </div>
+            `;
+        }
+
         const isHospital = place.type === 'hospital';
-        const { isOpen } = place.todayTimeRaw ? calculateOpenStatus(place.todayTimeRaw) : { isOpen: place.isOpen };
+        const { openStatus } = place.todayTimeRaw ? calculateOpenStatus(place.todayTimeRaw, getStatusMinutes(visitTime)) : { openStatus: place.openStatus };
 
-        const colors = isOpen ? MARKER_COLORS[place.type] : MARKER_COLORS.closed;
+        const colors = STATUS_MARKER_COLORS[openStatus] ?? MARKER_COLORS[place.type];
         const icon = isHospital ? HOSPITAL_ICON : PHARMACY_ICON;
+        const { size, radius } = getMarkerShape(place);
+        // 24시간 영업 배지
+        const badge = openStatus === 'open24h'
+            ? `<div style="position:absolute;z-index:3;top:-6px;right:-10px;min-width:20px;height:18px;padding:0 4px;background:#fff;border:2px solid ${colors.arrow};border-radius:9px;display:flex;align-items:center;justify-content:center;color:${colors.arrow};font-size:10px;font-weight:bold;font-family:-apple-system,sans-serif">24</div>`
+            : '';
 
         return `
-            <div style="position:relative;display:flex;flex-direction:column;align-items:center;cursor:pointer;filter:drop-shadow(0 3px 6px rgba(0,0,0,0.3))">
-                <div style="position:relative;z-index:2;width:36px;height:36px;background:${colors.bg};border-radius:50%;display:flex;align-items:center;justify-content:center">${icon}</div>
+            <div style="position:relative;display:flex;flex-direction:column;align-items:center;cursor:pointer;${activeStyle}filter:drop-shadow(0 3px 6px rgba(0,0,0,0.3))">
+                <div style="position:relative;z-index:2;width:${size}px;height:${size}px;background:${colors.bg};border-radius:${radius};display:flex;align-items:center;justify-content:center">${icon}</div>${badge}${favoriteBadge}
                 <div style="position:relative;z-index:1;width:0;height:0;border-left:8px solid transparent;border-right:8px solid transparent;border-top:10px solid ${colors.arrow};margin-top:-4px"></div>
             </div>
         `;
-    }, []);
+    }, [visitTime]);
+
+    // 마커 아이콘 (응급실 마커는 기본 크기)
+    const createMarkerIcon = useCallback((place: Place, isActive: boolean, isFavorite: boolean): naver.maps.HtmlIcon => {
+        const { size } = place.type === 'emergency' ? DEFAULT_MARKER_SHAPE : getMarkerShape(place);
+        return { content: createMarkerContent(place, isActive, isFavorite), anchor: new window.naver.maps.Point(size / 2, size + 8) };
+    }, [createMarkerContent]);
 
     // 단일 마커 생성
     const createPlaceMarker = useCallback((place: Place): naver.maps.Marker | null => {
         if (!mapInstanceRef.current) return null;
 
         try {
+            const isActive = place.id === activePlaceIdRef.current;
+            const isFavorite = favoriteIdsRef.current.has(place.id);
             const marker = new window.naver.maps.Marker({
                 position: new window.naver.maps.LatLng(place.lat, place.lng),
                 map: mapInstanceRef.current,
-                icon: { content: createMarkerContent(place), anchor: new window.naver.maps.Point(18, 44) },
+                icon: createMarkerIcon(place, isActive, isFavorite),
+                zIndex: isActive ? 200 : undefined,
             });
 
             window.naver.maps.Event.addListener(marker, 'click', () => onPlaceClick(place));
+            placeMarkersRef.current.set(place.id, { marker, place, isFavorite });
             return marker;
         } catch {
             return null;
         }
-    }, [createMarkerContent, onPlaceClick]);
+    }, [createMarkerIcon, onPlaceClick]);
 
     // 클러스터 마커 생성
     const createClusterMarker = useCallback((clusterPlaces: Place[]): naver.maps.Marker | null => {
@@ -320,25 +469,50 @@ export function MapContainer({ userLocation, places, onPlaceClick, onRefreshLoca
         // 기존 마커 제거
         markersRef.current.forEach((m) => m.setMap(null));
         markersRef.current = [];
+        placeMarkersRef.current.clear();
+
+        // 즐겨찾기는 조회 결과에 없어도 함께 표시
+        const favoritePlaces = favorites ?? [];
+        favoriteIdsRef.current = new Set(favoritePlaces.map((place) => place.id));
+        const placeIds = new Set(places.map((place) => place.id));
+        const allPlaces = [...places, ...favoritePlaces.filter((place) => !placeIds.has(place.id))];
 
         // 모바일에서 지도 렌더링 완료 후 마커 생성 (Safari 대응)
         const rafId = requestAnimationFrame(() => {
             if (!mapInstanceRef.current) return;
 
-            markersRef.current = clusterPlaces(places)
+            markersRef.current = clusterPlaces(allPlaces)
                 .map((cluster) => createClusterMarker(cluster))
                 .filter((m): m is naver.maps.Marker => m !== null);
         });
 
         return () => cancelAnimationFrame(rafId);
-    }, [isMapReady, places, clusterPlaces, createClusterMarker]);
+    }, [isMapReady, places, favorites, clusterPlaces, createClusterMarker]);
+
+    // 강조 장소 변경 시 해당 마커만 다시 그림 (전체 마커 재생성 방지)
+    useEffect(() => {
+        const prevId = activePlaceIdRef.current;
+        activePlaceIdRef.current = activePlaceId;
+        if (!isMapReady || prevId === activePlaceId) return;
+
+        const prev = prevId ? placeMarkersRef.current.get(prevId) : undefined;
+        if (prev) {
+            prev.marker.setIcon(createMarkerIcon(prev.place, false, prev.isFavorite));
+            prev.marker.setZIndex(0);
+        }
+        const next = activePlaceId ? placeMarkersRef.current.get(activePlaceId) : undefined;
+        if (next) {
+            next.marker.setIcon(createMarkerIcon(next.place, true, next.isFavorite));
+            next.marker.setZIndex(200);
+        }
+    }, [isMapReady, activePlaceId, createMarkerIcon]);
 
     if (!isLoaded) {
         return (
             <div className="w-full h-full flex items-center justify-center bg-gray-100">
                 <div className="text-center">
                     <div className="animate-spin rounded-full h-12 w-12 border-4 border-blue-600 border-t-transparent mx-auto mb-4" />
-                    <p className="text-gray-600 font-medium">지도를 불러오는 중...</p>
+                    <p className="text-gray-600 font-medium">{t('map.loading')}</p>
                 </div>
             </div>
         );
@@ -371,27 +545,78 @@ export function MapContainer({ userLocation, places, onPlaceClick, onRefreshLoca
                         )}
                         <span className={`text-xs font-medium ${
                             statusMessage.type === 'loading' ? 'text-gray-700' : 'text-white'
-                        }`}>{statusMessage.text}</span>
+                        }`}>
+                            {t(statusMessage.text)}
+                        </span>
                     </div>
                 </div>
             )}
 
+            <div className="absolute top-16 left-1/2 -translate-x-1/2 z-20 flex flex-col items-center gap-2 pointer-events-none">
+                {/* 현재 화면의 영업중 장소 수 (항상 표시) */}
+                {filter !== 'emergency' && (
+                    <div className="glass px-4 py-2 rounded-full shadow-lg text-xs font-semibold text-emerald-700 whitespace-nowrap">
+                        {t(isPlanning ? 'map.openAtVisitCount' : 'map.openNowCount', { count: openCount })}
+                    </div>
+                )}
+
+                {/* 오프라인 안내 (저장된 결과 표시 중) */}
+                {offlineDataAt && (
+                    <div className="px-4 py-2 rounded-full shadow-lg bg-amber-500 text-white text-xs font-semibold whitespace-nowrap">
+                        {t('map.offline', { time: formatClockTime(offlineDataAt) })}
+                    </div>
+                )}
+
+                {/* 범위가 넓어 일부 지역만 조회한 경우 확대 안내 */}
+                {isTruncated && (
+                    <div className="px-4 py-2 rounded-full shadow-lg bg-gray-800/85 text-white text-xs font-semibold whitespace-nowrap">
+                        {t('map.truncated')}
+                    </div>
+                )}
+            </div>
+
             {/* 범례 */}
             <div className="absolute top-4 left-4 glass rounded-2xl p-4 text-xs z-10 shadow-lg">
-                <div className="space-y-2">
-                    <div className="flex items-center gap-2.5">
-                        <div className="w-4 h-4 rounded-full bg-gradient-to-r from-rose-500 to-pink-500 shadow-md" />
-                        <span className="text-gray-700 font-medium">병원 (영업중)</span>
+                {filter === 'emergency' ? (
+                    <div className="space-y-2">
+                        {EMERGENCY_LEGEND.map(({ availability, label }) => (
+                            <div key={availability} className="flex items-center gap-2.5">
+                                <div className="w-4 h-4 rounded-full shadow-md" style={{ background: EMERGENCY_MARKER_COLORS[availability].bg }} />
+                                <span className="text-gray-700 font-medium">{t(label)}</span>
+                            </div>
+                        ))}
                     </div>
-                    <div className="flex items-center gap-2.5">
-                        <div className="w-4 h-4 rounded-full bg-gradient-to-r from-emerald-500 to-teal-500 shadow-md" />
-                        <span className="text-gray-700 font-medium">약국 (영업중)</span>
-                    </div>
-                    <div className="flex items-center gap-2.5">
-                        <div className="w-4 h-4 rounded-full bg-gray-400 shadow-md" />
-                        <span className="text-gray-700 font-medium">영업종료 / 휴일</span>
+                ) : (
+                    <div className="space-y-2">
+                        {STATUS_LEGEND.map(({ key, background, label, badge }) => (
+                            <div key={key} className="flex items-center gap-2.5">
+                                <div className="relative w-4 h-4 rounded-full shadow-md" style={{ background }}>
+                                    {badge && (
+                                        <span className="absolute -top-1.5 -right-2 px-0.5 bg-white text-rose-500 text-[8px] font-bold leading-none rounded border border-rose-400">
+                                            {badge}
+                                        </span>
+                                    )}
+                                </div>
+                                <span className="text-gray-700 font-medium">{t(label)}</span>
+                            </div>
+                        ))}
+                        {filter !== 'pharmacy' && (
+                            <div className="pt-2 mt-1 border-t border-gray-200/70 space-y-2">
+                                {CATEGORY_LEGEND.map(({ key, shape, label }) => (
+                                    <div key={key} className="flex items-center gap-2.5">
+                                        <div className="w-4 h-4 flex items-center justify-center">
+                                            <div
+                                                className="bg-gray-400 shadow-md"
+                                                style={{ width: shape.size / 2.5, height: shape.size / 2.5, borderRadius: shape.radius === '50%' ? '50%' : 4 }}
+                                            />
+                                        </div>
+                                        <span className="text-gray-700 font-medium">{t(label)}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
                     </div>
-                </div>
+                )}
             </div>
 
             {/* 하단 버튼 영역 */}
@@ -402,9 +627,20 @@ export function MapContainer({ userLocation, places, onPlaceClick, onRefreshLoca
                     className="glass px-5 py-3 rounded-full shadow-xl border-2 border-white/50 flex items-center gap-1.5 hover:scale-105 active:scale-95 transition-all duration-300 whitespace-nowrap"
                 >
                     <svg xmlns="http://www.w3.org/2000/svg" height="18px" viewBox="0 -960 960 960" width="18px" fill="#3b82f6" className="flex-shrink-0"><path d="M536.5-503.5Q560-527 560-560t-23.5-56.5Q513-640 480-640t-56.5 23.5Q400-593 400-560t23.5 56.5Q447-480 480-480t56.5-23.5ZM480-186q122-112 181-203.5T720-552q0-109-69.5-178.5T480-800q-101 0-170.5 69.5T240-552q0 71 59 162.5T480-186Zm0 106Q319-217 239.5-334.5T160-552q0-150 96.5-239T480-880q127 0 223.5 89T800-552q0 100-79.5 217.5T480-80Zm0-480Z" /></svg>
-                    <span className="text-xs font-bold text-gray-800">내 위치</span>
+                    <span className="text-xs font-bold text-gray-800">{t('map.myLocation')}</span>
                 </button>
 
+                {/* 목록 보기 버튼 */}
+                {onToggleList && (
+                    <button
+                        onClick={onToggleList}
+                        className={`glass px-5 py-3 rounded-full shadow-xl border-2 flex items-center gap-1.5 hover:scale-105 active:scale-95 transition-all duration-300 whitespace-nowrap ${isListOpen ? 'border-blue-300' : 'border-white/50'}`}
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" height="18px" viewBox="0 -960 960 960" width="18px" fill={isListOpen ? '#3b82f6' : '#6b7280'} className="flex-shrink-0"><path d="M280-600v-80h560v80H280Zm0 160v-80h560v80H280Zm0 160v-80h560v80H280ZM160-600q-17 0-28.5-11.5T120-640q0-17 11.5-28.5T160-680q17 0 28.5 11.5T200-640q0 17-11.5 28.5T160-600Zm0 160q-17 0-28.5-11.5T120-480q0-17 11.5-28.5T160-520q17 0 28.5 11.5T200-480q0 17-11.5 28.5T160-440Zm0 160q-17 0-28.5-11.5T120-320q0-17 11.5-28.5T160-360q17 0 28.5 11.5T200-320q0 17-11.5 28.5T160-280Z" /></svg>
+                        <span className="text-xs font-bold text-gray-800">{t('map.list')}</span>
+                    </button>
+                )}
+
                 {/* 현재 지도 위치에서 재검색 버튼 */}
                 {onRefreshSearch && (
                     <button
@@ -412,7 +648,18 @@ export function MapContainer({ userLocation, places, onPlaceClick, onRefreshLoca
                         className="glass px-5 py-3 rounded-full shadow-xl border-2 border-emerald-200 flex items-center gap-1.5 hover:scale-105 active:scale-95 transition-all duration-300 whitespace-nowrap"
                     >
                         <svg xmlns="http://www.w3.org/2000/svg" height="18px" viewBox="0 -960 960 960" width="18px" fill="#10b981" className="flex-shrink-0"><path d="M480-160q-134 0-227-93t-93-227q0-134 93-227t227-93q69 0 132 28.5T720-690v-110h80v280H520v-80h168q-32-56-87.5-88T480-720q-100 0-170 70t-70 170q0 100 70 170t170 70q77 0 139-44t87-116h84q-28 106-114 178t-196 72Z" /></svg>
-                        <span className="text-xs font-bold text-gray-800">재검색</span>
+                        <span className="text-xs font-bold text-gray-800">{t('map.refresh')}</span>
+                    </button>
+                )}
+
+                {/* 검색 방식 전환 버튼 (시/군/구 ↔ 반경) - 응급실 모드는 시/군/구 단위만 지원 */}
+                {onSearchModeChange && filter !== 'emergency' && (
+                    <button
+                        onClick={() => onSearchModeChange(searchMode === 'radius' ? 'district' : 'radius')}
+                        className={`glass px-5 py-3 rounded-full shadow-xl border-2 flex items-center gap-1.5 hover:scale-105 active:scale-95 transition-all duration-300 whitespace-nowrap ${searchMode === 'radius' ? 'border-blue-300' : 'border-white/50'}`}
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" height="18px" viewBox="0 -960 960 960" width="18px" fill={searchMode === 'radius' ? '#3b82f6' : '#6b7280'} className="flex-shrink-0"><path d="M480-80q-83 0-156-31.5T197-197q-54-54-85.5-127T80-480q0-83 31.5-156T197-763q54-54 127-85.5T480-880q83 0 156 31.5T763-763q54 54 85.5 127T880-480q0 83-31.5 156T763-197q-54 54-127 85.5T480-80Zm0-80q134 0 227-93t93-227q0-134-93-227t-227-93q-134 0-227 93t-93 227q0 134 93 227t227 93Zm0-160q-66 0-113-47t-47-113q0-66 47-113t113-47q66 0 113 47t47 113q0 66-47 113t-113 47Z" /></svg>
+                        <span className="text-xs font-bold text-gray-800">{searchMode === 'radius' ? t('map.radiusSearch') : t('map.districtSearch')}</span>
                     </button>
                 )}
             </div>
@@ -423,6 +670,7 @@ export function MapContainer({ userLocation, places, onPlaceClick, onRefreshLoca
                     onPlaceClick={onPlaceClick}
                     onClose={() => setSelectedCluster(null)}
                     position={selectedCluster.position}
+                    visitTime={visitTime}
                 />
             )}
         </div>
@@ -1,14 +1,19 @@
 'use client';
 
 import { useEffect, useRef, useState } from 'react';
-import { Place, OpenStatus } from '../types';
-import { calculateOpenStatus } from '../utils/realtimeStatus';
+import { Place, OpenStatus, OpenStatusInfo, BedAvailability } from '../types';
+import { calculateOpenStatus, getAppliedHolidayName, getStatusLabel, getStatusMinutes } from '../utils/realtimeStatus';
+import { getBedAvailability, formatBedCount } from '../utils/emergency';
+import { formatTodayHours } from '../utils/businessHours';
+import { useI18n } from '../providers/I18nProvider';
+import { RomanizedHint } from './RomanizedHint';
 
 interface MarkerClusterPopupProps {
     places: Place[];
     onPlaceClick: (place: Place) => void;
     onClose: () => void;
     position: { x: number; y: number };
+    visitTime?: Date | null; // 방문 예정 시각 (있으면 이 시각 기준 영업 상태)
 }
 
 // 마커/UI 색상 테마
@@ -27,6 +32,13 @@ const COLORS = {
         border: '#a7f3d0',
         text: '#047857',
     },
+    emergency: {
+        gradient: 'linear-gradient(135deg, #dc2626, #f97316)',
+        primary: '#dc2626',
+        light: '#fef2f2',
+        border: '#fecaca',
+        text: '#b91c1c',
+    },
     closed: {
         gradient: '#9ca3af',
         primary: '#9ca3af',
@@ -39,17 +51,32 @@ const COLORS = {
     },
 };
 
-const STATUS_TEXT: Record<OpenStatus, string> = {
-    open: '영업중',
-    holiday: '휴일',
-    closed: '영업종료',
+// 영업중이 아닌 상태의 텍스트 색상 (영업중은 장소 테마 색상)
+const STATUS_TEXT_COLORS: Partial<Record<OpenStatus, string>> = {
+    closingSoon: '#d97706',
+    opensLater: '#4f46e5',
+    holiday: COLORS.holiday.text,
+    closed: COLORS.closed.text,
+    unknown: COLORS.closed.text,
 };
 
-function getRealtimeStatus(place: Place) {
-    return place.todayTimeRaw ? calculateOpenStatus(place.todayTimeRaw) : { isOpen: place.isOpen, openStatus: place.openStatus };
+// 응급실 카드에 표시할 최대 중증질환 배지 수
+const MAX_CAPABILITY_BADGES = 3;
+
+// 응급실 가용병상 배지 색상
+const BED_BADGE_COLORS: Record<BedAvailability, string> = {
+    available: '#16a34a',
+    limited: '#d97706',
+    full: '#dc2626',
+    unknown: '#6b7280',
+};
+
+function getRealtimeStatus(place: Place, currentMinutes: number): OpenStatusInfo {
+    return place.todayTimeRaw ? calculateOpenStatus(place.todayTimeRaw, currentMinutes) : { isOpen: place.isOpen, openStatus: place.openStatus };
 }
 
-export function MarkerClusterPopup({ places, onPlaceClick, onClose, position }: MarkerClusterPopupProps) {
+export function MarkerClusterPopup({ places, onPlaceClick, onClose, position, visitTime = null }: MarkerClusterPopupProps) {
+    const { locale, t } = useI18n();
     const popupRef = useRef<HTMLDivElement>(null);
     const [adjustedPosition, setAdjustedPosition] = useState(position);
 
@@ -104,7 +131,9 @@ export function MarkerClusterPopup({ places, onPlaceClick, onClose, position }:
                         >
                             <span className="text-white text-xs font-bold">{places.length}</span>
                         </div>
-                        <h3 className="text-gray-800 font-bold text-sm">이 위치의 병원/약국</h3>
+                        <h3 className="text-gray-800 font-bold text-sm">
+                            {places.every((p) => p.type === 'emergency') ? t('cluster.emergencyTitle') : t('cluster.placesTitle')}
+                        </h3>
                     </div>
                     <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors p-1 rounded-full hover:bg-gray-100">
                         <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -122,19 +151,17 @@ export function MarkerClusterPopup({ places, onPlaceClick, onClose, position }:
                     }}
                 >
                     {places.map((place, index) => {
+                        const statusInfo = getRealtimeStatus(place, getStatusMinutes(visitTime));
                         const isHospital = place.type === 'hospital';
-                        const { isOpen, openStatus } = getRealtimeStatus(place);
+                        const isEmergency = place.type === 'emergency';
+                        const { isOpen, openStatus } = statusInfo;
+                        const bedColor = place.emergency ? BED_BADGE_COLORS[getBedAvailability(place.emergency.beds)] : null;
 
                         // 색상 테마 선택
-                        const theme = isOpen
-                            ? (isHospital ? COLORS.hospital : COLORS.pharmacy)
-                            : COLORS.closed;
+                        const theme = isOpen ? COLORS[place.type] : COLORS.closed;
 
-                        const statusTextColor = openStatus === 'open'
-                            ? theme.text
-                            : openStatus === 'holiday'
-                                ? COLORS.holiday.text
-                                : COLORS.closed.text;
+                        const statusTextColor = STATUS_TEXT_COLORS[openStatus] ?? theme.text;
+                        const todayHours = formatTodayHours(place, locale);
 
                         return (
                             <button
@@ -151,7 +178,9 @@ export function MarkerClusterPopup({ places, onPlaceClick, onClose, position }:
                                         className="flex-shrink-0 w-9 h-9 rounded-xl flex items-center justify-center shadow-sm"
                                         style={{ background: theme.gradient }}
                                     >
-                                        {isHospital ? (
+                                        {isEmergency ? (
+                                            <svg xmlns="http://www.w3.org/2000/svg" height="20px" viewBox="0 -960 960 960" width="20px" fill="white"><path d="M444-288h72v-120h120v-72H516v-120h-72v120H324v72h120v120ZM240-144q-29.7 0-50.85-21.15Q168-186.3 168-216v-456q0-29.7 21.15-50.85Q210.3-744 240-744h120v-72q0-29.7 21.15-50.85Q402.3-888 432-888h96q29.7 0 50.85 21.15Q600-845.7 600-816v72h120q29.7 0 50.85 21.15Q792-701.7 792-672v456q0 29.7-21.15 50.85Q749.7-144 720-144H240Zm192-600h96v-72h-96v72Z" /></svg>
+                                        ) : isHospital ? (
                                             <svg xmlns="http://www.w3.org/2000/svg" height="22px" viewBox="0 -960 960 960" width="22px" fill="white"><path d="M371-196v-175H196v-217h175v-176h217v176h176v217H588v175H371Z" /></svg>
                                         ) : (
                                             <svg xmlns="http://www.w3.org/2000/svg" height="19px" viewBox="0 -960 960 960" width="19px" fill="white"><path d="m654-357 101-100q29-29 45-68t16-81q0-87.73-61.13-148.87Q693.73-816 606-816q-42 0-81 16t-68 45L357-654l297 297ZM354-144q42 0 81-16t68-45l100-101-297-297-101 100q-29 29-45 68t-16 81q0 87.73 61.13 148.87Q266.27-144 354-144Z" /></svg>
@@ -161,27 +190,64 @@ export function MarkerClusterPopup({ places, onPlaceClick, onClose, position }:
                                     {/* 정보 */}
                                     <div className="flex-1 min-w-0">
                                         <div className="font-semibold text-gray-900 text-sm truncate">{place.name}</div>
+                                        <RomanizedHint text={place.name} className="text-[11px] text-gray-400 truncate" />
                                         <div className="text-xs text-gray-500 mt-0.5 truncate">{place.address}</div>
-                                        <div className="flex items-center gap-1.5 mt-1.5">
-                                            <span
-                                                className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold"
-                                                style={{
-                                                    backgroundColor: isOpen ? `${theme.primary}15` : '#f3f4f6',
-                                                    color: statusTextColor,
-                                                }}
-                                            >
+                                        {isEmergency && place.emergency && bedColor ? (
+                                            <>
+                                                <div className="flex items-center gap-1.5 mt-1.5">
+                                                    <span
+                                                        className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold"
+                                                        style={{
+                                                            backgroundColor: `${bedColor}15`,
+                                                            color: bedColor,
+                                                        }}
+                                                    >
+                                                        {t('beds.general')} {formatBedCount(place.emergency.beds.general)}
+                                                    </span>
+                                                    <span className="text-xs text-gray-500">
+                                                        {t('beds.pediatric')} {formatBedCount(place.emergency.beds.pediatric)} · {t('beds.isolation')} {formatBedCount(place.emergency.beds.isolation)}
+                                                    </span>
+                                                </div>
+                                                {place.emergency.capabilities.length > 0 && (
+                                                    <div className="flex flex-wrap gap-1 mt-1.5">
+                                                        {place.emergency.capabilities.slice(0, MAX_CAPABILITY_BADGES).map((condition) => (
+                                                            <span key={condition} className="px-1.5 py-0.5 bg-white text-red-700 text-[10px] font-semibold rounded border border-red-100">
+                                                                {t(`condition.${condition}`)}
+                                                            </span>
+                                                        ))}
+                                                        {place.emergency.capabilities.length > MAX_CAPABILITY_BADGES && (
+                                                            <span className="px-1.5 py-0.5 text-gray-500 text-[10px] font-semibold">
+                                                                +{place.emergency.capabilities.length - MAX_CAPABILITY_BADGES}
+                                                            </span>
+                                                        )}
+                                                    </div>
+                                                )}
+                                            </>
+                                        ) : (
+                                            <div className="flex items-center gap-1.5 mt-1.5">
                                                 <span
-                                                    className="w-1.5 h-1.5 rounded-full mr-1"
-                                                    style={{ backgroundColor: statusTextColor }}
-                                                />
-                                                {STATUS_TEXT[openStatus]}
-                                            </span>
-                                            {place.todayHours && (
-                                                <span className="text-xs text-gray-500">
-                                                    {place.todayHours.open} - {place.todayHours.close}
+                                                    className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold"
+                                                    style={{
+                                                        backgroundColor: isOpen ? `${theme.primary}15` : '#f3f4f6',
+                                                        color: statusTextColor,
+                                                    }}
+                                                >
+                                                    <span
+                                                        className="w-1.5 h-1.5 rounded-full mr-1"
+                                                        style={{ backgroundColor: statusTextColor }}
+                                                    />
+                                                    {getStatusLabel(statusInfo, locale)}
                                                 </span>
-                                            )}
-                                        </div>
+                                                {todayHours && (
+                                                    <span className="text-xs text-gray-500">
+                                                        {t('common.hoursRange', { ...todayHours })}
+                                                    </span>
+                                                )}
+                                                {getAppliedHolidayName(place.todayTimeRaw) && openStatus !== 'holiday' && (
+                                                    <span className="text-[10px] font-semibold text-amber-600">{t('sheet.holidayHours')}</span>
+                                                )}
+                                            </div>
+                                        )}
                                     </div>
 
                                     {/* 화살표 */}
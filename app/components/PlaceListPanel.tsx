@@ -0,0 +1,156 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Locale, Place, PlaceSortKey } from '../types';
+import { Translator } from '../locales';
+import { calculateOpenStatus, getStatusLabel, getStatusMinutes } from '../utils/realtimeStatus';
+import { formatTodayHours } from '../utils/businessHours';
+import { getPlaceCategoryLabel } from '../utils/placeLabels';
+import { PLACE_SORT_KEYS, sortPlaces } from '../utils/placeSort';
+import { useVirtualList } from '../hooks/useVirtualList';
+import { useI18n } from '../providers/I18nProvider';
+import { RomanizedHint } from './RomanizedHint';
+
+interface PlaceListPanelProps {
+    places: Place[];
+    favorites: Place[]; // 즐겨찾기 (조회 범위와 무관)
+    activePlaceId: string | null; // 강조할 장소 (지도에서 선택한 마커 포함)
+    onPlaceSelect: (place: Place) => void;
+    sortKey: PlaceSortKey;
+    setSortKey: (key: PlaceSortKey) => void;
+    visitTime?: Date | null; // 방문 예정 시각 (있으면 이 시각 기준 영업 상태)
+    onClose: () => void;
+}
+
+// 목록 행 높이 (가상화 계산용, px)
+const ROW_HEIGHT = 76;
+
+type ListTab = 'nearby' | 'favorites';
+
+/**
+ * 거리 표시 (1km 미만은 m)
+ */
+function formatDistance(distance: number): string {
+    return distance < 1000 ? `${distance}m` : `${(distance / 1000).toFixed(1)}km`;
+}
+
+/**
+ * 오늘 영업시간 표시 (응급실은 24시간)
+ */
+function describeTodayHours(place: Place, t: Translator, locale: Locale): string {
+    if (place.type === 'emergency') return t('list.emergency24h');
+    const hours = formatTodayHours(place, locale);
+    return hours ? t('list.todayHours', { ...hours }) : t('list.todayClosed');
+}
+
+export function PlaceListPanel({ places, favorites, activePlaceId, onPlaceSelect, sortKey, setSortKey, visitTime = null, onClose }: PlaceListPanelProps) {
+    const { locale, t } = useI18n();
+    const [tab, setTab] = useState<ListTab>('nearby');
+    const isFavoritesTab = tab === 'favorites';
+    const currentMinutes = getStatusMinutes(visitTime);
+    // 즐겨찾기도 같은 기준으로 정렬 (주변 목록은 이미 정렬됨)
+    const items = useMemo(
+        () => (isFavoritesTab ? sortPlaces(favorites, sortKey, currentMinutes) : places),
+        [isFavoritesTab, favorites, places, sortKey, currentMinutes]
+    );
+    const { containerRef, onScroll, scrollToIndex, startIndex, endIndex, totalHeight, offsetTop } = useVirtualList(items.length, ROW_HEIGHT);
+
+    // 지도에서 마커를 선택하면 목록의 해당 행으로 스크롤
+    useEffect(() => {
+        if (!activePlaceId) return;
+        scrollToIndex(items.findIndex((place) => place.id === activePlaceId));
+    }, [activePlaceId, items, scrollToIndex]);
+
+    const handleTabChange = (nextTab: ListTab) => {
+        setTab(nextTab);
+        if (containerRef.current) containerRef.current.scrollTop = 0;
+    };
+
+    return (
+        <div className="absolute inset-x-0 bottom-0 h-[55%] z-20 flex flex-col bg-white rounded-t-3xl shadow-2xl">
+            <div className="flex items-center gap-2 px-5 pt-4 pb-3 border-b border-gray-100">
+                <div className="flex gap-1" role="tablist">
+                    {([
+                        { key: 'nearby', label: t('list.nearby'), count: places.length },
+                        { key: 'favorites', label: t('list.favorites'), count: favorites.length },
+                    ] as const).map(({ key, label, count }) => (
+                        <button
+                            key={key}
+                            role="tab"
+                            aria-selected={tab === key}
+                            onClick={() => handleTabChange(key)}
+                            className={`px-3 py-1.5 rounded-lg text-sm font-bold transition-colors ${tab === key ? 'bg-gray-900 text-white' : 'text-gray-500 hover:bg-gray-100'}`}
+                        >
+                            {label} <span className="font-medium opacity-70">{count}</span>
+                        </button>
+                    ))}
+                </div>
+                <select
+                    value={sortKey}
+                    onChange={(e) => setSortKey(e.target.value as PlaceSortKey)}
+                    className="ml-auto px-2 py-1.5 rounded-lg text-xs font-semibold text-gray-600 bg-gray-50 border border-gray-200 outline-none focus:ring-2 focus:ring-blue-400"
+                    aria-label={t('common.sortBy')}
+                >
+                    {PLACE_SORT_KEYS.map((key) => (
+                        <option key={key} value={key}>{t(`sort.${key}`)}</option>
+                    ))}
+                </select>
+                <button
+                    onClick={onClose}
+                    className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-semibold bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors"
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" height="16px" viewBox="0 -960 960 960" width="16px" fill="currentColor"><path d="m600-120-240-84-186 72q-20 8-37-4.5T120-170v-560q0-13 7.5-23t20.5-15l212-72 240 84 186-72q20-8 37 4.5t17 33.5v560q0 13-7.5 23T812-192l-212 72Zm-40-98v-468l-160-56v468l160 56Z" /></svg>
+                    {t('list.showMap')}
+                </button>
+            </div>
+
+            <div ref={containerRef} onScroll={onScroll} className="flex-1 overflow-y-auto overscroll-contain">
+                {items.length === 0 ? (
+                    <p className="h-full flex items-center justify-center text-sm text-gray-500">
+                        {isFavoritesTab ? t('list.favoritesEmpty') : t('list.empty')}
+                    </p>
+                ) : (
+                    <div style={{ height: totalHeight, position: 'relative' }}>
+                        <ul style={{ transform: `translateY(${offsetTop}px)` }}>
+                            {items.slice(startIndex, endIndex).map((place) => {
+                                const statusInfo = place.todayTimeRaw
+                                    ? calculateOpenStatus(place.todayTimeRaw, currentMinutes)
+                                    : { isOpen: place.isOpen, openStatus: place.openStatus };
+                                const isSelected = place.id === activePlaceId;
+
+                                return (
+                                    <li key={place.id} style={{ height: ROW_HEIGHT }}>
+                                        <button
+                                            onClick={() => onPlaceSelect(place)}
+                                            aria-current={isSelected}
+                                            className={`w-full h-full flex items-center justify-between gap-3 px-5 text-left border-b border-gray-50 transition-colors ${isSelected ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                                        >
+                                            <div className="min-w-0">
+                                                <p className="text-sm font-semibold text-gray-900 truncate">{place.name}</p>
+                                                <RomanizedHint text={place.name} className="text-[11px] text-gray-400 truncate" />
+                                                <p className="text-xs text-gray-500 truncate">
+                                                    {getPlaceCategoryLabel(place, locale)}
+                                                    {' · '}
+                                                    {describeTodayHours(place, t, locale)}
+                                                </p>
+                                            </div>
+                                            <div className="flex-shrink-0 text-right">
+                                                {/* 즐겨찾기는 저장 당시 기준 거리라 표시하지 않음 */}
+                                                {!isFavoritesTab && place.distance !== undefined && (
+                                                    <p className="text-xs font-medium text-gray-700">{formatDistance(place.distance)}</p>
+                                                )}
+                                                <p className={`text-xs font-medium ${statusInfo.isOpen ? 'text-emerald-600' : 'text-gray-400'}`}>
+                                                    {getStatusLabel(statusInfo, locale)}
+                                                </p>
+                                            </div>
+                                        </button>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,156 @@
+'use client';
+
+import { useState } from 'react';
+import { Place, Location, GeocodeResult } from '../types';
+import { usePlaceSearch } from '../hooks/usePlaceSearch';
+import { useLocationSearch } from '../hooks/useLocationSearch';
+import { calculateOpenStatus, getStatusLabel } from '../utils/realtimeStatus';
+import { getPlaceCategoryLabel } from '../utils/placeLabels';
+import { useI18n } from '../providers/I18nProvider';
+import { RomanizedHint } from './RomanizedHint';
+
+interface PlaceSearchBoxProps {
+    origin: Location | null; // 거리 계산 기준 (사용자 위치)
+    onSelect: (place: Place) => void;
+    onLocationSelect: (result: GeocodeResult) => void; // 주소/역 선택 시 지도 이동
+}
+
+/**
+ * 거리 표시 (1km 미만은 m)
+ */
+function formatDistance(distance: number): string {
+    return distance < 1000 ? `${distance}m` : `${(distance / 1000).toFixed(1)}km`;
+}
+
+export function PlaceSearchBox({ origin, onSelect, onLocationSelect }: PlaceSearchBoxProps) {
+    const { locale, t } = useI18n();
+    const { query, setQuery, results, isSearching, error, clear } = usePlaceSearch(origin);
+    const { results: locations, isSearching: isLocating, recent, addRecent, clearRecent } = useLocationSearch(query);
+    const [isFocused, setIsFocused] = useState(false);
+
+    const hasQuery = query.trim().length > 0;
+    const showResults = isFocused && (hasQuery || recent.length > 0);
+    const isBusy = isSearching || isLocating;
+
+    const handleSelect = (place: Place) => {
+        onSelect(place);
+        clear();
+        setIsFocused(false);
+    };
+
+    const handleLocationSelect = (result: GeocodeResult) => {
+        addRecent(result);
+        onLocationSelect(result);
+        clear();
+        setIsFocused(false);
+    };
+
+    // 주소/역 결과 항목
+    const renderLocation = (result: GeocodeResult) => (
+        <button
+            key={`${result.name}_${result.lat}_${result.lng}`}
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => handleLocationSelect(result)}
+            className="w-full flex items-center gap-3 px-4 py-3 text-left hover:bg-gray-50 transition-colors border-b border-gray-50 last:border-b-0"
+        >
+            <svg xmlns="http://www.w3.org/2000/svg" height="18px" viewBox="0 -960 960 960" width="18px" fill="#3b82f6" className="flex-shrink-0"><path d="M480-480q33 0 56.5-23.5T560-560q0-33-23.5-56.5T480-640q-33 0-56.5 23.5T400-560q0 33 23.5 56.5T480-480Zm0 400Q319-217 239.5-334.5T160-552q0-150 96.5-239T480-880q127 0 223.5 89T800-552q0 100-79.5 217.5T480-80Z" /></svg>
+            <div className="min-w-0">
+                <p className="text-sm font-semibold text-gray-900 truncate">{result.name}</p>
+                <RomanizedHint text={result.name} className="text-[11px] text-gray-400 truncate" />
+                {result.address !== result.name && (
+                    <p className="text-xs text-gray-500 truncate">{result.address}</p>
+                )}
+            </div>
+        </button>
+    );
+
+    return (
+        <div className="relative px-4 pb-3">
+            <div className="flex items-center gap-2 px-3 py-2 bg-gray-100 rounded-xl focus-within:ring-2 focus-within:ring-blue-400">
+                <svg xmlns="http://www.w3.org/2000/svg" height="20px" viewBox="0 -960 960 960" width="20px" fill="#6b7280"><path d="M765-144 526-383q-30 22-65.79 34.5-35.79 12.5-76.18 12.5Q284-336 214-406t-70-170q0-100 70-170t170-70q100 0 170 70t70 170.03q0 40.39-12.5 76.18Q599-464 577-434l239 239-51 51ZM384-408q70 0 119-49t49-119q0-70-49-119t-119-49q-70 0-119 49t-49 119q0 70 49 119t119 49Z" /></svg>
+                <input
+                    type="search"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    onFocus={() => setIsFocused(true)}
+                    onBlur={() => setTimeout(() => setIsFocused(false), 150)}
+                    placeholder={t('search.placeholder')}
+                    className="flex-1 bg-transparent text-sm text-gray-900 placeholder-gray-500 outline-none"
+                    aria-label={t('search.label')}
+                />
+                {isBusy && (
+                    <div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+                )}
+            </div>
+
+            {/* 검색 결과 */}
+            {showResults && (
+                <div className="absolute left-4 right-4 top-full -mt-1 max-h-80 overflow-y-auto bg-white rounded-xl shadow-xl border border-gray-100 z-40">
+                    {/* 최근 검색 위치 (검색어 없을 때) */}
+                    {!hasQuery && (
+                        <>
+                            <div className="flex items-center justify-between px-4 pt-3 pb-1">
+                                <p className="text-xs font-semibold text-gray-500">{t('search.recent')}</p>
+                                <button
+                                    onMouseDown={(e) => e.preventDefault()}
+                                    onClick={clearRecent}
+                                    className="text-xs text-gray-400 hover:text-gray-600"
+                                >
+                                    {t('search.clearRecent')}
+                                </button>
+                            </div>
+                            {recent.map(renderLocation)}
+                        </>
+                    )}
+
+                    {/* 주소/역 검색 결과 */}
+                    {locations.length > 0 && (
+                        <>
+                            <p className="px-4 pt-3 pb-1 text-xs font-semibold text-gray-500">{t('search.locations')}</p>
+                            {locations.map(renderLocation)}
+                        </>
+                    )}
+
+                    {hasQuery && results.length > 0 && (
+                        <p className="px-4 pt-3 pb-1 text-xs font-semibold text-gray-500">{t('search.places')}</p>
+                    )}
+                    {error && locations.length === 0 && <p className="px-4 py-3 text-sm text-gray-500">{error}</p>}
+                    {!error && !isBusy && results.length === 0 && locations.length === 0 && query.trim().length >= 2 && (
+                        <p className="px-4 py-3 text-sm text-gray-500">{t('search.empty')}</p>
+                    )}
+                    {results.map((place) => {
+                        const statusInfo = place.todayTimeRaw
+                            ? calculateOpenStatus(place.todayTimeRaw)
+                            : { isOpen: place.isOpen, openStatus: place.openStatus };
+
+                        return (
+                            <button
+                                key={place.id}
+                                onMouseDown={(e) => e.preventDefault()}
+                                onClick={() => handleSelect(place)}
+                                className="w-full flex items-center justify-between gap-3 px-4 py-3 text-left hover:bg-gray-50 transition-colors border-b border-gray-50 last:border-b-0"
+                            >
+                                <div className="min-w-0">
+                                    <p className="text-sm font-semibold text-gray-900 truncate">{place.name}</p>
+                                    <RomanizedHint text={place.name} className="text-[11px] text-gray-400 truncate" />
+                                    <p className="text-xs text-gray-500 truncate">
+                                        {getPlaceCategoryLabel(place, locale)}
+                                        {place.address && ` · ${place.address}`}
+                                    </p>
+                                </div>
+                                <div className="flex-shrink-0 text-right">
+                                    {place.distance !== undefined && (
+                                        <p className="text-xs font-medium text-gray-700">{formatDistance(place.distance)}</p>
+                                    )}
+                                    <p className={`text-xs font-medium ${statusInfo.isOpen ? 'text-emerald-600' : 'text-gray-400'}`}>
+                                        {getStatusLabel(statusInfo, locale)}
+                                    </p>
+                                </div>
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
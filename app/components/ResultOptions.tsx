@@ -0,0 +1,47 @@
+'use client';
+
+import { PlaceSortKey } from '../types';
+import { PLACE_SORT_KEYS } from '../utils/placeSort';
+import { useI18n } from '../providers/I18nProvider';
+
+interface ResultOptionsProps {
+    openNowOnly: boolean;
+    setOpenNowOnly: (value: boolean) => void;
+    sortKey: PlaceSortKey;
+    setSortKey: (key: PlaceSortKey) => void;
+    isPlanning: boolean; // 방문 계획 모드 (방문 시각 기준 영업 여부)
+}
+
+/**
+ * 검색 결과 표시 옵션 (영업중만 보기, 정렬 기준)
+ */
+export function ResultOptions({ openNowOnly, setOpenNowOnly, sortKey, setSortKey, isPlanning }: ResultOptionsProps) {
+    const { t } = useI18n();
+
+    return (
+        <div className="relative px-4 pb-3 flex items-center gap-2">
+            <button
+                onClick={() => setOpenNowOnly(!openNowOnly)}
+                aria-pressed={openNowOnly}
+                className={`flex-shrink-0 flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold transition-all duration-200 ${openNowOnly
+                    ? 'bg-emerald-100 text-emerald-700 border border-emerald-200'
+                    : 'bg-gray-50 text-gray-600 border border-gray-200 hover:bg-gray-100'
+                    }`}
+            >
+                <span className={`w-2 h-2 rounded-full ${openNowOnly ? 'bg-emerald-500' : 'bg-gray-300'}`} />
+                {isPlanning ? t('options.openAtVisitOnly') : t('options.openNowOnly')}
+            </button>
+
+            <select
+                value={sortKey}
+                onChange={(e) => setSortKey(e.target.value as PlaceSortKey)}
+                className="ml-auto px-2 py-1.5 rounded-lg text-xs font-semibold text-gray-600 bg-gray-50 border border-gray-200 outline-none focus:ring-2 focus:ring-blue-400"
+                aria-label={t('common.sortBy')}
+            >
+                {PLACE_SORT_KEYS.map((key) => (
+                    <option key={key} value={key}>{t(`sort.${key}`)}</option>
+                ))}
+            </select>
+        </div>
+    );
+}
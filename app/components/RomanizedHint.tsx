@@ -0,0 +1,23 @@
+'use client';
+
+import { useI18n } from '../providers/I18nProvider';
+import { hasHangul, romanizeKorean } from '../utils/romanize';
+
+interface RomanizedHintProps {
+    text?: string;
+    className?: string;
+}
+
+/**
+ * 한국어가 아닌 화면에서 한글 이름/주소 아래 로마자 읽는 법 표시 (원문은 그대로 두고 보조로만)
+ */
+export function RomanizedHint({ text, className = 'text-xs text-gray-400' }: RomanizedHintProps) {
+    const { locale } = useI18n();
+    if (locale === 'ko' || !text || !hasHangul(text)) return null;
+
+    return (
+        <span lang="ko-Latn" className={`block ${className}`}>
+            {romanizeKorean(text)}
+        </span>
+    );
+}
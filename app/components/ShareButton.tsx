@@ -0,0 +1,76 @@
+'use client';
+
+import { useState } from 'react';
+import { useI18n } from '../providers/I18nProvider';
+
+interface ShareButtonProps {
+    title: string;
+    text?: string;
+    path: string; // 공유할 페이지 경로 (예: /place/A1100001)
+    compact?: boolean; // 아이콘만 표시 (바텀시트 헤더용)
+}
+
+// 링크 복사 안내 표시 시간 (ms)
+const COPIED_DURATION = 2000;
+
+/**
+ * 공유 버튼 (Web Share API, 지원하지 않으면 링크 복사)
+ */
+export function ShareButton({ title, text, path, compact = false }: ShareButtonProps) {
+    const { t } = useI18n();
+    const [isCopied, setIsCopied] = useState(false);
+
+    const handleShare = async () => {
+        const url = new URL(path, window.location.origin).toString();
+
+        if (navigator.share) {
+            try {
+                await navigator.share({ title, text, url });
+                return;
+            } catch (error) {
+                // 사용자가 공유 창을 닫은 경우는 그대로 종료
+                if (error instanceof DOMException && error.name === 'AbortError') return;
+            }
+        }
+
+        try {
+            await navigator.clipboard.writeText(url);
+            setIsCopied(true);
+            setTimeout(() => setIsCopied(false), COPIED_DURATION);
+        } catch {
+            window.prompt(t('share.prompt'), url);
+        }
+    };
+
+    const icon = isCopied ? (
+        <path d="M382-240 154-468l57-57 171 171 367-367 57 57-424 424Z" />
+    ) : (
+        <path d="M720-80q-50 0-85-35t-35-85q0-7 1-14.5t3-13.5L322-392q-17 15-38 23.5t-44 8.5q-50 0-85-35t-35-85q0-50 35-85t85-35q23 0 44 8.5t38 23.5l282-164q-2-6-3-13.5t-1-14.5q0-50 35-85t85-35q50 0 85 35t35 85q0 50-35 85t-85 35q-23 0-44-8.5T638-672L356-508q2 6 3 13.5t1 14.5q0 7-1 14.5t-3 13.5l282 164q17-15 38-23.5t44-8.5q50 0 85 35t35 85q0 50-35 85t-85 35Z" />
+    );
+
+    if (compact) {
+        return (
+            <button
+                onClick={handleShare}
+                className="p-2.5 hover:bg-gray-100 rounded-full transition-all duration-200 hover:scale-110 active:scale-95"
+                aria-label={isCopied ? t('share.copied') : t('share.button')}
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 -960 960 960" width="24px" fill={isCopied ? '#10b981' : '#9ca3af'}>
+                    {icon}
+                </svg>
+            </button>
+        );
+    }
+
+    return (
+        <button
+            onClick={handleShare}
+            className="flex-1 bg-gray-900 hover:bg-gray-800 text-white font-bold py-4 rounded-2xl transition-all duration-300 active:scale-95 flex items-center justify-center gap-2"
+        >
+            <svg xmlns="http://www.w3.org/2000/svg" height="19px" viewBox="0 -960 960 960" width="19px" fill="white">
+                {icon}
+            </svg>
+            {isCopied ? t('share.copied') : t('share.button')}
+        </button>
+    );
+}
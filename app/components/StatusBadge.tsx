@@ -0,0 +1,84 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { BusinessTimeRaw, Locale, OpenStatusInfo } from '../types';
+import { calculateOpenStatus, getStatusLabel } from '../utils/realtimeStatus';
+import { useI18n } from '../providers/I18nProvider';
+
+// 실시간 상태 갱신 주기 (ms)
+const REFRESH_INTERVAL = 60 * 1000;
+
+/**
+ * 영업 상태에 따른 텍스트 및 스타일
+ */
+function getStatusDisplay(info: OpenStatusInfo, locale: Locale): { text: string; bgClass: string; textClass: string } {
+    const text = getStatusLabel(info, locale);
+
+    switch (info.openStatus) {
+        case 'open':
+        case 'open24h':
+            return {
+                text,
+                bgClass: 'bg-gradient-to-r from-emerald-500 to-teal-500',
+                textClass: 'text-white'
+            };
+        case 'closingSoon':
+            return {
+                text,
+                bgClass: 'bg-gradient-to-r from-amber-500 to-orange-500',
+                textClass: 'text-white'
+            };
+        case 'opensLater':
+            return {
+                text,
+                bgClass: 'bg-indigo-100',
+                textClass: 'text-indigo-700'
+            };
+        case 'holiday':
+            return {
+                text,
+                bgClass: 'bg-amber-100',
+                textClass: 'text-amber-700'
+            };
+        case 'unknown':
+            return {
+                text,
+                bgClass: 'bg-slate-100',
+                textClass: 'text-slate-500'
+            };
+        case 'closed':
+        default:
+            return {
+                text,
+                bgClass: 'bg-gray-100',
+                textClass: 'text-gray-600'
+            };
+    }
+}
+
+/**
+ * 영업 상태 배지
+ */
+export function StatusBadge({ info }: { info: OpenStatusInfo }) {
+    const { locale } = useI18n();
+    const status = getStatusDisplay(info, locale);
+    return (
+        <span className={`px-3 py-1.5 ${status.bgClass} ${status.textClass} text-xs font-bold rounded-full shadow-md flex-shrink-0 whitespace-nowrap`}>
+            {status.text}
+        </span>
+    );
+}
+
+/**
+ * 1분마다 다시 계산하는 영업 상태 배지 (서버 렌더링 페이지용)
+ */
+export function LiveStatusBadge({ timeRaw, initialInfo }: { timeRaw?: BusinessTimeRaw; initialInfo: OpenStatusInfo }) {
+    const [info, setInfo] = useState(initialInfo);
+
+    useEffect(() => {
+        const timer = setInterval(() => setInfo(calculateOpenStatus(timeRaw)), REFRESH_INTERVAL);
+        return () => clearInterval(timer);
+    }, [timeRaw]);
+
+    return <StatusBadge info={info} />;
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import { useState } from 'react';
+import { MessageKey, Translator } from '../locales';
+import { formatMinutes } from '../utils/businessHours';
+import { getKoreaNow, getMinutesOfDay } from '../utils/clock';
+import { useI18n } from '../providers/I18nProvider';
+
+interface VisitTimePickerProps {
+    visitTime: Date | null;
+    setVisitTime: (time: Date | null) => void;
+}
+
+// 선택 가능한 날짜 수 (오늘부터 일주일)
+const DAY_RANGE = 7;
+
+// 기본 방문 시각 (오전 10시)
+const DEFAULT_VISIT_MINUTES = 10 * 60;
+
+const WEEKDAY_LABELS: MessageKey[] = ['weekday.0', 'weekday.1', 'weekday.2', 'weekday.3', 'weekday.4', 'weekday.5', 'weekday.6'];
+
+/**
+ * 오늘(한국 시각) 기준 dayOffset일 뒤 해당 시각
+ */
+function getVisitDate(dayOffset: number, minutes: number): Date {
+    const today = getKoreaNow();
+    return new Date(today.getFullYear(), today.getMonth(), today.getDate() + dayOffset, Math.floor(minutes / 60), minutes % 60);
+}
+
+/**
+ * 오늘부터 며칠 뒤인지 계산
+ */
+function getDayOffset(date: Date): number {
+    const today = getKoreaNow();
+    const startOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+    const startOfDate = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    return Math.round((startOfDate.getTime() - startOfToday.getTime()) / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * 날짜 표시 (오늘/내일/요일)
+ */
+function getDayLabel(dayOffset: number, t: Translator): string {
+    if (dayOffset === 0) return t('common.today');
+    if (dayOffset === 1) return t('common.tomorrow');
+    return t('weekday.full', { day: t(WEEKDAY_LABELS[getVisitDate(dayOffset, 0).getDay()]) });
+}
+
+/**
+ * 다음 일요일까지 남은 일수 (오늘이 일요일이면 0)
+ */
+function getDaysUntilSunday(): number {
+    return (7 - getKoreaNow().getDay()) % 7;
+}
+
+export function VisitTimePicker({ visitTime, setVisitTime }: VisitTimePickerProps) {
+    const { locale, t } = useI18n();
+    const [isOpen, setIsOpen] = useState(false);
+
+    const selectedOffset = visitTime ? getDayOffset(visitTime) : 0;
+    const selectedMinutes = visitTime ? getMinutesOfDay(visitTime) : DEFAULT_VISIT_MINUTES;
+    const timeValue = `${String(Math.floor(selectedMinutes / 60)).padStart(2, '0')}:${String(selectedMinutes % 60).padStart(2, '0')}`;
+
+    // 빠른 선택
+    const presets = [
+        { label: t('visit.tonight'), offset: 0, minutes: 22 * 60 },
+        { label: t('visit.sundayMorning'), offset: getDaysUntilSunday(), minutes: 10 * 60 },
+    ];
+
+    const handleTimeChange = (value: string) => {
+        const [hours, minutes] = value.split(':').map((v) => parseInt(v, 10));
+        if (isNaN(hours) || isNaN(minutes)) return;
+        setVisitTime(getVisitDate(selectedOffset, hours * 60 + minutes));
+    };
+
+    return (
+        <div className="relative px-4 pb-3">
+            <div className="flex items-center gap-2">
+                <button
+                    onClick={() => setIsOpen(!isOpen)}
+                    className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold transition-all duration-200 ${visitTime
+                        ? 'bg-indigo-100 text-indigo-700 border border-indigo-200'
+                        : 'bg-gray-50 text-gray-600 border border-gray-200 hover:bg-gray-100'
+                        }`}
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" height="16px" viewBox="0 -960 960 960" width="16px" fill="currentColor"><path d="M216-96q-29.7 0-50.85-21.15Q144-138.3 144-168v-528q0-29.7 21.15-50.85Q186.3-768 216-768h72v-96h72v96h240v-96h72v96h72q29.7 0 50.85 21.15Q816-725.7 816-696v528q0 29.7-21.15 50.85Q773.7-96 744-96H216Zm0-72h528v-360H216v360Zm0-432h528v-96H216v96Zm0 0v-96 96Z" /></svg>
+                    {visitTime
+                        ? t('visit.basis', { day: getDayLabel(selectedOffset, t), time: formatMinutes(selectedMinutes, locale) })
+                        : t('visit.pick')}
+                </button>
+                {visitTime && (
+                    <button
+                        onClick={() => { setVisitTime(null); setIsOpen(false); }}
+                        className="px-3 py-1.5 rounded-lg text-xs font-medium bg-gray-50 text-gray-600 border border-gray-200 hover:bg-gray-100"
+                    >
+                        {t('visit.reset')}
+                    </button>
+                )}
+            </div>
+
+            {isOpen && (
+                <div className="mt-2 p-3 bg-gray-50 rounded-xl border border-gray-200 space-y-2.5">
+                    {/* 날짜 선택 */}
+                    <div className="flex gap-1.5 overflow-x-auto scrollbar-hide" style={{ scrollbarWidth: 'none', msOverflowStyle: 'none' }}>
+                        {Array.from({ length: DAY_RANGE }, (_, offset) => (
+                            <button
+                                key={offset}
+                                onClick={() => setVisitTime(getVisitDate(offset, selectedMinutes))}
+                                className={`flex-shrink-0 px-3 py-1.5 rounded-lg text-xs font-medium transition-all duration-200 ${visitTime && selectedOffset === offset
+                                    ? 'bg-indigo-500 text-white'
+                                    : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-100'
+                                    }`}
+                            >
+                                {getDayLabel(offset, t)}
+                            </button>
+                        ))}
+                    </div>
+
+                    {/* 시각 선택 */}
+                    <div className="flex items-center gap-2">
+                        <input
+                            type="time"
+                            step={600}
+                            value={timeValue}
+                            onChange={(e) => handleTimeChange(e.target.value)}
+                            className="px-3 py-1.5 rounded-lg text-sm border border-gray-200 bg-white text-gray-800"
+                        />
+                        {presets.map(({ label, offset, minutes }) => (
+                            <button
+                                key={label}
+                                onClick={() => setVisitTime(getVisitDate(offset, minutes))}
+                                className="flex-shrink-0 px-2.5 py-1.5 rounded-lg text-xs font-medium bg-white text-indigo-600 border border-indigo-100 hover:bg-indigo-50"
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
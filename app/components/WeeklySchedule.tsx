@@ -0,0 +1,112 @@
+'use client';
+
+import { DaySchedule, Locale, TimeInterval } from '../types';
+import { MessageKey, Translator } from '../locales';
+import { formatMinutes } from '../utils/businessHours';
+import { getCurrentMinutes, isAllDayInterval } from '../utils/realtimeStatus';
+import { useI18n } from '../providers/I18nProvider';
+
+interface WeeklyScheduleProps {
+    schedule: DaySchedule[];
+    today: number; // 강조할 요일 인덱스 (공휴일이면 7)
+    currentMinutes?: number; // 타임라인에 표시할 시각 (분, 없으면 지금)
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// 주간 시간표 요일 라벨 (0:일 ~ 6:토, 7:공휴일)
+const DAY_LABELS: Record<number, MessageKey> = {
+    0: 'weekday.0',
+    1: 'weekday.1',
+    2: 'weekday.2',
+    3: 'weekday.3',
+    4: 'weekday.4',
+    5: 'weekday.5',
+    6: 'weekday.6',
+    7: 'weekday.7',
+};
+
+// 타임라인 눈금 (시)
+const TIMELINE_TICKS = [0, 6, 12, 18, 24];
+
+/**
+ * 영업 구간을 하루(0~24시) 타임라인 구간으로 변환 (익일 종료는 두 구간으로 분리)
+ */
+function getTimelineSegments({ openMinutes, closeMinutes }: TimeInterval): { start: number; end: number }[] {
+    // 24시간 운영
+    if (isAllDayInterval(openMinutes, closeMinutes)) {
+        return [{ start: 0, end: MINUTES_PER_DAY }];
+    }
+
+    // 익일 종료: 자정 이전 구간 + 자정 이후 구간
+    if (closeMinutes < openMinutes) {
+        return [
+            { start: 0, end: closeMinutes },
+            { start: openMinutes, end: MINUTES_PER_DAY },
+        ];
+    }
+
+    return [{ start: openMinutes, end: closeMinutes }];
+}
+
+/**
+ * 영업 구간 표시 문자열
+ */
+function formatInterval(interval: TimeInterval, t: Translator, locale: Locale): string {
+    if (isAllDayInterval(interval.openMinutes, interval.closeMinutes)) return t('schedule.allDay');
+    return t('common.hoursRange', {
+        open: formatMinutes(interval.openMinutes, locale),
+        close: formatMinutes(interval.closeMinutes, locale),
+    });
+}
+
+export function WeeklySchedule({ schedule, today, currentMinutes }: WeeklyScheduleProps) {
+    const { locale, t } = useI18n();
+    const todayInterval = schedule.find((d) => d.day === today)?.interval ?? null;
+    const nowPercent = ((currentMinutes ?? getCurrentMinutes()) / MINUTES_PER_DAY) * 100;
+
+    return (
+        <div className="p-4 bg-gradient-to-r from-gray-50 to-gray-100/50 rounded-xl border border-gray-200/50">
+            <p className="text-xs font-semibold text-gray-500 mb-2">{t('schedule.title')}</p>
+
+            {/* 오늘 영업 타임라인 */}
+            <div className="mb-3">
+                <div className="relative h-3 bg-gray-200 rounded-full overflow-hidden">
+                    {todayInterval && getTimelineSegments(todayInterval).map(({ start, end }) => (
+                        <div
+                            key={start}
+                            className="absolute inset-y-0 bg-gradient-to-r from-emerald-400 to-teal-400"
+                            style={{
+                                left: `${(start / MINUTES_PER_DAY) * 100}%`,
+                                width: `${((end - start) / MINUTES_PER_DAY) * 100}%`,
+                            }}
+                        />
+                    ))}
+                    {/* 현재 시각 */}
+                    <div
+                        className="absolute inset-y-0 w-0.5 bg-blue-600"
+                        style={{ left: `${nowPercent}%` }}
+                    />
+                </div>
+                <div className="flex justify-between mt-1 text-[10px] text-gray-400">
+                    {TIMELINE_TICKS.map((hour) => (
+                        <span key={hour}>{t('schedule.hour', { hour })}</span>
+                    ))}
+                </div>
+            </div>
+
+            {/* 요일별 시간표 */}
+            <div className="space-y-1">
+                {schedule.map(({ day, interval }) => (
+                    <div
+                        key={day}
+                        className={`flex justify-between text-sm ${day === today ? 'text-blue-600 font-bold' : 'text-gray-700'}`}
+                    >
+                        <span>{t(DAY_LABELS[day])}{day === today && t('schedule.today')}</span>
+                        <span>{interval ? formatInterval(interval, t, locale) : t('schedule.closed')}</span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,99 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Place } from '../types';
+import { FavoriteRecord, loadFavorites, saveFavorite, removeFavorite } from '../utils/favoritesStore';
+import { evaluatePlaceAt } from '../utils/businessHours';
+import { getKoreaNow } from '../utils/clock';
+import { toDateKey } from '../utils/holidays';
+
+// 다른 탭에 변경 알림 (같은 브라우저의 열린 탭끼리 동기화)
+const SYNC_CHANNEL = 'favorites';
+
+/**
+ * 저장된 장소 정보가 최신 조회 결과와 다른지 확인 (영업시간/연락처)
+ */
+function hasChanged(stored: Place, latest: Place): boolean {
+    const pick = (place: Place) => JSON.stringify([place.name, place.phone, place.address, place.weeklySchedule, place.todayTimeRaw]);
+    return pick(stored) !== pick(latest);
+}
+
+/**
+ * 즐겨찾기 (IndexedDB 저장, 탭 간 동기화)
+ * - visitTime: 방문 예정 시각 (한국 시각, 있으면 이 시각 기준 영업 상태)
+ */
+export function useFavorites(visitTime: Date | null = null) {
+    const [records, setRecords] = useState<FavoriteRecord[]>([]);
+    const channelRef = useRef<BroadcastChannel | null>(null);
+    const recordsRef = useRef<FavoriteRecord[]>([]);
+
+    useEffect(() => {
+        recordsRef.current = records;
+    }, [records]);
+
+    // IndexedDB를 쓸 수 없는 환경(사생활 보호 모드 등)에서는 즐겨찾기 없이 동작
+    const reload = useCallback(() => loadFavorites().then(setRecords).catch(() => undefined), []);
+
+    // 최초 로드 + 다른 탭의 변경 수신
+    useEffect(() => {
+        reload();
+
+        if (typeof BroadcastChannel === 'undefined') return;
+        const channel = new BroadcastChannel(SYNC_CHANNEL);
+        channel.onmessage = () => reload();
+        channelRef.current = channel;
+
+        return () => {
+            channel.close();
+            channelRef.current = null;
+        };
+    }, [reload]);
+
+    // 저장 후 이 탭을 갱신하고 다른 탭에 알림
+    const commit = useCallback(async (change: Promise<void>) => {
+        try {
+            await change;
+        } catch {
+            return;
+        }
+        await reload();
+        channelRef.current?.postMessage('changed');
+    }, [reload]);
+
+    const favoriteIds = useMemo(() => new Set(records.map((record) => record.id)), [records]);
+
+    const isFavorite = useCallback((id: string) => favoriteIds.has(id), [favoriteIds]);
+
+    // 즐겨찾기 추가/해제
+    const toggleFavorite = useCallback((place: Place) => {
+        commit(favoriteIds.has(place.id) ? removeFavorite(place.id) : saveFavorite(place));
+    }, [commit, favoriteIds]);
+
+    // 새로 조회한 장소 정보로 저장된 즐겨찾기 갱신 (바뀌었거나 다른 날 저장한 경우만)
+    const refreshFavorites = useCallback((places: Place[]) => {
+        const today = toDateKey(getKoreaNow());
+        const updates = recordsRef.current
+            .map((record) => {
+                const latest = places.find((place) => place.id === record.id);
+                if (!latest) return null;
+                return hasChanged(record.place, latest) || record.savedOn !== today ? saveFavorite(latest, record.addedAt) : null;
+            })
+            .filter((update): update is Promise<void> => update !== null);
+
+        if (updates.length > 0) {
+            commit(Promise.all(updates).then(() => undefined));
+        }
+    }, [commit]);
+
+    // 저장된 영업시간으로 현재(방문 계획 모드는 방문 시각) 영업 상태 계산
+    // 주간 영업 구간 없이 저장된 곳은 저장한 날이 아니면 정보 없음 (저장 당일 영업시간만 알 수 있음)
+    const favorites = useMemo(
+        () => records.map((record) => evaluatePlaceAt(record.place, visitTime ?? getKoreaNow(), record.savedOn ?? '')),
+        [records, visitTime]
+    );
+
+    return {
+        favorites,
+        isFavorite,
+        toggleFavorite,
+        refreshFavorites,
+    };
+}
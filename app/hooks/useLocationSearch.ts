@@ -0,0 +1,98 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { GeocodeResult } from '../types';
+
+// 입력 후 검색 요청까지 대기 시간
+const SEARCH_DEBOUNCE_MS = 300;
+
+// 최소 검색어 길이 (서버와 동일)
+const MIN_QUERY_LENGTH = 2;
+
+// 최근 검색 위치 (localStorage)
+const RECENT_STORAGE_KEY = 'recentLocationSearches';
+const MAX_RECENT = 5;
+
+/**
+ * 저장된 최근 검색 위치 불러오기
+ */
+function loadRecent(): GeocodeResult[] {
+    if (typeof window === 'undefined') return [];
+    try {
+        const saved = JSON.parse(localStorage.getItem(RECENT_STORAGE_KEY) || '[]');
+        return Array.isArray(saved) ? saved.slice(0, MAX_RECENT) : [];
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * 주소/역 이름으로 위치 검색 (입력 debounce, 최근 검색 위치 보관)
+ */
+export function useLocationSearch(query: string) {
+    const [results, setResults] = useState<GeocodeResult[]>([]);
+    const [isSearching, setIsSearching] = useState(false);
+    const [recent, setRecent] = useState<GeocodeResult[]>(loadRecent);
+
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    const trimmed = query.trim();
+    const isActive = trimmed.length >= MIN_QUERY_LENGTH;
+
+    useEffect(() => {
+        if (!isActive) {
+            abortControllerRef.current?.abort();
+            return;
+        }
+
+        const timer = setTimeout(async () => {
+            abortControllerRef.current?.abort();
+            const controller = new AbortController();
+            abortControllerRef.current = controller;
+
+            setIsSearching(true);
+
+            try {
+                const res = await fetch(`/api/geocode?query=${encodeURIComponent(trimmed)}`, { signal: controller.signal });
+                const data = await res.json();
+                setResults(data.success ? data.data : []);
+            } catch (err) {
+                // 취소된 요청은 에러로 처리하지 않음
+                if (err instanceof Error && err.name === 'AbortError') return;
+                setResults([]);
+            } finally {
+                if (abortControllerRef.current === controller) {
+                    setIsSearching(false);
+                }
+            }
+        }, SEARCH_DEBOUNCE_MS);
+
+        return () => clearTimeout(timer);
+    }, [trimmed, isActive]);
+
+    // 언마운트 시 진행 중인 요청 취소
+    useEffect(() => {
+        return () => abortControllerRef.current?.abort();
+    }, []);
+
+    // 최근 검색 위치에 추가 (중복은 맨 앞으로)
+    const addRecent = useCallback((result: GeocodeResult) => {
+        setRecent((prev) => {
+            const next = [result, ...prev.filter((r) => r.address !== result.address)].slice(0, MAX_RECENT);
+            localStorage.setItem(RECENT_STORAGE_KEY, JSON.stringify(next));
+            return next;
+        });
+    }, []);
+
+    // 최근 검색 위치 전체 삭제
+    const clearRecent = useCallback(() => {
+        localStorage.removeItem(RECENT_STORAGE_KEY);
+        setRecent([]);
+    }, []);
+
+    return {
+        results: isActive ? results : [],
+        isSearching: isActive && isSearching,
+        recent,
+        addRecent,
+        clearRecent,
+    };
+}
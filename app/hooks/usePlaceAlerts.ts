@@ -0,0 +1,139 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Place, PlaceAlert, PlaceAlertKind } from '../types';
+import { loadAlerts, saveAlert, removeAlert } from '../utils/alertsStore';
+import { createPlaceAlert, getAlertId, refreshAlertTriggers } from '../utils/placeAlerts';
+import { useI18n } from '../providers/I18nProvider';
+
+// 다른 탭(설정 화면 포함)에 변경 알림
+const SYNC_CHANNEL = 'alerts';
+
+// 앱이 열려 있는 동안 서비스 워커에 알림 확인을 요청하는 주기 (ms)
+const CHECK_INTERVAL = 60 * 1000;
+
+// 백그라운드 주기 동기화 태그 (지원 브라우저에서 앱이 닫혀 있어도 확인)
+const PERIODIC_SYNC_TAG = 'place-alerts';
+const PERIODIC_SYNC_MIN_INTERVAL = 15 * 60 * 1000;
+
+export type AlertPermission = NotificationPermission | 'unsupported';
+
+// Periodic Background Sync (Chromium 전용, 표준 타입에 없음)
+interface PeriodicSyncRegistration extends ServiceWorkerRegistration {
+    periodicSync?: { register: (tag: string, options: { minInterval: number }) => Promise<void> };
+}
+
+/**
+ * 현재 알림 권한 (Notifications API가 없으면 unsupported)
+ */
+function getPermission(): AlertPermission {
+    return typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+}
+
+/**
+ * 서비스 워커에 지금 알릴 항목 확인 요청
+ */
+function requestAlertCheck() {
+    navigator.serviceWorker?.controller?.postMessage({ type: 'check-alerts' });
+}
+
+/**
+ * 주기 동기화 등록 (권한이 없거나 지원하지 않으면 앱이 열려 있을 때만 확인)
+ */
+async function registerPeriodicCheck() {
+    try {
+        const registration = await navigator.serviceWorker.ready as PeriodicSyncRegistration;
+        await registration.periodicSync?.register(PERIODIC_SYNC_TAG, { minInterval: PERIODIC_SYNC_MIN_INTERVAL });
+    } catch {
+        // 설치하지 않은 웹앱 등에서는 등록 거부
+    }
+}
+
+/**
+ * 장소 영업 알림 (IndexedDB 저장, 서비스 워커가 알림 표시)
+ */
+export function usePlaceAlerts() {
+    const { locale } = useI18n();
+    const [alerts, setAlerts] = useState<PlaceAlert[]>([]);
+    const [permission, setPermission] = useState<AlertPermission>('default');
+    const channelRef = useRef<BroadcastChannel | null>(null);
+
+    // IndexedDB를 쓸 수 없는 환경에서는 알림 없이 동작
+    const reload = useCallback(() => loadAlerts().then(setAlerts).catch(() => undefined), []);
+
+    // 최초 로드 (지난 알림 시각 정리 후 다시 계산, 알림 문구는 현재 화면 언어로) + 다른 탭의 변경 수신
+    useEffect(() => {
+        loadAlerts()
+            .then((stored) => Promise.all(stored.map((alert) => saveAlert({ ...refreshAlertTriggers(alert), locale }))))
+            .then(() => {
+                requestAlertCheck();
+                return reload();
+            })
+            .catch(() => undefined)
+            .finally(() => setPermission(getPermission()));
+
+        if (typeof BroadcastChannel === 'undefined') return;
+        const channel = new BroadcastChannel(SYNC_CHANNEL);
+        channel.onmessage = () => reload();
+        channelRef.current = channel;
+
+        return () => {
+            channel.close();
+            channelRef.current = null;
+        };
+    }, [reload, locale]);
+
+    // 앱이 열려 있는 동안 주기적으로 확인 (서비스 워커는 타이머를 유지하지 못함)
+    useEffect(() => {
+        if (alerts.length === 0 || !('serviceWorker' in navigator)) return;
+        const timer = setInterval(requestAlertCheck, CHECK_INTERVAL);
+        return () => clearInterval(timer);
+    }, [alerts.length]);
+
+    // 저장 후 이 탭을 갱신하고 다른 탭에 알림
+    const commit = useCallback(async (change: Promise<void>) => {
+        try {
+            await change;
+        } catch {
+            return;
+        }
+        await reload();
+        channelRef.current?.postMessage('changed');
+    }, [reload]);
+
+    const alertIds = useMemo(() => new Set(alerts.map((alert) => alert.id)), [alerts]);
+
+    const hasAlert = useCallback((placeId: string, kind: PlaceAlertKind) => alertIds.has(getAlertId(placeId, kind)), [alertIds]);
+
+    // 알림 켜기/끄기 (처음 켤 때 알림 권한 요청)
+    const toggleAlert = useCallback(async (place: Place, kind: PlaceAlertKind) => {
+        const id = getAlertId(place.id, kind);
+        if (alertIds.has(id)) {
+            commit(removeAlert(id));
+            return;
+        }
+
+        const alert = createPlaceAlert(place, kind, locale);
+        if (!alert || getPermission() === 'unsupported') return;
+
+        const result = Notification.permission === 'default'
+            ? await Notification.requestPermission()
+            : Notification.permission;
+        setPermission(result);
+        if (result !== 'granted') return;
+
+        await commit(saveAlert(alert));
+        registerPeriodicCheck();
+    }, [alertIds, commit, locale]);
+
+    // 알림 삭제 (설정 화면)
+    const deleteAlert = useCallback((id: string) => {
+        commit(removeAlert(id));
+    }, [commit]);
+
+    return {
+        alerts,
+        permission,
+        hasAlert,
+        toggleAlert,
+        deleteAlert,
+    };
+}
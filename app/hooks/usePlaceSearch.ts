@@ -0,0 +1,86 @@
+import { useState, useEffect, useRef } from 'react';
+import { Place, Location } from '../types';
+import { MessageKey } from '../locales';
+import { useI18n } from '../providers/I18nProvider';
+
+// 입력 후 검색 요청까지 대기 시간
+const SEARCH_DEBOUNCE_MS = 300;
+
+// 최소 검색어 길이 (서버와 동일)
+const MIN_QUERY_LENGTH = 2;
+
+/**
+ * 병원/약국 이름 검색 (입력 debounce, 이전 요청 취소)
+ */
+export function usePlaceSearch(origin: Location | null) {
+    const { t } = useI18n();
+    const [query, setQuery] = useState('');
+    const [results, setResults] = useState<Place[]>([]);
+    const [isSearching, setIsSearching] = useState(false);
+    const [error, setError] = useState<MessageKey | null>(null); // 표시 언어와 무관하게 문구 키로 저장
+
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    const trimmed = query.trim();
+    const isActive = trimmed.length >= MIN_QUERY_LENGTH && origin !== null;
+
+    useEffect(() => {
+        if (!isActive || !origin) {
+            abortControllerRef.current?.abort();
+            return;
+        }
+
+        const timer = setTimeout(async () => {
+            abortControllerRef.current?.abort();
+            const controller = new AbortController();
+            abortControllerRef.current = controller;
+
+            setIsSearching(true);
+            setError(null);
+
+            try {
+                const res = await fetch(
+                    `/api/search?q=${encodeURIComponent(trimmed)}&lat=${origin.lat}&lng=${origin.lng}`,
+                    { signal: controller.signal }
+                );
+                const data = await res.json();
+                setResults(data.success ? data.data : []);
+                if (!data.success) setError('search.failed');
+            } catch (err) {
+                // 취소된 요청은 에러로 처리하지 않음
+                if (err instanceof Error && err.name === 'AbortError') return;
+                setResults([]);
+                setError('search.failed');
+            } finally {
+                if (abortControllerRef.current === controller) {
+                    setIsSearching(false);
+                }
+            }
+        }, SEARCH_DEBOUNCE_MS);
+
+        return () => clearTimeout(timer);
+    }, [trimmed, isActive, origin]);
+
+    // 언마운트 시 진행 중인 요청 취소
+    useEffect(() => {
+        return () => abortControllerRef.current?.abort();
+    }, []);
+
+    // 검색어 및 결과 초기화
+    const clear = () => {
+        abortControllerRef.current?.abort();
+        setQuery('');
+        setResults([]);
+        setError(null);
+    };
+
+    // 검색어가 짧으면 이전 결과를 보여주지 않음
+    return {
+        query,
+        setQuery,
+        results: isActive ? results : [],
+        isSearching: isActive && isSearching,
+        error: isActive && error ? t(error) : null,
+        clear,
+    };
+}
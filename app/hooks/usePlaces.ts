@@ -1,5 +1,13 @@
-import { useState, useCallback, useEffect, useRef } from 'react';
-import { Place, Location, MapBounds, FilterType, MedicalDepartment } from '../types';
+import { useState, useCallback, useEffect, useRef, useMemo } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { Place, Location, GeocodeResult, MapBounds, FilterType, MedicalDepartment, HospitalCategory, SevereCondition, SearchMode, PlaceSortKey, PlaceNeighbors } from '../types';
+import { canTreatAll } from '../utils/emergency';
+import { applyCurrentStatus, evaluatePlaceAt } from '../utils/businessHours';
+import { sortPlaces, isPlaceOpenNow } from '../utils/placeSort';
+import { getStatusMinutes } from '../utils/realtimeStatus';
+import { parseMapUrlState, buildMapUrlQuery } from '../utils/urlState';
+import { MessageKey } from '../locales';
+import { useI18n } from '../providers/I18nProvider';
 
 // 위치 요청 옵션
 const GEOLOCATION_OPTIONS = {
@@ -7,6 +15,13 @@ const GEOLOCATION_OPTIONS = {
     accurate: { enableHighAccuracy: true, timeout: 15000, maximumAge: 0 },
 };
 
+// 위치 요청 실패 문구 (GeolocationPositionError.code)
+const GEOLOCATION_ERROR_MESSAGES: Record<number, MessageKey> = {
+    1: 'error.locationDenied',
+    2: 'error.locationUnavailable',
+    3: 'error.locationTimeout',
+};
+
 // 기본 위치 (서울 시청)
 const DEFAULT_LOCATION: Location = { lat: 37.5665, lng: 126.978 };
 
@@ -14,6 +29,85 @@ const DEFAULT_LOCATION: Location = { lat: 37.5665, lng: 126.978 };
 const DEBOUNCE_MS = 500; // 지도 이동 후 API 호출 대기 시간
 const MIN_MOVE_THRESHOLD = 0.25; // bounds 25% 이상 이동 시에만 재검색 (API 호출 최소화)
 const NUM_OF_ROWS = 150; // API에서 가져올 최대 데이터 수 (거리순 정렬되므로 가까운 곳 위주)
+const MIN_RADIUS = 300; // 반경 검색 최소 반경 (미터)
+const MAX_RADIUS = 5000; // 반경 검색 최대 반경 (미터)
+const PLACES_PAGE_SIZE = 500; // 통합 조회 페이지 크기
+const MAX_PLACES_PAGES = 10; // 통합 조회 최대 페이지 수
+const DEFAULT_ZOOM = 16;
+
+// 서비스 워커가 저장된 결과로 응답할 때 붙이는 저장 시각 헤더 (오프라인)
+const CACHED_AT_HEADER = 'X-Cached-At';
+
+// 바텀시트를 열 때 쌓은 방문 기록 표시 (뒤로 가기로 닫기)
+const SHEET_HISTORY_KEY = 'placeSheet';
+
+/**
+ * 화면 대각선 절반 길이로 반경 검색 반경 계산 (미터)
+ */
+function getSearchRadius(bounds: MapBounds): number {
+    const centerLat = (bounds.ne.lat + bounds.sw.lat) / 2;
+    const height = (bounds.ne.lat - bounds.sw.lat) * 111000;
+    const width = (bounds.ne.lng - bounds.sw.lng) * 111000 * Math.cos(centerLat * Math.PI / 180);
+    const radius = Math.round(Math.sqrt(height * height + width * width) / 2);
+    return Math.min(Math.max(radius, MIN_RADIUS), MAX_RADIUS);
+}
+
+/**
+ * 지도 범위를 쿼리 파라미터로 변환 (서버에서 범위와 겹치는 시/군/구 모두 조회)
+ */
+function toBoundsQuery(bounds: MapBounds): string {
+    return `&swLat=${bounds.sw.lat}&swLng=${bounds.sw.lng}&neLat=${bounds.ne.lat}&neLng=${bounds.ne.lng}`;
+}
+
+/**
+ * 통합 장소 API를 다음 페이지가 없을 때까지 조회
+ * - 오프라인이라 저장된 결과로 응답하면 가장 오래된 저장 시각을 함께 반환
+ * - 범위 안 시/군/구가 많아 일부만 조회했으면 truncated
+ */
+async function fetchAllPlaces(query: string, signal: AbortSignal): Promise<{ places: Place[]; cachedAt: number | null; truncated: boolean }> {
+    const places: Place[] = [];
+    let cursor: string | null = null;
+    let cachedAt: number | null = null;
+    let truncated = false;
+
+    for (let page = 0; page < MAX_PLACES_PAGES; page++) {
+        const res: Response = await fetch(`/api/places?${query}&limit=${PLACES_PAGE_SIZE}${cursor ? `&cursor=${cursor}` : ''}`, { signal });
+        const pageCachedAt = Number(res.headers.get(CACHED_AT_HEADER)) || null;
+        if (pageCachedAt) {
+            cachedAt = cachedAt === null ? pageCachedAt : Math.min(cachedAt, pageCachedAt);
+        }
+
+        const data: { success: boolean; data: Place[]; nextCursor: string | null; truncated?: boolean } = await res.json();
+        if (!data.success) break;
+
+        places.push(...data.data);
+        truncated = truncated || !!data.truncated;
+        cursor = data.nextCursor;
+        if (!cursor) break;
+    }
+
+    return { places, cachedAt, truncated };
+}
+
+/**
+ * 기관ID로 장소 조회 (조회 결과에 없는 딥 링크 장소)
+ */
+async function fetchPlaceById(id: string): Promise<Place | null> {
+    try {
+        const res = await fetch(`/api/places/${encodeURIComponent(id)}`);
+        const data: { success: boolean; data: Place | null } = await res.json();
+        return data.success ? data.data : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * 진료과목/병원 종류 선택이 같은지 확인 (선택 순서 무관)
+ */
+function isSameSelection<T>(a: T[], b: T[]): boolean {
+    return a.length === b.length && a.every((dept) => b.includes(dept));
+}
 
 /**
  * 두 bounds가 충분히 다른지 확인 (최적화용)
@@ -39,27 +133,56 @@ function shouldRefetch(prev: MapBounds | null, next: MapBounds): boolean {
 }
 
 export function usePlaces() {
+    const { t } = useI18n();
+    // 주소 쿼리의 지도 상태로 시작 (딥 링크, 새로고침)
+    const searchParams = useSearchParams();
+    const [initialUrlState] = useState(() => parseMapUrlState(searchParams));
+
     const [userLocation, setUserLocation] = useState<Location | null>(null);
     const [places, setPlaces] = useState<Place[]>([]);
     const [filteredPlaces, setFilteredPlaces] = useState<Place[]>([]);
     const [selectedPlace, setSelectedPlace] = useState<Place | null>(null);
-    const [filter, setFilter] = useState<FilterType>('all');
-    const [department, setDepartment] = useState<MedicalDepartment>('all');
+    const [activePlaceId, setActivePlaceId] = useState<string | null>(null); // 마지막으로 선택한 장소 (목록/마커 강조)
+    const [filter, setFilter] = useState<FilterType>(initialUrlState.filter);
+    const [departments, setDepartments] = useState<MedicalDepartment[]>(initialUrlState.departments); // 선택한 진료과목 (비어 있으면 전체)
+    const [categories, setCategories] = useState<HospitalCategory[]>(initialUrlState.categories); // 선택한 병원 종류 (비어 있으면 전체)
+    const [conditions, setConditions] = useState<SevereCondition[]>([]); // 응급실 중증질환 필터
+    const [searchMode, setSearchMode] = useState<SearchMode>('district');
+    const [openNowOnly, setOpenNowOnly] = useState(false); // 영업중인 곳만 표시
+    const [sortKey, setSortKey] = useState<PlaceSortKey>('distance');
+    const [visitTime, setVisitTime] = useState<Date | null>(null); // 방문 예정 시각 (한국 시각, null이면 지금)
+    const [focusLocation, setFocusLocation] = useState<Location | null>(null); // 지도 이동 요청 위치 (검색 결과 선택 등)
+    const [followUserLocation, setFollowUserLocation] = useState(initialUrlState.center === null); // 내 위치로 지도 이동 (주소에 중심이 있으면 그 화면 유지)
     const [isLoading, setIsLoading] = useState(false);
     const [isDetailLoading, setIsDetailLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<MessageKey | null>(null); // 표시 언어와 무관하게 문구 키로 저장
     const [currentBounds, setCurrentBounds] = useState<MapBounds | null>(null);
     const [lastSearchCount, setLastSearchCount] = useState<number | null>(null); // 마지막 검색 결과 개수
+    const [offlineDataAt, setOfflineDataAt] = useState<number | null>(null); // 오프라인 저장 결과의 저장 시각 (온라인이면 null)
+    const [isTruncated, setIsTruncated] = useState(false); // 지도 범위가 넓어 일부 지역만 조회했는지
 
     // 최적화용 refs
     const lastFetchedBoundsRef = useRef<MapBounds | null>(null);
-    const lastFetchedDepartmentRef = useRef<MedicalDepartment>('all');
+    const lastFetchedDepartmentsRef = useRef<MedicalDepartment[]>([]);
+    const lastFetchedCategoriesRef = useRef<HospitalCategory[]>([]);
+    const lastFetchedEmergencyRef = useRef<boolean>(false); // 마지막 검색이 응급실 모드였는지
+    const lastFetchedSearchModeRef = useRef<SearchMode>('district');
     const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
     const abortControllerRef = useRef<AbortController | null>(null);
-    const lastCenterRef = useRef<Location | null>(null);
-    const lastZoomRef = useRef<number>(16);
+    const lastCenterRef = useRef<Location | null>(initialUrlState.center);
+    const lastZoomRef = useRef<number>(initialUrlState.zoom ?? DEFAULT_ZOOM);
     const initialSearchDoneRef = useRef<boolean>(false); // 초기 검색 완료 여부
 
+    // 주소 동기화용 refs
+    const pendingPlaceIdRef = useRef<string | null>(initialUrlState.placeId); // 첫 조회 후 열 장소
+    const syncedPlaceIdRef = useRef<string | null>(null); // 주소에 반영된 선택 장소
+    const historyNavigationRef = useRef(false); // 뒤로/앞으로 가기로 바뀐 선택 (기록을 새로 쌓지 않음)
+    const placesRef = useRef<Place[]>([]);
+
+    useEffect(() => {
+        placesRef.current = places;
+    }, [places]);
+
     // 장소가 bounds 내에 있는지 확인
     const isWithinBounds = useCallback((place: Place, bounds: MapBounds): boolean => {
         return (
@@ -70,8 +193,57 @@ export function usePlaces() {
         );
     }, []);
 
-    // 병원과 약국 데이터 가져오기
-    const fetchPlaces = useCallback(async (center: Location, bounds: MapBounds, zoom?: number, dept?: MedicalDepartment) => {
+    // 장소 클릭 핸들러
+    const handlePlaceClick = useCallback(async (place: Place) => {
+        setActivePlaceId(place.id);
+
+        // 병원은 상세 정보(응급실 전화, 진료과목 등)를 한 번만 불러옴 (좌표로 만든 임시 id는 제외)
+        if (place.type === 'hospital' && !place.detail && !place.id.startsWith('hospital_')) {
+            setIsDetailLoading(true);
+            setSelectedPlace(place);
+
+            try {
+                const response = await fetch(`/api/hospitals/detail?hpid=${encodeURIComponent(place.id)}`);
+                const result = await response.json();
+
+                if (result.success && result.data) {
+                    setSelectedPlace((prev) => (prev?.id === place.id ? { ...prev, detail: result.data } : prev));
+                    setPlaces((prev) => prev.map((p) => (p.id === place.id ? { ...p, detail: result.data } : p)));
+                }
+            } catch {
+                // 상세 정보 로드 실패 시 기본 정보 유지
+            } finally {
+                setIsDetailLoading(false);
+            }
+        } else {
+            setSelectedPlace(place);
+        }
+    }, []);
+
+    // 주소로 전달된 장소 열기 (조회 결과에 없으면 기관ID로 조회)
+    const restorePlace = useCallback(async (id: string, candidates: Place[], shouldFocus: boolean) => {
+        const place = candidates.find((p) => p.id === id) ?? await fetchPlaceById(id);
+        if (!place) {
+            historyNavigationRef.current = false;
+            return;
+        }
+
+        if (shouldFocus) {
+            setFocusLocation({ lat: place.lat, lng: place.lng });
+        }
+        handlePlaceClick(place);
+    }, [handlePlaceClick]);
+
+    // 병원과 약국(또는 응급실) 데이터 가져오기
+    const fetchPlaces = useCallback(async (
+        center: Location,
+        bounds: MapBounds,
+        zoom?: number,
+        depts?: MedicalDepartment[],
+        nextFilter?: FilterType,
+        nextSearchMode?: SearchMode,
+        nextCategories?: HospitalCategory[]
+    ) => {
         // 이전 요청 취소
         if (abortControllerRef.current) {
             abortControllerRef.current.abort();
@@ -83,50 +255,74 @@ export function usePlaces() {
 
         // 거리순으로 정렬되므로 가까운 곳 위주로 가져옴
         const numOfRows = NUM_OF_ROWS;
-        const currentDept = dept !== undefined ? dept : department;
+        const currentDepts = depts !== undefined ? depts : departments;
+        const currentCategories = nextCategories !== undefined ? nextCategories : categories;
+        const isEmergencyMode = (nextFilter !== undefined ? nextFilter : filter) === 'emergency';
+        const currentSearchMode = nextSearchMode !== undefined ? nextSearchMode : searchMode;
 
         try {
-            // 병원과 약국을 병렬로 조회
-            const hospitalUrl = currentDept !== 'all'
-                ? `/api/hospitals?lat=${center.lat}&lng=${center.lng}&numOfRows=${numOfRows}&QD=${currentDept}`
-                : `/api/hospitals?lat=${center.lat}&lng=${center.lng}&numOfRows=${numOfRows}`;
+            let allPlaces: Place[];
+            let cachedAt: number | null = null;
+            let truncated = false;
 
-            const [hospitalsRes, pharmaciesRes] = await Promise.all([
-                fetch(hospitalUrl, {
-                    signal: abortControllerRef.current.signal
-                }),
-                fetch(`/api/pharmacies?lat=${center.lat}&lng=${center.lng}&numOfRows=${numOfRows}`, {
+            if (isEmergencyMode) {
+                // 응급실 모드: 응급실만 조회 (실시간 가용병상 포함)
+                const emergencyRes = await fetch(`/api/emergency?lat=${center.lat}&lng=${center.lng}${toBoundsQuery(bounds)}`, {
                     signal: abortControllerRef.current.signal
-                }),
-            ]);
-
-            const [hospitalsData, pharmaciesData] = await Promise.all([
-                hospitalsRes.json(),
-                pharmaciesRes.json(),
-            ]);
-
-            const hospitals: Place[] = hospitalsData.success ? hospitalsData.data : [];
-            const pharmacies: Place[] = pharmaciesData.success ? pharmaciesData.data : [];
+                });
+                const emergencyData = await emergencyRes.json();
+                allPlaces = emergencyData.success ? emergencyData.data : [];
+                truncated = !!emergencyData.truncated;
+            } else {
+                // 반경 검색은 진료과목 필터를 지원하지 않으므로 과목 선택 시 시/군/구 단위로 조회
+                const areaQuery = currentSearchMode === 'radius' && currentDepts.length === 0
+                    ? `&radius=${getSearchRadius(bounds)}`
+                    : toBoundsQuery(bounds);
+
+                // 병원과 약국을 한 번에 조회 (서버에서 병합 및 거리순 정렬)
+                const departmentQuery = currentDepts.length > 0 ? `&departments=${currentDepts.join(',')}` : '';
+                // 병원 종류는 필요한 기관구분만 조회하도록 서버로 전달
+                const categoryQuery = currentCategories.length > 0 ? `&category=${currentCategories.join(',')}` : '';
+                const result = await fetchAllPlaces(
+                    `lat=${center.lat}&lng=${center.lng}&types=hospital,pharmacy&numOfRows=${numOfRows}${departmentQuery}${categoryQuery}${areaQuery}`,
+                    abortControllerRef.current.signal
+                );
+                // 저장된 결과는 저장 당시 기준이므로 영업 상태를 기기에서 다시 계산
+                allPlaces = result.cachedAt ? result.places.map((place) => applyCurrentStatus(place)) : result.places;
+                cachedAt = result.cachedAt;
+                truncated = result.truncated;
+            }
 
-            // API에서 이미 지역 기반으로 데이터를 가져오므로 클라이언트에서 bounds로 필터링하지 않음
-            const allPlaces = [...hospitals, ...pharmacies];
             setPlaces(allPlaces);
             setLastSearchCount(allPlaces.length); // 검색 결과 개수 저장
+            setOfflineDataAt(cachedAt);
+            setIsTruncated(truncated);
             lastFetchedBoundsRef.current = bounds;
-            lastFetchedDepartmentRef.current = currentDept;
+            lastFetchedDepartmentsRef.current = currentDepts;
+            lastFetchedCategoriesRef.current = currentCategories;
+            lastFetchedEmergencyRef.current = isEmergencyMode;
+            lastFetchedSearchModeRef.current = currentSearchMode;
             lastCenterRef.current = center;
-            lastZoomRef.current = zoom || 16;
+            lastZoomRef.current = zoom || DEFAULT_ZOOM;
             initialSearchDoneRef.current = true; // 초기 검색 완료 표시
+
+            // 딥 링크 장소는 첫 조회 후 열기 (주소에 지도 중심이 없으면 장소로 이동)
+            const pendingPlaceId = pendingPlaceIdRef.current;
+            if (pendingPlaceId) {
+                pendingPlaceIdRef.current = null;
+                historyNavigationRef.current = true;
+                restorePlace(pendingPlaceId, allPlaces, initialUrlState.center === null);
+            }
         } catch (err) {
             // 취소된 요청은 에러로 처리하지 않음
             if (err instanceof Error && err.name === 'AbortError') {
                 return;
             }
-            setError('데이터를 불러오는데 실패했습니다.');
+            setError('error.fetchFailed');
         } finally {
             setIsLoading(false);
         }
-    }, [department]);
+    }, [departments, categories, filter, searchMode, restorePlace, initialUrlState.center]);
 
     // Geolocation Promise 래퍼 함수
     const getPosition = (options?: PositionOptions): Promise<GeolocationPosition> => {
@@ -141,7 +337,7 @@ export function usePlaces() {
         const initLocation = async () => {
             if (!('geolocation' in navigator)) {
                 setUserLocation(DEFAULT_LOCATION);
-                setError('위치 서비스를 지원하지 않는 브라우저입니다.');
+                setError('error.geolocationUnsupported');
                 return;
             }
 
@@ -177,12 +373,7 @@ export function usePlaces() {
                     setUserLocation(DEFAULT_LOCATION);
 
                     const geoError = err as GeolocationPositionError;
-                    const messages: Record<number, string> = {
-                        1: '위치 권한이 거부되었습니다.',
-                        2: '위치 정보를 사용할 수 없습니다.',
-                        3: '위치 요청 시간이 초과되었습니다.',
-                    };
-                    setError(messages[geoError.code] || '위치 정보를 가져올 수 없습니다.');
+                    setError(GEOLOCATION_ERROR_MESSAGES[geoError.code] || 'error.locationFailed');
                     setIsLoading(false);
                 }
             }
@@ -205,21 +396,109 @@ export function usePlaces() {
             result = result.filter((place) => place.type === filter);
         }
 
-        setFilteredPlaces(result);
-    }, [places, filter, currentBounds, isWithinBounds]);
+        // 응급실 모드: 선택한 중증질환을 모두 수용 가능한 곳만
+        if (filter === 'emergency' && conditions.length > 0) {
+            result = result.filter((place) => canTreatAll(place.emergency?.capabilities, conditions));
+        }
+
+        // 방문 계획 모드: 선택한 시각 기준 영업 상태로 표시
+        if (visitTime) {
+            result = result.map((place) => evaluatePlaceAt(place, visitTime));
+        }
+
+        // 영업 상태/정렬은 같은 시각 기준으로 계산 (방문 계획 모드는 방문 시각)
+        const currentMinutes = getStatusMinutes(visitTime);
+        if (openNowOnly) {
+            result = result.filter((place) => isPlaceOpenNow(place, currentMinutes));
+        }
+
+        setFilteredPlaces(sortPlaces(result, sortKey, currentMinutes));
+    }, [places, filter, conditions, currentBounds, isWithinBounds, visitTime, openNowOnly, sortKey]);
+
+    // 선택한 장소도 방문 예정 시각 기준으로 표시
+    const displayedSelectedPlace = useMemo(
+        () => (selectedPlace && visitTime ? evaluatePlaceAt(selectedPlace, visitTime) : selectedPlace),
+        [selectedPlace, visitTime]
+    );
+
+    // 선택한 장소의 거리순 이전/다음 장소 (바텀시트 좌우 스와이프)
+    const selectedNeighbors = useMemo((): PlaceNeighbors => {
+        if (!selectedPlace) return { prev: null, next: null };
+        const ordered = sortPlaces(filteredPlaces, 'distance');
+        const index = ordered.findIndex((place) => place.id === selectedPlace.id);
+        if (index < 0) return { prev: null, next: null };
+        return { prev: ordered[index - 1] ?? null, next: ordered[index + 1] ?? null };
+    }, [filteredPlaces, selectedPlace]);
+
+    // 중증질환 선택 토글
+    const toggleCondition = useCallback((condition: SevereCondition) => {
+        setConditions((prev) =>
+            prev.includes(condition) ? prev.filter((c) => c !== condition) : [...prev, condition]
+        );
+    }, []);
+
+    // 중증질환 선택 초기화
+    const clearConditions = useCallback(() => {
+        setConditions([]);
+    }, []);
 
     // 진료과목 변경 핸들러 (즉시 재검색)
-    const handleDepartmentChange = useCallback((dept: MedicalDepartment) => {
-        setDepartment(dept);
-        // 같은 과목이면 재검색 불필요
-        if (dept === lastFetchedDepartmentRef.current) return;
+    const handleDepartmentsChange = useCallback((depts: MedicalDepartment[]) => {
+        setDepartments(depts);
+        // 같은 과목 조합이면 재검색 불필요
+        if (isSameSelection(depts, lastFetchedDepartmentsRef.current)) return;
         const center = lastCenterRef.current;
         const bounds = currentBounds || lastFetchedBoundsRef.current;
         if (center && bounds) {
-            fetchPlaces(center, bounds, lastZoomRef.current, dept);
+            fetchPlaces(center, bounds, lastZoomRef.current, depts);
         }
     }, [fetchPlaces, currentBounds]);
 
+    // 병원 종류 변경 핸들러 (필요한 기관구분만 즉시 재검색)
+    const handleCategoriesChange = useCallback((nextCategories: HospitalCategory[]) => {
+        setCategories(nextCategories);
+        if (isSameSelection(nextCategories, lastFetchedCategoriesRef.current)) return;
+        const center = lastCenterRef.current;
+        const bounds = currentBounds || lastFetchedBoundsRef.current;
+        if (center && bounds) {
+            fetchPlaces(center, bounds, lastZoomRef.current, departments, filter, searchMode, nextCategories);
+        }
+    }, [fetchPlaces, currentBounds, departments, filter, searchMode]);
+
+    // 필터 변경 핸들러 (약국 선택 시 진료과목/병원 종류 초기화, 응급실 모드 전환 시 재검색)
+    const handleFilterChange = useCallback((nextFilter: FilterType) => {
+        const nextDepts = nextFilter === 'pharmacy' ? [] : departments;
+        const nextCategories = nextFilter === 'pharmacy' ? [] : categories;
+        setFilter(nextFilter);
+        setDepartments(nextDepts);
+        setCategories(nextCategories);
+
+        const modeChanged = (nextFilter === 'emergency') !== lastFetchedEmergencyRef.current;
+        if (
+            !modeChanged &&
+            isSameSelection(nextDepts, lastFetchedDepartmentsRef.current) &&
+            isSameSelection(nextCategories, lastFetchedCategoriesRef.current)
+        ) return;
+
+        const center = lastCenterRef.current;
+        const bounds = currentBounds || lastFetchedBoundsRef.current;
+        if (center && bounds) {
+            if (modeChanged) setSelectedPlace(null);
+            fetchPlaces(center, bounds, lastZoomRef.current, nextDepts, nextFilter, undefined, nextCategories);
+        }
+    }, [fetchPlaces, currentBounds, departments, categories]);
+
+    // 검색 방식 변경 핸들러 (시/군/구 ↔ 반경, 즉시 재검색)
+    const handleSearchModeChange = useCallback((nextSearchMode: SearchMode) => {
+        setSearchMode(nextSearchMode);
+        if (nextSearchMode === lastFetchedSearchModeRef.current) return;
+        const center = lastCenterRef.current;
+        const bounds = currentBounds || lastFetchedBoundsRef.current;
+        if (center && bounds) {
+            fetchPlaces(center, bounds, lastZoomRef.current, departments, filter, nextSearchMode);
+        }
+    }, [fetchPlaces, currentBounds, departments, filter]);
+
     // 지도 이동 시 실시간 검색 (debounce + 최적화)
     const handleMapIdle = useCallback(
         (center: Location, bounds: MapBounds, zoom: number) => {
@@ -234,7 +513,7 @@ export function usePlaces() {
 
             // 초기 검색이 안 된 상태면 즉시 검색 (debounce 없이)
             if (!initialSearchDoneRef.current) {
-                fetchPlaces(center, bounds, zoom, department);
+                fetchPlaces(center, bounds, zoom, departments);
                 return;
             }
 
@@ -243,12 +522,12 @@ export function usePlaces() {
                 return;
             }
 
-            // debounce 적용 - 현재 department 상태를 명시적으로 전달
+            // debounce 적용 - 현재 departments 상태를 명시적으로 전달
             debounceTimerRef.current = setTimeout(() => {
-                fetchPlaces(center, bounds, zoom, department);
+                fetchPlaces(center, bounds, zoom, departments);
             }, DEBOUNCE_MS);
         },
-        [fetchPlaces, department]
+        [fetchPlaces, departments]
     );
 
     // 현재 위치에서 다시 검색 (지도 이동 없이)
@@ -264,8 +543,8 @@ export function usePlaces() {
 
         // 캐시 초기화하여 강제 재검색
         lastFetchedBoundsRef.current = null;
-        fetchPlaces(center, bounds, lastZoomRef.current, department);
-    }, [fetchPlaces, currentBounds, userLocation, department]);
+        fetchPlaces(center, bounds, lastZoomRef.current, departments);
+    }, [fetchPlaces, currentBounds, userLocation, departments]);
 
     // 내 위치에서 다시 찾기
     const handleRefreshLocation = useCallback(() => {
@@ -279,45 +558,100 @@ export function usePlaces() {
                 const location = { lat: position.coords.latitude, lng: position.coords.longitude };
                 // 캐시 초기화 - 위치 획득 후에 초기화하여 race condition 방지
                 lastFetchedBoundsRef.current = null;
+                setFollowUserLocation(true);
                 setUserLocation(location);
             },
             (err) => {
-                const messages: Record<number, string> = {
-                    [err.PERMISSION_DENIED]: '위치 권한이 거부되었습니다.',
-                    [err.POSITION_UNAVAILABLE]: '위치 정보를 사용할 수 없습니다.',
-                    [err.TIMEOUT]: '위치 요청 시간이 초과되었습니다.',
-                };
-                setError(messages[err.code] || '위치 정보를 가져올 수 없습니다.');
+                setError(GEOLOCATION_ERROR_MESSAGES[err.code] || 'error.locationFailed');
                 setIsLoading(false);
             },
             GEOLOCATION_OPTIONS.accurate
         );
     }, []);
 
-    // 장소 클릭 핸들러
-    const handlePlaceClick = useCallback(async (place: Place) => {
-        // todayTimeRaw가 있으면 상세 API 호출 불필요
-        if (place.type === 'hospital' && !place.todayTimeRaw && !place.id.startsWith('hospital_')) {
-            setIsDetailLoading(true);
-            setSelectedPlace(place);
+    // 검색 결과 선택: 지도를 해당 위치로 옮기고 바텀시트 열기
+    const handleSearchSelect = useCallback((place: Place) => {
+        setFocusLocation({ lat: place.lat, lng: place.lng });
+        handlePlaceClick(place);
+    }, [handlePlaceClick]);
 
-            try {
-                const response = await fetch(`/api/hospitals/detail?hpid=${place.id}`);
-                const result = await response.json();
+    // 주소/역 검색 결과 선택: 지도를 옮기고 그 위치에서 다시 검색
+    const handleLocationSelect = useCallback((result: GeocodeResult) => {
+        // 이동 거리와 무관하게 다음 idle 이벤트에서 재검색
+        lastFetchedBoundsRef.current = null;
+        setSelectedPlace(null);
+        setFocusLocation({ lat: result.lat, lng: result.lng });
+    }, []);
 
-                if (result.success && result.data) {
-                    setSelectedPlace((prev) => (prev?.id === place.id ? { ...prev, ...result.data } : prev));
-                    setPlaces((prev) => prev.map((p) => (p.id === place.id ? { ...p, ...result.data } : p)));
-                }
-            } catch {
-                // 상세 정보 로드 실패 시 기본 정보 유지
-            } finally {
-                setIsDetailLoading(false);
-            }
+    // 현재 지도 상태를 주소에 기록 (바텀시트를 열 때만 기록을 쌓음)
+    const writeUrl = useCallback((method: 'push' | 'replace', placeId: string | null) => {
+        const center = lastCenterRef.current;
+        const query = buildMapUrlQuery({
+            center,
+            zoom: center ? lastZoomRef.current : null,
+            filter,
+            departments,
+            categories,
+            placeId,
+        });
+        const url = `${window.location.pathname}${query}`;
+
+        if (method === 'push') {
+            window.history.pushState({ [SHEET_HISTORY_KEY]: true }, '', url);
         } else {
-            setSelectedPlace(place);
+            window.history.replaceState(window.history.state, '', url);
         }
-    }, []);
+    }, [filter, departments, categories]);
+
+    const selectedPlaceId = selectedPlace?.id ?? null;
+
+    // 지도 이동/필터/선택 장소를 주소와 동기화
+    useEffect(() => {
+        const prevPlaceId = syncedPlaceIdRef.current;
+        syncedPlaceIdRef.current = selectedPlaceId;
+
+        if (prevPlaceId !== selectedPlaceId && historyNavigationRef.current) {
+            historyNavigationRef.current = false;
+            writeUrl('replace', selectedPlaceId);
+            return;
+        }
+
+        if (!prevPlaceId && selectedPlaceId) {
+            writeUrl('push', selectedPlaceId);
+            return;
+        }
+
+        // 바텀시트를 닫으면 열 때 쌓은 기록을 되돌림 (뒤로 가기와 같은 상태)
+        if (prevPlaceId && !selectedPlaceId && window.history.state?.[SHEET_HISTORY_KEY]) {
+            window.history.back();
+            return;
+        }
+
+        writeUrl('replace', selectedPlaceId);
+    }, [selectedPlaceId, currentBounds, writeUrl]);
+
+    // 뒤로/앞으로 가기: 바텀시트 닫기 또는 다시 열기
+    useEffect(() => {
+        const handlePopState = () => {
+            const { placeId } = parseMapUrlState(new URLSearchParams(window.location.search));
+
+            // 선택은 그대로 (바텀시트를 닫아 되돌린 경우) - 지도 상태만 다시 기록
+            if (placeId === syncedPlaceIdRef.current) {
+                writeUrl('replace', placeId);
+                return;
+            }
+
+            historyNavigationRef.current = true;
+            if (placeId) {
+                restorePlace(placeId, placesRef.current, false);
+            } else {
+                setSelectedPlace(null);
+            }
+        };
+
+        window.addEventListener('popstate', handlePopState);
+        return () => window.removeEventListener('popstate', handlePopState);
+    }, [writeUrl, restorePlace]);
 
     // 컴포넌트 언마운트 시 정리
     useEffect(() => {
@@ -335,19 +669,42 @@ export function usePlaces() {
         userLocation,
         places,
         filteredPlaces,
-        selectedPlace,
+        selectedPlace: displayedSelectedPlace,
         setSelectedPlace,
+        activePlaceId,
+        selectedNeighbors,
         filter,
-        setFilter,
-        department,
-        setDepartment: handleDepartmentChange,
+        setFilter: handleFilterChange,
+        departments,
+        setDepartments: handleDepartmentsChange,
+        categories,
+        setCategories: handleCategoriesChange,
+        conditions,
+        toggleCondition,
+        clearConditions,
+        searchMode,
+        setSearchMode: handleSearchModeChange,
+        openNowOnly,
+        setOpenNowOnly,
+        sortKey,
+        setSortKey,
+        visitTime,
+        setVisitTime,
         isLoading,
         isDetailLoading,
-        error,
+        error: error ? t(error) : null,
         lastSearchCount, // 마지막 검색 결과 개수
+        offlineDataAt,
+        isTruncated,
         handleMapIdle,
         handleRefreshLocation,
         handleRefreshSearch,
         handlePlaceClick,
+        focusLocation,
+        initialCenter: initialUrlState.center,
+        initialZoom: initialUrlState.zoom,
+        followUserLocation,
+        handleSearchSelect,
+        handleLocationSelect,
     };
 }
@@ -0,0 +1,150 @@
+import { useState, useRef, useCallback } from 'react';
+import { SheetSnap } from '../types';
+
+// 접힌 상태 카드 높이 (px)
+const PEEK_HEIGHT = 168;
+
+// 화면 높이 대비 펼친 상태 높이
+const HALF_RATIO = 0.5;
+const FULL_RATIO = 0.92;
+
+// 드래그 방향 판정 거리 (px)
+const AXIS_LOCK_DISTANCE = 10;
+
+// 좌우 스와이프로 다음 장소로 넘어가는 거리 (px)
+const SWIPE_DISTANCE = 60;
+
+// 빠르게 튕기면 다음 단계로 (px/ms)
+const FLICK_VELOCITY = 0.5;
+
+const SNAP_ORDER: SheetSnap[] = ['peek', 'half', 'full'];
+
+interface DragState {
+    startX: number;
+    startY: number;
+    startHeight: number;
+    startTime: number;
+    axis: 'x' | 'y' | null;
+}
+
+/**
+ * 스냅 단계별 높이 (px)
+ */
+function getSnapHeight(snap: SheetSnap): number {
+    if (snap === 'peek') return PEEK_HEIGHT;
+    return Math.round(window.innerHeight * (snap === 'half' ? HALF_RATIO : FULL_RATIO));
+}
+
+/**
+ * 놓은 위치와 속도로 이동할 스냅 단계 결정 (맨 아래로 내리면 null = 닫기)
+ */
+function resolveSnap(height: number, velocity: number, current: SheetSnap): SheetSnap | null {
+    const index = SNAP_ORDER.indexOf(current);
+
+    // 빠르게 튕긴 방향으로 한 단계 이동
+    if (Math.abs(velocity) > FLICK_VELOCITY) {
+        const nextIndex = index + (velocity > 0 ? 1 : -1);
+        return nextIndex < 0 ? null : SNAP_ORDER[Math.min(nextIndex, SNAP_ORDER.length - 1)];
+    }
+
+    if (height < PEEK_HEIGHT / 2) return null;
+
+    // 가장 가까운 단계
+    return SNAP_ORDER.reduce((nearest, snap) =>
+        Math.abs(getSnapHeight(snap) - height) < Math.abs(getSnapHeight(nearest) - height) ? snap : nearest
+    );
+}
+
+/**
+ * 바텀시트 드래그 제스처 (위아래: 스냅 단계 전환, 좌우: 이전/다음 장소)
+ */
+export function useSheetGesture(onClose: () => void, onSwipe?: (direction: 1 | -1) => void) {
+    const [snap, setSnap] = useState<SheetSnap>('peek');
+    const [dragHeight, setDragHeight] = useState<number | null>(null);
+    const [offsetX, setOffsetX] = useState(0);
+    const dragRef = useRef<DragState | null>(null);
+
+    const onPointerDown = useCallback((e: React.PointerEvent<HTMLElement>) => {
+        // 버튼 등 컨트롤 클릭은 제스처로 처리하지 않음
+        if ((e.target as HTMLElement).closest('button, a')) return;
+
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = {
+            startX: e.clientX,
+            startY: e.clientY,
+            startHeight: getSnapHeight(snap),
+            startTime: e.timeStamp,
+            axis: null,
+        };
+    }, [snap]);
+
+    const onPointerMove = useCallback((e: React.PointerEvent<HTMLElement>) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+
+        const dx = e.clientX - drag.startX;
+        const dy = e.clientY - drag.startY;
+
+        if (!drag.axis) {
+            if (Math.max(Math.abs(dx), Math.abs(dy)) < AXIS_LOCK_DISTANCE) return;
+            // 좌우 스와이프는 이동할 장소가 있을 때만
+            drag.axis = Math.abs(dx) > Math.abs(dy) && onSwipe ? 'x' : 'y';
+        }
+
+        if (drag.axis === 'x') {
+            setOffsetX(dx);
+        } else {
+            setDragHeight(Math.min(Math.max(drag.startHeight - dy, 0), getSnapHeight('full')));
+        }
+    }, [onSwipe]);
+
+    const onPointerUp = useCallback((e: React.PointerEvent<HTMLElement>) => {
+        const drag = dragRef.current;
+        dragRef.current = null;
+        if (!drag) return;
+
+        // 요약 카드를 탭하면 펼치기
+        if (!drag.axis) {
+            if (snap === 'peek') setSnap('half');
+            return;
+        }
+
+        const dx = e.clientX - drag.startX;
+        const dy = e.clientY - drag.startY;
+
+        if (drag.axis === 'x') {
+            setOffsetX(0);
+            if (Math.abs(dx) >= SWIPE_DISTANCE) {
+                // 왼쪽으로 밀면 다음 장소
+                onSwipe?.(dx < 0 ? 1 : -1);
+            }
+            return;
+        }
+
+        const velocity = -dy / Math.max(e.timeStamp - drag.startTime, 1);
+        const nextSnap = resolveSnap(drag.startHeight - dy, velocity, snap);
+        setDragHeight(null);
+
+        if (nextSnap) {
+            setSnap(nextSnap);
+        } else {
+            onClose();
+        }
+    }, [snap, onClose, onSwipe]);
+
+    // 시스템에 의해 제스처가 취소되면 원래 상태로
+    const onPointerCancel = useCallback(() => {
+        dragRef.current = null;
+        setDragHeight(null);
+        setOffsetX(0);
+    }, []);
+
+    return {
+        snap,
+        setSnap,
+        height: dragHeight ?? getSnapHeight(snap),
+        isDragging: dragHeight !== null || offsetX !== 0,
+        offsetX,
+        handlers: { onPointerDown, onPointerMove, onPointerUp, onPointerCancel },
+    };
+}
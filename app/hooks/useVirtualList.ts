@@ -0,0 +1,54 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+
+// 화면 밖에 미리 그려둘 행 수 (빠른 스크롤 시 빈 영역 방지)
+const OVERSCAN = 6;
+
+/**
+ * 고정 높이 행 목록 가상화 (보이는 행만 렌더링)
+ */
+export function useVirtualList(itemCount: number, rowHeight: number) {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [scrollTop, setScrollTop] = useState(0);
+    const [viewportHeight, setViewportHeight] = useState(0);
+
+    // 컨테이너 크기 변화 추적 (패널 열기/화면 회전)
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+
+        const observer = new ResizeObserver(([entry]) => setViewportHeight(entry.contentRect.height));
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, []);
+
+    const onScroll = useCallback((e: React.UIEvent<HTMLDivElement>) => {
+        setScrollTop(e.currentTarget.scrollTop);
+    }, []);
+
+    // 해당 행이 보이도록 스크롤 (이미 보이면 그대로)
+    const scrollToIndex = useCallback((index: number) => {
+        const container = containerRef.current;
+        if (!container || index < 0) return;
+
+        const top = index * rowHeight;
+        const bottom = top + rowHeight;
+        if (top < container.scrollTop) {
+            container.scrollTop = top;
+        } else if (bottom > container.scrollTop + container.clientHeight) {
+            container.scrollTop = bottom - container.clientHeight;
+        }
+    }, [rowHeight]);
+
+    const startIndex = Math.max(0, Math.floor(scrollTop / rowHeight) - OVERSCAN);
+    const endIndex = Math.min(itemCount, Math.ceil((scrollTop + viewportHeight) / rowHeight) + OVERSCAN);
+
+    return {
+        containerRef,
+        onScroll,
+        scrollToIndex,
+        startIndex,
+        endIndex,
+        totalHeight: itemCount * rowHeight,
+        offsetTop: startIndex * rowHeight,
+    };
+}
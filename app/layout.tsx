@@ -1,71 +0,0 @@
-import type { Metadata, Viewport } from 'next';
-import Script from "next/script";
-import { Inter } from 'next/font/google';
-import './globals.css';
-import { InstallPrompt } from './components/InstallPrompt';
-
-const inter = Inter({
-  variable: '--font-inter',
-  subsets: ['latin'],
-  weight: ['400', '500', '600', '700', '800'],
-});
-
-export const metadata: Metadata = {
-  title: '아프면 바로가',
-  description: '지금 바로 갈 수 있는 병원과 약국이에요',
-  manifest: '/manifest.json',
-  appleWebApp: {
-    capable: true,
-    statusBarStyle: 'default',
-    title: '아프면 바로가',
-  },
-  formatDetection: {
-    telephone: false,
-  },
-  icons: {
-    icon: '/icons/icon.svg',
-    apple: '/icons/icon.svg',
-  },
-};
-
-export const viewport: Viewport = {
-  width: 'device-width',
-  initialScale: 1,
-  maximumScale: 1,
-  userScalable: false,
-  themeColor: '#ffffff',
-};
-
-export default function RootLayout({
-  children,
-}: Readonly<{
-  children: React.ReactNode;
-}>) {
-  return (
-    <html lang="ko">
-      <head>
-        {/* iOS 스플래시 스크린 */}
-        <link
-          rel="apple-touch-startup-image"
-          href="/icons/icon-512x512.png"
-        />
-        {/* iOS 상태바 스타일 - 흰색 배경 */}
-        <meta name="apple-mobile-web-app-status-bar-style" content="default" />
-        {/* 추가 theme-color for iOS Safari */}
-        <meta name="theme-color" content="#ffffff" media="(prefers-color-scheme: light)" />
-        <meta name="theme-color" content="#ffffff" media="(prefers-color-scheme: dark)" />
-        <Script
-          async
-          src="https://pagead2.googlesyndication.com/pagead/js/adsbygoogle.js?client=ca-pub-9760563871632268"
-          crossOrigin="anonymous"
-        />
-      </head>
-      <body
-        className={`${inter.variable} antialiased`}
-      >
-        {children}
-        <InstallPrompt />
-      </body>
-    </html>
-  );
-}
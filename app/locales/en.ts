@@ -0,0 +1,347 @@
+/**
+ * 영어 문구
+ */
+
+import { Messages } from './ko';
+
+export const en: Messages = {
+    'department.D001': 'Internal Medicine',
+    'department.D002': 'Pediatrics',
+    'department.D003': 'Neurology',
+    'department.D004': 'Psychiatry',
+    'department.D005': 'Dermatology',
+    'department.D006': 'General Surgery',
+    'department.D007': 'Thoracic Surgery',
+    'department.D008': 'Orthopedics',
+    'department.D009': 'Neurosurgery',
+    'department.D010': 'Plastic Surgery',
+    'department.D011': 'Obstetrics & Gynecology',
+    'department.D012': 'Ophthalmology',
+    'department.D013': 'ENT',
+    'department.D014': 'Urology',
+    'department.D015': 'Tuberculosis',
+    'department.D016': 'Radiology',
+    'department.D017': 'Radiation Oncology',
+    'department.D018': 'Anesthesiology & Pain',
+    'department.D019': 'Rehabilitation Medicine',
+    'department.D020': 'Laboratory Medicine',
+    'department.D021': 'Family Medicine',
+    'department.D022': 'Pathology',
+    'department.D023': 'Nuclear Medicine',
+    'department.D024': 'Emergency Medicine',
+    'department.D025': 'Occupational Medicine',
+    'department.D026': 'Dentistry',
+    'department.D027': 'Preventive Medicine',
+    'department.D028': 'Korean Medicine',
+    'department.D029': 'Other',
+    'category.A': 'General Hospital',
+    'category.B': 'Hospital',
+    'category.C': 'Clinic',
+    'category.D': 'Long-term Care Hospital',
+    'category.M': 'Dental Hospital',
+    'category.N': 'Dental Clinic',
+    'condition.brainHemorrhage': 'Brain hemorrhage surgery',
+    'condition.strokeReperfusion': 'Stroke reperfusion',
+    'condition.cardiacReperfusion': 'Heart attack reperfusion',
+    'condition.abdominalInjury': 'Abdominal injury surgery',
+    'condition.limbReplantation': 'Limb replantation',
+    'condition.endoscopy': 'Emergency endoscopy',
+    'condition.dialysis': 'Emergency dialysis',
+    'condition.pretermDelivery': 'Preterm delivery',
+    'condition.psychiatric': 'Psychiatric care',
+    'condition.newborn': 'Newborn care',
+    'condition.severeBurn': 'Severe burns',
+    'condition.emergencyGatekeeper': 'Emergency room (gatekeeper)',
+    'status.open': 'Open',
+    'status.open24h': '24 hours',
+    'status.closingSoon': 'Closing soon',
+    'status.opensLater': 'Opens later',
+    'status.closed': 'Closed',
+    'status.holiday': 'Day off',
+    'status.unknown': 'No info',
+    'sort.distance': 'Nearest',
+    'sort.closes-latest': 'Open latest',
+    'sort.name': 'Name',
+    'alert.opening': 'Notify when open',
+    'alert.closing': 'Notify 30 min before closing',
+
+    'app.name': '아프면 바로가',
+    'app.tagline': 'Hospitals and pharmacies you can visit right now',
+    'common.all': 'All',
+    'common.close': 'Close',
+    'common.backHome': 'Back to home',
+    'common.loading': 'Loading...',
+    'common.noInfo': 'No info',
+    'common.call': 'Call',
+    'common.delete': 'Delete',
+    'common.sortBy': 'Sort by',
+    'common.today': 'Today',
+    'common.tomorrow': 'Tomorrow',
+    'common.hoursRange': '{open} - {close}',
+    'placeType.hospital': 'Hospital',
+    'placeType.pharmacy': 'Pharmacy',
+    'placeType.emergency': 'ER',
+    'language.label': 'Language',
+
+    'weekday.0': 'Sun',
+    'weekday.1': 'Mon',
+    'weekday.2': 'Tue',
+    'weekday.3': 'Wed',
+    'weekday.4': 'Thu',
+    'weekday.5': 'Fri',
+    'weekday.6': 'Sat',
+    'weekday.7': 'Holiday',
+    'weekday.full': '{day}',
+
+    'status.closesAt': 'Closes {time}',
+    'status.opensAt': 'Opens {time}',
+
+    'menu.open': 'Menu',
+    'menu.alerts': 'Opening alerts',
+    'menu.about': 'About',
+    'menu.privacy': 'Privacy policy',
+    'menu.terms': 'Terms of service',
+    'header.allCategories': 'All types',
+    'header.more': 'More',
+    'header.moreCount': 'More +{count}',
+
+    'visit.pick': 'Plan a visit',
+    'visit.basis': 'For {day} {time}',
+    'visit.reset': 'Back to now',
+    'visit.tonight': 'Tonight 10 PM',
+    'visit.sundayMorning': 'Sunday 10 AM',
+
+    'options.openNowOnly': 'Open now only',
+    'options.openAtVisitOnly': 'Open at visit time only',
+
+    'departments.title': 'Choose departments',
+    'departments.search': 'Search departments',
+    'departments.placeholder': 'Search departments (e.g. Pediatrics, ENT)',
+    'departments.empty': 'No matching departments.',
+    'departments.reset': 'Reset',
+    'departments.apply': 'Apply {count}',
+    'departments.showAll': 'Show all departments',
+
+    'search.placeholder': 'Search by name, address or station',
+    'search.label': 'Search hospitals, pharmacies or places',
+    'search.recent': 'Recent places',
+    'search.clearRecent': 'Clear all',
+    'search.locations': 'Go to place',
+    'search.places': 'Hospitals & pharmacies',
+    'search.empty': 'No results found.',
+    'search.failed': 'Search failed.',
+
+    'map.loading': 'Loading map...',
+    'map.searching': 'Searching',
+    'map.foundEmergency': 'Found emergency rooms',
+    'map.foundPlaces': 'Found hospitals & pharmacies',
+    'map.noResults': 'No places found',
+    'map.openNowCount': '{count} open now',
+    'map.openAtVisitCount': '{count} open at visit time',
+    'map.offline': 'Offline · data as of {time}',
+    'map.truncated': 'Showing some areas only · Zoom in for complete results',
+    'map.myLocation': 'My location',
+    'map.list': 'List',
+    'map.refresh': 'Search here',
+    'map.radiusSearch': 'Radius',
+    'map.districtSearch': 'District',
+
+    'legend.hospitalOpen': 'Hospital (open)',
+    'legend.pharmacyOpen': 'Pharmacy (open)',
+    'legend.open24h': 'Open 24 hours',
+    'legend.closingSoon': 'Closing within 30 min',
+    'legend.opensLater': 'Opens later today',
+    'legend.closed': 'Closed / day off',
+    'legend.unknown': 'No hours info',
+    'legend.categoryA': 'General hospital',
+    'legend.categoryB': 'Hospital · care · dental hospital',
+    'legend.categoryC': 'Clinic · dental clinic',
+    'legend.bedsAvailable': 'Beds available (3+)',
+    'legend.bedsLimited': 'Few beds (1-2)',
+    'legend.bedsFull': 'No beds / full',
+    'legend.bedsUnknown': 'No bed info',
+
+    'beds.general': 'General',
+    'beds.pediatric': 'Pediatric',
+    'beds.isolation': 'Isolation',
+    'beds.updatedAt': 'As of {time}',
+    'beds.total': 'Total beds',
+    'beds.emergency': 'ER',
+    'beds.inpatient': 'Inpatient',
+    'beds.icu': 'ICU',
+    'beds.neonatalIcu': 'NICU',
+    'beds.operatingRoom': 'Operating rooms',
+
+    'cluster.emergencyTitle': 'ERs at this location',
+    'cluster.placesTitle': 'Places at this location',
+
+    'sheet.holidayHours': 'Holiday hours',
+    'sheet.favoriteAdd': 'Add to favorites',
+    'sheet.favoriteRemove': 'Remove from favorites',
+    'sheet.nextNearest': 'Next nearest: {name}',
+    'sheet.erBeds': 'ER beds available · open 24 hours',
+    'sheet.capabilities': 'Can treat',
+    'sheet.address': 'Address',
+    'sheet.phone': 'Phone',
+    'sheet.todayHours': "Today's hours",
+    'sheet.visitDayHours': 'Hours on visit day',
+    'sheet.holidayApplied': ' ({name} · holiday hours)',
+    'sheet.holidayClosed': 'Closed for {name}',
+    'sheet.todayHoliday': 'Closed today',
+    'sheet.distance': 'Distance',
+    'sheet.detailLoading': 'Loading details...',
+    'sheet.erPhone': 'ER phone',
+    'sheet.erCall': 'Call ER {phone}',
+    'sheet.alerts': 'Alerts',
+    'sheet.alertsLoading': 'Loading opening hours.',
+    'sheet.alertsUnavailable': 'Alerts need weekly opening hours, which are not available here.',
+    'sheet.departments': 'Departments',
+    'sheet.beds': 'Beds',
+    'sheet.intro': 'About this facility',
+    'sheet.viewDetail': 'Details',
+
+    'schedule.title': 'Weekly hours',
+    'schedule.hour': '{hour}h',
+    'schedule.today': ' (today)',
+    'schedule.closed': 'Closed',
+    'schedule.allDay': '24 hours',
+
+    'list.nearby': 'Nearby',
+    'list.favorites': 'Favorites',
+    'list.showMap': 'Map',
+    'list.favoritesEmpty': 'Tap the star on a place to add it to your favorites.',
+    'list.empty': 'No places to show in this area.',
+    'list.emergency24h': '24-hour ER',
+    'list.todayHours': 'Today {open} - {close}',
+    'list.todayClosed': 'Closed today or no info',
+
+    'share.button': 'Share',
+    'share.copied': 'Link copied',
+    'share.prompt': 'Copy this link to share.',
+
+    'install.title': 'Install the app',
+    'install.iosHint': 'Add to your home screen to use it like an app',
+    'install.hint': 'Open it straight from your home screen',
+    'install.iosStep1': '1. Tap the',
+    'install.iosStep1Share': 'share button below',
+    'install.iosStep2': '2. Choose "Add to Home Screen"',
+    'install.button': 'Install',
+
+    'error.fetchFailed': 'Failed to load data.',
+    'error.geolocationUnsupported': 'This browser does not support location services.',
+    'error.locationDenied': 'Location permission was denied.',
+    'error.locationUnavailable': 'Location is not available.',
+    'error.locationTimeout': 'Location request timed out.',
+    'error.locationFailed': 'Could not get your location.',
+
+    'alerts.title': 'Opening alerts',
+    'alerts.description': 'Check and manage alerts for when places open or are about to close.',
+    'alerts.permissionTitle': 'Notification permission',
+    'alerts.permission.granted': 'Notifications are allowed.',
+    'alerts.permission.default': 'We will ask for permission when you turn on your first alert.',
+    'alerts.permission.denied': 'Notifications for this site are blocked in your browser settings. Allow them to receive alerts.',
+    'alerts.permission.unsupported': 'This browser does not support notifications.',
+    'alerts.delivery': 'Alerts are only checked while the service worker is awake. With the app open they are checked every minute; with the app closed they are checked only occasionally, and only in Chromium-based browsers that support periodic background sync, so they may arrive late or not at all.',
+    'alerts.listTitle': 'Your alerts',
+    'alerts.empty': "Select a hospital or pharmacy on the map, then tap 'Notify when open' or 'Notify 30 min before closing'.",
+    'alerts.next': 'Next: {time}',
+    'alerts.none': 'Nothing in the next week',
+    'alerts.footnote': 'Alerts are calculated from the opening hours saved on this device and may be late or missed while the browser is closed.',
+
+    'place.notFound': 'Place not found',
+    'place.viewOnMap': 'View on map',
+    'place.mapAlt': 'Location of {name}',
+    'place.todayClosed': 'Closed or no info',
+    'place.todayHoursShort': 'Today {open} - {close}',
+    'place.disclaimer': 'Based on Public Data Portal information and may differ from actual hours. Please call before visiting.',
+
+    'about.description': '아프면 바로가 finds hospitals and pharmacies near you in real time.',
+    'about.whatTitle': 'What is 아프면 바로가?',
+    'about.whatBody': ' ("Go right away when sick") helps you quickly find hospitals and pharmacies near you that are open right now when you suddenly feel unwell. It uses public data to show live opening status, and you can filter by medical department to find the care you need.',
+    'about.featuresTitle': 'Key features',
+    'about.feature1Title': 'Live opening status',
+    'about.feature1Body': 'Shows which hospitals and pharmacies are open at the current time.',
+    'about.feature2Title': 'Search by department',
+    'about.feature2Body': 'Find only the hospitals with the department you need, such as internal medicine, surgery or dentistry.',
+    'about.feature3Title': 'Location-based search',
+    'about.feature3Body': 'Lists hospitals and pharmacies nearest to you first.',
+    'about.feature4Title': 'Detailed information',
+    'about.feature4Body': 'See addresses, phone numbers and opening hours at a glance.',
+    'about.sourcesTitle': 'Data sources',
+    'about.sourcesIntro': 'This service uses the following public data:',
+    'about.source1': 'Public Data Portal - nationwide hospital and clinic information',
+    'about.source2': 'Public Data Portal - nationwide pharmacy information',
+    'about.source3': 'NAVER Cloud Platform - map service',
+    'about.contactTitle': 'Contact',
+    'about.contactBody': 'For questions or to report an error, please email us at the address below.',
+
+    'privacy.description': 'Privacy policy of the 아프면 바로가 service.',
+    'terms.description': 'Terms of service of the 아프면 바로가 service.',
+    'legal.lastUpdated': 'Last updated: February 9, 2026',
+    'legal.translationNotice': 'This is a translation for convenience. If it differs from the Korean text, the Korean version prevails.',
+
+    'privacy.section1Title': '1. Purpose of processing personal information',
+    'privacy.section1Body': '아프면 바로가 (the "Service") processes personal information for the following purposes. Personal information is not used for any other purpose, and if the purpose changes, we will take the necessary steps, such as obtaining separate consent.',
+    'privacy.section1Item1': 'Providing location-based services (searching for nearby hospitals and pharmacies)',
+    'privacy.section1Item2': 'Service usage statistics and analysis',
+    'privacy.section1Item3': 'Improving the Service and developing new services',
+    'privacy.section2Title': '2. Personal information collected',
+    'privacy.section2Body': 'To provide the Service smoothly, we collect only the following minimum personal information.',
+    'privacy.section2Item1Label': 'Location',
+    'privacy.section2Item1Body': 'your current location for searching nearby hospitals and pharmacies (collected only with your consent)',
+    'privacy.section2Item2Label': 'Device information',
+    'privacy.section2Item2Body': 'device type and browser information for optimizing the Service',
+    'privacy.section3Title': '3. Retention and use period',
+    'privacy.section3Body': 'The Service does not store location information on its servers; it is used only temporarily when you make a search request. Service usage records are kept for up to one year to improve the Service and then destroyed.',
+    'privacy.section4Title': '4. Provision to third parties',
+    'privacy.section4Body': "As a rule, the Service does not provide users' personal information to third parties, except in the following cases.",
+    'privacy.section4Item1': 'When the user has given prior consent',
+    'privacy.section4Item2': 'When required by law, or when an investigative agency requests it for investigation according to the procedures and methods prescribed by law',
+    'privacy.section5Title': '5. Use of cookies',
+    'privacy.section5Body': 'The Service may use cookies to provide personalized services. A cookie is a small piece of information that the server running the website sends to your browser, and it is stored on your device.',
+    'privacy.section6Title': '6. Privacy officer',
+    'privacy.section6Body': 'The Service has designated the privacy officer below, who is responsible for overseeing the processing of personal information and for handling user complaints and remedies related to it.',
+    'privacy.section6Officer': 'Privacy officer',
+    'privacy.section6Email': 'Email: {email}',
+    'privacy.section7Title': '7. Changes to this policy',
+    'privacy.section7Body': 'This privacy policy applies from its effective date. If anything is added, removed or corrected due to laws or policy, we will announce the changes through a notice at least 7 days before they take effect.',
+
+    'terms.article1Title': 'Article 1 (Purpose)',
+    'terms.article1Body': 'These terms set out the conditions and procedures for using the location-based hospital and pharmacy search service provided by 아프면 바로가 (the "Service"), and the rights, obligations and responsibilities of the Service and its users.',
+    'terms.article2Title': 'Article 2 (Definitions)',
+    'terms.article2Item1Term': '"Service"',
+    'terms.article2Item1Body': ' means the web service that lets users search for and view information on nearby hospitals and pharmacies based on their current location.',
+    'terms.article2Item2Term': '"User"',
+    'terms.article2Item2Body': ' means anyone who accesses the Service and uses it in accordance with these terms.',
+    'terms.article3Title': 'Article 3 (Effect and amendment of the terms)',
+    'terms.article3Item1': 'These terms apply to all users who wish to use the Service.',
+    'terms.article3Item2': 'The Service may amend these terms when necessary, to the extent that doing so does not violate applicable laws.',
+    'terms.article3Item3': 'When the terms are amended, the Service will announce the changes through a service notice at least 7 days before they take effect.',
+    'terms.article4Title': 'Article 4 (Services provided)',
+    'terms.article4Intro': 'The Service provides the following:',
+    'terms.article4Item1': 'Location-based search for nearby hospitals',
+    'terms.article4Item2': 'Location-based search for nearby pharmacies',
+    'terms.article4Item3': 'Hospital search by medical department',
+    'terms.article4Item4': 'Detailed hospital and pharmacy information',
+    'terms.article4Item5': 'Real-time opening status information',
+    'terms.article5Title': 'Article 5 (Use of the Service)',
+    'terms.article5Item1': 'Anyone can use the Service without signing up.',
+    'terms.article5Item2': 'If you agree to the use of your location when using the Service, you can receive more accurate results.',
+    'terms.article5Item3': 'Even if you do not agree to the use of your location, you can use the Service based on the default location (Seoul).',
+    'terms.article6Title': 'Article 6 (Changes to and suspension of the Service)',
+    'terms.article6Item1': 'The Service may change what it provides for operational or technical reasons.',
+    'terms.article6Item2': 'The Service may restrict or suspend all or part of the Service in any of the following cases:',
+    'terms.article6Case1': 'When unavoidable due to maintenance or construction of service facilities',
+    'terms.article6Case2': 'When a facilities-based telecommunications carrier under the Telecommunications Business Act suspends its telecommunications service',
+    'terms.article6Case3': 'In a national emergency, natural disaster or other force majeure event',
+    'terms.article7Title': 'Article 7 (Disclaimer)',
+    'terms.article7Item1': 'Hospital and pharmacy information in the Service is based on public data and may differ from the actual information.',
+    'terms.article7Item2': 'The Service is not responsible for the reliability or accuracy of information, materials or facts posted by users.',
+    'terms.article7Item3': 'The Service has no obligation to intervene in disputes arising through the Service between users or between a user and a third party, and is not liable for any resulting damage.',
+    'terms.article7Item4': 'Before visiting a hospital or pharmacy, always contact it directly to confirm that it is open.',
+    'terms.article8Title': 'Article 8 (Copyright)',
+    'terms.article8Body': "Copyright and other intellectual property rights in works created by the Service belong to the Service. Users must not, without the Service's prior approval, use information obtained through the Service for commercial purposes by copying, transmitting, publishing, distributing, broadcasting or any other means, or let third parties do so.",
+    'terms.article9Title': 'Article 9 (Governing law and jurisdiction)',
+    'terms.article9Body': 'The laws of the Republic of Korea govern the interpretation of these terms and disputes between the Service and users. Lawsuits over such disputes shall be filed with the competent court under the Civil Procedure Act.',
+    'terms.effective': 'These terms take effect on February 9, 2026.',
+};
@@ -0,0 +1,42 @@
+/**
+ * 화면 문구 번역
+ * - 키가 없는 언어는 한국어로 대체, `{name}` 자리에 값 치환
+ */
+
+import { Locale } from '../types';
+import { ko, MessageKey, Messages } from './ko';
+import { en } from './en';
+import { zh } from './zh';
+import { ja } from './ja';
+import { vi } from './vi';
+
+export type { MessageKey, Messages } from './ko';
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translator = (key: MessageKey, params?: MessageParams) => string;
+
+const MESSAGES: Record<Locale, Messages> = { ko, en, zh, ja, vi };
+
+/**
+ * 문자열이 번역 키인지 (코드 이름 등 동적 키 확인용)
+ */
+export function isMessageKey(key: string): key is MessageKey {
+    return Object.hasOwn(ko, key);
+}
+
+/**
+ * 번역 문구 가져오기
+ */
+export function translate(locale: Locale, key: MessageKey, params?: MessageParams): string {
+    const message = MESSAGES[locale][key] || ko[key];
+    if (!params) return message;
+    return message.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+
+/**
+ * 언어를 고정한 번역 함수 (서버 컴포넌트, 유틸리티용)
+ */
+export function getTranslator(locale: Locale): Translator {
+    return (key, params) => translate(locale, key, params);
+}
@@ -0,0 +1,347 @@
+/**
+ * 일본어 문구
+ */
+
+import { Messages } from './ko';
+
+export const ja: Messages = {
+    'department.D001': '内科',
+    'department.D002': '小児科',
+    'department.D003': '脳神経内科',
+    'department.D004': '精神科',
+    'department.D005': '皮膚科',
+    'department.D006': '外科',
+    'department.D007': '胸部外科',
+    'department.D008': '整形外科',
+    'department.D009': '脳神経外科',
+    'department.D010': '形成外科',
+    'department.D011': '産婦人科',
+    'department.D012': '眼科',
+    'department.D013': '耳鼻咽喉科',
+    'department.D014': '泌尿器科',
+    'department.D015': '結核科',
+    'department.D016': '放射線科',
+    'department.D017': '放射線腫瘍科',
+    'department.D018': '麻酔科・ペインクリニック',
+    'department.D019': 'リハビリテーション科',
+    'department.D020': '臨床検査科',
+    'department.D021': '総合診療科',
+    'department.D022': '病理診断科',
+    'department.D023': '核医学科',
+    'department.D024': '救急科',
+    'department.D025': '産業医学科',
+    'department.D026': '歯科',
+    'department.D027': '予防医学科',
+    'department.D028': '韓方',
+    'department.D029': 'その他',
+    'category.A': '総合病院',
+    'category.B': '病院',
+    'category.C': 'クリニック',
+    'category.D': '療養病院',
+    'category.M': '歯科病院',
+    'category.N': '歯科クリニック',
+    'condition.brainHemorrhage': '脳出血手術',
+    'condition.strokeReperfusion': '脳梗塞再灌流',
+    'condition.cardiacReperfusion': '心筋梗塞再灌流',
+    'condition.abdominalInjury': '腹部損傷手術',
+    'condition.limbReplantation': '四肢再接着手術',
+    'condition.endoscopy': '緊急内視鏡',
+    'condition.dialysis': '緊急透析',
+    'condition.pretermDelivery': '早産の妊婦',
+    'condition.psychiatric': '精神疾患の患者',
+    'condition.newborn': '新生児',
+    'condition.severeBurn': '重症熱傷',
+    'condition.emergencyGatekeeper': '救急外来の運営',
+    'status.open': '営業中',
+    'status.open24h': '24時間営業',
+    'status.closingSoon': 'まもなく終了',
+    'status.opensLater': '営業前',
+    'status.closed': '営業終了',
+    'status.holiday': '休業日',
+    'status.unknown': '情報なし',
+    'sort.distance': '近い順',
+    'sort.closes-latest': '遅くまで営業',
+    'sort.name': '名前順',
+    'alert.opening': '開店したら通知',
+    'alert.closing': '終了30分前に通知',
+
+    'app.name': '아프면 바로가',
+    'app.tagline': '今すぐ行ける病院と薬局です',
+    'common.all': 'すべて',
+    'common.close': '閉じる',
+    'common.backHome': 'ホームに戻る',
+    'common.loading': '読み込み中...',
+    'common.noInfo': '情報なし',
+    'common.call': '電話',
+    'common.delete': '削除',
+    'common.sortBy': '並び替え',
+    'common.today': '今日',
+    'common.tomorrow': '明日',
+    'common.hoursRange': '{open} - {close}',
+    'placeType.hospital': '病院',
+    'placeType.pharmacy': '薬局',
+    'placeType.emergency': '救急外来',
+    'language.label': '言語',
+
+    'weekday.0': '日',
+    'weekday.1': '月',
+    'weekday.2': '火',
+    'weekday.3': '水',
+    'weekday.4': '木',
+    'weekday.5': '金',
+    'weekday.6': '土',
+    'weekday.7': '祝日',
+    'weekday.full': '{day}曜日',
+
+    'status.closesAt': '{time} 終了',
+    'status.opensAt': '{time} 開始',
+
+    'menu.open': 'メニュー',
+    'menu.alerts': '営業通知の管理',
+    'menu.about': 'サービス紹介',
+    'menu.privacy': 'プライバシーポリシー',
+    'menu.terms': '利用規約',
+    'header.allCategories': 'すべての施設',
+    'header.more': 'もっと見る',
+    'header.moreCount': 'もっと見る +{count}',
+
+    'visit.pick': '受診時間を決める',
+    'visit.basis': '{day} {time} 基準',
+    'visit.reset': '現在に戻す',
+    'visit.tonight': '今夜10時',
+    'visit.sundayMorning': '日曜午前10時',
+
+    'options.openNowOnly': '営業中のみ',
+    'options.openAtVisitOnly': '受診時間に営業中のみ',
+
+    'departments.title': '診療科を選択',
+    'departments.search': '診療科を検索',
+    'departments.placeholder': '診療科を検索 (例: 小児科、耳鼻咽喉科)',
+    'departments.empty': '一致する診療科がありません。',
+    'departments.reset': 'リセット',
+    'departments.apply': '{count}件の診療科を適用',
+    'departments.showAll': 'すべての診療科を表示',
+
+    'search.placeholder': '病院・薬局名、住所、駅名で検索',
+    'search.label': '病院・薬局名または場所を検索',
+    'search.recent': '最近検索した場所',
+    'search.clearRecent': 'すべて削除',
+    'search.locations': '場所へ移動',
+    'search.places': '病院・薬局',
+    'search.empty': '検索結果がありません。',
+    'search.failed': '検索に失敗しました。',
+
+    'map.loading': '地図を読み込み中...',
+    'map.searching': '検索しています',
+    'map.foundEmergency': '救急外来が見つかりました',
+    'map.foundPlaces': '病院・薬局が見つかりました',
+    'map.noResults': '場所が見つかりません',
+    'map.openNowCount': '営業中 {count}件',
+    'map.openAtVisitCount': '受診時間に営業 {count}件',
+    'map.offline': 'オフライン · {time} 時点のデータ',
+    'map.truncated': '範囲が広いため一部の地域のみ表示中 · 拡大するとすべて表示されます',
+    'map.myLocation': '現在地',
+    'map.list': 'リスト',
+    'map.refresh': '再検索',
+    'map.radiusSearch': '半径検索',
+    'map.districtSearch': '地域検索',
+
+    'legend.hospitalOpen': '病院 (営業中)',
+    'legend.pharmacyOpen': '薬局 (営業中)',
+    'legend.open24h': '24時間営業',
+    'legend.closingSoon': 'まもなく終了 (30分以内)',
+    'legend.opensLater': '本日営業前',
+    'legend.closed': '営業終了 / 休業日',
+    'legend.unknown': '営業時間情報なし',
+    'legend.categoryA': '総合病院',
+    'legend.categoryB': '病院 · 療養病院 · 歯科病院',
+    'legend.categoryC': 'クリニック · 歯科クリニック',
+    'legend.bedsAvailable': '病床に余裕あり (3床以上)',
+    'legend.bedsLimited': '病床わずか (1~2床)',
+    'legend.bedsFull': '病床なし / 満床',
+    'legend.bedsUnknown': '病床情報なし',
+
+    'beds.general': '一般',
+    'beds.pediatric': '小児',
+    'beds.isolation': '隔離',
+    'beds.updatedAt': '{time} 時点',
+    'beds.total': '全病床',
+    'beds.emergency': '救急外来',
+    'beds.inpatient': '入院病床',
+    'beds.icu': '集中治療室',
+    'beds.neonatalIcu': '新生児集中治療室',
+    'beds.operatingRoom': '手術室',
+
+    'cluster.emergencyTitle': 'この場所の救急外来',
+    'cluster.placesTitle': 'この場所の病院/薬局',
+
+    'sheet.holidayHours': '祝日の時間',
+    'sheet.favoriteAdd': 'お気に入りに追加',
+    'sheet.favoriteRemove': 'お気に入りを解除',
+    'sheet.nextNearest': '次に近い場所 {name}',
+    'sheet.erBeds': '救急外来の空き病床 · 24時間運営',
+    'sheet.capabilities': '重症患者の受け入れ可能',
+    'sheet.address': '住所',
+    'sheet.phone': '電話番号',
+    'sheet.todayHours': '本日の営業時間',
+    'sheet.visitDayHours': '受診日の営業時間',
+    'sheet.holidayApplied': ' ({name} · 祝日の時間を適用)',
+    'sheet.holidayClosed': '{name}のため休業です',
+    'sheet.todayHoliday': '本日は休業日です',
+    'sheet.distance': '距離',
+    'sheet.detailLoading': '詳細情報を読み込み中...',
+    'sheet.erPhone': '救急外来の電話',
+    'sheet.erCall': '救急外来に電話 {phone}',
+    'sheet.alerts': '営業通知',
+    'sheet.alertsLoading': '営業時間を読み込み中です。',
+    'sheet.alertsUnavailable': '曜日別の営業時間情報がないため、通知をオンにできません。',
+    'sheet.departments': '診療科',
+    'sheet.beds': '病床情報',
+    'sheet.intro': '施設紹介',
+    'sheet.viewDetail': '詳細を見る',
+
+    'schedule.title': '週間営業時間',
+    'schedule.hour': '{hour}時',
+    'schedule.today': ' (今日)',
+    'schedule.closed': '休業',
+    'schedule.allDay': '24時間',
+
+    'list.nearby': '周辺',
+    'list.favorites': 'お気に入り',
+    'list.showMap': '地図を見る',
+    'list.favoritesEmpty': '詳細画面の星を押してお気に入りに追加してみましょう。',
+    'list.empty': 'この地域に表示できる場所がありません。',
+    'list.emergency24h': '24時間救急外来',
+    'list.todayHours': '今日 {open} - {close}',
+    'list.todayClosed': '本日休業または情報なし',
+
+    'share.button': '共有',
+    'share.copied': 'リンクをコピーしました',
+    'share.prompt': '下のリンクをコピーして共有してください。',
+
+    'install.title': 'アプリとしてインストール',
+    'install.iosHint': 'ホーム画面に追加してアプリのように使えます',
+    'install.hint': 'ホーム画面からすぐに開けます',
+    'install.iosStep1': '1. 下の',
+    'install.iosStep1Share': '共有ボタンをタップ',
+    'install.iosStep2': '2.「ホーム画面に追加」を選択',
+    'install.button': 'インストール',
+
+    'error.fetchFailed': 'データの読み込みに失敗しました。',
+    'error.geolocationUnsupported': 'このブラウザは位置情報サービスに対応していません。',
+    'error.locationDenied': '位置情報の権限が拒否されました。',
+    'error.locationUnavailable': '位置情報を利用できません。',
+    'error.locationTimeout': '位置情報の取得がタイムアウトしました。',
+    'error.locationFailed': '位置情報を取得できません。',
+
+    'alerts.title': '営業通知の管理',
+    'alerts.description': '開店時の通知と終了30分前の通知を確認・管理します。',
+    'alerts.permissionTitle': '通知の権限',
+    'alerts.permission.granted': '通知は許可されています。',
+    'alerts.permission.default': '初めて通知をオンにするときに権限を求めます。',
+    'alerts.permission.denied': 'ブラウザの設定でこのサイトの通知がブロックされています。許可すると通知を受け取れます。',
+    'alerts.permission.unsupported': 'このブラウザは通知に対応していません。',
+    'alerts.delivery': '通知はサービスワーカーが動いているときだけ確認します。アプリを開いている間は1分ごとに確認しますが、アプリを閉じると定期バックグラウンド同期に対応した Chromium 系ブラウザでのみ時々確認するため、遅れたり届かなかったりすることがあります。',
+    'alerts.listTitle': '登録した通知',
+    'alerts.empty': '地図で病院や薬局を選んで「開店したら通知」または「終了30分前に通知」を押してください。',
+    'alerts.next': '次回 {time}',
+    'alerts.none': '1週間以内に通知する時刻なし',
+    'alerts.footnote': '通知はこの端末に保存された営業時間で計算するため、ブラウザが閉じていると遅れたり届かなかったりすることがあります。',
+
+    'place.notFound': '場所が見つかりません',
+    'place.viewOnMap': '地図で見る',
+    'place.mapAlt': '{name}の位置',
+    'place.todayClosed': '休業または情報なし',
+    'place.todayHoursShort': '今日 {open} - {close}',
+    'place.disclaimer': '公共データポータルの情報に基づいており、実際の営業時間と異なる場合があります。受診前に電話でご確認ください。',
+
+    'about.description': '아프면 바로가は近くの病院と薬局をリアルタイムで探せるサービスです。',
+    'about.whatTitle': '아프면 바로가とは?',
+    'about.whatBody': ' (「具合が悪いときすぐ行こう」) は、急に体調を崩したときに近くで今営業している病院や薬局をすばやく探せるサービスです。公共データを活用してリアルタイムの営業情報を提供し、診療科別の検索で必要な病院を簡単に見つけられます。',
+    'about.featuresTitle': '主な機能',
+    'about.feature1Title': 'リアルタイム営業情報',
+    'about.feature1Body': '現在時刻を基準に営業中の病院と薬局を区別して表示します。',
+    'about.feature2Title': '診療科別検索',
+    'about.feature2Body': '内科、外科、歯科など必要な診療科の病院だけを検索できます。',
+    'about.feature3Title': '位置情報による検索',
+    'about.feature3Body': '現在地から近い順に病院と薬局を表示します。',
+    'about.feature4Title': '詳細情報',
+    'about.feature4Body': '住所、電話番号、営業時間など必要な情報をひと目で確認できます。',
+    'about.sourcesTitle': 'データの出典',
+    'about.sourcesIntro': '本サービスは以下の公共データを活用して情報を提供しています:',
+    'about.source1': '公共データポータル - 全国の病院・医院情報',
+    'about.source2': '公共データポータル - 全国の薬局情報',
+    'about.source3': 'NAVER Cloud Platform - 地図サービス',
+    'about.contactTitle': 'お問い合わせ',
+    'about.contactBody': 'ご利用中のお問い合わせやエラーの報告は、下記のメールアドレスまでご連絡ください。',
+
+    'privacy.description': '아프면 바로가サービスのプライバシーポリシーです。',
+    'terms.description': '아프면 바로가サービスの利用規約です。',
+    'legal.lastUpdated': '最終更新日：2026年2月9日',
+    'legal.translationNotice': 'この翻訳は参考用です。韓国語の原文と異なる場合は、韓国語の原文が優先されます。',
+
+    'privacy.section1Title': '1. 個人情報の処理目的',
+    'privacy.section1Body': '아프면 바로가（以下「サービス」）は、次の目的のために個人情報を処理します。処理している個人情報は次の目的以外には利用せず、利用目的が変更される場合は、別途同意を得るなど必要な措置を講じます。',
+    'privacy.section1Item1': '位置情報に基づくサービスの提供（周辺の病院・薬局の検索）',
+    'privacy.section1Item2': 'サービス利用統計および分析',
+    'privacy.section1Item3': 'サービスの改善および新規サービスの開発',
+    'privacy.section2Title': '2. 収集する個人情報の項目',
+    'privacy.section2Body': '円滑なサービス提供のため、次の最小限の個人情報を収集します。',
+    'privacy.section2Item1Label': '位置情報',
+    'privacy.section2Item1Body': '周辺の病院・薬局を検索するための現在地（利用者が同意した場合のみ収集）',
+    'privacy.section2Item2Label': '端末情報',
+    'privacy.section2Item2Body': 'サービス最適化のための端末の種類、ブラウザ情報',
+    'privacy.section3Title': '3. 個人情報の保有および利用期間',
+    'privacy.section3Body': 'サービスは位置情報をサーバーに保存せず、検索リクエスト時にのみ一時的に使用します。サービス利用記録はサービス改善のために最大1年間保管した後、破棄します。',
+    'privacy.section4Title': '4. 個人情報の第三者提供',
+    'privacy.section4Body': 'サービスは原則として利用者の個人情報を第三者に提供しません。ただし、次の場合は例外とします。',
+    'privacy.section4Item1': '利用者が事前に同意した場合',
+    'privacy.section4Item2': '法令の規定に基づく場合、または捜査目的で法令に定められた手続きと方法に従って捜査機関から要求があった場合',
+    'privacy.section5Title': '5. クッキーの使用',
+    'privacy.section5Body': 'サービスは、利用者に個別のカスタマイズされたサービスを提供するためにクッキー（cookie）を使用することがあります。クッキーはウェブサイトの運営に使用されるサーバーが利用者のブラウザに送信する少量の情報で、利用者の端末に保存されます。',
+    'privacy.section6Title': '6. 個人情報保護責任者',
+    'privacy.section6Body': 'サービスは、個人情報の処理に関する業務を統括して責任を負い、個人情報の処理に関する利用者の苦情処理および被害救済などのため、次のとおり個人情報保護責任者を指定しています。',
+    'privacy.section6Officer': '個人情報保護責任者',
+    'privacy.section6Email': 'メール：{email}',
+    'privacy.section7Title': '7. プライバシーポリシーの変更',
+    'privacy.section7Body': '本プライバシーポリシーは施行日から適用され、法令および方針に基づく変更内容の追加、削除および訂正がある場合は、変更の施行7日前からお知らせを通じて告知します。',
+
+    'terms.article1Title': '第1条（目的）',
+    'terms.article1Body': '本規約は、아프면 바로가（以下「サービス」）が提供する位置情報に基づく病院・薬局検索サービスの利用条件および手続き、サービスと利用者の権利、義務および責任事項などを定めることを目的とします。',
+    'terms.article2Title': '第2条（定義）',
+    'terms.article2Item1Term': '「サービス」',
+    'terms.article2Item1Body': 'とは、利用者が現在地に基づいて周辺の病院および薬局の情報を検索し、確認できるウェブサービスをいいます。',
+    'terms.article2Item2Term': '「利用者」',
+    'terms.article2Item2Body': 'とは、サービスにアクセスし、本規約に従ってサービスを利用する者をいいます。',
+    'terms.article3Title': '第3条（規約の効力と変更）',
+    'terms.article3Item1': '本規約は、サービスを利用しようとするすべての利用者に対して効力を生じます。',
+    'terms.article3Item2': 'サービスは、必要な場合、関連法令に違反しない範囲で本規約を変更することができます。',
+    'terms.article3Item3': '規約を変更する場合、サービスは変更内容を施行日の7日前からサービスのお知らせを通じて告知します。',
+    'terms.article4Title': '第4条（サービスの提供）',
+    'terms.article4Intro': 'サービスは次のサービスを提供します：',
+    'terms.article4Item1': '位置情報に基づく周辺病院検索サービス',
+    'terms.article4Item2': '位置情報に基づく周辺薬局検索サービス',
+    'terms.article4Item3': '診療科別の病院検索サービス',
+    'terms.article4Item4': '病院・薬局の詳細情報提供サービス',
+    'terms.article4Item5': 'リアルタイムの営業状況提供サービス',
+    'terms.article5Title': '第5条（サービスの利用）',
+    'terms.article5Item1': 'サービスは会員登録なしで誰でも利用できます。',
+    'terms.article5Item2': 'サービス利用時に位置情報の使用に同意すると、より正確なサービスを受けられます。',
+    'terms.article5Item3': '位置情報の使用に同意しない場合でも、基本位置（ソウル）を基準にサービスを利用できます。',
+    'terms.article6Title': '第6条（サービスの変更および中断）',
+    'terms.article6Item1': 'サービスは、運営上、技術上の必要に応じて提供しているサービスを変更することができます。',
+    'terms.article6Item2': 'サービスは、次の各号に該当する場合、サービスの全部または一部を制限または中断することができます：',
+    'terms.article6Case1': 'サービス用設備の保守などの工事によりやむを得ない場合',
+    'terms.article6Case2': '電気通信事業法に定める基幹通信事業者が電気通信サービスを停止した場合',
+    'terms.article6Case3': '国家非常事態、天災地変その他の不可抗力的な事由がある場合',
+    'terms.article7Title': '第7条（免責事項）',
+    'terms.article7Item1': 'サービスで提供する病院・薬局情報は公共データに基づいており、実際の情報と異なる場合があります。',
+    'terms.article7Item2': 'サービスは、利用者がサービスに掲載した情報、資料、事実の信頼性、正確性などについて責任を負いません。',
+    'terms.article7Item3': 'サービスは、サービスを介して利用者同士または利用者と第三者との間で生じた紛争に介入する義務はなく、これによる損害を賠償する責任も負いません。',
+    'terms.article7Item4': '病院・薬局を訪問する前に、必ず該当機関に直接連絡して営業しているかご確認ください。',
+    'terms.article8Title': '第8条（著作権）',
+    'terms.article8Body': 'サービスが作成した著作物に関する著作権その他の知的財産権はサービスに帰属します。利用者は、サービスを利用して得た情報を、サービスの事前の承諾なく複製、送信、出版、配布、放送その他の方法により営利目的で利用し、または第三者に利用させてはなりません。',
+    'terms.article9Title': '第9条（準拠法および管轄裁判所）',
+    'terms.article9Body': '本規約の解釈およびサービスと利用者間の紛争については、大韓民国の法律を適用します。サービスと利用者間で生じた紛争に関する訴訟は、民事訴訟法上の管轄裁判所に提起します。',
+    'terms.effective': '本規約は2026年2月9日から施行します。',
+};
@@ -0,0 +1,336 @@
+/**
+ * 한국어 문구 (기준 언어, 다른 언어는 같은 키를 모두 채워야 함)
+ * - 진료과목/병원 종류 등 코드 이름은 types의 이름 매핑을 그대로 사용
+ */
+
+import {
+    DEPARTMENT_NAMES,
+    HOSPITAL_CATEGORY_NAMES,
+    OPEN_STATUS_NAMES,
+    PLACE_ALERT_NAMES,
+    PLACE_SORT_NAMES,
+    SEVERE_CONDITION_NAMES,
+} from '../types';
+
+/**
+ * 이름 매핑을 `${prefix}.${코드}` 키로 변환
+ */
+function withPrefix<P extends string, K extends string>(prefix: P, names: Record<K, string>): Record<`${P}.${K}`, string> {
+    return Object.fromEntries(
+        Object.entries(names).map(([key, name]) => [`${prefix}.${key}`, name])
+    ) as Record<`${P}.${K}`, string>;
+}
+
+export const ko = {
+    ...withPrefix('department', DEPARTMENT_NAMES),
+    ...withPrefix('category', HOSPITAL_CATEGORY_NAMES),
+    ...withPrefix('condition', SEVERE_CONDITION_NAMES),
+    ...withPrefix('status', OPEN_STATUS_NAMES),
+    ...withPrefix('sort', PLACE_SORT_NAMES),
+    ...withPrefix('alert', PLACE_ALERT_NAMES),
+
+    // 공통
+    'app.name': '아프면 바로가',
+    'app.tagline': '지금 바로 갈 수 있는 병원과 약국이에요',
+    'common.all': '전체',
+    'common.close': '닫기',
+    'common.backHome': '홈으로 돌아가기',
+    'common.loading': '불러오는 중...',
+    'common.noInfo': '정보 없음',
+    'common.call': '전화',
+    'common.delete': '삭제',
+    'common.sortBy': '정렬 기준',
+    'common.today': '오늘',
+    'common.tomorrow': '내일',
+    'common.hoursRange': '{open} - {close}',
+    'placeType.hospital': '병원',
+    'placeType.pharmacy': '약국',
+    'placeType.emergency': '응급실',
+    'language.label': '언어',
+
+    // 요일 (0:일 ~ 6:토, 7:공휴일)
+    'weekday.0': '일',
+    'weekday.1': '월',
+    'weekday.2': '화',
+    'weekday.3': '수',
+    'weekday.4': '목',
+    'weekday.5': '금',
+    'weekday.6': '토',
+    'weekday.7': '공휴일',
+    'weekday.full': '{day}요일',
+
+    // 영업 상태
+    'status.closesAt': '{time} 종료',
+    'status.opensAt': '{time} 시작',
+
+    // 헤더/메뉴
+    'menu.open': '메뉴',
+    'menu.alerts': '영업 알림 관리',
+    'menu.about': '서비스 소개',
+    'menu.privacy': '개인정보처리방침',
+    'menu.terms': '이용약관',
+    'header.allCategories': '모든 기관',
+    'header.more': '더보기',
+    'header.moreCount': '더보기 +{count}',
+
+    // 방문 시간
+    'visit.pick': '방문 시간 정하기',
+    'visit.basis': '{day} {time} 기준',
+    'visit.reset': '지금 기준으로',
+    'visit.tonight': '오늘 밤 10시',
+    'visit.sundayMorning': '일요일 오전 10시',
+
+    // 결과 옵션
+    'options.openNowOnly': '지금 영업중만',
+    'options.openAtVisitOnly': '방문 시간에 영업중만',
+
+    // 진료과목 선택
+    'departments.title': '진료과목 선택',
+    'departments.search': '진료과목 검색',
+    'departments.placeholder': '진료과목 검색 (예: 소아, 이비인후)',
+    'departments.empty': '일치하는 진료과목이 없습니다.',
+    'departments.reset': '초기화',
+    'departments.apply': '{count}개 과목 적용',
+    'departments.showAll': '전체 과목 보기',
+
+    // 이름/위치 검색
+    'search.placeholder': '병원·약국 이름, 주소, 역 이름으로 검색',
+    'search.label': '병원, 약국 이름 또는 위치 검색',
+    'search.recent': '최근 검색 위치',
+    'search.clearRecent': '전체 삭제',
+    'search.locations': '위치로 이동',
+    'search.places': '병원·약국',
+    'search.empty': '검색 결과가 없습니다.',
+    'search.failed': '검색에 실패했습니다.',
+
+    // 지도
+    'map.loading': '지도를 불러오는 중...',
+    'map.searching': '검색하고 있어요',
+    'map.foundEmergency': '응급실을 찾았어요',
+    'map.foundPlaces': '병원·약국을 찾았어요',
+    'map.noResults': '검색된 장소가 없어요',
+    'map.openNowCount': '지금 영업중 {count}곳',
+    'map.openAtVisitCount': '방문 시간에 영업 {count}곳',
+    'map.offline': '오프라인 · {time} 기준 데이터',
+    'map.truncated': '범위가 넓어 일부 지역만 표시 중 · 확대하면 모두 보여요',
+    'map.myLocation': '내 위치',
+    'map.list': '목록',
+    'map.refresh': '재검색',
+    'map.radiusSearch': '반경 검색',
+    'map.districtSearch': '지역 검색',
+
+    // 지도 범례
+    'legend.hospitalOpen': '병원 (영업중)',
+    'legend.pharmacyOpen': '약국 (영업중)',
+    'legend.open24h': '24시간 영업',
+    'legend.closingSoon': '곧 종료 (30분 이내)',
+    'legend.opensLater': '오늘 영업 전',
+    'legend.closed': '영업종료 / 휴일',
+    'legend.unknown': '영업시간 정보 없음',
+    'legend.categoryA': '종합병원',
+    'legend.categoryB': '병원 · 요양병원 · 치과병원',
+    'legend.categoryC': '의원 · 치과의원',
+    'legend.bedsAvailable': '병상 여유 (3개 이상)',
+    'legend.bedsLimited': '병상 부족 (1~2개)',
+    'legend.bedsFull': '병상 없음 / 포화',
+    'legend.bedsUnknown': '병상 정보 없음',
+
+    // 병상
+    'beds.general': '일반',
+    'beds.pediatric': '소아',
+    'beds.isolation': '격리',
+    'beds.updatedAt': '{time} 기준',
+    'beds.total': '전체 병상',
+    'beds.emergency': '응급실',
+    'beds.inpatient': '입원실',
+    'beds.icu': '중환자실',
+    'beds.neonatalIcu': '신생아중환자실',
+    'beds.operatingRoom': '수술실',
+
+    // 같은 위치 장소 목록
+    'cluster.emergencyTitle': '이 위치의 응급실',
+    'cluster.placesTitle': '이 위치의 병원/약국',
+
+    // 바텀시트
+    'sheet.holidayHours': '공휴일 시간',
+    'sheet.favoriteAdd': '즐겨찾기 추가',
+    'sheet.favoriteRemove': '즐겨찾기 해제',
+    'sheet.nextNearest': '다음 가까운 곳 {name}',
+    'sheet.erBeds': '응급실 가용병상 · 24시간 운영',
+    'sheet.capabilities': '중증질환 수용 가능',
+    'sheet.address': '주소',
+    'sheet.phone': '전화번호',
+    'sheet.todayHours': '오늘 운영시간',
+    'sheet.visitDayHours': '방문일 운영시간',
+    'sheet.holidayApplied': ' ({name} · 공휴일 시간 적용)',
+    'sheet.holidayClosed': '{name} 휴무입니다',
+    'sheet.todayHoliday': '오늘은 휴일입니다',
+    'sheet.distance': '거리',
+    'sheet.detailLoading': '상세 정보를 불러오는 중...',
+    'sheet.erPhone': '응급실 전화',
+    'sheet.erCall': '응급실 전화 {phone}',
+    'sheet.alerts': '영업 알림',
+    'sheet.alertsLoading': '운영시간을 불러오는 중이에요.',
+    'sheet.alertsUnavailable': '요일별 운영시간 정보가 없어 알림을 켤 수 없어요.',
+    'sheet.departments': '진료과목',
+    'sheet.beds': '병상 정보',
+    'sheet.intro': '기관 소개',
+    'sheet.viewDetail': '상세보기',
+
+    // 주간 운영시간
+    'schedule.title': '주간 운영시간',
+    'schedule.hour': '{hour}시',
+    'schedule.today': ' (오늘)',
+    'schedule.closed': '휴무',
+    'schedule.allDay': '24시간',
+
+    // 목록
+    'list.nearby': '주변',
+    'list.favorites': '즐겨찾기',
+    'list.showMap': '지도 보기',
+    'list.favoritesEmpty': '바텀시트의 별을 눌러 즐겨찾기를 추가해 보세요.',
+    'list.empty': '이 지역에 표시할 장소가 없어요.',
+    'list.emergency24h': '24시간 응급실',
+    'list.todayHours': '오늘 {open} - {close}',
+    'list.todayClosed': '오늘 휴무 또는 정보 없음',
+
+    // 공유
+    'share.button': '공유하기',
+    'share.copied': '링크를 복사했어요',
+    'share.prompt': '아래 링크를 복사해 공유해 주세요.',
+
+    // 앱 설치
+    'install.title': '앱으로 설치하기',
+    'install.iosHint': '홈 화면에 추가하여 앱처럼 사용하세요',
+    'install.hint': '홈 화면에서 바로 접근할 수 있어요',
+    'install.iosStep1': '1. 하단의',
+    'install.iosStep1Share': '공유 버튼 탭',
+    'install.iosStep2': '2. "홈 화면에 추가" 선택',
+    'install.button': '설치하기',
+
+    // 오류
+    'error.fetchFailed': '데이터를 불러오는데 실패했습니다.',
+    'error.geolocationUnsupported': '위치 서비스를 지원하지 않는 브라우저입니다.',
+    'error.locationDenied': '위치 권한이 거부되었습니다.',
+    'error.locationUnavailable': '위치 정보를 사용할 수 없습니다.',
+    'error.locationTimeout': '위치 요청 시간이 초과되었습니다.',
+    'error.locationFailed': '위치 정보를 가져올 수 없습니다.',
+
+    // 영업 알림 관리
+    'alerts.title': '영업 알림 관리',
+    'alerts.description': '문 열면 알림, 마감 30분 전 알림을 확인하고 관리합니다.',
+    'alerts.permissionTitle': '알림 권한',
+    'alerts.permission.granted': '알림이 허용되어 있어요.',
+    'alerts.permission.default': '알림을 처음 켤 때 권한을 요청해요.',
+    'alerts.permission.denied': '브라우저 설정에서 이 사이트의 알림이 차단되어 있어요. 허용해야 알림을 받을 수 있어요.',
+    'alerts.permission.unsupported': '이 브라우저는 알림을 지원하지 않아요.',
+    'alerts.delivery': '알림은 서비스 워커가 깨어 있을 때만 확인해요. 앱을 열어 둔 동안에는 1분마다 확인하고, 앱을 닫으면 백그라운드 주기 동기화를 지원하는 크롬 계열 브라우저에서만 가끔 확인하므로 제때 오지 않거나 아예 오지 않을 수 있어요.',
+    'alerts.listTitle': '등록한 알림',
+    'alerts.empty': '지도에서 병원이나 약국을 선택한 뒤 ‘문 열면 알림’ 또는 ‘마감 30분 전 알림’을 눌러 보세요.',
+    'alerts.next': '다음 {time}',
+    'alerts.none': '일주일 안에 알릴 시각 없음',
+    'alerts.footnote': '알림은 이 기기에 저장된 운영시간으로 계산하며, 브라우저가 꺼져 있으면 늦게 오거나 오지 않을 수 있어요.',
+
+    // 장소 공유 페이지
+    'place.notFound': '장소를 찾을 수 없어요',
+    'place.viewOnMap': '지도에서 보기',
+    'place.mapAlt': '{name} 위치',
+    'place.todayClosed': '휴무 또는 정보 없음',
+    'place.todayHoursShort': '오늘 {open} - {close}',
+    'place.disclaimer': '공공데이터포털 정보를 바탕으로 하며 실제 운영시간과 다를 수 있어요. 방문 전 전화로 확인해 주세요.',
+
+    // 서비스 소개
+    'about.description': '아프면 바로가는 내 주변 병원과 약국을 실시간으로 찾아주는 서비스입니다.',
+    'about.whatTitle': '아프면 바로가란?',
+    'about.whatBody': '는 갑자기 아플 때, 내 주변에서 지금 영업 중인 병원과 약국을 빠르게 찾을 수 있도록 도와주는 서비스입니다. 공공데이터를 활용하여 실시간 영업 정보를 제공하며, 진료과목별 검색 기능으로 필요한 병원을 쉽게 찾을 수 있습니다.',
+    'about.featuresTitle': '주요 기능',
+    'about.feature1Title': '실시간 영업 정보',
+    'about.feature1Body': '현재 시간 기준으로 영업 중인 병원과 약국을 구분하여 표시합니다.',
+    'about.feature2Title': '진료과목별 검색',
+    'about.feature2Body': '내과, 외과, 치과 등 원하는 진료과목의 병원만 검색할 수 있습니다.',
+    'about.feature3Title': '위치 기반 검색',
+    'about.feature3Body': '내 위치를 기준으로 가까운 순서대로 병원과 약국을 보여줍니다.',
+    'about.feature4Title': '상세 정보 제공',
+    'about.feature4Body': '병원 주소, 전화번호, 영업시간 등 필요한 정보를 한눈에 확인할 수 있습니다.',
+    'about.sourcesTitle': '데이터 출처',
+    'about.sourcesIntro': '본 서비스는 다음의 공공데이터를 활용하여 정보를 제공합니다:',
+    'about.source1': '공공데이터포털 - 전국 병·의원 정보',
+    'about.source2': '공공데이터포털 - 전국 약국 정보',
+    'about.source3': '네이버 클라우드 플랫폼 - 지도 서비스',
+    'about.contactTitle': '문의하기',
+    'about.contactBody': '서비스 이용 중 문의사항이나 오류 신고는 아래 이메일로 연락해 주세요.',
+
+    // 약관/방침 (번역본은 한국어 원문 우선)
+    'privacy.description': '아프면 바로가 서비스의 개인정보처리방침입니다.',
+    'terms.description': '아프면 바로가 서비스의 이용약관입니다.',
+    'legal.lastUpdated': '최종 수정일: 2026년 2월 9일',
+    'legal.translationNotice': '',
+
+    'privacy.section1Title': '1. 개인정보의 처리 목적',
+    'privacy.section1Body': '아프면 바로가(이하 "서비스")는 다음의 목적을 위하여 개인정보를 처리합니다. 처리하고 있는 개인정보는 다음의 목적 이외의 용도로는 이용되지 않으며, 이용 목적이 변경되는 경우에는 별도의 동의를 받는 등 필요한 조치를 이행할 예정입니다.',
+    'privacy.section1Item1': '위치 기반 서비스 제공 (주변 병원/약국 검색)',
+    'privacy.section1Item2': '서비스 이용 통계 및 분석',
+    'privacy.section1Item3': '서비스 개선 및 신규 서비스 개발',
+    'privacy.section2Title': '2. 수집하는 개인정보 항목',
+    'privacy.section2Body': '서비스는 원활한 서비스 제공을 위해 다음과 같은 최소한의 개인정보를 수집합니다.',
+    'privacy.section2Item1Label': '위치 정보',
+    'privacy.section2Item1Body': '주변 병원/약국 검색을 위한 현재 위치 (사용자 동의 시에만 수집)',
+    'privacy.section2Item2Label': '기기 정보',
+    'privacy.section2Item2Body': '서비스 최적화를 위한 기기 유형, 브라우저 정보',
+    'privacy.section3Title': '3. 개인정보의 보유 및 이용기간',
+    'privacy.section3Body': '서비스는 위치 정보를 서버에 저장하지 않으며, 검색 요청 시에만 일시적으로 사용됩니다. 서비스 이용 기록은 서비스 개선 목적으로 최대 1년간 보관 후 파기됩니다.',
+    'privacy.section4Title': '4. 개인정보의 제3자 제공',
+    'privacy.section4Body': '서비스는 원칙적으로 이용자의 개인정보를 제3자에게 제공하지 않습니다. 다만, 아래의 경우에는 예외로 합니다.',
+    'privacy.section4Item1': '이용자가 사전에 동의한 경우',
+    'privacy.section4Item2': '법령의 규정에 의거하거나, 수사 목적으로 법령에 정해진 절차와 방법에 따라 수사기관의 요구가 있는 경우',
+    'privacy.section5Title': '5. 쿠키의 사용',
+    'privacy.section5Body': '서비스는 이용자에게 개별적인 맞춤 서비스를 제공하기 위해 쿠키(cookie)를 사용할 수 있습니다. 쿠키는 웹사이트를 운영하는데 이용되는 서버가 이용자의 브라우저에게 보내는 소량의 정보이며, 이용자의 기기에 저장됩니다.',
+    'privacy.section6Title': '6. 개인정보 보호책임자',
+    'privacy.section6Body': '서비스는 개인정보 처리에 관한 업무를 총괄해서 책임지고, 개인정보 처리와 관련한 이용자의 불만처리 및 피해구제 등을 위하여 아래와 같이 개인정보 보호책임자를 지정하고 있습니다.',
+    'privacy.section6Officer': '개인정보 보호책임자',
+    'privacy.section6Email': '이메일: {email}',
+    'privacy.section7Title': '7. 개인정보처리방침의 변경',
+    'privacy.section7Body': '이 개인정보처리방침은 시행일로부터 적용되며, 법령 및 방침에 따른 변경내용의 추가, 삭제 및 정정이 있는 경우에는 변경사항의 시행 7일 전부터 공지사항을 통하여 고지할 것입니다.',
+
+    'terms.article1Title': '제1조 (목적)',
+    'terms.article1Body': '이 약관은 아프면 바로가(이하 "서비스")가 제공하는 위치 기반 병원/약국 검색 서비스의 이용 조건 및 절차, 서비스와 이용자의 권리, 의무 및 책임사항 등을 규정함을 목적으로 합니다.',
+    'terms.article2Title': '제2조 (정의)',
+    'terms.article2Item1Term': '"서비스"',
+    'terms.article2Item1Body': '란 이용자가 현재 위치를 기반으로 주변의 병원 및 약국 정보를 검색하고 확인할 수 있는 웹 서비스를 말합니다.',
+    'terms.article2Item2Term': '"이용자"',
+    'terms.article2Item2Body': '란 서비스에 접속하여 이 약관에 따라 서비스를 이용하는 자를 말합니다.',
+    'terms.article3Title': '제3조 (약관의 효력과 변경)',
+    'terms.article3Item1': '이 약관은 서비스를 이용하고자 하는 모든 이용자에 대하여 그 효력을 발생합니다.',
+    'terms.article3Item2': '서비스는 필요한 경우 관련 법령을 위배하지 않는 범위 내에서 이 약관을 변경할 수 있습니다.',
+    'terms.article3Item3': '약관이 변경되는 경우 서비스는 변경 사항을 시행일 7일 전부터 서비스 공지사항을 통해 공지합니다.',
+    'terms.article4Title': '제4조 (서비스의 제공)',
+    'terms.article4Intro': '서비스는 다음과 같은 서비스를 제공합니다:',
+    'terms.article4Item1': '위치 기반 주변 병원 검색 서비스',
+    'terms.article4Item2': '위치 기반 주변 약국 검색 서비스',
+    'terms.article4Item3': '진료과목별 병원 검색 서비스',
+    'terms.article4Item4': '병원/약국 상세 정보 제공 서비스',
+    'terms.article4Item5': '실시간 영업 상태 정보 제공 서비스',
+    'terms.article5Title': '제5조 (서비스 이용)',
+    'terms.article5Item1': '서비스는 별도의 회원가입 없이 누구나 이용할 수 있습니다.',
+    'terms.article5Item2': '서비스 이용 시 위치 정보 사용에 동의하면 더 정확한 서비스를 제공받을 수 있습니다.',
+    'terms.article5Item3': '위치 정보 사용에 동의하지 않는 경우에도 기본 위치(서울)를 기준으로 서비스를 이용할 수 있습니다.',
+    'terms.article6Title': '제6조 (서비스의 변경 및 중단)',
+    'terms.article6Item1': '서비스는 운영상, 기술상의 필요에 따라 제공하고 있는 서비스를 변경할 수 있습니다.',
+    'terms.article6Item2': '서비스는 다음 각 호에 해당하는 경우 서비스의 전부 또는 일부를 제한하거나 중단할 수 있습니다:',
+    'terms.article6Case1': '서비스용 설비의 보수 등 공사로 인한 부득이한 경우',
+    'terms.article6Case2': '전기통신사업법에 규정된 기간통신사업자가 전기통신서비스를 중지했을 경우',
+    'terms.article6Case3': '국가비상사태, 천재지변 기타 불가항력적 사유가 있는 경우',
+    'terms.article7Title': '제7조 (면책사항)',
+    'terms.article7Item1': '서비스에서 제공하는 병원/약국 정보는 공공데이터를 기반으로 하며, 실제 정보와 차이가 있을 수 있습니다.',
+    'terms.article7Item2': '서비스는 이용자가 서비스에 게재한 정보, 자료, 사실의 신뢰도, 정확성 등에 대해서는 책임을 지지 않습니다.',
+    'terms.article7Item3': '서비스는 이용자 상호간 또는 이용자와 제3자 간에 서비스를 매개로 발생한 분쟁에 대해 개입할 의무가 없으며, 이로 인한 손해를 배상할 책임도 없습니다.',
+    'terms.article7Item4': '병원/약국 방문 전 반드시 해당 기관에 직접 연락하여 영업 여부를 확인하시기 바랍니다.',
+    'terms.article8Title': '제8조 (저작권)',
+    'terms.article8Body': '서비스가 작성한 저작물에 대한 저작권 및 기타 지적재산권은 서비스에 귀속합니다. 이용자는 서비스를 이용함으로써 얻은 정보를 서비스의 사전 승낙 없이 복제, 송신, 출판, 배포, 방송 등 기타 방법에 의하여 영리 목적으로 이용하거나 제3자에게 이용하게 하여서는 안 됩니다.',
+    'terms.article9Title': '제9조 (준거법 및 관할법원)',
+    'terms.article9Body': '이 약관의 해석 및 서비스와 이용자 간의 분쟁에 대하여는 대한민국의 법을 적용합니다. 서비스와 이용자 간에 발생한 분쟁에 관한 소송은 민사소송법상의 관할법원에 제기합니다.',
+    'terms.effective': '본 약관은 2026년 2월 9일부터 시행됩니다.',
+};
+
+export type MessageKey = keyof typeof ko;
+export type Messages = Record<MessageKey, string>;
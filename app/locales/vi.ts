@@ -0,0 +1,347 @@
+/**
+ * 베트남어 문구
+ */
+
+import { Messages } from './ko';
+
+export const vi: Messages = {
+    'department.D001': 'Nội khoa',
+    'department.D002': 'Nhi khoa',
+    'department.D003': 'Thần kinh',
+    'department.D004': 'Tâm thần',
+    'department.D005': 'Da liễu',
+    'department.D006': 'Ngoại khoa',
+    'department.D007': 'Ngoại lồng ngực',
+    'department.D008': 'Chấn thương chỉnh hình',
+    'department.D009': 'Ngoại thần kinh',
+    'department.D010': 'Phẫu thuật thẩm mỹ',
+    'department.D011': 'Sản phụ khoa',
+    'department.D012': 'Mắt',
+    'department.D013': 'Tai mũi họng',
+    'department.D014': 'Tiết niệu',
+    'department.D015': 'Lao',
+    'department.D016': 'Chẩn đoán hình ảnh',
+    'department.D017': 'Xạ trị ung thư',
+    'department.D018': 'Gây mê và giảm đau',
+    'department.D019': 'Phục hồi chức năng',
+    'department.D020': 'Xét nghiệm',
+    'department.D021': 'Y học gia đình',
+    'department.D022': 'Giải phẫu bệnh',
+    'department.D023': 'Y học hạt nhân',
+    'department.D024': 'Cấp cứu',
+    'department.D025': 'Y học lao động',
+    'department.D026': 'Nha khoa',
+    'department.D027': 'Y học dự phòng',
+    'department.D028': 'Y học cổ truyền Hàn Quốc',
+    'department.D029': 'Khác',
+    'category.A': 'Bệnh viện đa khoa',
+    'category.B': 'Bệnh viện',
+    'category.C': 'Phòng khám',
+    'category.D': 'Bệnh viện điều dưỡng',
+    'category.M': 'Bệnh viện nha khoa',
+    'category.N': 'Phòng khám nha khoa',
+    'condition.brainHemorrhage': 'Phẫu thuật xuất huyết não',
+    'condition.strokeReperfusion': 'Tái thông nhồi máu não',
+    'condition.cardiacReperfusion': 'Tái thông nhồi máu cơ tim',
+    'condition.abdominalInjury': 'Phẫu thuật chấn thương bụng',
+    'condition.limbReplantation': 'Nối chi',
+    'condition.endoscopy': 'Nội soi cấp cứu',
+    'condition.dialysis': 'Lọc máu cấp cứu',
+    'condition.pretermDelivery': 'Sản phụ sinh non',
+    'condition.psychiatric': 'Bệnh nhân tâm thần',
+    'condition.newborn': 'Trẻ sơ sinh',
+    'condition.severeBurn': 'Bỏng nặng',
+    'condition.emergencyGatekeeper': 'Vận hành phòng cấp cứu',
+    'status.open': 'Đang mở cửa',
+    'status.open24h': 'Mở 24 giờ',
+    'status.closingSoon': 'Sắp đóng cửa',
+    'status.opensLater': 'Chưa mở cửa',
+    'status.closed': 'Đã đóng cửa',
+    'status.holiday': 'Ngày nghỉ',
+    'status.unknown': 'Không có thông tin',
+    'sort.distance': 'Gần nhất',
+    'sort.closes-latest': 'Mở muộn nhất',
+    'sort.name': 'Theo tên',
+    'alert.opening': 'Báo khi mở cửa',
+    'alert.closing': 'Báo 30 phút trước khi đóng cửa',
+
+    'app.name': '아프면 바로가',
+    'app.tagline': 'Bệnh viện và nhà thuốc bạn có thể đến ngay bây giờ',
+    'common.all': 'Tất cả',
+    'common.close': 'Đóng',
+    'common.backHome': 'Về trang chủ',
+    'common.loading': 'Đang tải...',
+    'common.noInfo': 'Không có thông tin',
+    'common.call': 'Gọi',
+    'common.delete': 'Xóa',
+    'common.sortBy': 'Sắp xếp',
+    'common.today': 'Hôm nay',
+    'common.tomorrow': 'Ngày mai',
+    'common.hoursRange': '{open} - {close}',
+    'placeType.hospital': 'Bệnh viện',
+    'placeType.pharmacy': 'Nhà thuốc',
+    'placeType.emergency': 'Cấp cứu',
+    'language.label': 'Ngôn ngữ',
+
+    'weekday.0': 'CN',
+    'weekday.1': 'T2',
+    'weekday.2': 'T3',
+    'weekday.3': 'T4',
+    'weekday.4': 'T5',
+    'weekday.5': 'T6',
+    'weekday.6': 'T7',
+    'weekday.7': 'Ngày lễ',
+    'weekday.full': '{day}',
+
+    'status.closesAt': 'Đóng cửa lúc {time}',
+    'status.opensAt': 'Mở cửa lúc {time}',
+
+    'menu.open': 'Menu',
+    'menu.alerts': 'Quản lý thông báo',
+    'menu.about': 'Giới thiệu',
+    'menu.privacy': 'Chính sách quyền riêng tư',
+    'menu.terms': 'Điều khoản sử dụng',
+    'header.allCategories': 'Tất cả cơ sở',
+    'header.more': 'Xem thêm',
+    'header.moreCount': 'Xem thêm +{count}',
+
+    'visit.pick': 'Chọn giờ đến khám',
+    'visit.basis': 'Theo {day} {time}',
+    'visit.reset': 'Về hiện tại',
+    'visit.tonight': '10 giờ tối nay',
+    'visit.sundayMorning': '10 giờ sáng Chủ nhật',
+
+    'options.openNowOnly': 'Chỉ nơi đang mở cửa',
+    'options.openAtVisitOnly': 'Chỉ nơi mở cửa lúc đến khám',
+
+    'departments.title': 'Chọn chuyên khoa',
+    'departments.search': 'Tìm chuyên khoa',
+    'departments.placeholder': 'Tìm chuyên khoa (vd: Nhi khoa, Tai mũi họng)',
+    'departments.empty': 'Không có chuyên khoa phù hợp.',
+    'departments.reset': 'Đặt lại',
+    'departments.apply': 'Áp dụng {count} chuyên khoa',
+    'departments.showAll': 'Xem tất cả chuyên khoa',
+
+    'search.placeholder': 'Tìm theo tên, địa chỉ hoặc nhà ga',
+    'search.label': 'Tìm bệnh viện, nhà thuốc hoặc địa điểm',
+    'search.recent': 'Địa điểm tìm gần đây',
+    'search.clearRecent': 'Xóa tất cả',
+    'search.locations': 'Đi đến địa điểm',
+    'search.places': 'Bệnh viện · Nhà thuốc',
+    'search.empty': 'Không có kết quả.',
+    'search.failed': 'Tìm kiếm thất bại.',
+
+    'map.loading': 'Đang tải bản đồ...',
+    'map.searching': 'Đang tìm kiếm',
+    'map.foundEmergency': 'Đã tìm thấy phòng cấp cứu',
+    'map.foundPlaces': 'Đã tìm thấy bệnh viện · nhà thuốc',
+    'map.noResults': 'Không tìm thấy địa điểm',
+    'map.openNowCount': '{count} nơi đang mở cửa',
+    'map.openAtVisitCount': '{count} nơi mở cửa lúc đến khám',
+    'map.offline': 'Ngoại tuyến · dữ liệu lúc {time}',
+    'map.truncated': 'Chỉ hiển thị một số khu vực · Phóng to để xem đầy đủ kết quả',
+    'map.myLocation': 'Vị trí của tôi',
+    'map.list': 'Danh sách',
+    'map.refresh': 'Tìm lại',
+    'map.radiusSearch': 'Theo bán kính',
+    'map.districtSearch': 'Theo khu vực',
+
+    'legend.hospitalOpen': 'Bệnh viện (đang mở)',
+    'legend.pharmacyOpen': 'Nhà thuốc (đang mở)',
+    'legend.open24h': 'Mở 24 giờ',
+    'legend.closingSoon': 'Sắp đóng cửa (trong 30 phút)',
+    'legend.opensLater': 'Hôm nay chưa mở cửa',
+    'legend.closed': 'Đã đóng cửa / ngày nghỉ',
+    'legend.unknown': 'Không có giờ mở cửa',
+    'legend.categoryA': 'Bệnh viện đa khoa',
+    'legend.categoryB': 'Bệnh viện · điều dưỡng · nha khoa',
+    'legend.categoryC': 'Phòng khám · phòng khám nha khoa',
+    'legend.bedsAvailable': 'Còn giường (từ 3)',
+    'legend.bedsLimited': 'Ít giường (1~2)',
+    'legend.bedsFull': 'Hết giường',
+    'legend.bedsUnknown': 'Không có thông tin giường',
+
+    'beds.general': 'Thường',
+    'beds.pediatric': 'Nhi',
+    'beds.isolation': 'Cách ly',
+    'beds.updatedAt': 'Lúc {time}',
+    'beds.total': 'Tổng số giường',
+    'beds.emergency': 'Cấp cứu',
+    'beds.inpatient': 'Nội trú',
+    'beds.icu': 'Hồi sức tích cực',
+    'beds.neonatalIcu': 'Hồi sức sơ sinh',
+    'beds.operatingRoom': 'Phòng mổ',
+
+    'cluster.emergencyTitle': 'Phòng cấp cứu tại vị trí này',
+    'cluster.placesTitle': 'Bệnh viện/nhà thuốc tại vị trí này',
+
+    'sheet.holidayHours': 'Giờ ngày lễ',
+    'sheet.favoriteAdd': 'Thêm vào yêu thích',
+    'sheet.favoriteRemove': 'Bỏ yêu thích',
+    'sheet.nextNearest': 'Gần tiếp theo: {name}',
+    'sheet.erBeds': 'Giường cấp cứu còn trống · hoạt động 24 giờ',
+    'sheet.capabilities': 'Có thể tiếp nhận',
+    'sheet.address': 'Địa chỉ',
+    'sheet.phone': 'Số điện thoại',
+    'sheet.todayHours': 'Giờ mở cửa hôm nay',
+    'sheet.visitDayHours': 'Giờ mở cửa ngày đến khám',
+    'sheet.holidayApplied': ' ({name} · áp dụng giờ ngày lễ)',
+    'sheet.holidayClosed': 'Nghỉ {name}',
+    'sheet.todayHoliday': 'Hôm nay nghỉ',
+    'sheet.distance': 'Khoảng cách',
+    'sheet.detailLoading': 'Đang tải thông tin chi tiết...',
+    'sheet.erPhone': 'Điện thoại cấp cứu',
+    'sheet.erCall': 'Gọi cấp cứu {phone}',
+    'sheet.alerts': 'Thông báo giờ mở cửa',
+    'sheet.alertsLoading': 'Đang tải giờ mở cửa.',
+    'sheet.alertsUnavailable': 'Không có giờ mở cửa theo ngày trong tuần nên không thể bật thông báo.',
+    'sheet.departments': 'Chuyên khoa',
+    'sheet.beds': 'Thông tin giường',
+    'sheet.intro': 'Giới thiệu cơ sở',
+    'sheet.viewDetail': 'Xem chi tiết',
+
+    'schedule.title': 'Giờ mở cửa trong tuần',
+    'schedule.hour': '{hour}h',
+    'schedule.today': ' (hôm nay)',
+    'schedule.closed': 'Nghỉ',
+    'schedule.allDay': '24 giờ',
+
+    'list.nearby': 'Xung quanh',
+    'list.favorites': 'Yêu thích',
+    'list.showMap': 'Xem bản đồ',
+    'list.favoritesEmpty': 'Nhấn vào ngôi sao ở thông tin địa điểm để thêm vào yêu thích.',
+    'list.empty': 'Không có địa điểm nào trong khu vực này.',
+    'list.emergency24h': 'Cấp cứu 24 giờ',
+    'list.todayHours': 'Hôm nay {open} - {close}',
+    'list.todayClosed': 'Hôm nay nghỉ hoặc không có thông tin',
+
+    'share.button': 'Chia sẻ',
+    'share.copied': 'Đã sao chép liên kết',
+    'share.prompt': 'Hãy sao chép liên kết bên dưới để chia sẻ.',
+
+    'install.title': 'Cài đặt ứng dụng',
+    'install.iosHint': 'Thêm vào màn hình chính để dùng như ứng dụng',
+    'install.hint': 'Mở ngay từ màn hình chính',
+    'install.iosStep1': '1. Nhấn',
+    'install.iosStep1Share': 'nút chia sẻ bên dưới',
+    'install.iosStep2': '2. Chọn "Thêm vào MH chính"',
+    'install.button': 'Cài đặt',
+
+    'error.fetchFailed': 'Không tải được dữ liệu.',
+    'error.geolocationUnsupported': 'Trình duyệt này không hỗ trợ dịch vụ vị trí.',
+    'error.locationDenied': 'Quyền truy cập vị trí đã bị từ chối.',
+    'error.locationUnavailable': 'Không thể sử dụng thông tin vị trí.',
+    'error.locationTimeout': 'Yêu cầu vị trí đã hết thời gian.',
+    'error.locationFailed': 'Không thể lấy thông tin vị trí.',
+
+    'alerts.title': 'Quản lý thông báo',
+    'alerts.description': 'Xem và quản lý thông báo khi mở cửa và 30 phút trước khi đóng cửa.',
+    'alerts.permissionTitle': 'Quyền thông báo',
+    'alerts.permission.granted': 'Đã cho phép thông báo.',
+    'alerts.permission.default': 'Chúng tôi sẽ xin quyền khi bạn bật thông báo lần đầu.',
+    'alerts.permission.denied': 'Thông báo của trang này đang bị chặn trong cài đặt trình duyệt. Hãy cho phép để nhận thông báo.',
+    'alerts.permission.unsupported': 'Trình duyệt này không hỗ trợ thông báo.',
+    'alerts.delivery': 'Thông báo chỉ được kiểm tra khi service worker đang chạy. Khi ứng dụng đang mở, thông báo được kiểm tra mỗi phút; khi ứng dụng đã đóng, chỉ thỉnh thoảng được kiểm tra và chỉ trên các trình duyệt nền Chromium hỗ trợ đồng bộ nền định kỳ, nên có thể đến muộn hoặc không đến.',
+    'alerts.listTitle': 'Thông báo đã đăng ký',
+    'alerts.empty': 'Chọn bệnh viện hoặc nhà thuốc trên bản đồ rồi nhấn ‘Báo khi mở cửa’ hoặc ‘Báo 30 phút trước khi đóng cửa’.',
+    'alerts.next': 'Lần tới {time}',
+    'alerts.none': 'Không có thông báo trong tuần tới',
+    'alerts.footnote': 'Thông báo được tính theo giờ mở cửa lưu trên thiết bị này và có thể đến muộn hoặc không đến khi trình duyệt đang tắt.',
+
+    'place.notFound': 'Không tìm thấy địa điểm',
+    'place.viewOnMap': 'Xem trên bản đồ',
+    'place.mapAlt': 'Vị trí của {name}',
+    'place.todayClosed': 'Nghỉ hoặc không có thông tin',
+    'place.todayHoursShort': 'Hôm nay {open} - {close}',
+    'place.disclaimer': 'Dựa trên thông tin từ Cổng dữ liệu công và có thể khác với giờ thực tế. Vui lòng gọi điện xác nhận trước khi đến.',
+
+    'about.description': '아프면 바로가 là dịch vụ tìm bệnh viện và nhà thuốc gần bạn theo thời gian thực.',
+    'about.whatTitle': '아프면 바로가 là gì?',
+    'about.whatBody': ' ("Ốm là đi ngay") giúp bạn nhanh chóng tìm bệnh viện và nhà thuốc gần đó đang mở cửa khi bạn đột nhiên bị ốm. Dịch vụ sử dụng dữ liệu công để cung cấp giờ mở cửa theo thời gian thực và cho phép tìm bệnh viện theo chuyên khoa.',
+    'about.featuresTitle': 'Tính năng chính',
+    'about.feature1Title': 'Giờ mở cửa theo thời gian thực',
+    'about.feature1Body': 'Hiển thị riêng các bệnh viện và nhà thuốc đang mở cửa tại thời điểm hiện tại.',
+    'about.feature2Title': 'Tìm theo chuyên khoa',
+    'about.feature2Body': 'Chỉ tìm các bệnh viện có chuyên khoa bạn cần như nội khoa, ngoại khoa, nha khoa.',
+    'about.feature3Title': 'Tìm theo vị trí',
+    'about.feature3Body': 'Hiển thị bệnh viện và nhà thuốc theo thứ tự gần vị trí của bạn nhất.',
+    'about.feature4Title': 'Thông tin chi tiết',
+    'about.feature4Body': 'Xem nhanh địa chỉ, số điện thoại và giờ mở cửa.',
+    'about.sourcesTitle': 'Nguồn dữ liệu',
+    'about.sourcesIntro': 'Dịch vụ sử dụng các dữ liệu công sau:',
+    'about.source1': 'Cổng dữ liệu công - thông tin bệnh viện, phòng khám toàn quốc',
+    'about.source2': 'Cổng dữ liệu công - thông tin nhà thuốc toàn quốc',
+    'about.source3': 'NAVER Cloud Platform - dịch vụ bản đồ',
+    'about.contactTitle': 'Liên hệ',
+    'about.contactBody': 'Nếu có thắc mắc hoặc muốn báo lỗi, vui lòng gửi email đến địa chỉ bên dưới.',
+
+    'privacy.description': 'Chính sách quyền riêng tư của dịch vụ 아프면 바로가.',
+    'terms.description': 'Điều khoản sử dụng của dịch vụ 아프면 바로가.',
+    'legal.lastUpdated': 'Cập nhật lần cuối: ngày 9 tháng 2 năm 2026',
+    'legal.translationNotice': 'Bản dịch này chỉ để tham khảo. Nếu có khác biệt với bản tiếng Hàn, bản tiếng Hàn được ưu tiên áp dụng.',
+
+    'privacy.section1Title': '1. Mục đích xử lý thông tin cá nhân',
+    'privacy.section1Body': '아프면 바로가 (sau đây gọi là "Dịch vụ") xử lý thông tin cá nhân cho các mục đích sau. Thông tin cá nhân không được sử dụng cho mục đích nào khác, và nếu mục đích thay đổi, chúng tôi sẽ thực hiện các biện pháp cần thiết như xin sự đồng ý riêng.',
+    'privacy.section1Item1': 'Cung cấp dịch vụ dựa trên vị trí (tìm bệnh viện/nhà thuốc gần đây)',
+    'privacy.section1Item2': 'Thống kê và phân tích việc sử dụng dịch vụ',
+    'privacy.section1Item3': 'Cải thiện Dịch vụ và phát triển dịch vụ mới',
+    'privacy.section2Title': '2. Các thông tin cá nhân được thu thập',
+    'privacy.section2Body': 'Để cung cấp Dịch vụ thuận lợi, chúng tôi chỉ thu thập những thông tin cá nhân tối thiểu sau.',
+    'privacy.section2Item1Label': 'Thông tin vị trí',
+    'privacy.section2Item1Body': 'vị trí hiện tại để tìm bệnh viện/nhà thuốc gần đây (chỉ thu thập khi người dùng đồng ý)',
+    'privacy.section2Item2Label': 'Thông tin thiết bị',
+    'privacy.section2Item2Body': 'loại thiết bị và thông tin trình duyệt để tối ưu hóa Dịch vụ',
+    'privacy.section3Title': '3. Thời gian lưu giữ và sử dụng',
+    'privacy.section3Body': 'Dịch vụ không lưu thông tin vị trí trên máy chủ; thông tin này chỉ được sử dụng tạm thời khi bạn gửi yêu cầu tìm kiếm. Nhật ký sử dụng dịch vụ được lưu tối đa 1 năm nhằm cải thiện Dịch vụ, sau đó sẽ bị hủy.',
+    'privacy.section4Title': '4. Cung cấp thông tin cá nhân cho bên thứ ba',
+    'privacy.section4Body': 'Về nguyên tắc, Dịch vụ không cung cấp thông tin cá nhân của người dùng cho bên thứ ba, trừ các trường hợp sau.',
+    'privacy.section4Item1': 'Khi người dùng đã đồng ý trước',
+    'privacy.section4Item2': 'Khi pháp luật quy định, hoặc khi cơ quan điều tra yêu cầu vì mục đích điều tra theo thủ tục và phương thức do pháp luật quy định',
+    'privacy.section5Title': '5. Sử dụng cookie',
+    'privacy.section5Body': 'Dịch vụ có thể sử dụng cookie để cung cấp dịch vụ phù hợp với từng người dùng. Cookie là một lượng nhỏ thông tin mà máy chủ vận hành trang web gửi đến trình duyệt của bạn và được lưu trên thiết bị của bạn.',
+    'privacy.section6Title': '6. Người phụ trách bảo vệ thông tin cá nhân',
+    'privacy.section6Body': 'Dịch vụ chỉ định người phụ trách bảo vệ thông tin cá nhân dưới đây, chịu trách nhiệm chung về việc xử lý thông tin cá nhân cũng như giải quyết khiếu nại và khắc phục thiệt hại của người dùng liên quan.',
+    'privacy.section6Officer': 'Người phụ trách bảo vệ thông tin cá nhân',
+    'privacy.section6Email': 'Email: {email}',
+    'privacy.section7Title': '7. Thay đổi chính sách',
+    'privacy.section7Body': 'Chính sách quyền riêng tư này áp dụng từ ngày có hiệu lực. Nếu có nội dung được bổ sung, xóa hoặc sửa đổi theo pháp luật hoặc chính sách, chúng tôi sẽ thông báo qua mục thông báo ít nhất 7 ngày trước khi thay đổi có hiệu lực.',
+
+    'terms.article1Title': 'Điều 1 (Mục đích)',
+    'terms.article1Body': 'Điều khoản này quy định điều kiện và thủ tục sử dụng dịch vụ tìm kiếm bệnh viện/nhà thuốc dựa trên vị trí do 아프면 바로가 (sau đây gọi là "Dịch vụ") cung cấp, cũng như quyền, nghĩa vụ và trách nhiệm của Dịch vụ và người dùng.',
+    'terms.article2Title': 'Điều 2 (Định nghĩa)',
+    'terms.article2Item1Term': '"Dịch vụ"',
+    'terms.article2Item1Body': ' là dịch vụ web cho phép người dùng tìm kiếm và xem thông tin bệnh viện, nhà thuốc gần đó dựa trên vị trí hiện tại.',
+    'terms.article2Item2Term': '"Người dùng"',
+    'terms.article2Item2Body': ' là người truy cập Dịch vụ và sử dụng Dịch vụ theo điều khoản này.',
+    'terms.article3Title': 'Điều 3 (Hiệu lực và sửa đổi điều khoản)',
+    'terms.article3Item1': 'Điều khoản này có hiệu lực đối với mọi người dùng muốn sử dụng Dịch vụ.',
+    'terms.article3Item2': 'Khi cần thiết, Dịch vụ có thể sửa đổi điều khoản này trong phạm vi không vi phạm pháp luật liên quan.',
+    'terms.article3Item3': 'Khi điều khoản được sửa đổi, Dịch vụ sẽ thông báo các thay đổi qua mục thông báo của Dịch vụ ít nhất 7 ngày trước ngày có hiệu lực.',
+    'terms.article4Title': 'Điều 4 (Cung cấp dịch vụ)',
+    'terms.article4Intro': 'Dịch vụ cung cấp các dịch vụ sau:',
+    'terms.article4Item1': 'Tìm bệnh viện gần đây dựa trên vị trí',
+    'terms.article4Item2': 'Tìm nhà thuốc gần đây dựa trên vị trí',
+    'terms.article4Item3': 'Tìm bệnh viện theo chuyên khoa',
+    'terms.article4Item4': 'Cung cấp thông tin chi tiết về bệnh viện/nhà thuốc',
+    'terms.article4Item5': 'Cung cấp tình trạng mở cửa theo thời gian thực',
+    'terms.article5Title': 'Điều 5 (Sử dụng dịch vụ)',
+    'terms.article5Item1': 'Bất kỳ ai cũng có thể sử dụng Dịch vụ mà không cần đăng ký thành viên.',
+    'terms.article5Item2': 'Nếu bạn đồng ý cho phép sử dụng thông tin vị trí khi dùng Dịch vụ, bạn sẽ nhận được kết quả chính xác hơn.',
+    'terms.article5Item3': 'Ngay cả khi không đồng ý sử dụng thông tin vị trí, bạn vẫn có thể sử dụng Dịch vụ dựa trên vị trí mặc định (Seoul).',
+    'terms.article6Title': 'Điều 6 (Thay đổi và tạm ngừng dịch vụ)',
+    'terms.article6Item1': 'Dịch vụ có thể thay đổi nội dung cung cấp vì lý do vận hành hoặc kỹ thuật.',
+    'terms.article6Item2': 'Dịch vụ có thể hạn chế hoặc tạm ngừng toàn bộ hoặc một phần Dịch vụ trong các trường hợp sau:',
+    'terms.article6Case1': 'Khi bất khả kháng do bảo trì hoặc thi công cơ sở hạ tầng của Dịch vụ',
+    'terms.article6Case2': 'Khi nhà mạng viễn thông cơ bản theo Luật Kinh doanh Viễn thông ngừng cung cấp dịch vụ viễn thông',
+    'terms.article6Case3': 'Khi xảy ra tình trạng khẩn cấp quốc gia, thiên tai hoặc sự kiện bất khả kháng khác',
+    'terms.article7Title': 'Điều 7 (Miễn trừ trách nhiệm)',
+    'terms.article7Item1': 'Thông tin bệnh viện/nhà thuốc trong Dịch vụ dựa trên dữ liệu công cộng và có thể khác với thực tế.',
+    'terms.article7Item2': 'Dịch vụ không chịu trách nhiệm về độ tin cậy hay độ chính xác của thông tin, tài liệu, dữ kiện do người dùng đăng tải.',
+    'terms.article7Item3': 'Dịch vụ không có nghĩa vụ can thiệp vào tranh chấp phát sinh thông qua Dịch vụ giữa những người dùng hoặc giữa người dùng với bên thứ ba, và không chịu trách nhiệm bồi thường thiệt hại phát sinh.',
+    'terms.article7Item4': 'Trước khi đến bệnh viện/nhà thuốc, hãy liên hệ trực tiếp với cơ sở đó để xác nhận họ có đang mở cửa.',
+    'terms.article8Title': 'Điều 8 (Bản quyền)',
+    'terms.article8Body': 'Bản quyền và các quyền sở hữu trí tuệ khác đối với tác phẩm do Dịch vụ tạo ra thuộc về Dịch vụ. Người dùng không được sử dụng thông tin thu được qua Dịch vụ vào mục đích thương mại bằng cách sao chép, truyền tải, xuất bản, phân phối, phát sóng hoặc các cách khác, hoặc để bên thứ ba sử dụng, khi chưa có sự chấp thuận trước của Dịch vụ.',
+    'terms.article9Title': 'Điều 9 (Luật áp dụng và tòa án có thẩm quyền)',
+    'terms.article9Body': 'Việc giải thích điều khoản này và các tranh chấp giữa Dịch vụ và người dùng được điều chỉnh bởi pháp luật Hàn Quốc. Các vụ kiện liên quan đến tranh chấp đó sẽ được nộp tại tòa án có thẩm quyền theo Luật Tố tụng Dân sự.',
+    'terms.effective': 'Điều khoản này có hiệu lực từ ngày 9 tháng 2 năm 2026.',
+};
@@ -0,0 +1,347 @@
+/**
+ * 중국어(간체) 문구
+ */
+
+import { Messages } from './ko';
+
+export const zh: Messages = {
+    'department.D001': '内科',
+    'department.D002': '儿科',
+    'department.D003': '神经内科',
+    'department.D004': '精神科',
+    'department.D005': '皮肤科',
+    'department.D006': '外科',
+    'department.D007': '胸外科',
+    'department.D008': '骨科',
+    'department.D009': '神经外科',
+    'department.D010': '整形外科',
+    'department.D011': '妇产科',
+    'department.D012': '眼科',
+    'department.D013': '耳鼻喉科',
+    'department.D014': '泌尿外科',
+    'department.D015': '结核科',
+    'department.D016': '放射科',
+    'department.D017': '放射肿瘤科',
+    'department.D018': '麻醉疼痛科',
+    'department.D019': '康复科',
+    'department.D020': '检验科',
+    'department.D021': '全科',
+    'department.D022': '病理科',
+    'department.D023': '核医学科',
+    'department.D024': '急诊科',
+    'department.D025': '职业环境医学科',
+    'department.D026': '牙科',
+    'department.D027': '预防医学科',
+    'department.D028': '韩医',
+    'department.D029': '其他',
+    'category.A': '综合医院',
+    'category.B': '医院',
+    'category.C': '诊所',
+    'category.D': '疗养医院',
+    'category.M': '牙科医院',
+    'category.N': '牙科诊所',
+    'condition.brainHemorrhage': '脑出血手术',
+    'condition.strokeReperfusion': '脑梗死再灌注',
+    'condition.cardiacReperfusion': '心肌梗死再灌注',
+    'condition.abdominalInjury': '腹部损伤手术',
+    'condition.limbReplantation': '断肢再植',
+    'condition.endoscopy': '急诊内镜',
+    'condition.dialysis': '急诊透析',
+    'condition.pretermDelivery': '早产孕妇',
+    'condition.psychiatric': '精神疾病患者',
+    'condition.newborn': '新生儿',
+    'condition.severeBurn': '重度烧伤',
+    'condition.emergencyGatekeeper': '急诊室运营',
+    'status.open': '营业中',
+    'status.open24h': '24小时营业',
+    'status.closingSoon': '即将关门',
+    'status.opensLater': '稍后营业',
+    'status.closed': '已关门',
+    'status.holiday': '休息日',
+    'status.unknown': '暂无信息',
+    'sort.distance': '距离最近',
+    'sort.closes-latest': '营业最晚',
+    'sort.name': '名称',
+    'alert.opening': '开门时提醒',
+    'alert.closing': '关门前30分钟提醒',
+
+    'app.name': '아프면 바로가',
+    'app.tagline': '现在就能去的医院和药店',
+    'common.all': '全部',
+    'common.close': '关闭',
+    'common.backHome': '返回首页',
+    'common.loading': '加载中...',
+    'common.noInfo': '暂无信息',
+    'common.call': '电话',
+    'common.delete': '删除',
+    'common.sortBy': '排序方式',
+    'common.today': '今天',
+    'common.tomorrow': '明天',
+    'common.hoursRange': '{open} - {close}',
+    'placeType.hospital': '医院',
+    'placeType.pharmacy': '药店',
+    'placeType.emergency': '急诊室',
+    'language.label': '语言',
+
+    'weekday.0': '周日',
+    'weekday.1': '周一',
+    'weekday.2': '周二',
+    'weekday.3': '周三',
+    'weekday.4': '周四',
+    'weekday.5': '周五',
+    'weekday.6': '周六',
+    'weekday.7': '节假日',
+    'weekday.full': '{day}',
+
+    'status.closesAt': '{time} 关门',
+    'status.opensAt': '{time} 开门',
+
+    'menu.open': '菜单',
+    'menu.alerts': '营业提醒管理',
+    'menu.about': '服务介绍',
+    'menu.privacy': '隐私政策',
+    'menu.terms': '使用条款',
+    'header.allCategories': '全部机构',
+    'header.more': '更多',
+    'header.moreCount': '更多 +{count}',
+
+    'visit.pick': '选择就诊时间',
+    'visit.basis': '按{day} {time}',
+    'visit.reset': '恢复为现在',
+    'visit.tonight': '今晚10点',
+    'visit.sundayMorning': '周日上午10点',
+
+    'options.openNowOnly': '仅显示营业中',
+    'options.openAtVisitOnly': '仅显示就诊时营业',
+
+    'departments.title': '选择科室',
+    'departments.search': '搜索科室',
+    'departments.placeholder': '搜索科室 (例: 儿科、耳鼻喉科)',
+    'departments.empty': '没有匹配的科室。',
+    'departments.reset': '重置',
+    'departments.apply': '应用 {count} 个科室',
+    'departments.showAll': '查看全部科室',
+
+    'search.placeholder': '按医院、药店名称、地址或车站搜索',
+    'search.label': '搜索医院、药店名称或位置',
+    'search.recent': '最近搜索位置',
+    'search.clearRecent': '全部删除',
+    'search.locations': '前往位置',
+    'search.places': '医院·药店',
+    'search.empty': '没有搜索结果。',
+    'search.failed': '搜索失败。',
+
+    'map.loading': '地图加载中...',
+    'map.searching': '正在搜索',
+    'map.foundEmergency': '已找到急诊室',
+    'map.foundPlaces': '已找到医院·药店',
+    'map.noResults': '没有找到地点',
+    'map.openNowCount': '营业中 {count} 家',
+    'map.openAtVisitCount': '就诊时营业 {count} 家',
+    'map.offline': '离线 · {time} 的数据',
+    'map.truncated': '范围过大，仅显示部分地区 · 放大可查看全部结果',
+    'map.myLocation': '我的位置',
+    'map.list': '列表',
+    'map.refresh': '重新搜索',
+    'map.radiusSearch': '半径搜索',
+    'map.districtSearch': '地区搜索',
+
+    'legend.hospitalOpen': '医院 (营业中)',
+    'legend.pharmacyOpen': '药店 (营业中)',
+    'legend.open24h': '24小时营业',
+    'legend.closingSoon': '即将关门 (30分钟内)',
+    'legend.opensLater': '今天尚未营业',
+    'legend.closed': '已关门 / 休息日',
+    'legend.unknown': '暂无营业时间信息',
+    'legend.categoryA': '综合医院',
+    'legend.categoryB': '医院 · 疗养医院 · 牙科医院',
+    'legend.categoryC': '诊所 · 牙科诊所',
+    'legend.bedsAvailable': '床位充足 (3张以上)',
+    'legend.bedsLimited': '床位紧张 (1~2张)',
+    'legend.bedsFull': '无床位 / 已满',
+    'legend.bedsUnknown': '暂无床位信息',
+
+    'beds.general': '普通',
+    'beds.pediatric': '儿童',
+    'beds.isolation': '隔离',
+    'beds.updatedAt': '{time} 更新',
+    'beds.total': '总床位',
+    'beds.emergency': '急诊室',
+    'beds.inpatient': '住院病房',
+    'beds.icu': '重症监护室',
+    'beds.neonatalIcu': '新生儿重症监护室',
+    'beds.operatingRoom': '手术室',
+
+    'cluster.emergencyTitle': '此位置的急诊室',
+    'cluster.placesTitle': '此位置的医院/药店',
+
+    'sheet.holidayHours': '节假日时间',
+    'sheet.favoriteAdd': '添加收藏',
+    'sheet.favoriteRemove': '取消收藏',
+    'sheet.nextNearest': '下一个最近: {name}',
+    'sheet.erBeds': '急诊室可用床位 · 24小时运营',
+    'sheet.capabilities': '可接收重症',
+    'sheet.address': '地址',
+    'sheet.phone': '电话号码',
+    'sheet.todayHours': '今日营业时间',
+    'sheet.visitDayHours': '就诊日营业时间',
+    'sheet.holidayApplied': ' ({name} · 按节假日时间)',
+    'sheet.holidayClosed': '{name} 休息',
+    'sheet.todayHoliday': '今天休息',
+    'sheet.distance': '距离',
+    'sheet.detailLoading': '正在加载详细信息...',
+    'sheet.erPhone': '急诊室电话',
+    'sheet.erCall': '急诊室电话 {phone}',
+    'sheet.alerts': '营业提醒',
+    'sheet.alertsLoading': '正在加载营业时间。',
+    'sheet.alertsUnavailable': '没有每周营业时间信息，无法开启提醒。',
+    'sheet.departments': '诊疗科室',
+    'sheet.beds': '床位信息',
+    'sheet.intro': '机构介绍',
+    'sheet.viewDetail': '查看详情',
+
+    'schedule.title': '每周营业时间',
+    'schedule.hour': '{hour}点',
+    'schedule.today': ' (今天)',
+    'schedule.closed': '休息',
+    'schedule.allDay': '24小时',
+
+    'list.nearby': '附近',
+    'list.favorites': '收藏',
+    'list.showMap': '查看地图',
+    'list.favoritesEmpty': '点击地点详情中的星标即可添加收藏。',
+    'list.empty': '该地区没有可显示的地点。',
+    'list.emergency24h': '24小时急诊室',
+    'list.todayHours': '今天 {open} - {close}',
+    'list.todayClosed': '今天休息或暂无信息',
+
+    'share.button': '分享',
+    'share.copied': '链接已复制',
+    'share.prompt': '请复制下面的链接进行分享。',
+
+    'install.title': '安装应用',
+    'install.iosHint': '添加到主屏幕，像应用一样使用',
+    'install.hint': '可从主屏幕直接打开',
+    'install.iosStep1': '1. 点击下方的',
+    'install.iosStep1Share': '分享按钮',
+    'install.iosStep2': '2. 选择"添加到主屏幕"',
+    'install.button': '安装',
+
+    'error.fetchFailed': '数据加载失败。',
+    'error.geolocationUnsupported': '此浏览器不支持定位服务。',
+    'error.locationDenied': '定位权限被拒绝。',
+    'error.locationUnavailable': '无法使用位置信息。',
+    'error.locationTimeout': '定位请求超时。',
+    'error.locationFailed': '无法获取位置信息。',
+
+    'alerts.title': '营业提醒管理',
+    'alerts.description': '查看和管理开门提醒和关门前30分钟提醒。',
+    'alerts.permissionTitle': '通知权限',
+    'alerts.permission.granted': '已允许通知。',
+    'alerts.permission.default': '首次开启提醒时会请求权限。',
+    'alerts.permission.denied': '浏览器设置中已阻止此网站的通知。允许后才能收到提醒。',
+    'alerts.permission.unsupported': '此浏览器不支持通知。',
+    'alerts.delivery': '只有在服务工作线程运行时才会检查提醒。应用打开时每分钟检查一次；应用关闭后，仅在支持后台定期同步的 Chromium 内核浏览器中偶尔检查，因此提醒可能延迟或完全收不到。',
+    'alerts.listTitle': '已设置的提醒',
+    'alerts.empty': '在地图上选择医院或药店后，点击“开门时提醒”或“关门前30分钟提醒”。',
+    'alerts.next': '下次 {time}',
+    'alerts.none': '一周内没有提醒时间',
+    'alerts.footnote': '提醒根据此设备保存的营业时间计算，浏览器关闭时可能延迟或收不到。',
+
+    'place.notFound': '找不到该地点',
+    'place.viewOnMap': '在地图上查看',
+    'place.mapAlt': '{name} 的位置',
+    'place.todayClosed': '休息或暂无信息',
+    'place.todayHoursShort': '今天 {open} - {close}',
+    'place.disclaimer': '基于公共数据门户的信息，可能与实际营业时间不同。就诊前请先电话确认。',
+
+    'about.description': '아프면 바로가 是实时查找附近医院和药店的服务。',
+    'about.whatTitle': '什么是 아프면 바로가?',
+    'about.whatBody': ' (意为“生病了马上去”) 帮助您在突然身体不适时，快速找到附近正在营业的医院和药店。本服务利用公共数据提供实时营业信息，并可按诊疗科室搜索所需的医院。',
+    'about.featuresTitle': '主要功能',
+    'about.feature1Title': '实时营业信息',
+    'about.feature1Body': '按当前时间区分显示正在营业的医院和药店。',
+    'about.feature2Title': '按科室搜索',
+    'about.feature2Body': '只搜索内科、外科、牙科等所需科室的医院。',
+    'about.feature3Title': '基于位置的搜索',
+    'about.feature3Body': '以您的位置为准，按距离由近到远显示医院和药店。',
+    'about.feature4Title': '详细信息',
+    'about.feature4Body': '地址、电话号码、营业时间等信息一目了然。',
+    'about.sourcesTitle': '数据来源',
+    'about.sourcesIntro': '本服务利用以下公共数据提供信息:',
+    'about.source1': '公共数据门户 - 全国医院·诊所信息',
+    'about.source2': '公共数据门户 - 全国药店信息',
+    'about.source3': 'NAVER Cloud Platform - 地图服务',
+    'about.contactTitle': '联系我们',
+    'about.contactBody': '如有使用问题或错误反馈，请发送邮件至以下地址。',
+
+    'privacy.description': '아프면 바로가 服务的隐私政策。',
+    'terms.description': '아프면 바로가 服务的使用条款。',
+    'legal.lastUpdated': '最后更新：2026年2月9日',
+    'legal.translationNotice': '本译文仅供参考，如与韩文原文不一致，以韩文原文为准。',
+
+    'privacy.section1Title': '1. 个人信息的处理目的',
+    'privacy.section1Body': '아프면 바로가（以下简称"服务"）为以下目的处理个人信息。所处理的个人信息不会用于以下目的之外的用途，如使用目的发生变更，将采取另行征得同意等必要措施。',
+    'privacy.section1Item1': '提供基于位置的服务（搜索附近的医院/药店）',
+    'privacy.section1Item2': '服务使用统计与分析',
+    'privacy.section1Item3': '改进服务及开发新服务',
+    'privacy.section2Title': '2. 收集的个人信息项目',
+    'privacy.section2Body': '为顺利提供服务，本服务仅收集以下最低限度的个人信息。',
+    'privacy.section2Item1Label': '位置信息',
+    'privacy.section2Item1Body': '用于搜索附近医院/药店的当前位置（仅在用户同意时收集）',
+    'privacy.section2Item2Label': '设备信息',
+    'privacy.section2Item2Body': '用于优化服务的设备类型、浏览器信息',
+    'privacy.section3Title': '3. 个人信息的保留及使用期限',
+    'privacy.section3Body': '本服务不会在服务器上保存位置信息，仅在搜索请求时临时使用。服务使用记录以改进服务为目的最多保存1年，之后予以销毁。',
+    'privacy.section4Title': '4. 向第三方提供个人信息',
+    'privacy.section4Body': '原则上，本服务不向第三方提供用户的个人信息，但以下情况除外。',
+    'privacy.section4Item1': '用户事先同意的情况',
+    'privacy.section4Item2': '依据法律规定，或侦查机关为侦查目的按照法律规定的程序和方法提出要求的情况',
+    'privacy.section5Title': '5. Cookie 的使用',
+    'privacy.section5Body': '本服务可能会使用 Cookie 为用户提供个性化服务。Cookie 是网站运营服务器发送给用户浏览器的少量信息，保存在用户的设备上。',
+    'privacy.section6Title': '6. 个人信息保护负责人',
+    'privacy.section6Body': '本服务指定以下个人信息保护负责人，全面负责个人信息处理相关事务，并处理与个人信息处理有关的用户投诉及损害救济等事宜。',
+    'privacy.section6Officer': '个人信息保护负责人',
+    'privacy.section6Email': '电子邮件：{email}',
+    'privacy.section7Title': '7. 隐私政策的变更',
+    'privacy.section7Body': '本隐私政策自施行之日起适用。如因法律法规及政策变化而有增加、删除或更正内容，将在变更施行前7日起通过公告予以告知。',
+
+    'terms.article1Title': '第1条（目的）',
+    'terms.article1Body': '本条款旨在规定아프면 바로가（以下简称"服务"）提供的基于位置的医院/药店搜索服务的使用条件及程序，以及服务与用户的权利、义务和责任等事项。',
+    'terms.article2Title': '第2条（定义）',
+    'terms.article2Item1Term': '"服务"',
+    'terms.article2Item1Body': '是指用户可以根据当前位置搜索并查看附近医院及药店信息的网络服务。',
+    'terms.article2Item2Term': '"用户"',
+    'terms.article2Item2Body': '是指访问本服务并依照本条款使用服务的人。',
+    'terms.article3Title': '第3条（条款的效力与变更）',
+    'terms.article3Item1': '本条款对所有希望使用本服务的用户生效。',
+    'terms.article3Item2': '必要时，本服务可在不违反相关法律法规的范围内变更本条款。',
+    'terms.article3Item3': '条款变更时，本服务将在施行日前7日起通过服务公告予以公告。',
+    'terms.article4Title': '第4条（服务的提供）',
+    'terms.article4Intro': '本服务提供以下服务：',
+    'terms.article4Item1': '基于位置的附近医院搜索服务',
+    'terms.article4Item2': '基于位置的附近药店搜索服务',
+    'terms.article4Item3': '按诊疗科目搜索医院服务',
+    'terms.article4Item4': '提供医院/药店详细信息服务',
+    'terms.article4Item5': '提供实时营业状态信息服务',
+    'terms.article5Title': '第5条（服务的使用）',
+    'terms.article5Item1': '任何人无需注册即可使用本服务。',
+    'terms.article5Item2': '使用服务时如同意使用位置信息，可获得更准确的服务。',
+    'terms.article5Item3': '即使不同意使用位置信息，也可以以默认位置（首尔）为基准使用服务。',
+    'terms.article6Title': '第6条（服务的变更及中断）',
+    'terms.article6Item1': '本服务可根据运营或技术上的需要变更所提供的服务。',
+    'terms.article6Item2': '在下列情况下，本服务可限制或中断全部或部分服务：',
+    'terms.article6Case1': '因服务设备维修等施工而不得已的情况',
+    'terms.article6Case2': '《电气通信事业法》规定的基础电信运营商中止电信服务的情况',
+    'terms.article6Case3': '发生国家紧急状态、自然灾害或其他不可抗力事由的情况',
+    'terms.article7Title': '第7条（免责事项）',
+    'terms.article7Item1': '本服务提供的医院/药店信息基于公共数据，可能与实际信息有所不同。',
+    'terms.article7Item2': '对于用户在本服务上发布的信息、资料、事实的可信度及准确性等，本服务不承担责任。',
+    'terms.article7Item3': '对于用户之间或用户与第三方之间以本服务为媒介发生的纠纷，本服务没有介入的义务，也不承担由此造成的损害赔偿责任。',
+    'terms.article7Item4': '前往医院/药店之前，请务必直接联系该机构确认是否营业。',
+    'terms.article8Title': '第8条（著作权）',
+    'terms.article8Body': '本服务创作的作品的著作权及其他知识产权归本服务所有。未经本服务事先同意，用户不得以复制、传送、出版、发行、广播等其他方式将通过本服务获得的信息用于营利目的，或让第三方使用。',
+    'terms.article9Title': '第9条（准据法及管辖法院）',
+    'terms.article9Body': '本条款的解释及服务与用户之间的纠纷适用大韩民国法律。服务与用户之间发生纠纷的诉讼，应向《民事诉讼法》规定的管辖法院提起。',
+    'terms.effective': '本条款自2026年2月9日起施行。',
+};
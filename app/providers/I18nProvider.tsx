@@ -0,0 +1,54 @@
+'use client';
+
+import {
+  createContext,
+  useContext,
+  useState,
+  ReactNode,
+  useCallback,
+  useMemo,
+} from 'react';
+import { Locale } from '../types';
+import { getTranslator, Translator } from '../locales';
+import { DEFAULT_LOCALE, LOCALE_COOKIE, LOCALE_COOKIE_MAX_AGE } from '../utils/locale';
+
+interface I18nContextType {
+  locale: Locale;
+  t: Translator;
+  setLocale: (locale: Locale) => void;
+}
+
+const I18nContext = createContext<I18nContextType>({
+  locale: DEFAULT_LOCALE,
+  t: getTranslator(DEFAULT_LOCALE),
+  setLocale: () => undefined,
+});
+
+export function useI18n() {
+  return useContext(I18nContext);
+}
+
+interface I18nProviderProps {
+  children: ReactNode;
+  initialLocale: Locale;
+}
+
+export function I18nProvider({ children, initialLocale }: I18nProviderProps) {
+  const [locale, setLocaleState] = useState(initialLocale);
+
+  // 선택 언어 저장 후 새로고침 (proxy.ts가 다른 언어 경로로 재작성해 레이아웃부터 다시 그림)
+  const setLocale = useCallback((next: Locale) => {
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${LOCALE_COOKIE_MAX_AGE}; samesite=lax`;
+    document.documentElement.lang = next;
+    setLocaleState(next);
+    window.location.reload();
+  }, []);
+
+  const value = useMemo(() => ({ locale, t: getTranslator(locale), setLocale }), [locale, setLocale]);
+
+  return (
+    <I18nContext.Provider value={value}>
+      {children}
+    </I18nContext.Provider>
+  );
+}
@@ -10,53 +10,131 @@ export interface MapBounds {
     ne: Location; // 북동쪽 (오른쪽 위)
 }
 
-// 장소 타입 (병원 또는 약국)
-export type PlaceType = 'hospital' | 'pharmacy';
+// 장소 타입 (병원, 약국 또는 응급실)
+export type PlaceType = 'hospital' | 'pharmacy' | 'emergency';
 
-// 필터 타입
-export type FilterType = 'all' | 'hospital' | 'pharmacy';
+// 필터 타입 ('emergency'는 응급실 모드 - 응급실만 별도 조회)
+export type FilterType = 'all' | 'hospital' | 'pharmacy' | 'emergency';
 
-// 진료과목 코드 (공공데이터 API CODE_MST D000 참조)
+// 검색 방식 ('district': 시/군/구 단위, 'radius': 현재 지도 중심 반경)
+export type SearchMode = 'district' | 'radius';
+
+// 주소 쿼리로 공유하는 지도 상태 (딥 링크, 뒤로 가기 복원)
+export interface MapUrlState {
+    center: Location | null;  // 없으면 내 위치
+    zoom: number | null;
+    filter: FilterType;
+    departments: MedicalDepartment[];
+    categories: HospitalCategory[];
+    placeId: string | null;   // 바텀시트로 열린 장소
+}
+
+// 바텀시트 스냅 단계 ('peek': 요약 카드, 'half': 상세 일부, 'full': 전체 화면)
+export type SheetSnap = 'peek' | 'half' | 'full';
+
+// 목록 정렬 기준 ('closes-latest': 영업 종료까지 남은 시간이 긴 순)
+export type PlaceSortKey = 'distance' | 'closes-latest' | 'name';
+
+// 정렬 기준 이름 매핑
+export const PLACE_SORT_NAMES: Record<PlaceSortKey, string> = {
+    distance: '가까운 순',
+    'closes-latest': '늦게까지 영업',
+    name: '이름순',
+};
+
+// 진료과목 코드 (공공데이터 API CODE_MST D000 참조, D001~D029)
 export type MedicalDepartment =
-    | 'all'      // 전체
-    | 'D001'     // 내과
-    | 'D002'     // 소아청소년과
-    | 'D003'     // 신경과
-    | 'D004'     // 정신건강의학과
-    | 'D005'     // 피부과
-    | 'D006'     // 외과
-    | 'D008'     // 정형외과
-    | 'D009'     // 신경외과
-    | 'D011'     // 산부인과
-    | 'D012'     // 안과
-    | 'D013'     // 이비인후과
-    | 'D014'     // 비뇨의학과
-    | 'D019'     // 재활의학과
-    | 'D021'     // 가정의학과
-    | 'D026';    // 치과
-
-// 진료과목 이름 매핑
+    | 'D001'    // 내과
+    | 'D002'    // 소아청소년과
+    | 'D003'    // 신경과
+    | 'D004'    // 정신건강의학과
+    | 'D005'    // 피부과
+    | 'D006'    // 외과
+    | 'D007'    // 흉부외과
+    | 'D008'    // 정형외과
+    | 'D009'    // 신경외과
+    | 'D010'    // 성형외과
+    | 'D011'    // 산부인과
+    | 'D012'    // 안과
+    | 'D013'    // 이비인후과
+    | 'D014'    // 비뇨의학과
+    | 'D015'    // 결핵과
+    | 'D016'    // 영상의학과
+    | 'D017'    // 방사선종양학과
+    | 'D018'    // 마취통증의학과
+    | 'D019'    // 재활의학과
+    | 'D020'    // 진단검사의학과
+    | 'D021'    // 가정의학과
+    | 'D022'    // 병리과
+    | 'D023'    // 핵의학과
+    | 'D024'    // 응급의학과
+    | 'D025'    // 직업환경의학과
+    | 'D026'    // 치과
+    | 'D027'    // 예방의학과
+    | 'D028'    // 한방
+    | 'D029';   // 기타
+
+// 진료과목 이름 매핑 (선택 목록 표시 순서)
 export const DEPARTMENT_NAMES: Record<MedicalDepartment, string> = {
-    'all': '전체',
     'D001': '내과',
     'D002': '소아청소년과',
     'D003': '신경과',
     'D004': '정신건강의학과',
     'D005': '피부과',
     'D006': '외과',
+    'D007': '흉부외과',
     'D008': '정형외과',
     'D009': '신경외과',
+    'D010': '성형외과',
     'D011': '산부인과',
     'D012': '안과',
     'D013': '이비인후과',
     'D014': '비뇨의학과',
+    'D015': '결핵과',
+    'D016': '영상의학과',
+    'D017': '방사선종양학과',
+    'D018': '마취통증의학과',
     'D019': '재활의학과',
+    'D020': '진단검사의학과',
     'D021': '가정의학과',
+    'D022': '병리과',
+    'D023': '핵의학과',
+    'D024': '응급의학과',
+    'D025': '직업환경의학과',
     'D026': '치과',
+    'D027': '예방의학과',
+    'D028': '한방',
+    'D029': '기타',
 };
 
 // 영업 상태 타입
-export type OpenStatus = 'open' | 'closed' | 'holiday';
+export type OpenStatus =
+    | 'open'         // 영업중
+    | 'open24h'      // 24시간 영업
+    | 'closingSoon'  // 곧 영업종료 (N분 이내)
+    | 'opensLater'   // 오늘 영업 시작 전
+    | 'closed'       // 영업종료
+    | 'holiday'      // 휴일
+    | 'unknown';     // 영업시간 정보 없음
+
+// 영업 상태 이름 매핑
+export const OPEN_STATUS_NAMES: Record<OpenStatus, string> = {
+    open: '영업중',
+    open24h: '24시간',
+    closingSoon: '곧 종료',
+    opensLater: '영업 전',
+    closed: '영업종료',
+    holiday: '휴일',
+    unknown: '정보 없음',
+};
+
+// 영업 상태 계산 결과
+export interface OpenStatusInfo {
+    isOpen: boolean;
+    openStatus: OpenStatus;
+    closesAt?: number; // 종료 시각 (분, 영업중일 때)
+    opensAt?: number;  // 영업 시작 시각 (분, opensLater일 때)
+}
 
 // 영업시간 정보 (표시용)
 export interface BusinessHours {
@@ -69,6 +147,114 @@ export interface BusinessTimeRaw {
     openMinutes: number | null;  // 시작 시간 (분 단위, 예: 9:00 = 540)
     closeMinutes: number | null; // 종료 시간 (분 단위, 예: 18:00 = 1080)
     isHoliday: boolean;          // 오늘 휴일 여부
+    holidayName?: string;        // 공휴일 이름 (공휴일 영업시간 적용 시)
+    prevCloseMinutes?: number | null; // 전날 영업이 자정을 넘겨 끝나는 시각 (없으면 null, 모르면 생략)
+}
+
+// 영업 구간 (분 단위, 종료 <= 시작이면 익일 종료)
+export interface TimeInterval {
+    openMinutes: number;
+    closeMinutes: number;
+}
+
+// 요일별 영업 구간 (주간 시간표/타임라인용)
+export interface DaySchedule {
+    day: number;                    // 0:일 ~ 6:토 (Date.getDay 기준), 7:공휴일
+    interval: TimeInterval | null;  // 영업시간 정보가 없으면 null (휴무)
+}
+
+// 병상 정보 (기본정보 조회 API, 값이 없으면 null)
+export interface BedCounts {
+    total: number | null;        // 병상수 (hpbdn)
+    emergency: number | null;    // 응급실 (hperyn)
+    inpatient: number | null;    // 입원실 (hpgryn)
+    icu: number | null;          // 일반중환자실 (hpicuyn)
+    neonatalIcu: number | null;  // 신생아중환자실 (hpnicuyn)
+    operatingRoom: number | null; // 수술실 (hpopyn)
+}
+
+// 병원 상세 정보 (병·의원별 기본정보 조회)
+export interface HospitalDetail {
+    hpid: string;
+    name: string;
+    address?: string;
+    phone?: string;
+    emergencyPhone?: string;     // 응급실 전화 (dutyTel3)
+    hasEmergencyRoom: boolean;   // 응급실 운영 여부 (dutyEryn)
+    departments: string[];       // 진료과목 (dgidIdName)
+    beds: BedCounts;
+    description?: string;        // 기관설명상세 (dutyInf)
+    weeklySchedule: DaySchedule[]; // 월~일 + 공휴일 영업 구간
+    capabilities: SevereCondition[]; // 중증질환 수용 가능 항목 (MKioskTy = Y)
+}
+
+// 병원 종류 (기관구분 CODE_MST H000, dutyDiv)
+export type HospitalCategory =
+    | 'A'   // 종합병원
+    | 'B'   // 병원
+    | 'C'   // 의원
+    | 'D'   // 요양병원
+    | 'M'   // 치과병원
+    | 'N';  // 치과의원
+
+// 병원 종류 이름 매핑
+export const HOSPITAL_CATEGORY_NAMES: Record<HospitalCategory, string> = {
+    A: '종합병원',
+    B: '병원',
+    C: '의원',
+    D: '요양병원',
+    M: '치과병원',
+    N: '치과의원',
+};
+
+// 중증질환 수용 가능 항목 (기본정보/중증질환자 수용가능정보의 MKioskTy1 ~ MKioskTy11, MKioskTy25)
+export type SevereCondition =
+    | 'brainHemorrhage'     // 뇌출혈수술 (MKioskTy1)
+    | 'strokeReperfusion'   // 뇌경색의 재관류 (MKioskTy2)
+    | 'cardiacReperfusion'  // 심근경색의 재관류 (MKioskTy3)
+    | 'abdominalInjury'     // 복부손상의 수술 (MKioskTy4)
+    | 'limbReplantation'    // 사지접합의 수술 (MKioskTy5)
+    | 'endoscopy'           // 응급내시경 (MKioskTy6)
+    | 'dialysis'            // 응급투석 (MKioskTy7)
+    | 'pretermDelivery'     // 조산산모 (MKioskTy8)
+    | 'psychiatric'         // 정신질환자 (MKioskTy9)
+    | 'newborn'             // 신생아 (MKioskTy10)
+    | 'severeBurn'          // 중증화상 (MKioskTy11)
+    | 'emergencyGatekeeper'; // 응급실 (Emergency gate keeper, MKioskTy25)
+
+// 중증질환 이름 매핑
+export const SEVERE_CONDITION_NAMES: Record<SevereCondition, string> = {
+    brainHemorrhage: '뇌출혈수술',
+    strokeReperfusion: '뇌경색 재관류',
+    cardiacReperfusion: '심근경색 재관류',
+    abdominalInjury: '복부손상수술',
+    limbReplantation: '사지접합수술',
+    endoscopy: '응급내시경',
+    dialysis: '응급투석',
+    pretermDelivery: '조산산모',
+    psychiatric: '정신질환자',
+    newborn: '신생아',
+    severeBurn: '중증화상',
+    emergencyGatekeeper: '응급실 운영',
+};
+
+// 응급실 실시간 가용병상 (값이 없으면 null, 0 이하면 포화)
+export interface EmergencyBeds {
+    general: number | null;    // 응급실 일반 병상 (hvec)
+    pediatric: number | null;  // 응급실 소아 병상 (hv28)
+    isolation: number | null;  // 응급실 격리 병상 (음압 hv29 + 일반 hv30)
+}
+
+// 응급실 가용 수준 (마커 색상용)
+export type BedAvailability = 'available' | 'limited' | 'full' | 'unknown';
+
+// 응급실 정보 (응급실 모드)
+export interface EmergencyInfo {
+    erPhone?: string;          // 응급실 전화 (dutyTel3)
+    level?: string;            // 응급의료기관 분류 (권역응급의료센터 등)
+    beds: EmergencyBeds;
+    capabilities: SevereCondition[]; // 중증질환 수용 가능 항목
+    updatedAt?: string;        // 가용병상 갱신 시각 (hvidate, YYYYMMDDHHmmss)
 }
 
 // 장소 정보
@@ -79,12 +265,69 @@ export interface Place {
     lat: number;
     lng: number;
     isOpen: boolean;
-    openStatus: OpenStatus; // 'open' | 'closed' | 'holiday'
+    openStatus: OpenStatus; // 서버 응답 시점의 영업 상태
     address?: string;
     phone?: string;
     distance?: number;
     category?: string;
+    categoryCode?: HospitalCategory; // 기관구분 코드 (병원만)
     departmentCode?: string; // 진료과목 코드 (병원만)
     todayHours?: BusinessHours | null;
     todayTimeRaw?: BusinessTimeRaw; // 실시간 계산용 원본 데이터
+    weeklySchedule?: DaySchedule[]; // 월~일 + 공휴일 영업 구간 (목록정보 조회 시)
+    detail?: HospitalDetail;       // 상세 정보 (병원 클릭 시 로드)
+    emergency?: EmergencyInfo;     // 응급실 정보 (응급실만)
+}
+
+// 거리순 이전/다음 장소 (바텀시트 좌우 스와이프 이동용)
+export interface PlaceNeighbors {
+    prev: Place | null;
+    next: Place | null;
+}
+
+// 장소 검색 결과 (서버 데이터 소스 공통)
+export interface PlaceSearchResult {
+    places: Place[];
+    cached: boolean; // 모든 데이터를 캐시에서 가져왔는지
 }
+
+// 주소/장소 검색 결과 (지도 이동용)
+export interface GeocodeResult {
+    name: string;     // 표시 이름 (검색어 또는 도로명 주소)
+    address: string;  // 도로명(없으면 지번) 주소
+    lat: number;
+    lng: number;
+}
+
+// 영업 알림 종류 (문 열 때 / 마감 30분 전)
+export type PlaceAlertKind = 'opening' | 'closing';
+
+// 알림 종류 이름 매핑
+export const PLACE_ALERT_NAMES: Record<PlaceAlertKind, string> = {
+    opening: '문 열면 알림',
+    closing: '마감 30분 전 알림',
+};
+
+// 장소 영업 알림 (서비스 워커가 알림 시각에 로컬 알림 표시)
+export interface PlaceAlert {
+    id: string;           // `${placeId}:${kind}`
+    placeId: string;
+    placeName: string;
+    kind: PlaceAlertKind;
+    weeklySchedule: DaySchedule[];
+    triggers: number[];   // 앞으로 알릴 시각 (epoch ms, 오름차순)
+    createdAt: number;
+    locale?: Locale;      // 알림 문구 언어 (없으면 한국어)
+}
+
+// 화면 언어 (외국인 주민용 다국어 지원)
+export type Locale = 'ko' | 'en' | 'zh' | 'ja' | 'vi';
+
+// 언어 이름 매핑 (언어 선택 목록, 각 언어로 표기)
+export const LOCALE_NAMES: Record<Locale, string> = {
+    ko: '한국어',
+    en: 'English',
+    zh: '中文',
+    ja: '日本語',
+    vi: 'Tiếng Việt',
+};
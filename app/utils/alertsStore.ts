@@ -0,0 +1,29 @@
+/**
+ * 영업 알림 저장소 (IndexedDB, `${장소 ID}:${알림 종류}` 기준)
+ * - 서비스 워커가 같은 스토어를 읽어 알림 시각이 지난 항목을 표시하고 지움
+ */
+
+import { PlaceAlert } from '../types';
+import { ALERTS_STORE, runRequest } from './localDatabase';
+
+/**
+ * 전체 알림 (등록한 순서)
+ */
+export async function loadAlerts(): Promise<PlaceAlert[]> {
+    const alerts = await runRequest<PlaceAlert[]>(ALERTS_STORE, 'readonly', (store) => store.getAll());
+    return alerts.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * 알림 등록 또는 알림 시각 갱신
+ */
+export async function saveAlert(alert: PlaceAlert): Promise<void> {
+    await runRequest(ALERTS_STORE, 'readwrite', (store) => store.put(alert));
+}
+
+/**
+ * 알림 삭제
+ */
+export async function removeAlert(id: string): Promise<void> {
+    await runRequest(ALERTS_STORE, 'readwrite', (store) => store.delete(id));
+}
@@ -156,13 +156,66 @@ export async function fetchWithPagination<T>(
 }
 
 /**
- * 중복 제거 (좌표 기준)
+ * 거리순 응답을 조건을 만족할 때까지 순차 조회 (반경 검색용)
+ * - isDone이 true를 반환하거나 마지막 페이지에 도달하면 중단
  */
-export function removeDuplicatesByCoords<T extends { lat: number; lng: number }>(
-    places: T[]
-): T[] {
-    return places.filter(
-        (place, index, self) =>
-            index === self.findIndex((p) => p.lat === place.lat && p.lng === place.lng)
-    );
+export async function fetchPagesUntil<T>(
+    initialUrl: string,
+    isDone: (pageItems: T[]) => boolean,
+    maxPages: number = 4
+): Promise<T[]> {
+    const allItems: T[] = [];
+
+    try {
+        for (let page = 1; page <= maxPages; page++) {
+            const pageUrl = initialUrl.replace('pageNo=1', `pageNo=${page}`);
+            const response = await fetchWithRetry(pageUrl);
+            if (!response.ok) break;
+
+            const { items, totalCount } = parseXmlResponse<T>(await response.text());
+            allItems.push(...items);
+
+            if (items.length === 0 || allItems.length >= totalCount || isDone(items)) {
+                break;
+            }
+        }
+    } catch (error) {
+        console.error('Sequential page fetch error:', error);
+    }
+
+    return allItems;
+}
+
+/**
+ * 동시 실행 수를 제한하여 비동기 작업 처리 (입력 순서대로 결과 반환)
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    task: (item: T) => Promise<R>
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let nextIndex = 0;
+
+    const worker = async () => {
+        while (nextIndex < items.length) {
+            const index = nextIndex++;
+            results[index] = await task(items[index]);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+}
+
+/**
+ * 중복 제거 (기관 ID 기준, 같은 건물의 여러 의원처럼 좌표가 같은 곳은 유지)
+ */
+export function removeDuplicatesById<T extends { id: string }>(places: T[]): T[] {
+    const seen = new Set<string>();
+    return places.filter((place) => {
+        if (seen.has(place.id)) return false;
+        seen.add(place.id);
+        return true;
+    });
 }
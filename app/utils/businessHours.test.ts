@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DaySchedule, Place, TimeInterval } from '../types';
+import { evaluatePlaceAt, getOpenStatusInfo, getTimeRawFromSchedule, HOLIDAY_DAY_INDEX } from './businessHours';
+import { calculateOpenStatus } from './realtimeStatus';
+import { fromKoreaTime } from './clock';
+
+// 한국 벽시계 시각 (2026-03-06은 금요일, 03-07은 토요일, 03-02는 대체공휴일)
+function kst(month: number, date: number, hours: number, minutes = 0): Date {
+    return new Date(2026, month - 1, date, hours, minutes);
+}
+
+// 요일별 영업 구간으로 주간 시간표 생성 (나머지 요일은 휴무)
+function schedule(intervals: Partial<Record<number, TimeInterval>>): DaySchedule[] {
+    return [1, 2, 3, 4, 5, 6, 0, HOLIDAY_DAY_INDEX].map((day) => ({ day, interval: intervals[day] ?? null }));
+}
+
+// 금요일 19:00 - 익일 02:00
+const FRIDAY_LATE_NIGHT = schedule({ 5: { openMinutes: 19 * 60, closeMinutes: 2 * 60 } });
+
+describe('getTimeRawFromSchedule', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('토요일 01:00에는 금요일 영업이 이어져 전날 종료 시각으로 영업중', () => {
+        vi.setSystemTime(fromKoreaTime(kst(3, 7, 1)));
+
+        const timeRaw = getTimeRawFromSchedule(FRIDAY_LATE_NIGHT);
+
+        expect(timeRaw).toMatchObject({ openMinutes: null, closeMinutes: null, isHoliday: true, prevCloseMinutes: 120 });
+        expect(calculateOpenStatus(timeRaw)).toEqual({ isOpen: true, openStatus: 'open', closesAt: 120 });
+    });
+
+    it('토요일 01:45에는 전날 영업 종료가 가까워 곧 종료', () => {
+        vi.setSystemTime(fromKoreaTime(kst(3, 7, 1, 45)));
+
+        expect(calculateOpenStatus(getTimeRawFromSchedule(FRIDAY_LATE_NIGHT))).toEqual({
+            isOpen: true,
+            openStatus: 'closingSoon',
+            closesAt: 120,
+        });
+    });
+
+    it('토요일 03:00에는 전날 영업이 끝나 영업하지 않음', () => {
+        vi.setSystemTime(fromKoreaTime(kst(3, 7, 3)));
+
+        expect(calculateOpenStatus(getTimeRawFromSchedule(FRIDAY_LATE_NIGHT))).toEqual({ isOpen: false, openStatus: 'holiday' });
+    });
+
+    it('금요일 23:00에는 오늘 구간으로 영업중', () => {
+        vi.setSystemTime(fromKoreaTime(kst(3, 6, 23)));
+
+        const timeRaw = getTimeRawFromSchedule(FRIDAY_LATE_NIGHT);
+
+        expect(timeRaw).toMatchObject({ openMinutes: 1140, closeMinutes: 120, isHoliday: false, prevCloseMinutes: null });
+        expect(calculateOpenStatus(timeRaw)).toEqual({ isOpen: true, openStatus: 'open', closesAt: 120 });
+    });
+
+    it('전날 영업 정보가 없으면 자정 이후에도 오늘 영업 전으로 판단', () => {
+        vi.setSystemTime(fromKoreaTime(kst(3, 7, 1)));
+        // 토요일 19:00 - 익일 02:00, 금요일은 휴무
+        const saturdayOnly = schedule({ 6: { openMinutes: 19 * 60, closeMinutes: 2 * 60 } });
+
+        const timeRaw = getTimeRawFromSchedule(saturdayOnly);
+
+        expect(timeRaw.prevCloseMinutes).toBeNull();
+        expect(calculateOpenStatus(timeRaw)).toEqual({ isOpen: false, openStatus: 'opensLater', opensAt: 1140 });
+    });
+
+    it('시간표가 비어 있으면 정보 없음', () => {
+        vi.setSystemTime(fromKoreaTime(kst(3, 7, 1)));
+
+        const timeRaw = getTimeRawFromSchedule(schedule({}));
+
+        expect(timeRaw).toMatchObject({ openMinutes: null, closeMinutes: null, isHoliday: false, prevCloseMinutes: null });
+        expect(calculateOpenStatus(timeRaw)).toEqual({ isOpen: false, openStatus: 'unknown' });
+    });
+
+    it('공휴일에는 공휴일 영업시간 적용', () => {
+        const timeRaw = getTimeRawFromSchedule(
+            schedule({ 1: { openMinutes: 540, closeMinutes: 1080 }, [HOLIDAY_DAY_INDEX]: { openMinutes: 600, closeMinutes: 780 } }),
+            kst(3, 2, 12)
+        );
+
+        expect(timeRaw).toMatchObject({ openMinutes: 600, closeMinutes: 780, isHoliday: false, holidayName: '대체공휴일(삼일절)' });
+    });
+});
+
+describe('getOpenStatusInfo', () => {
+    it('0000 - 2400 영업은 24시간 운영으로 표시', () => {
+        const hours = { dutyTime6s: '0000', dutyTime6c: '2400' };
+
+        expect(getOpenStatusInfo(hours, kst(3, 7, 23, 45))).toEqual({ isOpen: true, openStatus: 'open24h' });
+    });
+});
+
+describe('evaluatePlaceAt', () => {
+    // 평일 09:00 - 18:00, 일요일 10:00 - 13:00 (금요일에 조회한 오늘 영업시간 포함)
+    const clinic: Place = {
+        id: 'H1',
+        type: 'hospital',
+        name: '의원',
+        lat: 37.5,
+        lng: 127,
+        isOpen: true,
+        openStatus: 'open',
+        todayTimeRaw: { openMinutes: 540, closeMinutes: 1080, isHoliday: false, prevCloseMinutes: null },
+        weeklySchedule: schedule({
+            1: { openMinutes: 540, closeMinutes: 1080 },
+            5: { openMinutes: 540, closeMinutes: 1080 },
+            0: { openMinutes: 600, closeMinutes: 780 },
+        }),
+    };
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(fromKoreaTime(kst(3, 6, 12)));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('방문 예정 요일의 영업시간으로 계산', () => {
+        expect(evaluatePlaceAt(clinic, kst(3, 8, 9, 30))).toMatchObject({
+            isOpen: false,
+            openStatus: 'opensLater',
+            todayTimeRaw: { openMinutes: 600, closeMinutes: 780 },
+        });
+    });
+
+    it('주간 영업 구간이 없으면 오늘이 아닌 날은 정보 없음', () => {
+        const withoutSchedule = { ...clinic, weeklySchedule: undefined };
+
+        expect(evaluatePlaceAt(withoutSchedule, kst(3, 8, 11))).toMatchObject({ isOpen: false, openStatus: 'unknown' });
+        expect(evaluatePlaceAt(withoutSchedule, kst(3, 6, 11))).toMatchObject({ isOpen: true, openStatus: 'open' });
+    });
+
+    it('주간 영업 구간 없이 다른 날 받은 영업시간은 오늘 상태로 쓰지 않음', () => {
+        const withoutSchedule = { ...clinic, weeklySchedule: undefined };
+
+        expect(evaluatePlaceAt(withoutSchedule, kst(3, 6, 11), '2026-03-05')).toMatchObject({ isOpen: false, openStatus: 'unknown' });
+        expect(evaluatePlaceAt(clinic, kst(3, 6, 11), '2026-03-05')).toMatchObject({ isOpen: true, openStatus: 'open' });
+    });
+});
@@ -2,7 +2,17 @@
  * 영업시간 관련 공통 유틸리티
  */
 
-import { OpenStatus, BusinessTimeRaw } from '../types';
+import { OpenStatus, OpenStatusInfo, BusinessTimeRaw, BusinessHours, DaySchedule, Locale, Place } from '../types';
+import { getHolidayName, toDateKey } from './holidays';
+import { getOpenStatusAt } from './realtimeStatus';
+import { getKoreaNow, getMinutesOfDay } from './clock';
+import { DEFAULT_LOCALE, formatClockMinutes } from './locale';
+
+// 공휴일 영업시간 인덱스 (dutyTime8s/8c)
+export const HOLIDAY_DAY_INDEX = 7;
+
+// 주간 시간표 표시 순서 (월 ~ 일, 공휴일)
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0, HOLIDAY_DAY_INDEX];
 
 // 시간 정보를 담고 있는 아이템 타입
 export interface TimeFields {
@@ -42,9 +52,9 @@ export function timeToMinutes(timeStr: string | undefined | number): number | nu
 }
 
 /**
- * 시간 문자열을 읽기 좋은 형식으로 변환
+ * 시간 문자열을 읽기 좋은 형식으로 변환 (HHmm → 언어별 시각)
  */
-export function formatTime(timeStr: string | undefined | number): string {
+export function formatTime(timeStr: string | undefined | number, locale: Locale = DEFAULT_LOCALE): string {
     if (timeStr === undefined || timeStr === null) return '-';
 
     const str = String(timeStr).padStart(4, '0');
@@ -55,11 +65,14 @@ export function formatTime(timeStr: string | undefined | number): string {
 
     if (isNaN(hours) || isNaN(minutes)) return '-';
 
-    const period = hours >= 12 ? '오후' : '오전';
-    const displayHours = hours > 12 ? hours - 12 : hours === 0 ? 12 : hours;
-    const displayMinutes = minutes.toString().padStart(2, '0');
+    return formatClockMinutes(hours * 60 + minutes, locale);
+}
 
-    return `${period} ${displayHours}:${displayMinutes}`;
+/**
+ * 분 단위 시간을 읽기 좋은 형식으로 변환 (예: 540 → 오전 9:00)
+ */
+export function formatMinutes(minutes: number, locale: Locale = DEFAULT_LOCALE): string {
+    return formatClockMinutes(minutes, locale);
 }
 
 /**
@@ -74,10 +87,18 @@ function getDayTimes(item: TimeFields, dayOfWeek: number): { start?: string | nu
         4: { start: item.dutyTime4s, end: item.dutyTime4c }, // 목요일
         5: { start: item.dutyTime5s, end: item.dutyTime5c }, // 금요일
         6: { start: item.dutyTime6s, end: item.dutyTime6c }, // 토요일
+        7: { start: item.dutyTime8s, end: item.dutyTime8c }, // 공휴일
     };
     return timeMap[dayOfWeek] || {};
 }
 
+/**
+ * 영업시간 조회용 요일 인덱스 (공휴일이면 공휴일 영업시간 사용)
+ */
+export function getScheduleDayIndex(currentDate: Date = getKoreaNow()): number {
+    return getHolidayName(currentDate) ? HOLIDAY_DAY_INDEX : currentDate.getDay();
+}
+
 /**
  * 해당 요일에 영업시간 정보가 있는지 확인 (휴일 판별용)
  */
@@ -87,94 +108,24 @@ function hasTodayHours(item: TimeFields, dayOfWeek: number): boolean {
 }
 
 /**
- * 전체 영업시간 정보가 있는지 확인 (최소 하나의 요일이라도 시간 정보가 있는지)
+ * 현재 시간이 영업시간 내인지 확인
  */
-function hasAnyTimeInfo(item: TimeFields): boolean {
-    return !!(
-        item.dutyTime1s || item.dutyTime1c ||
-        item.dutyTime2s || item.dutyTime2c ||
-        item.dutyTime3s || item.dutyTime3c ||
-        item.dutyTime4s || item.dutyTime4c ||
-        item.dutyTime5s || item.dutyTime5c ||
-        item.dutyTime6s || item.dutyTime6c ||
-        item.dutyTime7s || item.dutyTime7c ||
-        item.dutyTime8s || item.dutyTime8c
-    );
+export function checkIsOpen(item: TimeFields, currentDate: Date = getKoreaNow()): boolean {
+    return getOpenStatusInfo(item, currentDate).isOpen;
 }
 
 /**
- * 현재 시간이 영업시간 내인지 확인
+ * 영업 상태 반환 (open/open24h/closingSoon/opensLater/closed/holiday/unknown)
  */
-export function checkIsOpen(item: TimeFields, currentDate: Date = new Date()): boolean {
-    const dayOfWeek = currentDate.getDay();
-    const { start: startTimeStr, end: endTimeStr } = getDayTimes(item, dayOfWeek);
-
-    // 영업시간 정보가 없으면 (해당 요일에 영업 안 함 = 휴일)
-    if (!startTimeStr || !endTimeStr) {
-        // 다른 요일에 시간 정보가 있다면 오늘은 휴일 = 영업종료
-        if (hasAnyTimeInfo(item)) {
-            return false;
-        }
-        // 아예 시간 정보가 없으면 알 수 없음 = 영업종료로 처리
-        return false;
-    }
-
-    const startMinutes = timeToMinutes(startTimeStr);
-    const endMinutes = timeToMinutes(endTimeStr);
-
-    if (startMinutes === null || endMinutes === null) {
-        return false;
-    }
-
-    const currentMinutes = currentDate.getHours() * 60 + currentDate.getMinutes();
-
-    // 24시간 운영 또는 익일 종료 처리
-    if (endMinutes <= startMinutes) {
-        return currentMinutes >= startMinutes || currentMinutes < endMinutes;
-    }
-
-    return currentMinutes >= startMinutes && currentMinutes < endMinutes;
+export function getOpenStatus(item: TimeFields, currentDate: Date = getKoreaNow()): OpenStatus {
+    return getOpenStatusInfo(item, currentDate).openStatus;
 }
 
 /**
- * 영업 상태 반환 (open/closed/holiday)
+ * 영업 상태 상세 (곧 종료 시각, 영업 시작 시각 포함)
  */
-export function getOpenStatus(item: TimeFields, currentDate: Date = new Date()): OpenStatus {
-    const dayOfWeek = currentDate.getDay();
-    const { start: startTimeStr, end: endTimeStr } = getDayTimes(item, dayOfWeek);
-
-    // 해당 요일에 영업시간 정보가 없는 경우
-    if (!startTimeStr || !endTimeStr) {
-        // 다른 요일에 시간 정보가 있다면 오늘은 휴일
-        if (hasAnyTimeInfo(item)) {
-            return 'holiday';
-        }
-        // 아예 시간 정보가 없으면 closed로 처리 (정보 없음)
-        return 'closed';
-    }
-
-    const startMinutes = timeToMinutes(startTimeStr);
-    const endMinutes = timeToMinutes(endTimeStr);
-
-    if (startMinutes === null || endMinutes === null) {
-        return 'closed';
-    }
-
-    const currentMinutes = currentDate.getHours() * 60 + currentDate.getMinutes();
-
-    // 24시간 운영 또는 익일 종료 처리
-    if (endMinutes <= startMinutes) {
-        if (currentMinutes >= startMinutes || currentMinutes < endMinutes) {
-            return 'open';
-        }
-        return 'closed';
-    }
-
-    if (currentMinutes >= startMinutes && currentMinutes < endMinutes) {
-        return 'open';
-    }
-
-    return 'closed';
+export function getOpenStatusInfo(item: TimeFields, currentDate: Date = getKoreaNow()): OpenStatusInfo {
+    return getOpenStatusAt(getTodayTimeRaw(item, currentDate), getMinutesOfDay(currentDate));
 }
 
 /**
@@ -182,9 +133,9 @@ export function getOpenStatus(item: TimeFields, currentDate: Date = new Date()):
  */
 export function getTodayBusinessHours(
     item: TimeFields,
-    currentDate: Date = new Date()
+    currentDate: Date = getKoreaNow()
 ): { open: string; close: string } | null {
-    const dayOfWeek = currentDate.getDay();
+    const dayOfWeek = getScheduleDayIndex(currentDate);
     const { start: startTimeStr, end: endTimeStr } = getDayTimes(item, dayOfWeek);
 
     if (!startTimeStr || !endTimeStr) {
@@ -202,23 +153,113 @@ export function getTodayBusinessHours(
  */
 export function getTodayTimeRaw(
     item: TimeFields,
-    currentDate: Date = new Date()
+    currentDate: Date = getKoreaNow()
 ): BusinessTimeRaw {
-    const dayOfWeek = currentDate.getDay();
-    const { start: startTimeStr, end: endTimeStr } = getDayTimes(item, dayOfWeek);
+    return getTimeRawFromSchedule(getWeeklySchedule(item), currentDate);
+}
+
+/**
+ * 위치정보 조회 API의 오늘 영업시간(startTime/endTime)을 원본 데이터로 변환
+ * - 전날 정보가 없으므로 prevCloseMinutes는 생략 (오늘 구간으로 근사)
+ */
+export function parseTodayTimeRaw(startTime?: string | number, endTime?: string | number): BusinessTimeRaw {
+    const openMinutes = startTime === '' ? null : timeToMinutes(startTime);
+    const closeMinutes = endTime === '' ? null : timeToMinutes(endTime);
+
+    // 영업시간 정보 없음 - 오늘 휴무
+    if (openMinutes === null || closeMinutes === null) {
+        return { openMinutes: null, closeMinutes: null, isHoliday: true };
+    }
+
+    return { openMinutes, closeMinutes, isHoliday: false };
+}
+
+/**
+ * 주간 영업 구간으로 특정 날짜의 영업시간 원본 데이터 계산 (공휴일, 전날 익일 영업 반영)
+ */
+export function getTimeRawFromSchedule(schedule: DaySchedule[], currentDate: Date = getKoreaNow()): BusinessTimeRaw {
+    const findInterval = (day: number) => schedule.find((d) => d.day === day)?.interval ?? null;
+
+    const yesterday = new Date(currentDate);
+    yesterday.setDate(yesterday.getDate() - 1);
+    const prevInterval = findInterval(getScheduleDayIndex(yesterday));
+    const todayInterval = findInterval(getScheduleDayIndex(currentDate));
+    const holidayName = getHolidayName(currentDate);
+
+    const extra = {
+        // 전날 영업이 자정을 넘겨 끝나는 경우 종료 시각 (24시간 운영은 오늘 구간에서 처리)
+        prevCloseMinutes: prevInterval && prevInterval.closeMinutes < prevInterval.openMinutes
+            ? prevInterval.closeMinutes
+            : null,
+        ...(holidayName && { holidayName }),
+    };
 
     // 해당 요일에 영업시간 정보가 없는 경우
-    if (!startTimeStr || !endTimeStr) {
-        // 다른 요일에 시간 정보가 있다면 오늘은 휴일
-        if (hasAnyTimeInfo(item)) {
-            return { openMinutes: null, closeMinutes: null, isHoliday: true };
-        }
-        // 아예 시간 정보가 없으면 정보 없음
-        return { openMinutes: null, closeMinutes: null, isHoliday: false };
+    if (!todayInterval) {
+        // 다른 요일에 시간 정보가 있다면 오늘은 휴일, 아예 없으면 정보 없음
+        const hasAnyInterval = schedule.some((d) => d.interval !== null);
+        return { openMinutes: null, closeMinutes: null, isHoliday: hasAnyInterval, ...extra };
     }
 
-    const openMinutes = timeToMinutes(startTimeStr);
-    const closeMinutes = timeToMinutes(endTimeStr);
+    return { ...todayInterval, isHoliday: false, ...extra };
+}
 
-    return { openMinutes, closeMinutes, isHoliday: false };
+// 응답 시점에 다시 계산하는 영업 상태 필드
+type StatusFields = Pick<Place, 'isOpen' | 'openStatus' | 'todayHours' | 'todayTimeRaw' | 'weeklySchedule'>;
+
+/**
+ * 현재(한국 시각) 기준으로 영업 상태 다시 계산 (캐시된 데이터도 항상 최신 상태로 응답)
+ * - 주간 영업 구간이 있으면 오늘 영업시간부터 다시 계산
+ */
+export function applyCurrentStatus<T extends StatusFields>(place: T, currentDate: Date = getKoreaNow()): T {
+    const todayTimeRaw = place.weeklySchedule
+        ? getTimeRawFromSchedule(place.weeklySchedule, currentDate)
+        : place.todayTimeRaw;
+    const todayHours: BusinessHours | null | undefined = place.weeklySchedule
+        ? (todayTimeRaw?.openMinutes != null && todayTimeRaw.closeMinutes != null
+            ? { open: formatMinutes(todayTimeRaw.openMinutes), close: formatMinutes(todayTimeRaw.closeMinutes) }
+            : null)
+        : place.todayHours;
+    const { isOpen, openStatus } = getOpenStatusAt(todayTimeRaw, getMinutesOfDay(currentDate));
+
+    return { ...place, isOpen, openStatus, todayTimeRaw, todayHours };
+}
+
+/**
+ * 지정 시각(한국 시각, 방문 예정 시각 등) 기준으로 영업 상태 재계산
+ * - 주간 영업 구간이 없는 장소(반경 검색 결과 등)는 영업시간을 받은 날(fetchedOn, 기본 오늘)이 아니면 상태를 알 수 없음
+ */
+export function evaluatePlaceAt(place: Place, date: Date, fetchedOn: string = toDateKey(getKoreaNow())): Place {
+    if (!place.weeklySchedule && place.type !== 'emergency' && toDateKey(date) !== fetchedOn) {
+        return { ...place, isOpen: false, openStatus: 'unknown', todayHours: null, todayTimeRaw: undefined };
+    }
+    return applyCurrentStatus(place, date);
+}
+
+/**
+ * 오늘 영업시간을 언어별 시각으로 표시 (원본 데이터가 없으면 서버에서 만든 한국어 표시 그대로)
+ */
+export function formatTodayHours(place: Pick<Place, 'todayHours' | 'todayTimeRaw'>, locale: Locale = DEFAULT_LOCALE): BusinessHours | null {
+    const raw = place.todayTimeRaw;
+    if (place.todayHours && raw?.openMinutes != null && raw.closeMinutes != null) {
+        return { open: formatMinutes(raw.openMinutes, locale), close: formatMinutes(raw.closeMinutes, locale) };
+    }
+    return place.todayHours ?? null;
+}
+
+/**
+ * 주간 영업 구간 목록 가져오기 (월 ~ 일, 공휴일 순, 분 단위)
+ */
+export function getWeeklySchedule(item: TimeFields): DaySchedule[] {
+    return WEEK_ORDER.map((day) => {
+        const { start, end } = getDayTimes(item, day);
+        const openMinutes = start ? timeToMinutes(start) : null;
+        const closeMinutes = end ? timeToMinutes(end) : null;
+
+        if (openMinutes === null || closeMinutes === null) {
+            return { day, interval: null };
+        }
+
+        return { day, interval: { openMinutes, closeMinutes } };
+    });
 }
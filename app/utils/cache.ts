@@ -73,7 +73,22 @@ export const hospitalListCache = new MemoryCache<unknown[]>(300, 50);
 // 약국 목록 캐시 (5분 TTL - API 할당량 절약)
 export const pharmacyListCache = new MemoryCache<unknown[]>(300, 50);
 
+// 응급실 목록 캐시 (1분 TTL - 실시간 가용병상 포함)
+export const emergencyListCache = new MemoryCache<unknown[]>(60, 50);
+
+// 역지오코딩 캐시 (1시간 TTL - 행정구역은 거의 바뀌지 않음)
+export const districtCache = new MemoryCache<unknown>(3600, 500);
+
+// 주소/장소 검색 캐시 (1시간 TTL)
+export const geocodeCache = new MemoryCache<unknown[]>(3600, 200);
+
 // 병원 상세 캐시 (5분 TTL)
 export const hospitalDetailCache = new MemoryCache<unknown>(300, 200);
 
+// 공유 페이지 장소 캐시 (5분 TTL - 링크 미리보기 반복 요청 대비)
+export const placeCache = new MemoryCache<unknown>(300, 200);
+
+// 공유 페이지 지도 이미지 캐시 (1일 TTL - 유료 정적 지도 API 호출 절약)
+export const staticMapCache = new MemoryCache<Blob>(86400, 100);
+
 export { MemoryCache };
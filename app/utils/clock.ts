@@ -0,0 +1,79 @@
+/**
+ * 한국 시간(Asia/Seoul) 기준 시계
+ * - 서버 시간대(대부분 UTC)와 무관하게 항상 한국 시각으로 계산
+ * - 반환하는 Date는 로컬 필드(getDay, getHours 등)가 한국 시각과 같도록 맞춘 값
+ * - 현재 시각 공급자는 테스트에서만 교체 (방문 예정 시각 등 다른 기준 시각은 호출하는 쪽에서 직접 전달)
+ */
+
+// 한국 표준시 오프셋 (UTC+9, 서머타임 없음)
+const KST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+// 현재 시각 공급자 (기본은 시스템 시계)
+const systemClock = (): Date => new Date();
+let clock: () => Date = systemClock;
+
+/**
+ * 현재 시각 공급자 교체 (테스트용)
+ */
+export function setClock(source: () => Date): void {
+    clock = source;
+}
+
+/**
+ * 시스템 시계로 되돌리기
+ */
+export function resetClock(): void {
+    clock = systemClock;
+}
+
+/**
+ * 현재 실제 시각
+ */
+export function getNow(): Date {
+    return clock();
+}
+
+/**
+ * 실제 시각을 한국 벽시계 시각으로 변환
+ */
+export function toKoreaTime(instant: Date): Date {
+    const kst = new Date(instant.getTime() + KST_OFFSET_MS);
+    return new Date(
+        kst.getUTCFullYear(),
+        kst.getUTCMonth(),
+        kst.getUTCDate(),
+        kst.getUTCHours(),
+        kst.getUTCMinutes(),
+        kst.getUTCSeconds()
+    );
+}
+
+/**
+ * 한국 벽시계 시각을 실제 시각으로 변환 (toKoreaTime의 역변환)
+ */
+export function fromKoreaTime(koreaTime: Date): Date {
+    return new Date(
+        Date.UTC(
+            koreaTime.getFullYear(),
+            koreaTime.getMonth(),
+            koreaTime.getDate(),
+            koreaTime.getHours(),
+            koreaTime.getMinutes(),
+            koreaTime.getSeconds()
+        ) - KST_OFFSET_MS
+    );
+}
+
+/**
+ * 현재 한국 시각
+ */
+export function getKoreaNow(): Date {
+    return toKoreaTime(getNow());
+}
+
+/**
+ * 하루 중 경과 시간 (분)
+ */
+export function getMinutesOfDay(date: Date): number {
+    return date.getHours() * 60 + date.getMinutes();
+}
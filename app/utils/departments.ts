@@ -0,0 +1,30 @@
+/**
+ * 진료과목 목록 유틸리티 (CODE_MST D000)
+ */
+
+import { Locale, MedicalDepartment, DEPARTMENT_NAMES } from '../types';
+import { translate } from '../locales';
+import { DEFAULT_LOCALE } from './locale';
+
+// 전체 진료과목 코드 (D001 ~ D029)
+export const DEPARTMENT_CODES = Object.keys(DEPARTMENT_NAMES) as MedicalDepartment[];
+
+/**
+ * 진료과목 코드 검증
+ */
+export function isMedicalDepartment(code: string): code is MedicalDepartment {
+    return Object.hasOwn(DEPARTMENT_NAMES, code);
+}
+
+/**
+ * 이름으로 진료과목 찾기 (한국어/선택 언어 이름, 공백·대소문자 무시, 빈 검색어는 전체)
+ */
+export function filterDepartments(query: string, locale: Locale = DEFAULT_LOCALE): MedicalDepartment[] {
+    const normalize = (text: string) => text.replace(/\s+/g, '').toLowerCase();
+    const normalized = normalize(query);
+    if (!normalized) return DEPARTMENT_CODES;
+    return DEPARTMENT_CODES.filter((code) =>
+        normalize(DEPARTMENT_NAMES[code]).includes(normalized)
+        || normalize(translate(locale, `department.${code}`)).includes(normalized)
+    );
+}
@@ -0,0 +1,96 @@
+/**
+ * 응급실 관련 공통 유틸리티
+ */
+
+import { BedAvailability, EmergencyBeds, Locale, SevereCondition } from '../types';
+import { translate } from '../locales';
+import { DEFAULT_LOCALE } from './locale';
+
+// 여유 병상 기준 (일반 병상이 이 값 이상이면 여유)
+const AVAILABLE_BED_THRESHOLD = 3;
+
+// MKioskTy 플래그 필드 (Y: 가능, N: 불가, 응답 명세에 있는 항목만 - MKioskTy12 ~ 24는 명세에 없음)
+export interface SevereConditionFields {
+    MKioskTy1?: string;
+    MKioskTy2?: string;
+    MKioskTy3?: string;
+    MKioskTy4?: string;
+    MKioskTy5?: string;
+    MKioskTy6?: string;
+    MKioskTy7?: string;
+    MKioskTy8?: string;
+    MKioskTy9?: string;
+    MKioskTy10?: string;
+    MKioskTy11?: string;
+    MKioskTy25?: string;
+}
+
+// 중증질환 항목별 MKioskTy 필드
+const SEVERE_CONDITION_FIELDS: Record<SevereCondition, keyof SevereConditionFields> = {
+    brainHemorrhage: 'MKioskTy1',
+    strokeReperfusion: 'MKioskTy2',
+    cardiacReperfusion: 'MKioskTy3',
+    abdominalInjury: 'MKioskTy4',
+    limbReplantation: 'MKioskTy5',
+    endoscopy: 'MKioskTy6',
+    dialysis: 'MKioskTy7',
+    pretermDelivery: 'MKioskTy8',
+    psychiatric: 'MKioskTy9',
+    newborn: 'MKioskTy10',
+    severeBurn: 'MKioskTy11',
+    emergencyGatekeeper: 'MKioskTy25',
+};
+
+// 중증질환 선택 목록 표시 순서
+export const SEVERE_CONDITIONS = Object.keys(SEVERE_CONDITION_FIELDS) as SevereCondition[];
+
+/**
+ * MKioskTy 플래그를 수용 가능 항목 목록으로 변환 (Y인 항목만)
+ */
+export function parseSevereConditions(item: SevereConditionFields): SevereCondition[] {
+    return SEVERE_CONDITIONS.filter(
+        (condition) => String(item[SEVERE_CONDITION_FIELDS[condition]] ?? '').trim().toUpperCase() === 'Y'
+    );
+}
+
+/**
+ * 선택한 중증질환을 모두 수용할 수 있는지 확인
+ */
+export function canTreatAll(capabilities: SevereCondition[] | undefined, conditions: SevereCondition[]): boolean {
+    if (conditions.length === 0) return true;
+    if (!capabilities) return false;
+    return conditions.every((condition) => capabilities.includes(condition));
+}
+
+/**
+ * 병상 수로 가용 수준 판단
+ */
+export function getCountAvailability(count: number | null): BedAvailability {
+    if (count === null) return 'unknown';
+    if (count <= 0) return 'full';
+    if (count < AVAILABLE_BED_THRESHOLD) return 'limited';
+    return 'available';
+}
+
+/**
+ * 응급실 일반 병상 수로 가용 수준 판단
+ */
+export function getBedAvailability(beds: EmergencyBeds | undefined): BedAvailability {
+    return beds ? getCountAvailability(beds.general) : 'unknown';
+}
+
+/**
+ * 병상 수 표시 (음수는 대기 환자가 있는 포화 상태)
+ */
+export function formatBedCount(count: number | null): string {
+    if (count === null) return '-';
+    return count <= 0 ? '0' : String(count);
+}
+
+/**
+ * 가용병상 갱신 시각(YYYYMMDDHHmmss)을 "HH:mm 기준"으로 변환 (언어별 문구)
+ */
+export function formatBedUpdatedAt(updatedAt: string | undefined, locale: Locale = DEFAULT_LOCALE): string | null {
+    if (!updatedAt || updatedAt.length < 12) return null;
+    return translate(locale, 'beds.updatedAt', { time: `${updatedAt.substring(8, 10)}:${updatedAt.substring(10, 12)}` });
+}
@@ -0,0 +1,48 @@
+/**
+ * 즐겨찾기 저장소 (IndexedDB, 장소 ID 기준)
+ * - 즐겨찾기한 시점의 장소 정보를 함께 저장해 조회 범위 밖에서도 지도에 표시
+ */
+
+import { Place } from '../types';
+import { getKoreaNow } from './clock';
+import { toDateKey } from './holidays';
+import { FAVORITES_STORE, runRequest } from './localDatabase';
+
+// 저장된 즐겨찾기 (추가 시각 포함)
+export interface FavoriteRecord {
+    id: string;
+    place: Place;
+    addedAt: number;
+    savedOn?: string; // 장소 정보를 저장한 날 (한국 날짜, 주간 영업 구간이 없으면 이날의 영업시간만 유효)
+}
+
+/**
+ * 상세 정보는 다시 불러오므로 저장하지 않음
+ */
+function toStoredPlace(place: Place): Place {
+    const stored = { ...place };
+    delete stored.detail;
+    return stored;
+}
+
+/**
+ * 전체 즐겨찾기 (추가한 순서)
+ */
+export async function loadFavorites(): Promise<FavoriteRecord[]> {
+    const records = await runRequest<FavoriteRecord[]>(FAVORITES_STORE, 'readonly', (store) => store.getAll());
+    return records.sort((a, b) => a.addedAt - b.addedAt);
+}
+
+/**
+ * 즐겨찾기 추가 또는 장소 정보 갱신 (추가 시각 유지)
+ */
+export async function saveFavorite(place: Place, addedAt: number = Date.now()): Promise<void> {
+    await runRequest(FAVORITES_STORE, 'readwrite', (store) => store.put({ id: place.id, place: toStoredPlace(place), addedAt, savedOn: toDateKey(getKoreaNow()) }));
+}
+
+/**
+ * 즐겨찾기 삭제
+ */
+export async function removeFavorite(id: string): Promise<void> {
+    await runRequest(FAVORITES_STORE, 'readwrite', (store) => store.delete(id));
+}
@@ -0,0 +1,117 @@
+/**
+ * 공휴일 달력 (설날/추석 등 음력 공휴일, 대체공휴일, 임시공휴일 포함)
+ * - 월력요항(우주항공청 고시) 기준으로 매년 갱신
+ * - 달력에 없는 연도는 공휴일을 알 수 없으므로 오류 로그를 남김 (연도 추가 필요)
+ */
+
+import { getKoreaNow } from './clock';
+
+// 날짜(YYYY-MM-DD)별 공휴일 이름
+const PUBLIC_HOLIDAYS: Record<string, string> = {
+    // 2025년
+    '2025-01-01': '신정',
+    '2025-01-27': '임시공휴일',
+    '2025-01-28': '설날 연휴',
+    '2025-01-29': '설날',
+    '2025-01-30': '설날 연휴',
+    '2025-03-01': '삼일절',
+    '2025-03-03': '대체공휴일(삼일절)',
+    '2025-05-05': '어린이날·부처님오신날',
+    '2025-05-06': '대체공휴일(어린이날·부처님오신날)',
+    '2025-06-03': '대통령선거일',
+    '2025-06-06': '현충일',
+    '2025-08-15': '광복절',
+    '2025-10-03': '개천절',
+    '2025-10-05': '추석 연휴',
+    '2025-10-06': '추석',
+    '2025-10-07': '추석 연휴',
+    '2025-10-08': '대체공휴일(추석)',
+    '2025-10-09': '한글날',
+    '2025-12-25': '성탄절',
+
+    // 2026년
+    '2026-01-01': '신정',
+    '2026-02-16': '설날 연휴',
+    '2026-02-17': '설날',
+    '2026-02-18': '설날 연휴',
+    '2026-03-01': '삼일절',
+    '2026-03-02': '대체공휴일(삼일절)',
+    '2026-05-05': '어린이날',
+    '2026-05-24': '부처님오신날',
+    '2026-05-25': '대체공휴일(부처님오신날)',
+    '2026-06-03': '전국동시지방선거일',
+    '2026-06-06': '현충일',
+    '2026-08-15': '광복절',
+    '2026-08-17': '대체공휴일(광복절)',
+    '2026-09-24': '추석 연휴',
+    '2026-09-25': '추석',
+    '2026-09-26': '추석 연휴',
+    '2026-10-03': '개천절',
+    '2026-10-05': '대체공휴일(개천절)',
+    '2026-10-09': '한글날',
+    '2026-12-25': '성탄절',
+
+    // 2027년
+    '2027-01-01': '신정',
+    '2027-02-06': '설날 연휴',
+    '2027-02-07': '설날',
+    '2027-02-08': '설날 연휴',
+    '2027-02-09': '대체공휴일(설날)',
+    '2027-03-01': '삼일절',
+    '2027-05-05': '어린이날',
+    '2027-05-13': '부처님오신날',
+    '2027-06-06': '현충일',
+    '2027-08-15': '광복절',
+    '2027-08-16': '대체공휴일(광복절)',
+    '2027-09-14': '추석 연휴',
+    '2027-09-15': '추석',
+    '2027-09-16': '추석 연휴',
+    '2027-10-03': '개천절',
+    '2027-10-04': '대체공휴일(개천절)',
+    '2027-10-09': '한글날',
+    '2027-10-11': '대체공휴일(한글날)',
+    '2027-12-25': '성탄절',
+    '2027-12-27': '대체공휴일(성탄절)',
+};
+
+// 달력에 포함된 연도
+const COVERED_YEARS = new Set(Object.keys(PUBLIC_HOLIDAYS).map((key) => Number(key.slice(0, 4))));
+
+// 이미 오류를 알린 연도 (같은 로그 반복 방지)
+const reportedYears = new Set<number>();
+
+/**
+ * 공휴일 달력에 해당 연도가 있는지 확인
+ */
+export function hasHolidayCalendar(year: number): boolean {
+    return COVERED_YEARS.has(year);
+}
+
+/**
+ * 날짜를 YYYY-MM-DD 키로 변환
+ */
+export function toDateKey(date: Date): string {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+}
+
+/**
+ * 공휴일 이름 반환 (공휴일이 아니면 null)
+ */
+export function getHolidayName(date: Date = getKoreaNow()): string | null {
+    const year = date.getFullYear();
+    if (!hasHolidayCalendar(year) && !reportedYears.has(year)) {
+        reportedYears.add(year);
+        console.error(`공휴일 달력에 ${year}년 정보가 없어 공휴일을 평일로 계산합니다. app/utils/holidays.ts에 추가해 주세요.`);
+    }
+    return PUBLIC_HOLIDAYS[toDateKey(date)] ?? null;
+}
+
+/**
+ * 공휴일 여부 확인
+ */
+export function isPublicHoliday(date: Date = getKoreaNow()): boolean {
+    return getHolidayName(date) !== null;
+}
@@ -0,0 +1,15 @@
+/**
+ * 병원 종류 유틸리티 (CODE_MST H000)
+ */
+
+import { HospitalCategory, HOSPITAL_CATEGORY_NAMES } from '../types';
+
+// 전체 병원 종류 코드 (필터 표시 순서)
+export const HOSPITAL_CATEGORY_CODES = Object.keys(HOSPITAL_CATEGORY_NAMES) as HospitalCategory[];
+
+/**
+ * 병원 종류 코드 검증
+ */
+export function isHospitalCategory(code: string): code is HospitalCategory {
+    return Object.hasOwn(HOSPITAL_CATEGORY_NAMES, code);
+}
@@ -0,0 +1,118 @@
+/**
+ * 병·의원 기본정보 조회 서버 유틸리티 (기관ID 기반, 상세 정보/공유 페이지 공용)
+ */
+
+import { HospitalDetail } from '../types';
+import { fetchWithRetry, parseXmlResponse } from './apiUtils';
+import { getWeeklySchedule, TimeFields } from './businessHours';
+import { parseSevereConditions, SevereConditionFields } from './emergency';
+
+const SERVICE_KEY = process.env.DATA_GO_KR_SERVICE_KEY || '';
+
+// 병·의원별 기본정보 조회 API (기관ID 기반)
+const HOSPITAL_DETAIL_API = 'http://apis.data.go.kr/B552657/HsptlAsembySearchService/getHsptlBassInfoInqire';
+
+// API 응답 타입 (기본정보 조회)
+export interface HospitalDetailApiItem extends TimeFields, SevereConditionFields {
+    hpid?: string;
+    dutyName?: string;
+    dutyDiv?: string;             // 기관구분 코드
+    dutyDivName?: string;
+    wgs84Lat?: number | string;
+    wgs84Lon?: number | string;
+    dutyAddr?: string;
+    dutyTel1?: string;
+    dutyTel3?: string;            // 응급실 전화
+    dutyEryn?: string | number;   // 응급실 운영여부 (1: 운영)
+    dutyInf?: string;             // 기관설명상세
+    dgidIdName?: string;          // 진료과목 (쉼표 구분)
+    hpbdn?: string | number;      // 병상수
+    hperyn?: string | number;     // 응급실
+    hpgryn?: string | number;     // 입원실
+    hpicuyn?: string | number;    // 일반중환자실
+    hpnicuyn?: string | number;   // 신생아중환자실
+    hpopyn?: string | number;     // 수술실
+}
+
+/**
+ * 숫자 필드 파싱 (값이 없거나 숫자가 아니면 null)
+ */
+function parseCount(value: string | number | undefined): number | null {
+    if (value === undefined || value === null || value === '') return null;
+
+    const count = typeof value === 'number' ? value : parseInt(value, 10);
+    return isNaN(count) ? null : count;
+}
+
+/**
+ * 진료과목 문자열을 배열로 변환 (예: "내과,소아청소년과")
+ */
+function parseDepartments(value: string | undefined): string[] {
+    if (!value) return [];
+
+    return String(value)
+        .split(',')
+        .map((name) => name.trim())
+        .filter((name) => name.length > 0);
+}
+
+/**
+ * 공백/"-" 값은 없는 것으로 처리
+ */
+function parseText(value: string | undefined): string | undefined {
+    if (value === undefined || value === null) return undefined;
+
+    const text = String(value).trim();
+    return text && text !== '-' ? text : undefined;
+}
+
+/**
+ * 기본정보 응답을 상세 정보로 변환
+ */
+export function mapItemToDetail(item: HospitalDetailApiItem, hpid: string): HospitalDetail {
+    return {
+        hpid: item.hpid || hpid,
+        name: item.dutyName || '이름 없음',
+        address: parseText(item.dutyAddr),
+        phone: parseText(item.dutyTel1),
+        emergencyPhone: parseText(item.dutyTel3),
+        hasEmergencyRoom: String(item.dutyEryn) === '1',
+        departments: parseDepartments(item.dgidIdName),
+        beds: {
+            total: parseCount(item.hpbdn),
+            emergency: parseCount(item.hperyn),
+            inpatient: parseCount(item.hpgryn),
+            icu: parseCount(item.hpicuyn),
+            neonatalIcu: parseCount(item.hpnicuyn),
+            operatingRoom: parseCount(item.hpopyn),
+        },
+        description: parseText(item.dutyInf),
+        weeklySchedule: getWeeklySchedule(item),
+        capabilities: parseSevereConditions(item),
+    };
+}
+
+/**
+ * 기관ID로 병원 기본정보 조회
+ */
+export async function fetchHospitalDetail(hpid: string): Promise<HospitalDetailApiItem | null> {
+    if (!SERVICE_KEY) {
+        console.error('공공데이터 API 서비스 키가 설정되지 않았습니다.');
+        return null;
+    }
+
+    const url = new URL(HOSPITAL_DETAIL_API);
+    url.searchParams.set('HPID', hpid);
+    url.searchParams.set('pageNo', '1');
+    url.searchParams.set('numOfRows', '1');
+
+    // 서비스 키는 이미 인코딩되어 있으므로 수동으로 붙임
+    const response = await fetchWithRetry(`${url.toString()}&ServiceKey=${SERVICE_KEY}`);
+    if (!response.ok) {
+        console.error('병원 상세 API 호출 실패:', response.status);
+        return null;
+    }
+
+    const { items } = parseXmlResponse<HospitalDetailApiItem>(await response.text());
+    return items[0] || null;
+}
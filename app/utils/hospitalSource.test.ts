@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { Place } from '../types';
+import { applyCurrentStatus, HOLIDAY_DAY_INDEX } from './businessHours';
+import { hospitalListCache } from './cache';
+import { fromKoreaTime, resetClock, setClock } from './clock';
+import { searchHospitalsInDistricts } from './hospitalSource';
+
+// 한국 벽시계 시각을 현재 시각으로 설정 (2026-03-06은 금요일)
+function setKoreaNow(hours: number): void {
+    setClock(() => fromKoreaTime(new Date(2026, 2, 6, hours)));
+}
+
+// 평일 09:00 - 18:00 의원
+const WEEKDAY_CLINIC: Place = {
+    id: 'A1100001',
+    type: 'hospital',
+    name: '바로가의원',
+    lat: 37.5,
+    lng: 127.03,
+    isOpen: false,
+    openStatus: 'unknown',
+    weeklySchedule: [1, 2, 3, 4, 5, 6, 0, HOLIDAY_DAY_INDEX].map((day) => ({
+        day,
+        interval: day >= 1 && day <= 5 ? { openMinutes: 540, closeMinutes: 1080 } : null,
+    })),
+};
+
+describe('searchHospitalsInDistricts', () => {
+    afterEach(() => {
+        resetClock();
+        hospitalListCache.clear();
+    });
+
+    it('캐시된 목록도 응답 시각 기준으로 영업 상태를 다시 계산', async () => {
+        // 10:00에 조회해 영업중으로 캐시된 결과
+        setKoreaNow(10);
+        hospitalListCache.set('서울특별시_강남구', [applyCurrentStatus(WEEKDAY_CLINIC)]);
+
+        setKoreaNow(20);
+        const result = await searchHospitalsInDistricts([{ sido: '서울특별시', sigungu: '강남구' }], 150, [], [], 37.5, 127);
+
+        expect(result.cached).toBe(true);
+        expect(result.places[0]).toMatchObject({ id: 'A1100001', isOpen: false, openStatus: 'closed' });
+    });
+});
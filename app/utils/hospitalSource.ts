@@ -0,0 +1,472 @@
+/**
+ * 병·의원 데이터 조회 서버 유틸리티 (공공데이터 API, 지역/반경/기관명 검색)
+ */
+
+import { Place, PlaceSearchResult, HospitalCategory } from '../types';
+import { removeDuplicatesById, fetchWithPagination, fetchPagesUntil, mapWithConcurrency } from './apiUtils';
+import { getWeeklySchedule, applyCurrentStatus, parseTodayTimeRaw, formatTime } from './businessHours';
+import { hospitalListCache, placeCache, MemoryCache } from './cache';
+import { calculateDistance, District } from './location';
+import { isHospitalCategory } from './hospitalCategories';
+import { fetchHospitalDetail, mapItemToDetail } from './hospitalDetail';
+
+const SERVICE_KEY = process.env.DATA_GO_KR_SERVICE_KEY || '';
+
+// 병·의원 목록정보 조회 API (주소 기반, 요일별 영업시간 포함)
+const HOSPITAL_LIST_API = 'http://apis.data.go.kr/B552657/HsptlAsembySearchService/getHsptlMdcncListInfoInqire';
+
+// 병·의원 위치정보 조회 API (좌표 기반, 거리순 정렬, 오늘 영업시간 포함)
+const HOSPITAL_LOCATION_API = 'http://apis.data.go.kr/B552657/HsptlAsembySearchService/getHsptlMdcncLcinfoInqire';
+
+// 여러 시/군/구 동시 조회 수 (API 할당량 보호)
+const DISTRICT_CONCURRENCY = 2;
+
+// 지역별 기관구분/진료과목 조회 동시 요청 수
+const QUERY_CONCURRENCY = 5;
+
+// API 응답 타입 (목록정보 조회)
+interface HospitalListApiItem {
+    hpid?: string;
+    dutyName?: string;
+    dutyAddr?: string;
+    dutyTel1?: string;
+    dutyDiv?: string;
+    dutyDivName?: string;
+    wgs84Lat?: number | string;
+    wgs84Lon?: number | string;
+    // 요일별 영업시간 (1:월 ~ 7:일, 8:공휴일)
+    dutyTime1s?: string | number; // 월요일 시작
+    dutyTime1c?: string | number; // 월요일 종료
+    dutyTime2s?: string | number;
+    dutyTime2c?: string | number;
+    dutyTime3s?: string | number;
+    dutyTime3c?: string | number;
+    dutyTime4s?: string | number;
+    dutyTime4c?: string | number;
+    dutyTime5s?: string | number;
+    dutyTime5c?: string | number;
+    dutyTime6s?: string | number; // 토요일
+    dutyTime6c?: string | number;
+    dutyTime7s?: string | number; // 일요일
+    dutyTime7c?: string | number;
+    dutyTime8s?: string | number; // 공휴일
+    dutyTime8c?: string | number;
+}
+
+// API 응답 타입 (위치정보 조회)
+interface HospitalLocationApiItem {
+    hpid?: string;
+    dutyName?: string;
+    dutyAddr?: string;
+    dutyTel1?: string;
+    dutyDiv?: string;
+    dutyDivName?: string;
+    latitude?: number | string;
+    longitude?: number | string;
+    startTime?: string | number; // 오늘 진료 시작
+    endTime?: string | number;   // 오늘 진료 종료
+}
+
+const CATEGORY_MAP: Record<string, string> = {
+    A: '종합병원',
+    B: '병원',
+    C: '의원',
+    D: '요양병원',
+    M: '치과병원',
+    N: '치과의원',
+    I: '기타',
+};
+
+/**
+ * 기관구분 코드 변환 (필터 대상이 아닌 기타 등은 undefined)
+ */
+function toCategoryCode(dutyDiv?: string): HospitalCategory | undefined {
+    return dutyDiv && isHospitalCategory(dutyDiv) ? dutyDiv : undefined;
+}
+
+// 치과 진료과목 코드
+const DENTAL_DEPARTMENT_CODE = 'D026';
+
+// 기관구분 (CODE_MST H000)
+const GENERAL_CLASSES: HospitalCategory[] = ['A', 'B', 'C'];   // 종합병원, 병원, 의원
+const DENTAL_CLASSES: HospitalCategory[] = ['M', 'N'];         // 치과병원, 치과의원
+
+// 상위 API 조회 조건 (기관구분 + 진료과목)
+interface HospitalQuery {
+    qz: string;
+    qd?: string;
+}
+
+/**
+ * 선택한 진료과목/병원 종류에 필요한 상위 API 조회 조건 계획
+ * - 병원 종류: 선택한 기관구분만 조회 (미선택 시 일반 병의원(A,B,C) + 치과(M,N))
+ * - 진료과목: 치과가 아닌 기관구분을 과목별로
+ * - 치과: 치과 데이터는 QD가 비어 있으므로 QD 없이 치과 기관구분(M,N)으로
+ */
+function planHospitalQueries(departmentCodes: string[], categories: HospitalCategory[]): HospitalQuery[] {
+    const classes = categories.length > 0 ? [...new Set(categories)] : [...GENERAL_CLASSES, ...DENTAL_CLASSES];
+
+    if (departmentCodes.length === 0) {
+        return classes.map((qz) => ({ qz }));
+    }
+
+    const dentalClasses = classes.filter((qz) => DENTAL_CLASSES.includes(qz));
+    const otherClasses = classes.filter((qz) => !DENTAL_CLASSES.includes(qz));
+
+    const queries: HospitalQuery[] = [];
+    for (const code of new Set(departmentCodes)) {
+        if (code === DENTAL_DEPARTMENT_CODE) {
+            queries.push(...dentalClasses.map((qz) => ({ qz })));
+        } else {
+            queries.push(...otherClasses.map((qz) => ({ qz, qd: code })));
+        }
+    }
+    return queries;
+}
+
+/**
+ * 주소 기반 병원 목록 조회 (기관구분/진료과목별 조회 결과 병합, 기관ID 기준 중복 제거)
+ */
+async function fetchHospitalsByAddress(
+    sido: string,
+    sigungu: string,
+    numOfRows: number,
+    departmentCodes: string[],
+    categories: HospitalCategory[]
+): Promise<HospitalListApiItem[]> {
+    if (!SERVICE_KEY) {
+        console.error('공공데이터 API 서비스 키가 설정되지 않았습니다.');
+        return [];
+    }
+
+    const url = new URL(HOSPITAL_LIST_API);
+    url.searchParams.set('Q0', sido);
+    url.searchParams.set('Q1', sigungu);
+    url.searchParams.set('numOfRows', String(numOfRows));
+    url.searchParams.set('pageNo', '1');
+
+    const queries = planHospitalQueries(departmentCodes, categories);
+    console.log(`Fetching hospitals: ${sido} ${sigungu}${departmentCodes.length > 0 ? ` (과목: ${departmentCodes.join(',')})` : ''}${categories.length > 0 ? ` (종류: ${categories.join(',')})` : ''}, ${queries.length} queries`);
+
+    try {
+        // 서비스 키는 이미 인코딩되어 있다고 가정하고 수동으로 붙임 (URL 객체 사용 시 이중 인코딩 주의)
+        const getUrl = ({ qz, qd }: HospitalQuery) => {
+            const u = new URL(url.toString());
+            u.searchParams.set('QZ', qz);
+            if (qd) {
+                u.searchParams.set('QD', qd);
+            }
+            return `${u.toString()}&ServiceKey=${SERVICE_KEY}`;
+        };
+
+        const results = await mapWithConcurrency(queries, QUERY_CONCURRENCY, (query) => fetchHospitalList(getUrl(query)));
+
+        // 여러 과목에 함께 조회된 기관은 한 번만
+        const seen = new Set<string>();
+        return results.flat().filter((item) => {
+            if (!item.hpid) return true;
+            if (seen.has(item.hpid)) return false;
+            seen.add(item.hpid);
+            return true;
+        });
+    } catch (error) {
+        console.error('병원 API 호출 실패:', error);
+        return [];
+    }
+}
+
+async function fetchHospitalList(url: string): Promise<HospitalListApiItem[]> {
+    // 150개씩, 최대 300개 조회 (API 호출 최소화)
+    return fetchWithPagination<HospitalListApiItem>(url, 150, 300);
+}
+
+function mapItemToPlace(item: HospitalListApiItem, userLat?: number, userLng?: number): Place | null {
+    if (!item.wgs84Lat || !item.wgs84Lon) {
+        return null;
+    }
+
+    const lat = typeof item.wgs84Lat === 'string' ? parseFloat(item.wgs84Lat) : item.wgs84Lat;
+    const lng = typeof item.wgs84Lon === 'string' ? parseFloat(item.wgs84Lon) : item.wgs84Lon;
+
+    if (isNaN(lat) || isNaN(lng)) {
+        return null;
+    }
+
+    const category = CATEGORY_MAP[item.dutyDiv || ''] || item.dutyDivName || '병원';
+    // 기준 위치 없이 조회하면 (공유 페이지) 거리 생략
+    const distance = userLat !== undefined && userLng !== undefined
+        ? calculateDistance(userLat, userLng, lat, lng)
+        : undefined;
+
+    // 영업 상태와 오늘 영업시간은 주간 영업 구간으로 계산
+    return applyCurrentStatus<Place>({
+        id: item.hpid || `hospital_${lat}_${lng}`,
+        type: 'hospital',
+        name: item.dutyName || '이름 없음',
+        lat,
+        lng,
+        isOpen: false,
+        openStatus: 'unknown',
+        address: item.dutyAddr,
+        phone: item.dutyTel1,
+        distance,
+        category,
+        categoryCode: toCategoryCode(item.dutyDiv),
+        weeklySchedule: getWeeklySchedule(item),
+    });
+}
+
+/**
+ * 좌표 기반 병원 목록 조회 (거리순, 반경을 벗어나면 중단)
+ */
+async function fetchHospitalsByLocation(
+    lat: number,
+    lng: number,
+    radius: number,
+    numOfRows: number
+): Promise<HospitalLocationApiItem[]> {
+    if (!SERVICE_KEY) {
+        console.error('공공데이터 API 서비스 키가 설정되지 않았습니다.');
+        return [];
+    }
+
+    const url = new URL(HOSPITAL_LOCATION_API);
+    url.searchParams.set('WGS84_LON', String(lng));
+    url.searchParams.set('WGS84_LAT', String(lat));
+    url.searchParams.set('numOfRows', String(numOfRows));
+    url.searchParams.set('pageNo', '1');
+
+    console.log(`Fetching hospitals near ${lat},${lng} (반경 ${radius}m)`);
+
+    // 마지막 아이템이 반경 밖이면 이후 페이지는 모두 반경 밖
+    return fetchPagesUntil<HospitalLocationApiItem>(
+        `${url.toString()}&ServiceKey=${SERVICE_KEY}`,
+        (pageItems) => {
+            const last = pageItems[pageItems.length - 1];
+            const lastLat = parseFloat(String(last?.latitude));
+            const lastLng = parseFloat(String(last?.longitude));
+            return isNaN(lastLat) || isNaN(lastLng) || calculateDistance(lat, lng, lastLat, lastLng) > radius;
+        }
+    );
+}
+
+function mapLocationItemToPlace(item: HospitalLocationApiItem, userLat: number, userLng: number): Place | null {
+    const lat = parseFloat(String(item.latitude));
+    const lng = parseFloat(String(item.longitude));
+
+    if (isNaN(lat) || isNaN(lng)) {
+        return null;
+    }
+
+    const category = CATEGORY_MAP[item.dutyDiv || ''] || item.dutyDivName || '병원';
+
+    const todayHours = item.startTime && item.endTime
+        ? { open: formatTime(item.startTime), close: formatTime(item.endTime) }
+        : null;
+
+    return applyCurrentStatus<Place>({
+        id: item.hpid || `hospital_${lat}_${lng}`,
+        type: 'hospital',
+        name: item.dutyName || '이름 없음',
+        lat,
+        lng,
+        isOpen: false,
+        openStatus: 'unknown',
+        address: item.dutyAddr,
+        phone: item.dutyTel1,
+        distance: calculateDistance(userLat, userLng, lat, lng),
+        category,
+        categoryCode: toCategoryCode(item.dutyDiv),
+        todayHours,
+        todayTimeRaw: parseTodayTimeRaw(item.startTime, item.endTime),
+    });
+}
+
+/**
+ * 반경 내 병원 검색 (네이버 역지오코딩 없이 좌표만 사용, 진료과목 필터 미지원)
+ * - 위치정보 조회 API는 기관구분 조건이 없으므로 병원 종류는 조회 후 필터링
+ */
+export async function searchHospitalsByRadius(
+    lat: number,
+    lng: number,
+    radius: number,
+    numOfRows: number,
+    categories: HospitalCategory[]
+): Promise<PlaceSearchResult> {
+    const matchesCategory = (place: Place) =>
+        categories.length === 0 || (place.categoryCode !== undefined && categories.includes(place.categoryCode));
+
+    // 캐시 키 생성 (좌표 약 100m 단위 + 반경)
+    const cacheKey = `radius_${MemoryCache.createLocationKey(lat, lng)}_${radius}`;
+    const cachedData = hospitalListCache.get(cacheKey) as Place[] | null;
+
+    if (cachedData) {
+        console.log(`[CACHE HIT] Hospitals at ${cacheKey}, ${cachedData.length} items`);
+        const updatedData = cachedData
+            .map(place => applyCurrentStatus({ ...place, distance: calculateDistance(lat, lng, place.lat, place.lng) }))
+            .filter(place => place.distance <= radius && matchesCategory(place));
+        updatedData.sort((a, b) => a.distance - b.distance);
+        return { places: updatedData, cached: true };
+    }
+
+    const hospitals = await fetchHospitalsByLocation(lat, lng, radius, numOfRows);
+    console.log(`API returned ${hospitals.length} hospitals (radius)`);
+
+    const places = hospitals
+        .map((item) => mapLocationItemToPlace(item, lat, lng))
+        .filter((place): place is Place => place !== null && (place.distance ?? Infinity) <= radius);
+
+    places.sort((a, b) => (a.distance || Infinity) - (b.distance || Infinity));
+    const uniquePlaces = removeDuplicatesById(places);
+
+    console.log(`Found ${uniquePlaces.length} hospitals within ${radius}m`);
+
+    // 캐시는 병원 종류와 무관하게 반경 내 전체 결과로 저장
+    hospitalListCache.set(cacheKey, uniquePlaces);
+
+    return { places: uniquePlaces.filter(matchesCategory), cached: false };
+}
+
+/**
+ * 시/군/구 단위 병원 목록 (지역별 캐시 사용)
+ */
+async function loadDistrictHospitals(
+    district: District,
+    numOfRows: number,
+    departmentCodes: string[],
+    categories: HospitalCategory[],
+    lat: number,
+    lng: number
+): Promise<PlaceSearchResult> {
+    // 캐시 키 생성 (시/군/구 + 진료과목/병원 종류 조합 - 같은 조건에서는 API 재호출 방지)
+    const filterKey = [[...departmentCodes].sort().join(','), [...categories].sort().join(',')]
+        .filter(Boolean)
+        .join('_');
+    const cacheKey = filterKey
+        ? `${district.sido}_${district.sigungu}_${filterKey}`
+        : `${district.sido}_${district.sigungu}`;
+    const cachedData = hospitalListCache.get(cacheKey) as Place[] | null;
+
+    if (cachedData) {
+        console.log(`[CACHE HIT] Hospitals at ${cacheKey}, ${cachedData.length} items`);
+        return { places: cachedData, cached: true };
+    }
+
+    console.log(`[CACHE MISS] Fetching hospitals: ${cacheKey}`);
+
+    const hospitals = await fetchHospitalsByAddress(district.sido, district.sigungu, numOfRows, departmentCodes, categories);
+    console.log(`API returned ${hospitals.length} hospitals`);
+
+    const places = hospitals
+        .map((item) => mapItemToPlace(item, lat, lng))
+        .filter((place): place is Place => place !== null);
+
+    // 거리순 정렬 및 중복 제거
+    places.sort((a, b) => (a.distance || Infinity) - (b.distance || Infinity));
+    const uniquePlaces = removeDuplicatesById(places);
+
+    const openCount = uniquePlaces.filter(p => p.isOpen).length;
+    const closedCount = uniquePlaces.filter(p => p.openStatus === 'closed').length;
+    const holidayCount = uniquePlaces.filter(p => p.openStatus === 'holiday').length;
+    console.log(`Found ${uniquePlaces.length} hospitals in ${cacheKey} (Open: ${openCount}, Closed: ${closedCount}, Holiday: ${holidayCount})`);
+
+    // 캐시에 저장
+    hospitalListCache.set(cacheKey, uniquePlaces);
+
+    return { places: uniquePlaces, cached: false };
+}
+
+/**
+ * 여러 시/군/구의 병원 검색
+ * - 지역별 결과 병합 후 현재 위치 기준 거리/영업 상태 재계산, 거리순 정렬 및 중복 제거
+ */
+export async function searchHospitalsInDistricts(
+    districts: District[],
+    numOfRows: number,
+    departmentCodes: string[],
+    categories: HospitalCategory[],
+    lat: number,
+    lng: number
+): Promise<PlaceSearchResult> {
+    const results = await mapWithConcurrency(districts, DISTRICT_CONCURRENCY, (district) =>
+        loadDistrictHospitals(district, numOfRows, departmentCodes, categories, lat, lng)
+    );
+
+    const places = results
+        .flatMap((result) => result.places)
+        .map(place => applyCurrentStatus({
+            ...place,
+            distance: calculateDistance(lat, lng, place.lat, place.lng)
+        }));
+    places.sort((a, b) => (a.distance || Infinity) - (b.distance || Infinity));
+
+    return {
+        places: districts.length > 1 ? removeDuplicatesById(places) : places,
+        cached: results.every((result) => result.cached),
+    };
+}
+
+/**
+ * 기관명으로 병원 검색 (전국, QN 사용)
+ * - 사용자 위치 기준 거리/영업 상태 재계산 후 거리순 정렬
+ */
+export async function searchHospitalsByName(
+    name: string,
+    numOfRows: number,
+    lat: number,
+    lng: number
+): Promise<PlaceSearchResult> {
+    const cacheKey = `name_${name}`;
+    let places = hospitalListCache.get(cacheKey) as Place[] | null;
+    const cached = places !== null;
+
+    if (!places) {
+        if (!SERVICE_KEY) {
+            console.error('공공데이터 API 서비스 키가 설정되지 않았습니다.');
+            return { places: [], cached: false };
+        }
+
+        const url = new URL(HOSPITAL_LIST_API);
+        url.searchParams.set('QN', name);
+        url.searchParams.set('numOfRows', String(numOfRows));
+        url.searchParams.set('pageNo', '1');
+
+        console.log(`Searching hospitals by name: ${name}`);
+
+        const hospitals = await fetchWithPagination<HospitalListApiItem>(`${url.toString()}&ServiceKey=${SERVICE_KEY}`, numOfRows, 300);
+        places = removeDuplicatesById(
+            hospitals
+                .map((item) => mapItemToPlace(item, lat, lng))
+                .filter((place): place is Place => place !== null)
+        );
+
+        hospitalListCache.set(cacheKey, places);
+    }
+
+    const updatedPlaces = places.map(place => applyCurrentStatus({
+        ...place,
+        distance: calculateDistance(lat, lng, place.lat, place.lng)
+    }));
+    updatedPlaces.sort((a, b) => a.distance - b.distance);
+
+    return { places: updatedPlaces, cached };
+}
+
+/**
+ * 기관ID로 병원 조회 (공유 페이지용, 상세 정보 포함)
+ */
+export async function getHospitalById(hpid: string): Promise<Place | null> {
+    const cacheKey = `hospital_${hpid}`;
+    let place = placeCache.get(cacheKey) as Place | null;
+
+    if (!place) {
+        const item = await fetchHospitalDetail(hpid);
+        place = item && mapItemToPlace(item);
+        if (!item || !place) return null;
+
+        place = { ...place, detail: mapItemToDetail(item, hpid) };
+        placeCache.set(cacheKey, place);
+    }
+
+    return applyCurrentStatus(place);
+}
@@ -0,0 +1,63 @@
+import DB_SCHEMA from '@/public/db-schema.json';
+
+/**
+ * 브라우저 로컬 DB (IndexedDB 'abg')
+ * - 즐겨찾기, 영업 알림 스토어를 함께 관리 (서비스 워커도 같은 DB를 열어 알림 확인)
+ * - 이름/버전/스토어는 public/db-schema.json 한 곳에서 관리 (public/sw.js도 같은 파일을 읽음)
+ * - 스토어를 추가하면 db-schema.json의 version을 올림
+ */
+
+// 스토어 이름 (모두 id 키)
+export const FAVORITES_STORE = DB_SCHEMA.stores.favorites;
+export const ALERTS_STORE = DB_SCHEMA.stores.alerts;
+
+const STORE_NAMES = Object.values(DB_SCHEMA.stores);
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * DB 열기 (최초 1회, 없는 스토어 생성)
+ */
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_SCHEMA.name, DB_SCHEMA.version);
+            request.onupgradeneeded = () => {
+                STORE_NAMES.forEach((name) => {
+                    if (!request.result.objectStoreNames.contains(name)) {
+                        request.result.createObjectStore(name, { keyPath: 'id' });
+                    }
+                });
+            };
+            request.onsuccess = () => {
+                // 다른 탭이나 서비스 워커가 버전을 올리면 닫고 다음 요청에서 다시 열기
+                request.result.onversionchange = () => {
+                    request.result.close();
+                    dbPromise = null;
+                };
+                resolve(request.result);
+            };
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+/**
+ * 트랜잭션 요청을 Promise로 변환
+ */
+export async function runRequest<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const request = action(db.transaction(storeName, mode).objectStore(storeName));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
@@ -0,0 +1,33 @@
+/**
+ * 로컬 지오코더 (네이버 API 키가 없는 개발/테스트 환경용)
+ * - 주요 역과 랜드마크만 이름으로 찾음
+ */
+
+import { GeocodeResult } from '../types';
+
+const LOCAL_PLACES: GeocodeResult[] = [
+    { name: '서울역', address: '서울특별시 용산구 한강대로 405', lat: 37.5547, lng: 126.9707 },
+    { name: '서울시청', address: '서울특별시 중구 세종대로 110', lat: 37.5665, lng: 126.978 },
+    { name: '강남역', address: '서울특별시 강남구 강남대로 396', lat: 37.4979, lng: 127.0276 },
+    { name: '홍대입구역', address: '서울특별시 마포구 양화로 160', lat: 37.5572, lng: 126.9245 },
+    { name: '잠실역', address: '서울특별시 송파구 올림픽로 265', lat: 37.5133, lng: 127.1001 },
+    { name: '수원역', address: '경기도 수원시 팔달구 덕영대로 924', lat: 37.2659, lng: 127.0001 },
+    { name: '인천터미널역', address: '인천광역시 미추홀구 연남로 35', lat: 37.4425, lng: 126.6997 },
+    { name: '대전역', address: '대전광역시 동구 중앙로 215', lat: 36.3323, lng: 127.4342 },
+    { name: '동대구역', address: '대구광역시 동구 동대구로 550', lat: 35.8793, lng: 128.6285 },
+    { name: '광주송정역', address: '광주광역시 광산구 상무대로 201', lat: 35.1374, lng: 126.7907 },
+    { name: '부산역', address: '부산광역시 동구 중앙대로 206', lat: 35.1151, lng: 129.0413 },
+    { name: '제주국제공항', address: '제주특별자치도 제주시 공항로 2', lat: 33.5104, lng: 126.4914 },
+];
+
+/**
+ * 이름 또는 주소에 검색어가 포함된 장소 찾기 (공백 무시)
+ */
+export function localGeocode(query: string): GeocodeResult[] {
+    const normalized = query.replace(/\s+/g, '');
+    if (!normalized) return [];
+
+    return LOCAL_PLACES.filter(
+        (place) => place.name.includes(normalized) || place.address.replace(/\s+/g, '').includes(normalized)
+    );
+}
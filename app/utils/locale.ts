@@ -0,0 +1,84 @@
+/**
+ * 화면 언어 감지 및 언어별 시각 표시
+ * - 저장된 선택(쿠키) → 브라우저 언어(Accept-Language) → 한국어 순
+ */
+
+import { Locale, LOCALE_NAMES } from '../types';
+
+export const DEFAULT_LOCALE: Locale = 'ko';
+
+// 언어 선택 저장 쿠키 (서버 렌더링에서도 읽음)
+export const LOCALE_COOKIE = 'locale';
+export const LOCALE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+// 전체 언어 (선택 목록 표시 순서)
+export const LOCALES = Object.keys(LOCALE_NAMES) as Locale[];
+
+// Intl 포맷용 언어 태그
+const LOCALE_TAGS: Record<Locale, string> = {
+    ko: 'ko-KR',
+    en: 'en-US',
+    zh: 'zh-CN',
+    ja: 'ja-JP',
+    vi: 'vi-VN',
+};
+
+/**
+ * 언어 코드 검증
+ */
+export function isLocale(value: string | undefined | null): value is Locale {
+    return !!value && Object.hasOwn(LOCALE_NAMES, value);
+}
+
+/**
+ * Accept-Language 헤더를 선호 순서대로 정렬한 언어 태그 목록으로 변환
+ */
+export function parseAcceptLanguage(header: string | null): string[] {
+    if (!header) return [];
+    return header
+        .split(',')
+        .map((part) => {
+            const [tag, ...params] = part.trim().split(';');
+            const quality = params.find((param) => param.trim().startsWith('q='));
+            return { tag: tag.trim(), q: quality ? parseFloat(quality.trim().slice(2)) || 0 : 1 };
+        })
+        .filter(({ tag, q }) => tag && q > 0)
+        .sort((a, b) => b.q - a.q)
+        .map(({ tag }) => tag);
+}
+
+/**
+ * 선호 언어 목록에서 지원하는 첫 언어 (zh-TW → zh처럼 기본 언어로 비교)
+ */
+export function matchLocale(languages: readonly string[]): Locale {
+    for (const language of languages) {
+        const base = language.toLowerCase().split('-')[0];
+        if (isLocale(base)) return base;
+    }
+    return DEFAULT_LOCALE;
+}
+
+/**
+ * Intl 포맷용 언어 태그
+ */
+export function getLocaleTag(locale: Locale): string {
+    return LOCALE_TAGS[locale];
+}
+
+/**
+ * 분 단위 시각을 언어별 형식으로 변환 (예: 540 → 오전 9:00 / 9:00 AM / 9:00)
+ */
+export function formatClockMinutes(minutes: number, locale: Locale = DEFAULT_LOCALE): string {
+    const hours = Math.floor(minutes / 60) % 24;
+    const mins = minutes % 60;
+
+    // 한국어는 서버/브라우저 ICU 차이 없이 항상 같은 형식
+    if (locale === 'ko') {
+        const period = hours >= 12 ? '오후' : '오전';
+        const displayHours = hours > 12 ? hours - 12 : hours === 0 ? 12 : hours;
+        return `${period} ${displayHours}:${String(mins).padStart(2, '0')}`;
+    }
+
+    return new Intl.DateTimeFormat(getLocaleTag(locale), { hour: 'numeric', minute: '2-digit', timeZone: 'UTC' })
+        .format(new Date(Date.UTC(2000, 0, 1, hours, mins)));
+}
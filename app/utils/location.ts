@@ -0,0 +1,294 @@
+/**
+ * 위치 관련 서버 유틸리티 (지오코딩, 역지오코딩, 거리 계산)
+ */
+
+import { MapBounds, GeocodeResult } from '../types';
+import { districtCache, geocodeCache, MemoryCache } from './cache';
+import { mapWithConcurrency } from './apiUtils';
+import { localGeocode } from './localGeocoder';
+
+const NAVER_CLIENT_ID = process.env.NEXT_PUBLIC_NAVER_CLIENT_ID || '';
+const NAVER_CLIENT_SECRET = process.env.NAVER_CLIENT_SECRET || '';
+
+// 지오코더 선택 ('local'이면 네이버 API 대신 로컬 목록 사용 - 테스트용)
+const GEOCODER = process.env.GEOCODER || 'naver';
+
+// 주소 검색 최대 결과 수
+const MAX_GEOCODE_RESULTS = 5;
+
+// 화면 범위 내 행정구역 탐색 설정
+const DISTRICT_SAMPLE_STEP = 0.01;  // 샘플링 격자 최소 간격 (도, 약 1km)
+const MAX_SAMPLES_PER_AXIS = 4;     // 가로/세로 최대 샘플링 간격 수 (넓은 범위는 격자 간격을 2배씩 늘림)
+const MAX_DISTRICTS = 6;            // 한 번에 조회할 최대 시/군/구 수
+const GEOCODE_CONCURRENCY = 3;      // 역지오코딩 동시 요청 수
+
+// 정적 지도 이미지 크기 제한 (네이버 Static Map 최대 1024px)
+const MAX_STATIC_MAP_SIZE = 1024;
+const STATIC_MAP_LEVEL = 16;
+
+// 반경 검색 설정 (미터)
+const DEFAULT_RADIUS = 1000;
+const MIN_RADIUS = 100;
+const MAX_RADIUS = 10000;
+
+// 행정구역 (시도/시군구)
+export interface District {
+    sido: string;
+    sigungu: string;
+}
+
+// 조회할 행정구역 목록 (최대 개수를 넘어 일부 지역을 제외했으면 truncated)
+export interface DistrictLookup {
+    districts: District[];
+    truncated: boolean;
+}
+
+/**
+ * 좌표를 주소로 변환 (네이버 역지오코딩)
+ */
+export async function reverseGeocode(lat: number, lng: number): Promise<District | null> {
+    if (!NAVER_CLIENT_ID || !NAVER_CLIENT_SECRET) {
+        console.error('네이버 API 키가 설정되지 않았습니다.');
+        return null;
+    }
+
+    try {
+        const response = await fetch(
+            `https://naveropenapi.apigw.ntruss.com/map-reversegeocode/v2/gc?coords=${lng},${lat}&output=json&orders=admcode`,
+            {
+                headers: {
+                    'X-NCP-APIGW-API-KEY-ID': NAVER_CLIENT_ID,
+                    'X-NCP-APIGW-API-KEY': NAVER_CLIENT_SECRET,
+                },
+            }
+        );
+
+        if (!response.ok) {
+            console.error('역지오코딩 실패:', response.status);
+            return null;
+        }
+
+        const data = await response.json();
+        const result = data.results?.[0];
+
+        if (!result) {
+            return null;
+        }
+
+        const sido = result.region?.area1?.name || '';
+        const sigungu = result.region?.area2?.name || '';
+
+        return { sido, sigungu };
+    } catch (error) {
+        console.error('역지오코딩 에러:', error);
+        return null;
+    }
+}
+
+/**
+ * 주소를 좌표로 변환 (네이버 지오코딩, 요청 실패 시 null)
+ */
+async function naverGeocode(query: string): Promise<GeocodeResult[] | null> {
+    const response = await fetch(
+        `https://naveropenapi.apigw.ntruss.com/map-geocode/v2/geocode?query=${encodeURIComponent(query)}&count=${MAX_GEOCODE_RESULTS}`,
+        {
+            headers: {
+                'X-NCP-APIGW-API-KEY-ID': NAVER_CLIENT_ID,
+                'X-NCP-APIGW-API-KEY': NAVER_CLIENT_SECRET,
+            },
+        }
+    );
+
+    if (!response.ok) {
+        console.error('지오코딩 실패:', response.status);
+        return null;
+    }
+
+    const data = await response.json();
+    const addresses: { roadAddress?: string; jibunAddress?: string; x?: string; y?: string }[] = data.addresses || [];
+
+    return addresses
+        .map((item) => {
+            const address = item.roadAddress || item.jibunAddress || '';
+            return { name: address, address, lat: parseFloat(item.y || ''), lng: parseFloat(item.x || '') };
+        })
+        .filter((result) => result.address && !isNaN(result.lat) && !isNaN(result.lng));
+}
+
+/**
+ * 장소 위치에 핀을 꽂은 정적 지도 이미지 (네이버 Static Map, 키가 없으면 null)
+ */
+export async function fetchStaticMap(lat: number, lng: number, width: number, height: number): Promise<Blob | null> {
+    if (!NAVER_CLIENT_ID || !NAVER_CLIENT_SECRET) {
+        console.error('네이버 API 키가 설정되지 않았습니다.');
+        return null;
+    }
+
+    const url = new URL('https://naveropenapi.apigw.ntruss.com/map-static/v2/raster');
+    url.searchParams.set('w', String(Math.min(Math.max(Math.round(width), 1), MAX_STATIC_MAP_SIZE)));
+    url.searchParams.set('h', String(Math.min(Math.max(Math.round(height), 1), MAX_STATIC_MAP_SIZE)));
+    url.searchParams.set('center', `${lng},${lat}`);
+    url.searchParams.set('level', String(STATIC_MAP_LEVEL));
+    url.searchParams.set('markers', `type:d|size:mid|pos:${lng} ${lat}`);
+
+    const response = await fetch(url.toString(), {
+        headers: {
+            'X-NCP-APIGW-API-KEY-ID': NAVER_CLIENT_ID,
+            'X-NCP-APIGW-API-KEY': NAVER_CLIENT_SECRET,
+        },
+    });
+
+    if (!response.ok) {
+        console.error('정적 지도 조회 실패:', response.status);
+        return null;
+    }
+
+    return response.blob();
+}
+
+/**
+ * 주소 또는 역/랜드마크 이름을 좌표로 변환 (1시간 캐시)
+ * - 네이버 API 키가 없거나 GEOCODER=local이면 로컬 목록 사용
+ * - 네이버에서 찾지 못한 역/랜드마크는 로컬 목록으로 보완
+ * - 네이버 요청이 실패해 로컬 목록으로 대신한 결과는 캐시하지 않음 (대략적인 좌표가 1시간 남지 않도록)
+ */
+export async function geocode(query: string): Promise<GeocodeResult[]> {
+    const cacheKey = query.replace(/\s+/g, ' ').trim();
+    const cached = geocodeCache.get(cacheKey) as GeocodeResult[] | null;
+    if (cached) return cached;
+
+    if (GEOCODER === 'local' || !NAVER_CLIENT_ID || !NAVER_CLIENT_SECRET) {
+        return localGeocode(query);
+    }
+
+    try {
+        const results = await naverGeocode(query);
+        if (!results) return localGeocode(query);
+
+        const merged = results.length > 0 ? results : localGeocode(query);
+        geocodeCache.set(cacheKey, merged);
+        return merged;
+    } catch (error) {
+        console.error('지오코딩 에러:', error);
+        return localGeocode(query);
+    }
+}
+
+/**
+ * 캐시를 거쳐 역지오코딩 (약 100m 단위)
+ */
+async function reverseGeocodeCached(lat: number, lng: number): Promise<District | null> {
+    const cacheKey = MemoryCache.createLocationKey(lat, lng);
+    const cached = districtCache.get(cacheKey) as District | null;
+    if (cached) return cached;
+
+    const district = await reverseGeocode(lat, lng);
+    if (district) {
+        districtCache.set(cacheKey, district);
+    }
+    return district;
+}
+
+/**
+ * 쿼리 파라미터에서 지도 범위 파싱
+ * - bbox=서경,남위,동경,북위 또는 swLat, swLng, neLat, neLng
+ */
+export function parseBoundsParams(searchParams: URLSearchParams): MapBounds | null {
+    const bbox = searchParams.get('bbox')?.split(',').map((v) => parseFloat(v));
+    const [swLng, swLat, neLng, neLat] = bbox && bbox.length === 4
+        ? bbox
+        : ['swLng', 'swLat', 'neLng', 'neLat'].map((key) => parseFloat(searchParams.get(key) || ''));
+
+    if ([swLat, swLng, neLat, neLng].some(isNaN) || swLat >= neLat || swLng >= neLng) {
+        return null;
+    }
+
+    return { sw: { lat: swLat, lng: swLng }, ne: { lat: neLat, lng: neLng } };
+}
+
+/**
+ * 지도 범위에 맞는 샘플링 격자 간격 (확대 수준에 따라 최소 간격의 2의 거듭제곱 배)
+ */
+function getDistrictSampleStep(bounds: MapBounds): number {
+    const span = Math.max(bounds.ne.lat - bounds.sw.lat, bounds.ne.lng - bounds.sw.lng);
+    const scale = Math.ceil(Math.log2(span / (DISTRICT_SAMPLE_STEP * MAX_SAMPLES_PER_AXIS)));
+    return DISTRICT_SAMPLE_STEP * 2 ** Math.max(scale, 0);
+}
+
+/**
+ * 범위 안의 격자 좌표 (격자에 걸리지 않을 만큼 좁으면 가운데 한 점)
+ */
+function getGridValues(min: number, max: number, step: number): number[] {
+    const values: number[] = [];
+    for (let index = Math.ceil(min / step); index * step <= max; index++) {
+        // 부동소수점 오차로 캐시 키가 달라지지 않도록 반올림
+        values.push(Number((index * step).toFixed(6)));
+    }
+    return values.length > 0 ? values : [(min + max) / 2];
+}
+
+/**
+ * 지도 범위와 겹치는 시/군/구 목록 (중심 지역 우선)
+ * - 확대 수준에 맞춘 고정 격자로 샘플링하여 역지오코딩한 뒤 중복 제거
+ * - 격자가 지도 이동과 무관하게 고정되어 있어 이동해도 대부분 캐시에서 조회
+ */
+export async function getDistrictsInBounds(center: { lat: number; lng: number }, bounds: MapBounds): Promise<DistrictLookup> {
+    const step = getDistrictSampleStep(bounds);
+    const points = [center];
+    for (const lat of getGridValues(bounds.sw.lat, bounds.ne.lat, step)) {
+        for (const lng of getGridValues(bounds.sw.lng, bounds.ne.lng, step)) {
+            points.push({ lat, lng });
+        }
+    }
+
+    const results = await mapWithConcurrency(points, GEOCODE_CONCURRENCY, (point) => reverseGeocodeCached(point.lat, point.lng));
+
+    const districts = new Map<string, District>();
+    for (const district of results) {
+        // 바다 등 행정구역이 없는 지점은 제외
+        if (!district || !district.sido || !district.sigungu) continue;
+        const key = `${district.sido}_${district.sigungu}`;
+        if (!districts.has(key)) {
+            districts.set(key, district);
+        }
+    }
+
+    const found = Array.from(districts.values());
+    if (found.length > MAX_DISTRICTS) {
+        console.warn(`지도 범위의 시/군/구 ${found.length}곳 중 ${MAX_DISTRICTS}곳만 조회`);
+    }
+    return { districts: found.slice(0, MAX_DISTRICTS), truncated: found.length > MAX_DISTRICTS };
+}
+
+/**
+ * 조회할 시/군/구 결정 (지도 범위가 있으면 범위와 겹치는 모든 지역, 없으면 중심 지역)
+ */
+export async function resolveDistricts(center: { lat: number; lng: number }, bounds: MapBounds | null): Promise<DistrictLookup> {
+    if (bounds) {
+        return getDistrictsInBounds(center, bounds);
+    }
+    const address = await reverseGeocode(center.lat, center.lng);
+    return { districts: address ? [address] : [], truncated: false };
+}
+
+/**
+ * 반경 파라미터 파싱 (미터, 허용 범위로 제한)
+ */
+export function parseRadiusParam(value: string): number {
+    const radius = parseInt(value, 10) || DEFAULT_RADIUS;
+    return Math.min(Math.max(radius, MIN_RADIUS), MAX_RADIUS);
+}
+
+/**
+ * 두 좌표 사이의 거리 계산 (미터)
+ */
+export function calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
+    const R = 6371000; // 지구 반경 (미터)
+    const dLat = (lat2 - lat1) * Math.PI / 180;
+    const dLng = (lng2 - lng1) * Math.PI / 180;
+    const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+        Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+        Math.sin(dLng / 2) * Math.sin(dLng / 2);
+    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+    return Math.round(R * c);
+}
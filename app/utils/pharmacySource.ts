@@ -0,0 +1,379 @@
+/**
+ * 약국 데이터 조회 서버 유틸리티 (공공데이터 API, 지역/반경/기관명 검색)
+ */
+
+import { Place, PlaceSearchResult } from '../types';
+import { removeDuplicatesById, fetchWithPagination, fetchPagesUntil, mapWithConcurrency, fetchWithRetry, parseXmlResponse } from './apiUtils';
+import { getWeeklySchedule, applyCurrentStatus, parseTodayTimeRaw, formatTime } from './businessHours';
+import { pharmacyListCache, placeCache, MemoryCache } from './cache';
+import { calculateDistance, District } from './location';
+
+const SERVICE_KEY = process.env.DATA_GO_KR_SERVICE_KEY || '';
+
+// 약국 목록정보 조회 API (주소 기반, 요일별 영업시간 포함)
+const PHARMACY_LIST_API = 'http://apis.data.go.kr/B552657/ErmctInsttInfoInqireService/getParmacyListInfoInqire';
+
+// 약국 위치정보 조회 API (좌표 기반, 거리순 정렬, 오늘 영업시간 포함)
+const PHARMACY_LOCATION_API = 'http://apis.data.go.kr/B552657/ErmctInsttInfoInqireService/getParmacyLcinfoInqire';
+
+// 약국 기본정보 조회 API (기관ID 기반)
+const PHARMACY_BASIC_API = 'http://apis.data.go.kr/B552657/ErmctInsttInfoInqireService/getParmacyBassInfoInqire';
+
+// 여러 시/군/구 동시 조회 수 (API 할당량 보호)
+const DISTRICT_CONCURRENCY = 2;
+
+// API 응답 타입 (목록정보 조회)
+interface PharmacyListApiItem {
+    hpid?: string;
+    dutyName?: string;
+    dutyAddr?: string;
+    dutyTel1?: string;
+    wgs84Lat?: number | string;
+    wgs84Lon?: number | string;
+    // 요일별 영업시간 (1:월 ~ 7:일, 8:공휴일)
+    dutyTime1s?: string | number;
+    dutyTime1c?: string | number;
+    dutyTime2s?: string | number;
+    dutyTime2c?: string | number;
+    dutyTime3s?: string | number;
+    dutyTime3c?: string | number;
+    dutyTime4s?: string | number;
+    dutyTime4c?: string | number;
+    dutyTime5s?: string | number;
+    dutyTime5c?: string | number;
+    dutyTime6s?: string | number;
+    dutyTime6c?: string | number;
+    dutyTime7s?: string | number;
+    dutyTime7c?: string | number;
+    dutyTime8s?: string | number;
+    dutyTime8c?: string | number;
+}
+
+// API 응답 타입 (위치정보 조회)
+interface PharmacyLocationApiItem {
+    hpid?: string;
+    dutyName?: string;
+    dutyAddr?: string;
+    dutyTel1?: string;
+    latitude?: number | string;
+    longitude?: number | string;
+    startTime?: string | number; // 오늘 영업 시작
+    endTime?: string | number;   // 오늘 영업 종료
+}
+
+/**
+ * 주소 기반 약국 목록 조회
+ */
+async function fetchPharmaciesByAddress(
+    sido: string,
+    sigungu: string,
+    numOfRows: number
+): Promise<PharmacyListApiItem[]> {
+    if (!SERVICE_KEY) {
+        console.error('공공데이터 API 서비스 키가 설정되지 않았습니다.');
+        return [];
+    }
+
+    const url = new URL(PHARMACY_LIST_API);
+    url.searchParams.set('Q0', sido);
+    url.searchParams.set('Q1', sigungu);
+    url.searchParams.set('numOfRows', String(numOfRows));
+    url.searchParams.set('pageNo', '1');
+
+    const finalUrl = `${url.toString()}&ServiceKey=${SERVICE_KEY}`;
+
+    console.log(`Fetching pharmacies: ${sido} ${sigungu}`);
+
+    try {
+        return fetchWithPagination<PharmacyListApiItem>(finalUrl, numOfRows, 300);
+    } catch (error) {
+        console.error('약국 API 호출 실패:', error);
+        return [];
+    }
+}
+
+function mapItemToPlace(item: PharmacyListApiItem, userLat?: number, userLng?: number): Place | null {
+    if (!item.wgs84Lat || !item.wgs84Lon) {
+        return null;
+    }
+
+    const lat = typeof item.wgs84Lat === 'string' ? parseFloat(item.wgs84Lat) : item.wgs84Lat;
+    const lng = typeof item.wgs84Lon === 'string' ? parseFloat(item.wgs84Lon) : item.wgs84Lon;
+
+    if (isNaN(lat) || isNaN(lng)) {
+        return null;
+    }
+
+    // 기준 위치 없이 조회하면 (공유 페이지) 거리 생략
+    const distance = userLat !== undefined && userLng !== undefined
+        ? calculateDistance(userLat, userLng, lat, lng)
+        : undefined;
+
+    // 영업 상태와 오늘 영업시간은 주간 영업 구간으로 계산
+    return applyCurrentStatus<Place>({
+        id: item.hpid || `pharmacy_${lat}_${lng}`,
+        type: 'pharmacy',
+        name: item.dutyName || '이름 없음',
+        lat,
+        lng,
+        isOpen: false,
+        openStatus: 'unknown',
+        address: item.dutyAddr,
+        phone: item.dutyTel1,
+        distance,
+        category: '약국',
+        weeklySchedule: getWeeklySchedule(item),
+    });
+}
+
+/**
+ * 좌표 기반 약국 목록 조회 (거리순, 반경을 벗어나면 중단)
+ */
+async function fetchPharmaciesByLocation(
+    lat: number,
+    lng: number,
+    radius: number,
+    numOfRows: number
+): Promise<PharmacyLocationApiItem[]> {
+    if (!SERVICE_KEY) {
+        console.error('공공데이터 API 서비스 키가 설정되지 않았습니다.');
+        return [];
+    }
+
+    const url = new URL(PHARMACY_LOCATION_API);
+    url.searchParams.set('WGS84_LON', String(lng));
+    url.searchParams.set('WGS84_LAT', String(lat));
+    url.searchParams.set('numOfRows', String(numOfRows));
+    url.searchParams.set('pageNo', '1');
+
+    console.log(`Fetching pharmacies near ${lat},${lng} (반경 ${radius}m)`);
+
+    // 마지막 아이템이 반경 밖이면 이후 페이지는 모두 반경 밖
+    return fetchPagesUntil<PharmacyLocationApiItem>(
+        `${url.toString()}&ServiceKey=${SERVICE_KEY}`,
+        (pageItems) => {
+            const last = pageItems[pageItems.length - 1];
+            const lastLat = parseFloat(String(last?.latitude));
+            const lastLng = parseFloat(String(last?.longitude));
+            return isNaN(lastLat) || isNaN(lastLng) || calculateDistance(lat, lng, lastLat, lastLng) > radius;
+        }
+    );
+}
+
+function mapLocationItemToPlace(item: PharmacyLocationApiItem, userLat: number, userLng: number): Place | null {
+    const lat = parseFloat(String(item.latitude));
+    const lng = parseFloat(String(item.longitude));
+
+    if (isNaN(lat) || isNaN(lng)) {
+        return null;
+    }
+
+    const todayHours = item.startTime && item.endTime
+        ? { open: formatTime(item.startTime), close: formatTime(item.endTime) }
+        : null;
+
+    return applyCurrentStatus<Place>({
+        id: item.hpid || `pharmacy_${lat}_${lng}`,
+        type: 'pharmacy',
+        name: item.dutyName || '이름 없음',
+        lat,
+        lng,
+        isOpen: false,
+        openStatus: 'unknown',
+        address: item.dutyAddr,
+        phone: item.dutyTel1,
+        distance: calculateDistance(userLat, userLng, lat, lng),
+        category: '약국',
+        todayHours,
+        todayTimeRaw: parseTodayTimeRaw(item.startTime, item.endTime),
+    });
+}
+
+/**
+ * 반경 내 약국 검색 (네이버 역지오코딩 없이 좌표만 사용)
+ */
+export async function searchPharmaciesByRadius(
+    lat: number,
+    lng: number,
+    radius: number,
+    numOfRows: number
+): Promise<PlaceSearchResult> {
+    // 캐시 키 생성 (좌표 약 100m 단위 + 반경)
+    const cacheKey = `radius_${MemoryCache.createLocationKey(lat, lng)}_${radius}`;
+    const cachedData = pharmacyListCache.get(cacheKey) as Place[] | null;
+
+    if (cachedData) {
+        console.log(`[CACHE HIT] Pharmacies at ${cacheKey}, ${cachedData.length} items`);
+        const updatedData = cachedData
+            .map(place => applyCurrentStatus({ ...place, distance: calculateDistance(lat, lng, place.lat, place.lng) }))
+            .filter(place => place.distance <= radius);
+        updatedData.sort((a, b) => a.distance - b.distance);
+        return { places: updatedData, cached: true };
+    }
+
+    const pharmacies = await fetchPharmaciesByLocation(lat, lng, radius, numOfRows);
+    console.log(`API returned ${pharmacies.length} pharmacies (radius)`);
+
+    const places = pharmacies
+        .map((item) => mapLocationItemToPlace(item, lat, lng))
+        .filter((place): place is Place => place !== null && (place.distance ?? Infinity) <= radius);
+
+    places.sort((a, b) => (a.distance || Infinity) - (b.distance || Infinity));
+    const uniquePlaces = removeDuplicatesById(places);
+
+    console.log(`Found ${uniquePlaces.length} pharmacies within ${radius}m`);
+
+    pharmacyListCache.set(cacheKey, uniquePlaces);
+
+    return { places: uniquePlaces, cached: false };
+}
+
+/**
+ * 시/군/구 단위 약국 목록 (지역별 캐시 사용)
+ */
+async function loadDistrictPharmacies(
+    district: District,
+    numOfRows: number,
+    lat: number,
+    lng: number
+): Promise<PlaceSearchResult> {
+    // 캐시 키 생성 (시/군/구 기반 - 같은 지역에서는 API 재호출 방지)
+    const cacheKey = `${district.sido}_${district.sigungu}`;
+    const cachedData = pharmacyListCache.get(cacheKey) as Place[] | null;
+
+    if (cachedData) {
+        console.log(`[CACHE HIT] Pharmacies at ${cacheKey}, ${cachedData.length} items`);
+        return { places: cachedData, cached: true };
+    }
+
+    console.log(`[CACHE MISS] Fetching pharmacies: ${district.sido} ${district.sigungu}`);
+
+    const pharmacies = await fetchPharmaciesByAddress(district.sido, district.sigungu, numOfRows);
+    console.log(`API returned ${pharmacies.length} pharmacies`);
+
+    const places = pharmacies
+        .map((item) => mapItemToPlace(item, lat, lng))
+        .filter((place): place is Place => place !== null);
+
+    // 거리순 정렬 및 중복 제거
+    places.sort((a, b) => (a.distance || Infinity) - (b.distance || Infinity));
+    const uniquePlaces = removeDuplicatesById(places);
+
+    const openCount = uniquePlaces.filter(p => p.isOpen).length;
+    const closedCount = uniquePlaces.filter(p => p.openStatus === 'closed').length;
+    const holidayCount = uniquePlaces.filter(p => p.openStatus === 'holiday').length;
+    console.log(`Found ${uniquePlaces.length} pharmacies in ${cacheKey} (Open: ${openCount}, Closed: ${closedCount}, Holiday: ${holidayCount})`);
+
+    // 캐시에 저장
+    pharmacyListCache.set(cacheKey, uniquePlaces);
+
+    return { places: uniquePlaces, cached: false };
+}
+
+/**
+ * 여러 시/군/구의 약국 검색
+ * - 지역별 결과 병합 후 현재 위치 기준 거리/영업 상태 재계산, 거리순 정렬 및 중복 제거
+ */
+export async function searchPharmaciesInDistricts(
+    districts: District[],
+    numOfRows: number,
+    lat: number,
+    lng: number
+): Promise<PlaceSearchResult> {
+    const results = await mapWithConcurrency(districts, DISTRICT_CONCURRENCY, (district) =>
+        loadDistrictPharmacies(district, numOfRows, lat, lng)
+    );
+
+    const places = results
+        .flatMap((result) => result.places)
+        .map(place => applyCurrentStatus({
+            ...place,
+            distance: calculateDistance(lat, lng, place.lat, place.lng)
+        }));
+    places.sort((a, b) => (a.distance || Infinity) - (b.distance || Infinity));
+
+    return {
+        places: districts.length > 1 ? removeDuplicatesById(places) : places,
+        cached: results.every((result) => result.cached),
+    };
+}
+
+/**
+ * 약국명으로 약국 검색 (전국, QN 사용)
+ * - 사용자 위치 기준 거리/영업 상태 재계산 후 거리순 정렬
+ */
+export async function searchPharmaciesByName(
+    name: string,
+    numOfRows: number,
+    lat: number,
+    lng: number
+): Promise<PlaceSearchResult> {
+    const cacheKey = `name_${name}`;
+    let places = pharmacyListCache.get(cacheKey) as Place[] | null;
+    const cached = places !== null;
+
+    if (!places) {
+        if (!SERVICE_KEY) {
+            console.error('공공데이터 API 서비스 키가 설정되지 않았습니다.');
+            return { places: [], cached: false };
+        }
+
+        const url = new URL(PHARMACY_LIST_API);
+        url.searchParams.set('QN', name);
+        url.searchParams.set('numOfRows', String(numOfRows));
+        url.searchParams.set('pageNo', '1');
+
+        console.log(`Searching pharmacies by name: ${name}`);
+
+        const pharmacies = await fetchWithPagination<PharmacyListApiItem>(`${url.toString()}&ServiceKey=${SERVICE_KEY}`, numOfRows, 300);
+        places = removeDuplicatesById(
+            pharmacies
+                .map((item) => mapItemToPlace(item, lat, lng))
+                .filter((place): place is Place => place !== null)
+        );
+
+        pharmacyListCache.set(cacheKey, places);
+    }
+
+    const updatedPlaces = places.map(place => applyCurrentStatus({
+        ...place,
+        distance: calculateDistance(lat, lng, place.lat, place.lng)
+    }));
+    updatedPlaces.sort((a, b) => a.distance - b.distance);
+
+    return { places: updatedPlaces, cached };
+}
+
+/**
+ * 기관ID로 약국 조회 (공유 페이지용)
+ */
+export async function getPharmacyById(hpid: string): Promise<Place | null> {
+    const cacheKey = `pharmacy_${hpid}`;
+    let place = placeCache.get(cacheKey) as Place | null;
+
+    if (!place) {
+        if (!SERVICE_KEY) {
+            console.error('공공데이터 API 서비스 키가 설정되지 않았습니다.');
+            return null;
+        }
+
+        const url = new URL(PHARMACY_BASIC_API);
+        url.searchParams.set('HPID', hpid);
+        url.searchParams.set('pageNo', '1');
+        url.searchParams.set('numOfRows', '1');
+
+        const response = await fetchWithRetry(`${url.toString()}&ServiceKey=${SERVICE_KEY}`);
+        if (!response.ok) {
+            console.error('약국 기본정보 API 호출 실패:', response.status);
+            return null;
+        }
+
+        const { items } = parseXmlResponse<PharmacyListApiItem>(await response.text());
+        place = items[0] ? mapItemToPlace(items[0]) : null;
+        if (!place) return null;
+
+        placeCache.set(cacheKey, place);
+    }
+
+    return applyCurrentStatus(place);
+}
@@ -0,0 +1,90 @@
+/**
+ * 영업 알림 시각 계산
+ * - 주간 영업 구간을 분 단위로 따라가며 실시간 영업 상태와 같은 기준(getOpenStatusAt)으로 전환 시점을 찾음
+ * - 'opening': 영업 전/휴무 → 영업중, 'closing': 영업중 → 곧 종료(마감 30분 전)
+ */
+
+import { DaySchedule, Locale, OpenStatusInfo, Place, PlaceAlert, PlaceAlertKind } from '../types';
+import { getTimeRawFromSchedule } from './businessHours';
+import { getOpenStatusAt } from './realtimeStatus';
+import { fromKoreaTime, getKoreaNow, getMinutesOfDay } from './clock';
+
+// 미리 계산해 둘 기간 (앱을 열 때마다 다시 계산)
+const ALERT_HORIZON_DAYS = 7;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * 이전 상태에서 현재 상태로 바뀔 때 알릴지
+ */
+function isAlertTransition(kind: PlaceAlertKind, prev: OpenStatusInfo, current: OpenStatusInfo): boolean {
+    if (kind === 'opening') return !prev.isOpen && current.isOpen;
+    return prev.openStatus !== 'closingSoon' && current.openStatus === 'closingSoon';
+}
+
+/**
+ * 앞으로 알릴 시각 목록 (epoch ms, 지금 이후 ALERT_HORIZON_DAYS일)
+ */
+export function getAlertTriggers(schedule: DaySchedule[], kind: PlaceAlertKind, koreaNow: Date = getKoreaNow()): number[] {
+    const triggers: number[] = [];
+    const startMinutes = getMinutesOfDay(koreaNow);
+    let prev: OpenStatusInfo | null = null;
+
+    for (let dayOffset = 0; dayOffset <= ALERT_HORIZON_DAYS; dayOffset++) {
+        const day = new Date(koreaNow.getFullYear(), koreaNow.getMonth(), koreaNow.getDate() + dayOffset);
+        const timeRaw = getTimeRawFromSchedule(schedule, day);
+
+        for (let minutes = dayOffset === 0 ? startMinutes : 0; minutes < MINUTES_PER_DAY; minutes++) {
+            const current = getOpenStatusAt(timeRaw, minutes);
+            // 지금 상태는 기준으로만 사용 (이미 영업중이면 다음 영업 시작부터 알림)
+            if (prev && isAlertTransition(kind, prev, current)) {
+                const wallClock = new Date(day.getFullYear(), day.getMonth(), day.getDate(), Math.floor(minutes / 60), minutes % 60);
+                triggers.push(fromKoreaTime(wallClock).getTime());
+            }
+            prev = current;
+        }
+    }
+
+    return triggers;
+}
+
+/**
+ * 알림을 만들 수 있는 주간 영업 구간 (목록 조회 또는 상세 정보)
+ */
+export function getAlertSchedule(place: Place): DaySchedule[] | null {
+    const schedule = place.weeklySchedule ?? place.detail?.weeklySchedule;
+    return schedule && schedule.some((d) => d.interval) ? schedule : null;
+}
+
+/**
+ * 알림 ID (장소당 종류별 1개)
+ */
+export function getAlertId(placeId: string, kind: PlaceAlertKind): string {
+    return `${placeId}:${kind}`;
+}
+
+/**
+ * 장소 영업 알림 생성 (영업시간 정보가 없으면 null)
+ */
+export function createPlaceAlert(place: Place, kind: PlaceAlertKind, locale: Locale): PlaceAlert | null {
+    const schedule = getAlertSchedule(place);
+    if (!schedule) return null;
+
+    return {
+        id: getAlertId(place.id, kind),
+        placeId: place.id,
+        placeName: place.name,
+        kind,
+        weeklySchedule: schedule,
+        triggers: getAlertTriggers(schedule, kind),
+        createdAt: Date.now(),
+        locale,
+    };
+}
+
+/**
+ * 저장된 영업 구간으로 알림 시각 다시 계산 (지난 시각 제거, 기간 연장)
+ */
+export function refreshAlertTriggers(alert: PlaceAlert): PlaceAlert {
+    return { ...alert, triggers: getAlertTriggers(alert.weeklySchedule, alert.kind) };
+}
@@ -0,0 +1,31 @@
+/**
+ * 장소 종류/진료과목 표시 이름 (언어별)
+ * - 공공데이터의 한국어 이름을 코드로 되돌려 번역, 모르는 이름은 원문 그대로
+ */
+
+import { Locale, MedicalDepartment, Place, DEPARTMENT_NAMES } from '../types';
+import { translate } from '../locales';
+import { DEFAULT_LOCALE } from './locale';
+import { DEPARTMENT_CODES } from './departments';
+
+// 한국어 이름 → 진료과목 코드
+const DEPARTMENT_CODE_BY_NAME = new Map<string, MedicalDepartment>(
+    DEPARTMENT_CODES.map((code) => [DEPARTMENT_NAMES[code], code])
+);
+
+/**
+ * 장소 종류 (병원은 기관구분, 코드가 없는 기관은 원래 이름)
+ */
+export function getPlaceCategoryLabel(place: Pick<Place, 'type' | 'category' | 'categoryCode'>, locale: Locale = DEFAULT_LOCALE): string {
+    if (place.categoryCode) return translate(locale, `category.${place.categoryCode}`);
+    if (place.type === 'pharmacy') return translate(locale, 'placeType.pharmacy');
+    return place.category || translate(locale, 'placeType.hospital');
+}
+
+/**
+ * 진료과목 이름 (상세 정보의 한국어 과목명)
+ */
+export function getDepartmentLabel(name: string, locale: Locale = DEFAULT_LOCALE): string {
+    const code = DEPARTMENT_CODE_BY_NAME.get(name);
+    return code ? translate(locale, `department.${code}`) : name;
+}
@@ -0,0 +1,23 @@
+/**
+ * 기관ID로 장소 조회 서버 유틸리티 (공유 페이지, 딥 링크 복원)
+ */
+
+import { Place } from '../types';
+import { getHospitalById } from './hospitalSource';
+import { getPharmacyById } from './pharmacySource';
+
+/**
+ * 병원/약국 중 해당 기관ID 조회 (약국 ID는 C로 시작하므로 약국 먼저)
+ * - 공공데이터 API 오류는 찾지 못한 것으로 처리 (공유 페이지가 서버 오류로 깨지지 않도록)
+ */
+export async function findPlaceById(id: string): Promise<Place | null> {
+    try {
+        if (id.startsWith('C')) {
+            return (await getPharmacyById(id)) ?? (await getHospitalById(id));
+        }
+        return (await getHospitalById(id)) ?? (await getPharmacyById(id));
+    } catch (error) {
+        console.error('장소 조회 실패:', error);
+        return null;
+    }
+}
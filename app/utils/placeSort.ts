@@ -0,0 +1,69 @@
+/**
+ * 장소 목록 정렬/집계 유틸리티 (거리순, 늦게까지 영업순, 이름순)
+ */
+
+import { Place, PlaceSortKey, OpenStatus, OPEN_STATUS_NAMES } from '../types';
+import { getRemainingOpenMinutes, getCurrentMinutes } from './realtimeStatus';
+
+// 지원하는 정렬 기준
+export const PLACE_SORT_KEYS: PlaceSortKey[] = ['distance', 'closes-latest', 'name'];
+
+/**
+ * 정렬 기준 문자열 검증
+ */
+export function isPlaceSortKey(value: string): value is PlaceSortKey {
+    return (PLACE_SORT_KEYS as string[]).includes(value);
+}
+
+/**
+ * 영업 종료까지 남은 시간 (분, 24시간 운영은 Infinity, 영업중이 아니면 null)
+ */
+export function getPlaceRemainingMinutes(place: Place, currentMinutes: number = getCurrentMinutes()): number | null {
+    // 응급실 등 영업시간 원본 없이 24시간으로 표시되는 장소
+    if (place.openStatus === 'open24h') return Infinity;
+    return getRemainingOpenMinutes(place.todayTimeRaw, currentMinutes);
+}
+
+/**
+ * 지금 영업중인지 확인 (곧 종료, 24시간 포함)
+ */
+export function isPlaceOpenNow(place: Place, currentMinutes: number = getCurrentMinutes()): boolean {
+    return getPlaceRemainingMinutes(place, currentMinutes) !== null;
+}
+
+/**
+ * 장소 목록 정렬 (새 배열 반환, 같은 순위는 거리순)
+ */
+export function sortPlaces(places: Place[], sortKey: PlaceSortKey, currentMinutes: number = getCurrentMinutes()): Place[] {
+    const byDistance = (a: Place, b: Place) => (a.distance ?? Infinity) - (b.distance ?? Infinity);
+
+    if (sortKey === 'name') {
+        return [...places].sort((a, b) => a.name.localeCompare(b.name, 'ko') || byDistance(a, b));
+    }
+
+    if (sortKey === 'closes-latest') {
+        // 영업중이 아닌 곳은 맨 뒤로
+        const remaining = new Map(places.map((place) => [place, getPlaceRemainingMinutes(place, currentMinutes) ?? -1]));
+        return [...places].sort((a, b) => {
+            const diff = remaining.get(b)! - remaining.get(a)!;
+            return diff > 0 ? 1 : diff < 0 ? -1 : byDistance(a, b);
+        });
+    }
+
+    return [...places].sort(byDistance);
+}
+
+/**
+ * 영업 상태별 장소 수 집계
+ */
+export function countByStatus(places: Place[]): Record<OpenStatus, number> {
+    const counts = Object.fromEntries(
+        Object.keys(OPEN_STATUS_NAMES).map((status) => [status, 0])
+    ) as Record<OpenStatus, number>;
+
+    for (const place of places) {
+        counts[place.openStatus]++;
+    }
+
+    return counts;
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { BusinessTimeRaw } from '../types';
+import { getOpenStatusAt, getRemainingOpenMinutes } from './realtimeStatus';
+
+// 분 단위 시각
+function at(hours: number, minutes = 0): number {
+    return hours * 60 + minutes;
+}
+
+// 금요일 19:00 - 익일 02:00 영업하는 곳의 토요일 (토요일은 휴무)
+const SATURDAY_AFTER_LATE_NIGHT: BusinessTimeRaw = { openMinutes: null, closeMinutes: null, isHoliday: true, prevCloseMinutes: at(2) };
+
+// 평일 09:00 - 18:00
+const DAYTIME: BusinessTimeRaw = { openMinutes: at(9), closeMinutes: at(18), isHoliday: false, prevCloseMinutes: null };
+
+// 19:00 - 익일 02:00 (전날 정보 없음)
+const LATE_NIGHT_UNKNOWN_PREV: BusinessTimeRaw = { openMinutes: at(19), closeMinutes: at(2), isHoliday: false };
+
+describe('getOpenStatusAt', () => {
+    it('전날 영업이 자정을 넘기면 오늘 휴무여도 전날 종료 시각까지 영업중', () => {
+        expect(getOpenStatusAt(SATURDAY_AFTER_LATE_NIGHT, at(1))).toEqual({ isOpen: true, openStatus: 'open', closesAt: at(2) });
+    });
+
+    it('전날 영업이 끝난 뒤에는 오늘 휴무', () => {
+        expect(getOpenStatusAt(SATURDAY_AFTER_LATE_NIGHT, at(3))).toEqual({ isOpen: false, openStatus: 'holiday' });
+    });
+
+    it('전날 정보가 없으면 자정 이후 구간을 오늘 영업으로 근사', () => {
+        expect(getOpenStatusAt(LATE_NIGHT_UNKNOWN_PREV, at(1))).toEqual({ isOpen: true, openStatus: 'open', closesAt: at(2) });
+        expect(getOpenStatusAt(LATE_NIGHT_UNKNOWN_PREV, at(3))).toEqual({ isOpen: false, openStatus: 'opensLater', opensAt: at(19) });
+        expect(getOpenStatusAt(LATE_NIGHT_UNKNOWN_PREV, at(23))).toEqual({ isOpen: true, openStatus: 'open', closesAt: at(2) });
+    });
+
+    it('전날 익일 영업이 없다고 알려져 있으면 자정 이후는 영업 전', () => {
+        expect(getOpenStatusAt({ ...LATE_NIGHT_UNKNOWN_PREV, prevCloseMinutes: null }, at(1))).toEqual({
+            isOpen: false,
+            openStatus: 'opensLater',
+            opensAt: at(19),
+        });
+    });
+
+    it('주간 영업은 시작 전, 영업중, 곧 종료, 종료 순으로 바뀜', () => {
+        expect(getOpenStatusAt(DAYTIME, at(8, 59)).openStatus).toBe('opensLater');
+        expect(getOpenStatusAt(DAYTIME, at(9)).openStatus).toBe('open');
+        expect(getOpenStatusAt(DAYTIME, at(17, 30)).openStatus).toBe('closingSoon');
+        expect(getOpenStatusAt(DAYTIME, at(18)).openStatus).toBe('closed');
+    });
+
+    it('시작과 종료가 같으면 24시간 운영', () => {
+        expect(getOpenStatusAt({ openMinutes: 0, closeMinutes: 0, isHoliday: false }, at(23, 45))).toEqual({
+            isOpen: true,
+            openStatus: 'open24h',
+        });
+    });
+
+    it('0000 - 2400 영업은 자정 직전에도 곧 종료가 아닌 24시간 운영', () => {
+        const allDay: BusinessTimeRaw = { openMinutes: 0, closeMinutes: at(24), isHoliday: false, prevCloseMinutes: null };
+
+        expect(getOpenStatusAt(allDay, at(23, 45))).toEqual({ isOpen: true, openStatus: 'open24h' });
+        expect(getOpenStatusAt(allDay, at(0))).toEqual({ isOpen: true, openStatus: 'open24h' });
+        expect(getRemainingOpenMinutes(allDay, at(23, 45))).toBe(Infinity);
+    });
+
+    it('영업시간 데이터가 없으면 정보 없음', () => {
+        expect(getOpenStatusAt(undefined, at(12))).toEqual({ isOpen: false, openStatus: 'unknown' });
+    });
+});
+
+describe('getRemainingOpenMinutes', () => {
+    it('자정을 넘기는 영업은 익일 종료까지 남은 시간', () => {
+        expect(getRemainingOpenMinutes(LATE_NIGHT_UNKNOWN_PREV, at(23))).toBe(180);
+        expect(getRemainingOpenMinutes(SATURDAY_AFTER_LATE_NIGHT, at(1, 30))).toBe(30);
+    });
+
+    it('영업중이 아니면 null', () => {
+        expect(getRemainingOpenMinutes(DAYTIME, at(20))).toBeNull();
+    });
+});
@@ -2,23 +2,67 @@
  * 클라이언트에서 실시간 영업 상태를 계산하는 유틸리티
  */
 
-import { Place, OpenStatus, BusinessTimeRaw } from '../types';
+import { Place, BusinessTimeRaw, OpenStatusInfo, Locale } from '../types';
+import { translate } from '../locales';
+import { DEFAULT_LOCALE, formatClockMinutes } from './locale';
+import { getKoreaNow, getMinutesOfDay } from './clock';
+
+// 곧 종료 기준 (분)
+export const CLOSING_SOON_MINUTES = 30;
+
+const MINUTES_PER_DAY = 24 * 60;
 
 /**
- * 현재 시간(분)을 반환
+ * 현재 한국 시간(분)을 반환
  */
 export function getCurrentMinutes(): number {
-    const now = new Date();
-    return now.getHours() * 60 + now.getMinutes();
+    return getMinutesOfDay(getKoreaNow());
+}
+
+/**
+ * 영업 상태 계산 기준 시각 (분, 방문 예정 시각이 있으면 그 시각, 없으면 지금)
+ */
+export function getStatusMinutes(visitTime?: Date | null): number {
+    return visitTime ? getMinutesOfDay(visitTime) : getCurrentMinutes();
 }
 
 /**
- * 영업시간 원본 데이터를 기반으로 현재 영업 상태 계산
+ * 24시간 운영 구간인지 확인 (시작 == 종료, 또는 0000 - 2400)
  */
-export function calculateOpenStatus(timeRaw: BusinessTimeRaw | undefined): { isOpen: boolean; openStatus: OpenStatus } {
-    // 데이터 없으면 영업중으로 가정
+export function isAllDayInterval(openMinutes: number, closeMinutes: number): boolean {
+    return closeMinutes === openMinutes || (openMinutes === 0 && closeMinutes >= MINUTES_PER_DAY);
+}
+
+/**
+ * 공휴일 영업시간이 적용 중이면 공휴일 이름 반환 (안내 문구용)
+ */
+export function getAppliedHolidayName(timeRaw: BusinessTimeRaw | undefined): string | null {
+    return timeRaw?.holidayName ?? null;
+}
+
+/**
+ * 영업중 상태 (종료까지 남은 시간이 기준 이내면 곧 종료)
+ */
+function openUntil(closesAt: number, minutesLeft: number): OpenStatusInfo {
+    return {
+        isOpen: true,
+        openStatus: minutesLeft <= CLOSING_SOON_MINUTES ? 'closingSoon' : 'open',
+        closesAt,
+    };
+}
+
+/**
+ * 영업시간 원본 데이터를 기반으로 특정 시각(분)의 영업 상태 계산
+ */
+export function getOpenStatusAt(timeRaw: BusinessTimeRaw | undefined, currentMinutes: number): OpenStatusInfo {
+    // 데이터 없으면 알 수 없음 (영업중으로 가정하지 않음)
     if (!timeRaw) {
-        return { isOpen: true, openStatus: 'open' };
+        return { isOpen: false, openStatus: 'unknown' };
+    }
+
+    // 전날 영업이 자정을 넘겨 이어지는 중 (오늘 휴일이어도 영업중)
+    if (timeRaw.prevCloseMinutes != null && currentMinutes < timeRaw.prevCloseMinutes) {
+        return openUntil(timeRaw.prevCloseMinutes, timeRaw.prevCloseMinutes - currentMinutes);
     }
 
     // 휴일인 경우
@@ -26,22 +70,71 @@ export function calculateOpenStatus(timeRaw: BusinessTimeRaw | undefined): { isO
         return { isOpen: false, openStatus: 'holiday' };
     }
 
-    // 영업시간 정보 없으면 영업중으로 가정
+    // 영업시간 정보 없음
     if (timeRaw.openMinutes === null || timeRaw.closeMinutes === null) {
-        return { isOpen: true, openStatus: 'open' };
+        return { isOpen: false, openStatus: 'unknown' };
     }
 
-    const currentMinutes = getCurrentMinutes();
     const { openMinutes, closeMinutes } = timeRaw;
 
-    // 24시간 운영 또는 익일 종료 처리
-    if (closeMinutes <= openMinutes) {
-        const isOpen = currentMinutes >= openMinutes || currentMinutes < closeMinutes;
-        return { isOpen, openStatus: isOpen ? 'open' : 'closed' };
+    // 24시간 운영 (시작 == 종료, 0000 - 2400)
+    if (isAllDayInterval(openMinutes, closeMinutes)) {
+        return { isOpen: true, openStatus: 'open24h' };
+    }
+
+    // 익일 종료 처리
+    // - 전날 정보가 있으면 자정 이후 구간은 전날 영업으로 판단 (위에서 처리)
+    // - 전날 정보가 없으면(undefined) 오늘 구간의 자정 이후 부분으로 근사
+    if (closeMinutes < openMinutes) {
+        if (currentMinutes >= openMinutes) {
+            return openUntil(closeMinutes, closeMinutes + MINUTES_PER_DAY - currentMinutes);
+        }
+        if (timeRaw.prevCloseMinutes === undefined && currentMinutes < closeMinutes) {
+            return openUntil(closeMinutes, closeMinutes - currentMinutes);
+        }
+        return { isOpen: false, openStatus: 'opensLater', opensAt: openMinutes };
     }
 
-    const isOpen = currentMinutes >= openMinutes && currentMinutes < closeMinutes;
-    return { isOpen, openStatus: isOpen ? 'open' : 'closed' };
+    if (currentMinutes < openMinutes) {
+        return { isOpen: false, openStatus: 'opensLater', opensAt: openMinutes };
+    }
+
+    if (currentMinutes < closeMinutes) {
+        return openUntil(closeMinutes, closeMinutes - currentMinutes);
+    }
+
+    return { isOpen: false, openStatus: 'closed' };
+}
+
+/**
+ * 특정 시각(분)부터 영업 종료까지 남은 시간 (분)
+ * - 24시간 운영은 Infinity, 영업중이 아니면 null
+ */
+export function getRemainingOpenMinutes(timeRaw: BusinessTimeRaw | undefined, currentMinutes: number): number | null {
+    const info = getOpenStatusAt(timeRaw, currentMinutes);
+    if (info.openStatus === 'open24h') return Infinity;
+    if (!info.isOpen || info.closesAt === undefined) return null;
+    return (info.closesAt - currentMinutes + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+}
+
+/**
+ * 영업시간 원본 데이터를 기반으로 현재(또는 주어진 시각) 영업 상태 계산
+ */
+export function calculateOpenStatus(timeRaw: BusinessTimeRaw | undefined, currentMinutes: number = getCurrentMinutes()): OpenStatusInfo {
+    return getOpenStatusAt(timeRaw, currentMinutes);
+}
+
+/**
+ * 영업 상태 표시 문구 (곧 종료/영업 전은 시각 포함)
+ */
+export function getStatusLabel(info: OpenStatusInfo, locale: Locale = DEFAULT_LOCALE): string {
+    if (info.openStatus === 'closingSoon' && info.closesAt !== undefined) {
+        return translate(locale, 'status.closesAt', { time: formatClockMinutes(info.closesAt, locale) });
+    }
+    if (info.openStatus === 'opensLater' && info.opensAt !== undefined) {
+        return translate(locale, 'status.opensAt', { time: formatClockMinutes(info.opensAt, locale) });
+    }
+    return translate(locale, `status.${info.openStatus}`);
 }
 
 /**
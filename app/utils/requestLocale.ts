@@ -0,0 +1,32 @@
+/**
+ * 요청 언어
+ * - proxy.ts가 저장된 선택(쿠키) 또는 Accept-Language로 언어를 골라 경로 앞에 붙임 (/about → /en/about)
+ * - 페이지는 쿠키/헤더 대신 경로의 언어만 읽으므로 소개/약관 등은 언어별로 정적 생성
+ */
+
+import type { NextRequest } from 'next/server';
+import { Locale } from '../types';
+import { DEFAULT_LOCALE, isLocale, LOCALE_COOKIE, matchLocale, parseAcceptLanguage } from './locale';
+
+// 언어 경로 아래 페이지의 props
+export interface LocalePageProps {
+    params: Promise<{ locale: string }>;
+}
+
+/**
+ * 요청의 선호 언어 (proxy.ts 전용)
+ */
+export function detectRequestLocale(request: NextRequest): Locale {
+    const saved = request.cookies.get(LOCALE_COOKIE)?.value;
+    if (isLocale(saved)) return saved;
+
+    return matchLocale(parseAcceptLanguage(request.headers.get('accept-language')));
+}
+
+/**
+ * 경로의 언어 (서버 컴포넌트 전용, 알 수 없는 값은 기본 언어)
+ */
+export async function getRequestLocale(params: LocalePageProps['params']): Promise<Locale> {
+    const { locale } = await params;
+    return isLocale(locale) ? locale : DEFAULT_LOCALE;
+}
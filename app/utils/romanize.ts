@@ -0,0 +1,99 @@
+/**
+ * 한글 로마자 표기 (국어의 로마자 표기법 기준 간이 변환)
+ * - 외국어 화면에서 장소 이름/주소 옆에 읽는 법 힌트로 표시 (원문은 그대로 유지)
+ * - 연음, ㄹㄹ 정도만 반영하고 자음동화 등 발음 규칙은 생략
+ */
+
+const HANGUL_START = 0xac00;
+const HANGUL_END = 0xd7a3;
+
+// 초성 19자
+const INITIALS = ['g', 'kk', 'n', 'd', 'tt', 'r', 'm', 'b', 'pp', 's', 'ss', '', 'j', 'jj', 'ch', 'k', 't', 'p', 'h'];
+
+// 중성 21자
+const MEDIALS = ['a', 'ae', 'ya', 'yae', 'eo', 'e', 'yeo', 'ye', 'o', 'wa', 'wae', 'oe', 'yo', 'u', 'wo', 'we', 'wi', 'yu', 'eu', 'ui', 'i'];
+
+// 종성 28자 (받침 없음 포함, 음절 끝 발음)
+const FINALS = ['', 'k', 'k', 'k', 'n', 'n', 'n', 't', 'l', 'k', 'm', 'l', 'l', 'l', 'p', 'l', 'm', 'p', 'p', 't', 't', 'ng', 't', 't', 'k', 't', 'p', 't'];
+
+// 뒤 음절이 모음으로 시작할 때 넘어가는 받침 소리 (연음, 겹받침은 뒤 자음만)
+const LINKED_FINALS = ['', 'g', 'kk', 's', 'n', 'j', '', 'd', 'r', 'g', 'm', 'b', 's', 't', 'p', 'r', 'm', 'b', 's', 's', 'ss', 'ng', 'j', 'ch', 'k', 't', 'p', ''];
+
+// 겹받침은 앞 자음이 남음 (예: ㄺ → l + g)
+const REMAINING_FINALS: Record<number, string> = { 3: 'k', 5: 'n', 6: 'n', 9: 'l', 10: 'l', 11: 'l', 12: 'l', 13: 'l', 14: 'l', 18: 'p' };
+
+// 받침 ㄹ, 초성 ㄹ, 초성 ㅇ(소리 없음) 인덱스
+const FINAL_RIEUL = 8;
+const INITIAL_RIEUL = 5;
+const INITIAL_SILENT = 11;
+
+interface Syllable {
+    initial: number;
+    medial: number;
+    final: number;
+}
+
+function decompose(char: string): Syllable | null {
+    const code = char.charCodeAt(0);
+    if (code < HANGUL_START || code > HANGUL_END) return null;
+    const offset = code - HANGUL_START;
+    return {
+        initial: Math.floor(offset / 588),
+        medial: Math.floor((offset % 588) / 28),
+        final: offset % 28,
+    };
+}
+
+/**
+ * 한글이 포함되어 있는지
+ */
+export function hasHangul(text: string): boolean {
+    return /[가-힣]/.test(text);
+}
+
+/**
+ * 한 단어(공백 없는 문자열)를 로마자로 변환
+ */
+function romanizeWord(word: string): string {
+    const chars = Array.from(word);
+    let result = '';
+
+    chars.forEach((char, index) => {
+        const syllable = decompose(char);
+        if (!syllable) {
+            result += char;
+            return;
+        }
+
+        const prev = index > 0 ? decompose(chars[index - 1]) : null;
+        const next = index < chars.length - 1 ? decompose(chars[index + 1]) : null;
+
+        // 초성: ㄹㄹ은 ll
+        const initial = prev && prev.final === FINAL_RIEUL && syllable.initial === INITIAL_RIEUL
+            ? 'l'
+            : INITIALS[syllable.initial];
+
+        // 종성: 뒤 음절이 모음으로 시작하면 연음
+        let final = FINALS[syllable.final];
+        if (next && syllable.final !== 0 && next.initial === INITIAL_SILENT) {
+            final = (REMAINING_FINALS[syllable.final] ?? '') + LINKED_FINALS[syllable.final];
+        }
+
+        result += initial + MEDIALS[syllable.medial] + final;
+    });
+
+    return result;
+}
+
+/**
+ * 문자열의 한글을 로마자로 변환 (단어 첫 글자 대문자, 한글 외 문자는 그대로)
+ */
+export function romanizeKorean(text: string): string {
+    return text
+        .split(/(\s+)/)
+        .map((word) => {
+            const romanized = romanizeWord(word);
+            return hasHangul(word) ? romanized.charAt(0).toUpperCase() + romanized.slice(1) : romanized;
+        })
+        .join('');
+}
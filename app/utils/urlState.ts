@@ -0,0 +1,67 @@
+/**
+ * 지도 상태 ↔ 주소 쿼리 변환 유틸리티 (딥 링크, 뒤로/앞으로 가기)
+ * - 예: ?lat=37.5665&lng=126.978&zoom=16&type=hospital&dept=D001,D002&cat=C&place=A1100001
+ */
+
+import { FilterType, MapUrlState } from '../types';
+import { isMedicalDepartment } from './departments';
+import { isHospitalCategory } from './hospitalCategories';
+
+const FILTER_TYPES: FilterType[] = ['all', 'hospital', 'pharmacy', 'emergency'];
+
+// 지도 확대 수준 범위 (지도 설정과 동일)
+const MIN_ZOOM = 10;
+const MAX_ZOOM = 19;
+
+// 좌표 소수점 자리수 (약 10cm)
+const COORD_PRECISION = 6;
+
+/**
+ * 쉼표로 구분된 목록 파라미터 파싱
+ */
+function parseList(value: string | null): string[] {
+    return value ? value.split(',').map((v) => v.trim()).filter(Boolean) : [];
+}
+
+/**
+ * 주소 쿼리에서 지도 상태 파싱 (잘못된 값은 기본값)
+ */
+export function parseMapUrlState(params: URLSearchParams): MapUrlState {
+    const lat = parseFloat(params.get('lat') || '');
+    const lng = parseFloat(params.get('lng') || '');
+    const zoom = parseInt(params.get('zoom') || '', 10);
+    const type = params.get('type') as FilterType | null;
+    const filter = type && FILTER_TYPES.includes(type) ? type : 'all';
+    // 약국 모드에서는 진료과목/병원 종류를 쓰지 않음
+    const isPharmacy = filter === 'pharmacy';
+
+    return {
+        center: isNaN(lat) || isNaN(lng) ? null : { lat, lng },
+        zoom: isNaN(zoom) ? null : Math.min(Math.max(zoom, MIN_ZOOM), MAX_ZOOM),
+        filter,
+        departments: isPharmacy ? [] : parseList(params.get('dept')).filter(isMedicalDepartment),
+        categories: isPharmacy ? [] : parseList(params.get('cat')).filter(isHospitalCategory),
+        placeId: params.get('place') || null,
+    };
+}
+
+/**
+ * 지도 상태를 주소 쿼리로 변환 (기본값은 생략)
+ */
+export function buildMapUrlQuery(state: MapUrlState): string {
+    const params = new URLSearchParams();
+
+    if (state.center) {
+        params.set('lat', state.center.lat.toFixed(COORD_PRECISION));
+        params.set('lng', state.center.lng.toFixed(COORD_PRECISION));
+    }
+    if (state.zoom !== null) params.set('zoom', String(state.zoom));
+    if (state.filter !== 'all') params.set('type', state.filter);
+    if (state.departments.length > 0) params.set('dept', state.departments.join(','));
+    if (state.categories.length > 0) params.set('cat', state.categories.join(','));
+    if (state.placeId) params.set('place', state.placeId);
+
+    // 쉼표는 읽기 쉽도록 그대로 둠
+    const query = params.toString().replace(/%2C/g, ',');
+    return query ? `?${query}` : '';
+}
@@ -1,20 +1,16 @@
 import type { NextConfig } from 'next';
-import withPWAInit from '@ducanh2912/next-pwa';
 
-const withPWA = withPWAInit({
-  dest: 'public',
-  cacheOnFrontEndNav: true,
-  aggressiveFrontEndNavCaching: true,
-  reloadOnOnline: true,
-  disable: false, // 개발 환경에서도 PWA 기능 활성화 (테스트용)
-  workboxOptions: {
-    disableDevLogs: true,
-  },
-});
+// 빌드마다 바뀌는 ID (public/sw.js 캐시 버전으로 사용, 새 빌드를 배포하면 이전 캐시 삭제)
+const buildId = process.env.BUILD_ID || Date.now().toString(36);
 
+// 서비스 워커는 직접 작성한 public/sw.js 사용 (PWA 플러그인이 덮어쓰지 않도록 플러그인 없음)
 const nextConfig: NextConfig = {
+  generateBuildId: async () => buildId,
+  env: {
+    NEXT_PUBLIC_BUILD_ID: buildId,
+  },
   // Turbopack 빌드 지원을 위한 빈 설정
   turbopack: {},
 };
 
-export default withPWA(nextConfig);
+export default nextConfig;
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isLocale } from './app/utils/locale';
+import { detectRequestLocale } from './app/utils/requestLocale';
+
+/**
+ * 페이지 요청을 언어별 경로로 내부 재작성 (주소창의 URL은 그대로)
+ * - 언어가 경로에 있어 레이아웃/페이지가 쿠키를 읽지 않아도 됨 (정적 생성 유지)
+ */
+export function proxy(request: NextRequest) {
+    const { pathname } = request.nextUrl;
+    if (isLocale(pathname.split('/')[1])) return NextResponse.next();
+
+    const url = request.nextUrl.clone();
+    url.pathname = `/${detectRequestLocale(request)}${pathname === '/' ? '' : pathname}`;
+    return NextResponse.rewrite(url);
+}
+
+export const config = {
+    // API, 빌드 파일, public 파일(확장자 있음)은 제외
+    matcher: ['/((?!api|_next|.*\\..*).*)'],
+};
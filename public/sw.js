@@ -1,11 +1,401 @@
 // public/sw.js
+// 오프라인 지원: 앱 화면(셸) 미리 저장 + 병원/약국 조회 결과를 지역별로 저장 (네트워크 우선)
+// 영업 알림: 앱이 계산해 저장한 알림 시각(IndexedDB)이 지나면 로컬 알림 표시 (푸시 서버 없음)
+
+// 캐시 버전 = 빌드 ID (등록 URL의 v 파라미터, 새 빌드가 배포되면 이전 캐시 삭제)
+const CACHE_VERSION = new URL(self.location.href).searchParams.get('v') || 'dev';
+const SHELL_CACHE = `abg-shell-${CACHE_VERSION}`;
+const API_CACHE = `abg-api-${CACHE_VERSION}`;
+const RUNTIME_CACHE = `abg-runtime-${CACHE_VERSION}`;
+
+// 설치 시 미리 저장할 앱 셸 (빌드 파일은 첫 화면 HTML에서 찾아 함께 저장)
+const SHELL_URLS = [
+    '/',
+    '/manifest.json',
+    '/icons/icon.svg',
+    '/icons/icon-192x192.png',
+    '/icons/icon-512x512.png',
+    '/db-schema.json',
+];
+
+// 오프라인일 때 마지막 결과로 대신할 조회 API
+const CACHED_API_PATHS = ['/api/places', '/api/hospitals', '/api/pharmacies'];
+
+// 지역 구분 좌표 자리수 (소수점 2자리 ≈ 1km)
+const REGION_PRECISION = 2;
+
+// 지역 키에서 제외할 파라미터 (화면 범위/반경은 조금만 움직여도 바뀜)
+const VOLATILE_PARAMS = ['swLat', 'swLng', 'neLat', 'neLng', 'bbox', 'radius'];
+
+// 저장할 조회 결과 최대 개수 (오래된 것부터 삭제)
+const MAX_API_ENTRIES = 80;
+
+// 페이지/빌드 파일/지도 스크립트 최대 저장 개수
+const MAX_RUNTIME_ENTRIES = 120;
+
+// 저장 시각 헤더 (앱에서 "HH:mm 기준 오프라인 데이터" 표시)
+const CACHED_AT_HEADER = 'X-Cached-At';
+
+// 캐시해 두는 네이버 지도 스크립트 (오프라인에서도 지도 초기화)
+const MAP_SCRIPT_HOSTS = ['openapi.map.naver.com', 'oapi.map.naver.com'];
+
+// 앱과 같은 로컬 DB 구성 (이름/버전/스토어, app/utils/localDatabase.ts도 같은 파일 사용)
+const DB_SCHEMA_URL = '/db-schema.json';
+
+// 이보다 오래 지난 알림 시각은 표시하지 않고 버림 (기기가 꺼져 있던 경우 등, ms)
+const ALERT_STALE_AFTER = 15 * 60 * 1000;
+
+// 백그라운드 주기 동기화 태그 (app/hooks/usePlaceAlerts.ts)
+const PERIODIC_SYNC_TAG = 'place-alerts';
+
+// 언어별, 알림 종류별 문구 (alert.locale, 없으면 한국어)
+const ALERT_MESSAGES = {
+    ko: {
+        opening: (name) => ({ title: `${name} 영업 시작`, body: '지금 방문할 수 있어요.' }),
+        closing: (name) => ({ title: `${name} 곧 마감`, body: '30분 후 영업이 끝나요.' }),
+    },
+    en: {
+        opening: (name) => ({ title: `${name} is now open`, body: 'You can visit now.' }),
+        closing: (name) => ({ title: `${name} closes soon`, body: 'Closing in 30 minutes.' }),
+    },
+    zh: {
+        opening: (name) => ({ title: `${name} 已开门`, body: '现在可以前往。' }),
+        closing: (name) => ({ title: `${name} 即将关门`, body: '30分钟后停止营业。' }),
+    },
+    ja: {
+        opening: (name) => ({ title: `${name} 営業開始`, body: '今すぐ受診できます。' }),
+        closing: (name) => ({ title: `${name} まもなく終了`, body: '30分後に営業が終わります。' }),
+    },
+    vi: {
+        opening: (name) => ({ title: `${name} đã mở cửa`, body: 'Bạn có thể đến ngay bây giờ.' }),
+        closing: (name) => ({ title: `${name} sắp đóng cửa`, body: 'Đóng cửa sau 30 phút.' }),
+    },
+};
+
+/**
+ * 첫 화면 HTML에서 빌드 파일(JS/CSS) 경로 추출
+ */
+function extractAssetUrls(html) {
+    const urls = new Set();
+    const pattern = /(?:src|href)="(\/_next\/static\/[^"]+)"/g;
+    let match;
+    while ((match = pattern.exec(html)) !== null) {
+        urls.add(match[1]);
+    }
+    return Array.from(urls);
+}
+
+/**
+ * 조회 요청의 지역 키 (중심 좌표를 약 1km 단위로 묶음, 나머지 조건은 그대로)
+ */
+function getRegionKey(url) {
+    const params = new URLSearchParams(url.search);
+    VOLATILE_PARAMS.forEach((key) => params.delete(key));
+
+    ['lat', 'lng'].forEach((key) => {
+        const value = parseFloat(params.get(key) || '');
+        if (!isNaN(value)) params.set(key, value.toFixed(REGION_PRECISION));
+    });
+
+    params.sort();
+    return `${url.origin}${url.pathname}?${params.toString()}`;
+}
+
+/**
+ * 위치를 제외한 조회 조건이 같은지 (다른 지역의 마지막 결과로 대신할 때)
+ */
+function isSameQuery(a, b) {
+    const strip = (url) => {
+        const params = new URLSearchParams(url.search);
+        params.delete('lat');
+        params.delete('lng');
+        return `${url.pathname}?${params.toString()}`;
+    };
+    return strip(a) === strip(b);
+}
+
+/**
+ * 응답에 저장 시각을 붙여 저장 (본문은 그대로)
+ */
+async function putWithTimestamp(cache, key, response) {
+    const headers = new Headers(response.headers);
+    headers.set(CACHED_AT_HEADER, String(Date.now()));
+    const body = await response.blob();
+    await cache.put(key, new Response(body, { status: response.status, statusText: response.statusText, headers }));
+}
+
+/**
+ * 오래된 조회 결과 정리 (저장 순서 = keys 순서)
+ */
+async function trimCache(cache, maxEntries) {
+    const keys = await cache.keys();
+    await Promise.all(keys.slice(0, Math.max(keys.length - maxEntries, 0)).map((key) => cache.delete(key)));
+}
+
+/**
+ * 같은 조건의 가장 최근 조회 결과 (현재 지역 결과가 없을 때)
+ */
+async function matchLatest(cache, url) {
+    const keys = await cache.keys();
+    let latest = null;
+    let latestTime = 0;
+
+    for (const request of keys) {
+        if (!isSameQuery(new URL(request.url), url)) continue;
+        const response = await cache.match(request);
+        const cachedAt = Number(response?.headers.get(CACHED_AT_HEADER) || 0);
+        if (response && cachedAt > latestTime) {
+            latest = response;
+            latestTime = cachedAt;
+        }
+    }
+
+    return latest;
+}
+
+/**
+ * 조회 API: 네트워크 우선, 실패하면 같은 지역(없으면 가장 최근)의 저장 결과
+ */
+async function handleApiRequest(request) {
+    const url = new URL(request.url);
+    const key = getRegionKey(url);
+    const cache = await caches.open(API_CACHE);
+
+    try {
+        const response = await fetch(request);
+        if (response.ok) {
+            // 같은 키를 지우고 다시 넣어 최근 순서 유지
+            await cache.delete(key);
+            await putWithTimestamp(cache, key, response.clone());
+            await trimCache(cache, MAX_API_ENTRIES);
+        }
+        return response;
+    } catch {
+        const cached = (await cache.match(key)) || (await matchLatest(cache, new URL(key)));
+        if (cached) return cached;
+
+        return new Response(
+            JSON.stringify({ success: false, error: '오프라인 상태이며 저장된 결과가 없습니다.', data: [] }),
+            { status: 503, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+}
+
+/**
+ * 페이지 이동: 네트워크 우선, 오프라인이면 저장된 페이지 또는 앱 셸 (쿼리는 무시)
+ */
+async function handleNavigation(request) {
+    const { pathname } = new URL(request.url);
+    const cache = await caches.open(pathname === '/' ? SHELL_CACHE : RUNTIME_CACHE);
+
+    try {
+        const response = await fetch(request);
+        if (response.ok) {
+            await cache.put(pathname, response.clone());
+            if (pathname !== '/') await trimCache(cache, MAX_RUNTIME_ENTRIES);
+        }
+        return response;
+    } catch {
+        return (await cache.match(pathname)) || (await caches.match('/')) || Response.error();
+    }
+}
+
+/**
+ * 빌드 파일/아이콘: 저장된 파일 우선 (파일명에 해시가 있어 바뀌지 않음)
+ */
+async function handleStaticAsset(request) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+
+    const response = await fetch(request);
+    if (response.ok) {
+        const cache = await caches.open(RUNTIME_CACHE);
+        await cache.put(request, response.clone());
+        await trimCache(cache, MAX_RUNTIME_ENTRIES);
+    }
+    return response;
+}
+
+/**
+ * 지도 스크립트: 저장된 스크립트로 바로 응답하고 백그라운드에서 갱신
+ */
+async function handleMapScript(event) {
+    const cache = await caches.open(RUNTIME_CACHE);
+    const cached = await cache.match(event.request);
+
+    const update = fetch(event.request)
+        .then(async (response) => {
+            // 다른 도메인 스크립트는 불투명 응답(status 0)으로 옴
+            if (response.ok || response.type === 'opaque') {
+                await cache.delete(event.request);
+                await cache.put(event.request, response.clone());
+                await trimCache(cache, MAX_RUNTIME_ENTRIES);
+            }
+            return response;
+        });
+
+    if (cached) {
+        event.waitUntil(update.catch(() => undefined));
+        return cached;
+    }
+    return update;
+}
+
+/**
+ * IndexedDB 요청을 Promise로 변환
+ */
+function promisifyRequest(request) {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * 로컬 DB 구성 읽기 (설치 때 저장한 파일 우선, 오프라인에서도 사용)
+ */
+async function loadDatabaseSchema() {
+    const response = (await caches.match(DB_SCHEMA_URL)) || (await fetch(DB_SCHEMA_URL));
+    return response.json();
+}
+
+/**
+ * 로컬 DB 열기 (앱보다 먼저 열리면 스토어 생성)
+ */
+function openDatabase(schema) {
+    const request = indexedDB.open(schema.name, schema.version);
+    request.onupgradeneeded = () => {
+        Object.values(schema.stores).forEach((name) => {
+            if (!request.result.objectStoreNames.contains(name)) {
+                request.result.createObjectStore(name, { keyPath: 'id' });
+            }
+        });
+    };
+    return promisifyRequest(request);
+}
+
+/**
+ * 알림 시각이 지난 항목 표시 후 해당 시각 제거
+ */
+async function checkAlerts() {
+    if (self.Notification?.permission !== 'granted') return;
+
+    const schema = await loadDatabaseSchema();
+    const alertsStore = schema.stores.alerts;
+    const db = await openDatabase(schema);
+    try {
+        const alerts = await promisifyRequest(db.transaction(alertsStore).objectStore(alertsStore).getAll());
+        const now = Date.now();
+
+        for (const alert of alerts) {
+            const due = alert.triggers.filter((time) => time <= now);
+            if (due.length === 0) continue;
+
+            // 여러 번 지났어도 최근 것 한 번만 (너무 오래 지났으면 생략)
+            if (now - due[due.length - 1] <= ALERT_STALE_AFTER) {
+                const { title, body } = (ALERT_MESSAGES[alert.locale] ?? ALERT_MESSAGES.ko)[alert.kind](alert.placeName);
+                await self.registration.showNotification(title, {
+                    body,
+                    tag: alert.id,
+                    icon: '/icons/icon-192x192.png',
+                    data: { placeId: alert.placeId },
+                });
+            }
+
+            const remaining = { ...alert, triggers: alert.triggers.filter((time) => time > now) };
+            await promisifyRequest(db.transaction(alertsStore, 'readwrite').objectStore(alertsStore).put(remaining));
+        }
+    } finally {
+        db.close();
+    }
+}
+
 self.addEventListener('install', (event) => {
-    console.log('Service Worker installing.');
+    event.waitUntil((async () => {
+        const cache = await caches.open(SHELL_CACHE);
+        await cache.addAll(SHELL_URLS);
+
+        // 첫 화면에 필요한 빌드 파일도 함께 저장 (일부 실패는 무시)
+        const shell = await cache.match('/');
+        if (shell) {
+            const assets = extractAssetUrls(await shell.text());
+            await Promise.all(assets.map((asset) => cache.add(asset).catch(() => undefined)));
+        }
+
+        await self.skipWaiting();
+    })());
 });
 
 self.addEventListener('activate', (event) => {
-    console.log('Service Worker activating.');
+    event.waitUntil((async () => {
+        // 이전 버전 캐시 삭제
+        const keep = [SHELL_CACHE, API_CACHE, RUNTIME_CACHE];
+        const names = await caches.keys();
+        await Promise.all(names.filter((name) => name.startsWith('abg-') && !keep.includes(name)).map((name) => caches.delete(name)));
+        await self.clients.claim();
+        await checkAlerts().catch(() => undefined);
+    })());
+});
+
+// 앱이 열려 있는 동안 주기적으로 요청
+self.addEventListener('message', (event) => {
+    if (event.data?.type === 'check-alerts') {
+        event.waitUntil(checkAlerts().catch(() => undefined));
+    }
+});
+
+// 앱이 닫혀 있을 때 (Periodic Background Sync 지원 브라우저)
+self.addEventListener('periodicsync', (event) => {
+    if (event.tag === PERIODIC_SYNC_TAG) {
+        event.waitUntil(checkAlerts().catch(() => undefined));
+    }
+});
+
+// 알림을 누르면 해당 장소를 연 지도 화면으로 이동 (열린 창이 있으면 재사용)
+self.addEventListener('notificationclick', (event) => {
+    event.notification.close();
+    const url = `/?place=${encodeURIComponent(event.notification.data?.placeId ?? '')}`;
+
+    event.waitUntil((async () => {
+        // navigate는 이 워커가 제어하는 창에서만 가능하므로 제어 중인 창만 찾음
+        const [client] = await self.clients.matchAll({ type: 'window' });
+        if (client) {
+            try {
+                await client.focus();
+                await client.navigate(url);
+                return;
+            } catch {
+                // 이동할 수 없으면 새 창으로 열기
+            }
+        }
+        await self.clients.openWindow(url);
+    })());
 });
 
 self.addEventListener('fetch', (event) => {
-});
\ No newline at end of file
+    const { request } = event;
+    if (request.method !== 'GET') return;
+
+    const url = new URL(request.url);
+
+    if (url.origin !== self.location.origin) {
+        if (MAP_SCRIPT_HOSTS.includes(url.hostname) && request.destination === 'script') {
+            event.respondWith(handleMapScript(event));
+        }
+        return;
+    }
+
+    if (CACHED_API_PATHS.includes(url.pathname)) {
+        event.respondWith(handleApiRequest(request));
+        return;
+    }
+
+    if (request.mode === 'navigate') {
+        event.respondWith(handleNavigation(request));
+        return;
+    }
+
+    if (url.pathname.startsWith('/_next/static/') || url.pathname.startsWith('/icons/')) {
+        event.respondWith(handleStaticAsset(request));
+    }
+});